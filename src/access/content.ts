@@ -0,0 +1,137 @@
+/**
+ * Content access: whether the account can open a compendium entry, because
+ * it's free (Basic Rules / SRD), the account owns its book or a campaign
+ * shares it, or not at all.
+ *
+ * D&D Beyond's accessType code only says whether the account can open an
+ * entry (1) or not (4); it doesn't tell ownership from campaign sharing, so
+ * both are "accessible", and "free" comes from the entry being printed in a
+ * free book. The monster service sends a code for every monster. Spells,
+ * items, feats and character options usually come without one; they fall back
+ * to the state of their books, as worked out from the monsters in them, and
+ * are "unknown" when that isn't known either.
+ */
+
+import type { SourceBook, SourceCatalog } from "../sources/catalog.js";
+
+export const ACCESS_STATES = ["accessible", "free", "locked", "unknown"] as const;
+export type AccessState = (typeof ACCESS_STATES)[number];
+
+/** D&D Beyond accessType codes, as recorded in docs/api-research.md. */
+const ACCESS_TYPES: Record<number, AccessState> = {
+  1: "accessible",
+  4: "locked",
+};
+
+// Best first, for an entry in several books: one book the account can open is enough
+const ACCESS_RANK: Record<AccessState, number> = { accessible: 3, free: 2, locked: 1, unknown: 0 };
+
+/** Titles of the books D&D Beyond gives every account. */
+const FREE_BOOK = /^(basic rules|free rules|systems reference document|srd)\b/i;
+
+/** Missing or unrecognized codes are unknown. */
+export function accessFromType(accessType: number | null | undefined): AccessState {
+  return (accessType != null && ACCESS_TYPES[accessType]) || "unknown";
+}
+
+/** Whether the account is known to be able to open the content; what ownedOnly keeps. */
+export function canOpen(access: AccessState): boolean {
+  return access === "accessible" || access === "free";
+}
+
+/** Text tag for result lines; only locked content gets one. */
+export function accessTag(access: AccessState): string {
+  return access === "locked" ? " [Locked]" : "";
+}
+
+/** IDs of the Basic Rules, Free Rules and SRD books in the catalog. */
+export function freeSourceIds(books: SourceBook[]): Set<number> {
+  return new Set(books.filter((b) => FREE_BOOK.test(b.title) || /^(br|srd)$/i.test(b.abbreviation ?? "")).map((b) => b.id));
+}
+
+/** Locked when any entry is locked (the account has none of its books), accessible when the rest are. */
+function combine(states: AccessState[]): AccessState | undefined {
+  const known = states.filter((s) => s !== "unknown");
+  if (known.length === 0) return undefined;
+  return known.includes("locked") ? "locked" : "accessible";
+}
+
+/**
+ * Access per sourcebook. Free books are free. Any other book takes the state
+ * of the entries printed only in it; when it has none, the entries it shares
+ * with other books that aren't free. Entries also in a free book say nothing
+ * about the other books they appear in, as every account can open them.
+ */
+export class SourceAccess {
+  private constructor(private readonly states: Map<number, AccessState>) {}
+
+  static fromEntries(
+    entries: Iterable<{ sourceIds: number[]; access: AccessState }>,
+    free: ReadonlySet<number>
+  ): SourceAccess {
+    const books = new Map<number, { only: AccessState[]; shared: AccessState[] }>();
+    const states = new Map<number, AccessState>();
+    for (const entry of entries) {
+      const inFreeBook = entry.sourceIds.some((id) => free.has(id));
+      for (const sourceId of entry.sourceIds) {
+        if (free.has(sourceId)) {
+          states.set(sourceId, "free");
+          continue;
+        }
+        const book = books.get(sourceId) ?? { only: [], shared: [] };
+        books.set(sourceId, book);
+        if (entry.sourceIds.length === 1) book.only.push(entry.access);
+        else if (!inFreeBook) book.shared.push(entry.access);
+      }
+    }
+    for (const [sourceId, book] of books) {
+      states.set(sourceId, combine(book.only) ?? combine(book.shared) ?? "unknown");
+    }
+    return new SourceAccess(states);
+  }
+
+  get(sourceId: number): AccessState | undefined {
+    return this.states.get(sourceId);
+  }
+
+  /** Every known book and its state. */
+  entries(): Array<{ sourceId: number; access: AccessState }> {
+    return [...this.states].map(([sourceId, access]) => ({ sourceId, access }));
+  }
+
+  /** The best state of the books an entry appears in; unknown when none is known. */
+  ofSources(sourceIds: number[]): AccessState {
+    let best: AccessState = "unknown";
+    for (const sourceId of sourceIds) {
+      const state = this.states.get(sourceId);
+      if (state && ACCESS_RANK[state] > ACCESS_RANK[best]) best = state;
+    }
+    return best;
+  }
+}
+
+/**
+ * Works out an entry's access: a locked code stands; an entry in a free book
+ * is free; otherwise its own code, or failing that its books' state.
+ */
+export class ContentAccess {
+  private constructor(
+    private readonly free: ReadonlySet<number>,
+    readonly books: SourceAccess
+  ) {}
+
+  /** Free books from the catalog; book states from the entries given, e.g. every indexed monster. */
+  static fromCatalog(
+    catalog: SourceCatalog,
+    entries: Iterable<{ sourceIds: number[]; access: AccessState }> = []
+  ): ContentAccess {
+    const free = freeSourceIds(catalog.books);
+    return new ContentAccess(free, SourceAccess.fromEntries(entries, free));
+  }
+
+  resolve(own: AccessState, sourceIds: number[]): AccessState {
+    if (own === "locked") return own;
+    if (sourceIds.some((id) => this.free.has(id))) return "free";
+    return own !== "unknown" ? own : this.books.ofSources(sourceIds);
+  }
+}
@@ -1,6 +1,42 @@
 import { TtlCache } from "../cache/lru.js";
-import { CircuitBreaker, RateLimiter, withRetry, HttpError } from "../resilience/index.js";
+import type { DiskCache } from "../cache/disk.js";
+import { CircuitBreaker, RateLimiter, withRetry, HttpError, type RequestPriority } from "../resilience/index.js";
 import { getCobaltToken, getAllCookies, buildAuthHeadersFromCookies } from "./auth.js";
+import type { FixtureStore } from "./fixtures.js";
+
+/**
+ * D&D Beyond APIs use two envelope formats:
+ *   Character-service: { id, success, message, data }
+ *   Campaign/Waterdeep: { status: "success", data }
+ * Unwrap both so callers always receive the data directly.
+ */
+function unwrapEnvelope<T>(json: unknown): T {
+  if (json && typeof json === "object" && "data" in json) {
+    // Character-service envelope: check `success` boolean
+    if ("success" in json) {
+      const envelope = json as { success: boolean; message?: string; data: unknown };
+      if (!envelope.success) {
+        throw new HttpError(
+          `D&D Beyond API error: ${envelope.message || "Unknown error"}`,
+          400,
+        );
+      }
+      return envelope.data as T;
+    }
+    // Waterdeep envelope: check `status` string
+    if ("status" in json && json.status === "success") {
+      return json.data as T;
+    }
+  }
+
+  return json as T;
+}
+
+export interface BatchGetRequest {
+  url: string;
+  cacheKey: string;
+  ttl?: number;
+}
 
 export class DdbClient {
   private authExpired = false;
@@ -9,6 +45,8 @@ export class DdbClient {
     private readonly cache: TtlCache<unknown>,
     private readonly circuitBreaker: CircuitBreaker,
     private readonly rateLimiter: RateLimiter,
+    private readonly fixtures: FixtureStore | null = null,
+    private readonly diskCache: DiskCache | null = null,
   ) {}
 
   get isAuthExpired(): boolean {
@@ -17,14 +55,24 @@ export class DdbClient {
 
   invalidateCache(key: string): void {
     this.cache.invalidate(key);
+    void this.diskCache?.invalidate(key);
+  }
+
+  /** Clears the in-memory cache and the persistent tier. Returns what was removed from disk. */
+  async clearCache(): Promise<{ entries: number; bytes: number }> {
+    this.cache.clear();
+    if (!this.diskCache) return { entries: 0, bytes: 0 };
+    const removed = await this.diskCache.stats();
+    await this.diskCache.clear();
+    return removed;
   }
 
   async get<T>(url: string, cacheKey: string, ttl?: number): Promise<T> {
-    const cached = this.cache.get(cacheKey) as T | undefined;
+    const cached = await this.lookup<T>(cacheKey, ttl);
     if (cached !== undefined) return cached;
 
     const result = await this.request<T>(url, { method: "GET" });
-    this.cache.set(cacheKey, result, ttl);
+    await this.store(cacheKey, result, ttl);
     return result;
   }
 
@@ -32,15 +80,37 @@ export class DdbClient {
    * GET that returns the raw JSON without envelope unwrapping.
    * Used for monster-service which has its own response format.
    */
-  async getRaw<T>(url: string, cacheKey: string, ttl?: number): Promise<T> {
-    const cached = this.cache.get(cacheKey) as T | undefined;
+  async getRaw<T>(url: string, cacheKey: string, ttl?: number, priority: RequestPriority = "interactive"): Promise<T> {
+    const cached = await this.lookup<T>(cacheKey, ttl);
     if (cached !== undefined) return cached;
 
-    const result = await this.requestRaw<T>(url, { method: "GET" });
-    this.cache.set(cacheKey, result, ttl);
+    const result = await this.requestRaw<T>(url, { method: "GET" }, priority);
+    await this.store(cacheKey, result, ttl);
     return result;
   }
 
+  /**
+   * GET of raw JSON that skips both cache tiers, for bulk fetches whose
+   * caller keeps its own compact copy (the monster index).
+   */
+  async fetchRaw<T>(url: string, priority: RequestPriority = "interactive"): Promise<T> {
+    return this.requestRaw<T>(url, { method: "GET" }, priority);
+  }
+
+  /**
+   * Several GETs, `batchSize` at a time, each through the cache and rate limiter.
+   * Results come back in request order; a failed fetch is a rejected entry
+   * rather than failing the whole batch.
+   */
+  async getMany<T>(requests: BatchGetRequest[], batchSize = 2): Promise<PromiseSettledResult<T>[]> {
+    const results: PromiseSettledResult<T>[] = [];
+    for (let i = 0; i < requests.length; i += Math.max(1, batchSize)) {
+      const batch = requests.slice(i, i + Math.max(1, batchSize));
+      results.push(...await Promise.allSettled(batch.map((r) => this.get<T>(r.url, r.cacheKey, r.ttl))));
+    }
+    return results;
+  }
+
   async post<T>(url: string, body: unknown, invalidateCacheKeys?: string[]): Promise<T> {
     const result = await this.request<T>(url, {
       method: "POST",
@@ -48,7 +118,7 @@ export class DdbClient {
     });
     if (invalidateCacheKeys) {
       for (const key of invalidateCacheKeys) {
-        this.cache.invalidate(key);
+        this.invalidateCache(key);
       }
     }
     return result;
@@ -61,7 +131,7 @@ export class DdbClient {
     });
     if (invalidateCacheKeys) {
       for (const key of invalidateCacheKeys) {
-        this.cache.invalidate(key);
+        this.invalidateCache(key);
       }
     }
     return result;
@@ -74,37 +144,55 @@ export class DdbClient {
     });
     if (invalidateCacheKeys) {
       for (const key of invalidateCacheKeys) {
-        this.cache.invalidate(key);
+        this.invalidateCache(key);
       }
     }
     return result;
   }
 
-  private async requestRaw<T>(url: string, options: RequestInit): Promise<T> {
-    await this.rateLimiter.acquire();
+  /** Memory first, then the disk tier for long-TTL keys (promoting hits back into memory). */
+  private async lookup<T>(cacheKey: string, ttl?: number): Promise<T | undefined> {
+    const cached = this.cache.get(cacheKey) as T | undefined;
+    if (cached !== undefined) return cached;
 
-    return this.circuitBreaker.execute(() =>
-      withRetry(async () => {
-        const headers = await this.buildHeaders(url);
-        const response = await fetch(url, { ...options, headers });
+    if (!this.diskCache?.accepts(ttl)) return undefined;
+    const persisted = await this.diskCache.get<T>(cacheKey);
+    if (persisted === undefined) return undefined;
 
-        if (!response.ok) {
-          if (response.status === 401) {
-            this.authExpired = true;
-          }
-          throw new HttpError(
-            `D&D Beyond API error: ${response.status} ${response.statusText}`,
-            response.status,
-          );
-        }
+    this.cache.set(cacheKey, persisted.value, persisted.expiresAt - Date.now());
+    return persisted.value;
+  }
 
-        return (await response.json()) as T;
-      })
-    );
+  private async store(cacheKey: string, value: unknown, ttl?: number): Promise<void> {
+    this.cache.set(cacheKey, value, ttl);
+    if (this.diskCache?.accepts(ttl)) {
+      await this.diskCache.set(cacheKey, value, ttl!);
+    }
+  }
+
+  private async requestRaw<T>(url: string, options: RequestInit, priority?: RequestPriority): Promise<T> {
+    return this.send(url, options, (json) => json as T, priority);
   }
 
   private async request<T>(url: string, options: RequestInit): Promise<T> {
-    await this.rateLimiter.acquire();
+    return this.send(url, options, (json) => unwrapEnvelope<T>(json));
+  }
+
+  private async send<T>(
+    url: string,
+    options: RequestInit,
+    parse: (json: unknown) => T,
+    priority: RequestPriority = "interactive",
+  ): Promise<T> {
+    const method = options.method ?? "GET";
+    const requestBody = typeof options.body === "string" ? options.body : undefined;
+
+    // Replay mode serves recorded responses without auth, rate limiting or network
+    if (this.fixtures?.isReplaying) {
+      return parse(await this.fixtures.replay(method, url, requestBody));
+    }
+
+    await this.rateLimiter.acquire(priority);
 
     return this.circuitBreaker.execute(() =>
       withRetry(async () => {
@@ -122,29 +210,10 @@ export class DdbClient {
         }
 
         const json = await response.json();
-
-        // D&D Beyond APIs use two envelope formats:
-        //   Character-service: { id, success, message, data }
-        //   Campaign/Waterdeep: { status: "success", data }
-        // Unwrap both so callers always receive the data directly.
-        if (json && typeof json === "object" && "data" in json) {
-          // Character-service envelope: check `success` boolean
-          if ("success" in json) {
-            if (!json.success) {
-              throw new HttpError(
-                `D&D Beyond API error: ${json.message || "Unknown error"}`,
-                400,
-              );
-            }
-            return json.data as T;
-          }
-          // Waterdeep envelope: check `status` string
-          if ("status" in json && json.status === "success") {
-            return json.data as T;
-          }
+        if (this.fixtures?.mode === "record") {
+          await this.fixtures.save(method, url, json, requestBody);
         }
-
-        return json as T;
+        return parse(json);
       })
     );
   }
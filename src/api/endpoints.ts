@@ -11,15 +11,13 @@ export const ENDPOINTS = {
     updateLimitedUse: () => `${DDB_CHARACTER_SERVICE}/character/v5/action/limited-use`,
     setInspiration: () => `${DDB_CHARACTER_SERVICE}/character/v5/character/inspiration`,
     condition: () => `${DDB_CHARACTER_SERVICE}/character/v5/condition`,
+    updateSpellSlots: () => `${DDB_CHARACTER_SERVICE}/character/v5/spell/slots`,
+    updatePactMagic: () => `${DDB_CHARACTER_SERVICE}/character/v5/spell/pact-magic`,
+    updateDeathSaves: () => `${DDB_CHARACTER_SERVICE}/character/v5/life/death-saves`,
     rest: {
       short: (characterId: number) => `${DDB_CHARACTER_SERVICE}/character/v5/character/rest/short?characterId=${characterId}`,
       long: (characterId: number) => `${DDB_CHARACTER_SERVICE}/character/v5/character/rest/long?characterId=${characterId}`,
     },
-    // Deprecated v5 endpoints (return 404, kept for reference)
-    updateSpellSlots: (id: number) => `${DDB_CHARACTER_SERVICE}/character/v5/character/${id}/spell/slots`,
-    updateDeathSaves: (id: number) => `${DDB_CHARACTER_SERVICE}/character/v5/character/${id}/life/death-saves`,
-    updateCurrency: (id: number) => `${DDB_CHARACTER_SERVICE}/character/v5/character/${id}/inventory/currency`,
-    updatePactMagic: (id: number) => `${DDB_CHARACTER_SERVICE}/character/v5/character/${id}/spell/pact-magic`,
     builder: {
       standardBuild: () => `${DDB_CHARACTER_SERVICE}/character/v5/builder/standard-build`,
       quickBuild: () => `${DDB_CHARACTER_SERVICE}/character/v5/builder/quick-build`,
@@ -45,6 +43,8 @@ export const ENDPOINTS = {
     inventory: {
       addItems: () => `${DDB_CHARACTER_SERVICE}/character/v5/inventory/item`,
       setGold: () => `${DDB_CHARACTER_SERVICE}/character/v5/inventory/currency/gold`,
+      // coin: copper | silver | electrum | gold | platinum
+      setCurrency: (coin: string) => `${DDB_CHARACTER_SERVICE}/character/v5/inventory/currency/${coin}`,
       setStartingType: () => `${DDB_CHARACTER_SERVICE}/character/v5/inventory/starting-type`,
     },
     delete: () => `${DDB_CHARACTER_SERVICE}/character/v5/character`,
@@ -58,8 +58,10 @@ export const ENDPOINTS = {
     classes: () => `${DDB_CHARACTER_SERVICE}/character/v5/game-data/classes`,
     races: () => `${DDB_CHARACTER_SERVICE}/character/v5/game-data/races`,
     backgrounds: () => `${DDB_CHARACTER_SERVICE}/character/v5/game-data/backgrounds`,
-    alwaysKnownSpells: (classId: number, classLevel: number = 20) =>
-      `${DDB_CHARACTER_SERVICE}/character/v5/game-data/always-known-spells?classId=${classId}&classLevel=${classLevel}&sharingSetting=2`,
+    alwaysKnownSpells: (classId: number, classLevel: number = 20, spellListIds: number[] = []) => {
+      const lists = spellListIds.map((id) => `&spellListIds[]=${id}`).join("");
+      return `${DDB_CHARACTER_SERVICE}/character/v5/game-data/always-known-spells?classId=${classId}&classLevel=${classLevel}&sharingSetting=2${lists}`;
+    },
     alwaysPreparedSpells: (classId: number, classLevel: number = 20) =>
       `${DDB_CHARACTER_SERVICE}/character/v5/game-data/always-prepared-spells?classId=${classId}&classLevel=${classLevel}&sharingSetting=2`,
     classFeatureCollection: () => `${DDB_CHARACTER_SERVICE}/character/v5/game-data/class-feature/collection`,
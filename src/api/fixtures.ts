@@ -0,0 +1,89 @@
+import { readFile, writeFile, mkdir } from "node:fs/promises";
+import { createHash } from "node:crypto";
+import { join } from "node:path";
+import { homedir } from "node:os";
+import { HttpError } from "../resilience/index.js";
+
+export type FixtureMode = "record" | "replay";
+
+export const DEFAULT_FIXTURE_DIR = join(homedir(), ".dndbeyond-mcp", "fixtures");
+
+export interface FixtureEntry {
+  method: string;
+  url: string;
+  /** The JSON body sent with a write, when there was one. */
+  requestBody?: string;
+  recordedAt: string;
+  body: unknown;
+}
+
+/**
+ * On-disk store of raw D&D Beyond responses, keyed by HTTP method + ENDPOINTS URL,
+ * plus the request body for writes that send one: many character-service writes
+ * share a URL and carry the character and values in the body.
+ *
+ * In "record" mode DdbClient saves every successful response it receives.
+ * In "replay" mode DdbClient serves responses from disk and never touches the
+ * network, so no cookie or cobalt token is needed.
+ */
+export class FixtureStore {
+  constructor(
+    readonly dir: string,
+    readonly mode: FixtureMode,
+  ) {}
+
+  /**
+   * Builds a store from DDB_FIXTURES ("record" | "replay") and DDB_FIXTURES_DIR.
+   * Returns null when fixtures are not enabled.
+   */
+  static fromEnv(env: NodeJS.ProcessEnv = process.env): FixtureStore | null {
+    const mode = env.DDB_FIXTURES?.toLowerCase();
+    if (!mode) return null;
+    if (mode !== "record" && mode !== "replay") {
+      throw new Error(`Invalid DDB_FIXTURES mode "${env.DDB_FIXTURES}". Expected "record" or "replay".`);
+    }
+    return new FixtureStore(env.DDB_FIXTURES_DIR || DEFAULT_FIXTURE_DIR, mode);
+  }
+
+  get isReplaying(): boolean {
+    return this.mode === "replay";
+  }
+
+  /** File name for a request: readable host prefix plus a stable hash of method, URL and body. */
+  fileFor(method: string, url: string, requestBody?: string): string {
+    const key = `${method.toUpperCase()} ${url}${requestBody ? `\n${requestBody}` : ""}`;
+    const hash = createHash("sha256").update(key).digest("hex").slice(0, 16);
+    const host = new URL(url).hostname.split(".")[0];
+    return join(this.dir, `${host}-${method.toLowerCase()}-${hash}.json`);
+  }
+
+  async load(method: string, url: string, requestBody?: string): Promise<FixtureEntry | null> {
+    try {
+      const raw = await readFile(this.fileFor(method, url, requestBody), "utf-8");
+      return JSON.parse(raw) as FixtureEntry;
+    } catch {
+      return null;
+    }
+  }
+
+  async save(method: string, url: string, body: unknown, requestBody?: string): Promise<void> {
+    await mkdir(this.dir, { recursive: true });
+    const entry: FixtureEntry = {
+      method: method.toUpperCase(),
+      url,
+      ...(requestBody ? { requestBody } : {}),
+      recordedAt: new Date().toISOString(),
+      body,
+    };
+    await writeFile(this.fileFor(method, url, requestBody), JSON.stringify(entry, null, 2), "utf-8");
+  }
+
+  /** Returns the recorded response body, or throws a 404 HttpError if nothing was recorded. */
+  async replay(method: string, url: string, requestBody?: string): Promise<unknown> {
+    const entry = await this.load(method, url, requestBody);
+    if (!entry) {
+      throw new HttpError(`No recorded fixture for ${method.toUpperCase()} ${url} in ${this.dir}`, 404);
+    }
+    return entry.body;
+  }
+}
@@ -0,0 +1,138 @@
+import type { DdbClient } from "./client.js";
+import { ENDPOINTS } from "./endpoints.js";
+import { getUserId } from "./auth.js";
+import type { DdbCampaign, DdbCampaignCharacter2, DdbUserCharacter } from "../types/api.js";
+import { levenshteinDistance } from "../utils/fuzzy-match.js";
+
+const ROSTER_CACHE_TTL = 5 * 60 * 1000; // 5 minutes
+
+const CHARACTER_STATUS_NAMES: Record<number, string> = {
+  1: "Active",
+};
+
+export interface RosterCharacter {
+  id: number;
+  name: string;
+  /** D&D Beyond characterStatus, when either list reports one. */
+  status: number | null;
+  campaigns: Array<{ id: number; name: string }>;
+  /** Whether the character is on the signed-in user's own character list. */
+  owned: boolean;
+}
+
+export function formatCharacterStatus(status: number | null): string {
+  if (status === null) return "Unknown";
+  return CHARACTER_STATUS_NAMES[status] ?? `Status ${status}`;
+}
+
+/** "Campaign A, Campaign B - Active", or "No campaign - Active". */
+export function formatMembership(character: RosterCharacter): string {
+  const campaigns = character.campaigns.length > 0
+    ? character.campaigns.map((c) => c.name).join(", ")
+    : "No campaign";
+  return `${campaigns} - ${formatCharacterStatus(character.status)}`;
+}
+
+/**
+ * Every character the user can see: their own characters from the user
+ * character list (including ones not in any campaign), merged with the rosters
+ * of their active campaigns (which include other players' characters).
+ */
+export async function loadCharacterRoster(client: DdbClient): Promise<RosterCharacter[]> {
+  const roster = new Map<number, RosterCharacter>();
+  const entry = (id: number, name: string): RosterCharacter => {
+    let character = roster.get(id);
+    if (!character) {
+      character = { id, name, status: null, campaigns: [], owned: false };
+      roster.set(id, character);
+    }
+    return character;
+  };
+  const join = (character: RosterCharacter, id: number, name: string) => {
+    if (!character.campaigns.some((c) => c.id === id)) character.campaigns.push({ id, name });
+  };
+
+  const campaigns = await client.get<DdbCampaign[]>(
+    ENDPOINTS.campaign.list(),
+    "campaigns",
+    ROSTER_CACHE_TTL
+  );
+  for (const campaign of campaigns ?? []) {
+    const characters = await client.get<DdbCampaignCharacter2[]>(
+      ENDPOINTS.campaign.characters(campaign.id),
+      `campaign:${campaign.id}:characters`,
+      ROSTER_CACHE_TTL
+    );
+    for (const char of characters ?? []) {
+      const character = entry(char.id, char.name);
+      character.status = char.characterStatus ?? character.status;
+      join(character, campaign.id, campaign.name);
+    }
+  }
+
+  // The user's own list is the only place unassigned characters show up.
+  // Without a User.ID cookie (or if the endpoint fails) fall back to campaign rosters.
+  const userId = await getUserId();
+  if (userId !== null) {
+    let owned: DdbUserCharacter[] = [];
+    try {
+      const response = await client.get<DdbUserCharacter[] | { characters: DdbUserCharacter[] }>(
+        ENDPOINTS.character.list(userId),
+        `characters:user:${userId}`,
+        ROSTER_CACHE_TTL
+      );
+      owned = Array.isArray(response) ? response : response?.characters ?? [];
+    } catch (error) {
+      console.error("dndbeyond-mcp: user character list unavailable:", error instanceof Error ? error.message : error);
+    }
+    for (const char of owned) {
+      const character = entry(char.id, char.name);
+      character.owned = true;
+      character.status = char.characterStatus ?? char.status ?? character.status;
+      if (char.campaignId && char.campaignName) join(character, char.campaignId, char.campaignName);
+    }
+  }
+
+  return [...roster.values()];
+}
+
+/**
+ * Resolves a character name against the roster: exact match, then a unique
+ * substring match, then a unique fuzzy match (whole name or any word within
+ * Levenshtein distance 3). Returns an error message when nothing or more than
+ * one character matches.
+ */
+export function matchCharacterName(roster: RosterCharacter[], name: string): RosterCharacter | string {
+  const lowerName = name.toLowerCase();
+
+  // 1. Exact match (case-insensitive)
+  const exactMatch = roster.find((char) => char.name.toLowerCase() === lowerName);
+  if (exactMatch) return exactMatch;
+
+  // 2. Substring match (case-insensitive)
+  const substringMatches = roster.filter((char) => char.name.toLowerCase().includes(lowerName));
+  if (substringMatches.length === 1) return substringMatches[0];
+  if (substringMatches.length > 1) return ambiguous(name, substringMatches);
+
+  // 3. Fuzzy match via Levenshtein distance — check full names and individual words
+  const fuzzyResults = roster.filter((char) =>
+    levenshteinDistance(lowerName, char.name.toLowerCase()) <= 3 ||
+    // e.g., "Throin" matches "Thorin" in "Thorin Ironforge"
+    char.name.split(/\s+/).some((word) => levenshteinDistance(lowerName, word.toLowerCase()) <= 3)
+  );
+  if (fuzzyResults.length === 1) return fuzzyResults[0];
+  if (fuzzyResults.length > 1) return ambiguous(name, fuzzyResults);
+
+  return `Character "${name}" not found.`;
+}
+
+function ambiguous(name: string, matches: RosterCharacter[]): string {
+  const options = matches.map((c) => `${c.name} (ID ${c.id})`).join(", ");
+  return `Character name "${name}" matches several characters: ${options}. Use characterId to pick one.`;
+}
+
+/** Looks a character up by name across the full roster. Returns its ID or an error message. */
+export async function findCharacterByName(client: DdbClient, name: string): Promise<number | string> {
+  const match = matchCharacterName(await loadCharacterRoster(client), name);
+  return typeof match === "string" ? match : match.id;
+}
@@ -0,0 +1,142 @@
+import { readFile, writeFile, mkdir, readdir, stat, rm, unlink } from "node:fs/promises";
+import { createHash } from "node:crypto";
+import { join } from "node:path";
+import { homedir } from "node:os";
+
+/** Bump when the shape of cached payloads changes; older entries are ignored and pruned. */
+export const DISK_CACHE_VERSION = 1;
+
+export const DEFAULT_DISK_CACHE_DIR = join(homedir(), ".dndbeyond-mcp", "cache");
+
+interface DiskCacheEntry<T> {
+  version: number;
+  key: string;
+  expiresAt: number;
+  value: T;
+}
+
+export interface DiskCacheOptions {
+  /** Only keys cached for at least this long are persisted (default: 1 hour). */
+  minTtlMs?: number;
+  /** Total size budget for the cache directory (default: 50 MB). */
+  maxBytes?: number;
+}
+
+/**
+ * Persistent second cache tier for long-lived compendium data (spells, items,
+ * feats, game config). Sits behind the in-memory TtlCache so a server restart
+ * doesn't re-download everything. All operations are best effort: disk errors
+ * are swallowed and treated as cache misses.
+ */
+export class DiskCache {
+  private readonly minTtlMs: number;
+  private readonly maxBytes: number;
+
+  constructor(
+    readonly dir: string = DEFAULT_DISK_CACHE_DIR,
+    options: DiskCacheOptions = {},
+  ) {
+    this.minTtlMs = options.minTtlMs ?? 3_600_000;
+    this.maxBytes = options.maxBytes ?? 50 * 1024 * 1024;
+  }
+
+  /**
+   * Builds the default disk cache, honouring DDB_CACHE_DIR.
+   * Returns null when DDB_DISK_CACHE is "off".
+   */
+  static fromEnv(env: NodeJS.ProcessEnv = process.env): DiskCache | null {
+    if (env.DDB_DISK_CACHE?.toLowerCase() === "off") return null;
+    return new DiskCache(env.DDB_CACHE_DIR || DEFAULT_DISK_CACHE_DIR);
+  }
+
+  /** Whether a key cached with this TTL belongs on disk. */
+  accepts(ttlMs: number | undefined): boolean {
+    return ttlMs !== undefined && ttlMs >= this.minTtlMs;
+  }
+
+  async get<T>(key: string): Promise<{ value: T; expiresAt: number } | undefined> {
+    try {
+      const raw = await readFile(this.fileFor(key), "utf-8");
+      const entry = JSON.parse(raw) as DiskCacheEntry<T>;
+      if (entry.version !== DISK_CACHE_VERSION || entry.key !== key || Date.now() >= entry.expiresAt) {
+        await this.invalidate(key);
+        return undefined;
+      }
+      return { value: entry.value, expiresAt: entry.expiresAt };
+    } catch {
+      return undefined;
+    }
+  }
+
+  async set<T>(key: string, value: T, ttlMs: number): Promise<void> {
+    const entry: DiskCacheEntry<T> = {
+      version: DISK_CACHE_VERSION,
+      key,
+      expiresAt: Date.now() + ttlMs,
+      value,
+    };
+    try {
+      await mkdir(this.dir, { recursive: true });
+      await writeFile(this.fileFor(key), JSON.stringify(entry), "utf-8");
+      await this.prune();
+    } catch {
+      // Best effort — the in-memory tier still has the value
+    }
+  }
+
+  async invalidate(key: string): Promise<void> {
+    try {
+      await unlink(this.fileFor(key));
+    } catch {
+      // Already gone
+    }
+  }
+
+  async clear(): Promise<void> {
+    await rm(this.dir, { recursive: true, force: true });
+  }
+
+  /** Total bytes and entry count currently on disk. */
+  async stats(): Promise<{ entries: number; bytes: number }> {
+    const files = await this.listFiles();
+    return { entries: files.length, bytes: files.reduce((sum, f) => sum + f.size, 0) };
+  }
+
+  /** Evicts the least recently written entries until the directory fits in maxBytes. */
+  private async prune(): Promise<void> {
+    const files = await this.listFiles();
+    let total = files.reduce((sum, f) => sum + f.size, 0);
+    if (total <= this.maxBytes) return;
+
+    files.sort((a, b) => a.mtimeMs - b.mtimeMs);
+    for (const file of files) {
+      if (total <= this.maxBytes) break;
+      await unlink(file.path).catch(() => undefined);
+      total -= file.size;
+    }
+  }
+
+  private async listFiles(): Promise<Array<{ path: string; size: number; mtimeMs: number }>> {
+    let names: string[];
+    try {
+      names = await readdir(this.dir);
+    } catch {
+      return [];
+    }
+    const files = [];
+    for (const name of names.filter((n) => n.endsWith(".json"))) {
+      const path = join(this.dir, name);
+      try {
+        const info = await stat(path);
+        files.push({ path, size: info.size, mtimeMs: info.mtimeMs });
+      } catch {
+        // Removed concurrently
+      }
+    }
+    return files;
+  }
+
+  private fileFor(key: string): string {
+    return join(this.dir, `${createHash("sha256").update(key).digest("hex").slice(0, 32)}.json`);
+  }
+}
@@ -0,0 +1,247 @@
+import { readFile, readdir } from "node:fs/promises";
+import { extname, join } from "node:path";
+import { homedir } from "node:os";
+import { parse as parseYaml } from "yaml";
+import type { DdbCompendiumFeat, DdbItem, DdbMonster } from "../types/reference.js";
+import type { DdbSpell } from "../types/character.js";
+
+export const DEFAULT_HOMEBREW_DIR = join(homedir(), ".dndbeyond-mcp", "homebrew");
+
+export const HOMEBREW_TAG = "[Local Homebrew]";
+
+/** A homebrew spell: the DdbSpell shape plus the class lists it should appear on. */
+export interface HomebrewSpell extends DdbSpell {
+  classes?: string[];
+}
+
+export interface HomebrewContent {
+  monsters: DdbMonster[];
+  items: DdbItem[];
+  spells: HomebrewSpell[];
+  feats: DdbCompendiumFeat[];
+}
+
+const HOMEBREW_EXTENSIONS = new Set([".json", ".yaml", ".yml"]);
+
+// Entries loaded from disk, so formatters can tag them without a schema field
+const localEntries = new WeakSet<object>();
+
+export function isLocalHomebrew(entry: object): boolean {
+  return localEntries.has(entry);
+}
+
+/** Marks an entry (or a copy derived from one) as local homebrew. */
+export function markLocalHomebrew<T extends object>(entry: T): T {
+  localEntries.add(entry);
+  return entry;
+}
+
+type Loose<T> = Partial<T> & { name?: unknown };
+
+function defaultMonster(id: number): DdbMonster {
+  return {
+    id,
+    name: "",
+    alignmentId: 0,
+    sizeId: 4,
+    typeId: 0,
+    armorClass: 10,
+    armorClassDescription: "",
+    averageHitPoints: 1,
+    hitPointDice: { diceCount: 0, diceValue: 0, fixedValue: 0, diceString: "" },
+    passivePerception: 10,
+    challengeRatingId: 0,
+    isHomebrew: true,
+    isLegendary: false,
+    isMythic: false,
+    isLegacy: false,
+    url: "",
+    avatarUrl: "",
+    stats: [],
+    skills: [],
+    senses: [],
+    savingThrows: [],
+    movements: [],
+    languages: [],
+    damageAdjustments: [],
+    conditionImmunities: [],
+    environments: [],
+    specialTraitsDescription: "",
+    actionsDescription: "",
+    reactionsDescription: "",
+    legendaryActionsDescription: "",
+    mythicActionsDescription: "",
+    bonusActionsDescription: "",
+    lairDescription: "",
+    languageDescription: "",
+    languageNote: "",
+    sensesHtml: "",
+    skillsHtml: "",
+    conditionImmunitiesHtml: "",
+  };
+}
+
+function defaultItem(id: number): DdbItem {
+  return {
+    id,
+    name: "",
+    type: "",
+    filterType: "",
+    rarity: "",
+    requiresAttunement: false,
+    attunementDescription: "",
+    description: "",
+    snippet: "",
+    weight: 0,
+    cost: null,
+    armorClass: null,
+    damage: null,
+    properties: null,
+    isHomebrew: true,
+    sources: [],
+    canAttune: false,
+    magic: false,
+  };
+}
+
+function defaultFeat(id: number): DdbCompendiumFeat {
+  return { id, name: "", description: "", snippet: "", prerequisite: null, isHomebrew: true, sources: [] };
+}
+
+function defaultSpellDefinition(): DdbSpell["definition"] {
+  return {
+    name: "",
+    level: 0,
+    school: "",
+    description: "",
+    range: null,
+    duration: null,
+    activation: null,
+    components: [],
+    componentsDescription: null,
+    concentration: false,
+    ritual: false,
+  };
+}
+
+/**
+ * Local homebrew monsters, items, spells and feats read from JSON/YAML files.
+ *
+ * Each file may hold any of the keys `monsters`, `items`, `spells` and `feats`,
+ * each an array of entries in the same shape as the D&D Beyond data
+ * (DdbMonster, DdbItem, DdbSpell, DdbCompendiumFeat). Only `name` (or
+ * `definition.name` for spells) is required; missing fields get neutral
+ * defaults so the existing formatters can render the entry.
+ */
+export class HomebrewStore {
+  private content: Promise<HomebrewContent> | null = null;
+  private problems: string[] = [];
+
+  constructor(readonly dir: string = DEFAULT_HOMEBREW_DIR) {}
+
+  /** Builds the store from DDB_HOMEBREW_DIR. Returns null when DDB_HOMEBREW is "off". */
+  static fromEnv(env: NodeJS.ProcessEnv = process.env): HomebrewStore | null {
+    if (env.DDB_HOMEBREW?.toLowerCase() === "off") return null;
+    return new HomebrewStore(env.DDB_HOMEBREW_DIR || DEFAULT_HOMEBREW_DIR);
+  }
+
+  /** Files that failed to load during the last read, with the reason. */
+  get warnings(): string[] {
+    return [...this.problems];
+  }
+
+  /** Reads the homebrew directory once and memoizes the result until reload(). */
+  load(): Promise<HomebrewContent> {
+    this.content ??= this.read();
+    return this.content;
+  }
+
+  /** Drops the memoized content so the next load() re-reads the directory. */
+  reload(): void {
+    this.content = null;
+  }
+
+  private async read(): Promise<HomebrewContent> {
+    const content: HomebrewContent = { monsters: [], items: [], spells: [], feats: [] };
+    this.problems = [];
+
+    let files: string[];
+    try {
+      files = (await readdir(this.dir, { recursive: true }))
+        .filter((f) => HOMEBREW_EXTENSIONS.has(extname(f).toLowerCase()))
+        .sort();
+    } catch {
+      return content; // No homebrew directory
+    }
+
+    // Homebrew entries without an id get negative ids so they never collide with D&D Beyond's
+    let nextId = -1;
+    const id = (value: unknown) => (typeof value === "number" ? value : nextId--);
+
+    for (const file of files) {
+      let data: Record<string, unknown>;
+      try {
+        const raw = await readFile(join(this.dir, file), "utf-8");
+        data = (extname(file).toLowerCase() === ".json" ? JSON.parse(raw) : parseYaml(raw)) ?? {};
+      } catch (error) {
+        this.warn(file, error instanceof Error ? error.message : String(error));
+        continue;
+      }
+
+      for (const entry of this.entries<Loose<DdbMonster>>(file, data, "monsters")) {
+        content.monsters.push(markLocalHomebrew({ ...defaultMonster(id(entry.id)), ...entry, isHomebrew: true } as DdbMonster));
+      }
+      for (const entry of this.entries<Loose<DdbItem>>(file, data, "items")) {
+        content.items.push(markLocalHomebrew({ ...defaultItem(id(entry.id)), ...entry, isHomebrew: true } as DdbItem));
+      }
+      for (const entry of this.entries<Loose<DdbCompendiumFeat>>(file, data, "feats")) {
+        content.feats.push(markLocalHomebrew({ ...defaultFeat(id(entry.id)), ...entry, isHomebrew: true } as DdbCompendiumFeat));
+      }
+      for (const entry of this.spellEntries(file, data)) {
+        content.spells.push(markLocalHomebrew({
+          prepared: false,
+          alwaysPrepared: false,
+          usesSpellSlot: true,
+          ...entry,
+          id: id(entry.id),
+          definition: { ...defaultSpellDefinition(), ...entry.definition },
+        } as HomebrewSpell));
+      }
+    }
+
+    return content;
+  }
+
+  private entries<T extends { name?: unknown }>(file: string, data: Record<string, unknown>, key: string): T[] {
+    const list = data[key];
+    if (list === undefined) return [];
+    if (!Array.isArray(list)) {
+      this.warn(file, `"${key}" must be a list`);
+      return [];
+    }
+    return list.filter((entry, i) => {
+      const valid = typeof entry === "object" && entry !== null && typeof entry.name === "string" && entry.name !== "";
+      if (!valid) this.warn(file, `${key}[${i}] has no name`);
+      return valid;
+    });
+  }
+
+  private spellEntries(file: string, data: Record<string, unknown>): Array<Partial<HomebrewSpell>> {
+    const list = data.spells;
+    if (list === undefined) return [];
+    if (!Array.isArray(list)) {
+      this.warn(file, `"spells" must be a list`);
+      return [];
+    }
+    return list.filter((entry, i) => {
+      const valid = typeof entry?.definition?.name === "string" && entry.definition.name !== "";
+      if (!valid) this.warn(file, `spells[${i}] has no definition.name`);
+      return valid;
+    });
+  }
+
+  private warn(file: string, message: string): void {
+    this.problems.push(`${file}: ${message}`);
+    console.error(`dndbeyond-mcp: skipping homebrew ${file}: ${message}`);
+  }
+}
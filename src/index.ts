@@ -1,7 +1,27 @@
 #!/usr/bin/env node
-import { startServer } from "./server.js";
+import { startServer, type StartServerOptions } from "./server.js";
 
-startServer().catch((error) => {
+function parseArgs(argv: string[]): StartServerOptions {
+  const options: StartServerOptions = {};
+  for (let i = 0; i < argv.length; i++) {
+    const [flag, inline] = argv[i].split("=", 2);
+    const value = () => inline ?? argv[++i];
+    if (flag === "--http") {
+      const port = Number(value());
+      if (!Number.isInteger(port) || port < 0 || port > 65535) {
+        throw new Error("--http needs a port number, e.g. --http 3000");
+      }
+      options.httpPort = port;
+    } else if (flag === "--host") {
+      options.httpHost = value();
+    }
+  }
+  return options;
+}
+
+Promise.resolve()
+  .then(() => startServer(parseArgs(process.argv.slice(2))))
+  .catch((error) => {
   console.error("dndbeyond-mcp: fatal error:", error);
   process.exit(1);
 });
@@ -0,0 +1,75 @@
+import type { FieldChange, WritePlan, WriteRequest } from "../tools/writes.js";
+
+export interface JournalEntry {
+  /** Increasing per server process. */
+  id: number;
+  /** Null for writes that create a character. */
+  characterId: number | null;
+  recordedAt: string;
+  /** The requests that were sent, in order. */
+  requests: WriteRequest[];
+  /** Prior and new values read from the cached sheet before the write. */
+  changes: FieldChange[];
+  /** Requests that restore the prior values, or null when the write can't be reversed. */
+  undo: WriteRequest[] | null;
+  notes: string[];
+}
+
+export interface MutationJournalOptions {
+  /** Entries kept across all characters; the oldest are dropped first (default: 200). */
+  maxEntries?: number;
+}
+
+/**
+ * In-memory log of the writes this server has sent to D&D Beyond, newest
+ * last. It is deliberately not persisted: an undo replays prior values, which
+ * are only trustworthy while the session that recorded them is running.
+ */
+export class MutationJournal {
+  private readonly entries: JournalEntry[] = [];
+  private readonly maxEntries: number;
+  private nextId = 1;
+
+  constructor(options: MutationJournalOptions = {}) {
+    this.maxEntries = options.maxEntries ?? 200;
+  }
+
+  /** Returns null when DDB_JOURNAL is "off". */
+  static fromEnv(env: NodeJS.ProcessEnv = process.env): MutationJournal | null {
+    if (env.DDB_JOURNAL?.toLowerCase() === "off") return null;
+    return new MutationJournal();
+  }
+
+  record(plan: WritePlan, now: Date = new Date()): JournalEntry {
+    const entry: JournalEntry = {
+      id: this.nextId++,
+      characterId: plan.characterId,
+      recordedAt: now.toISOString(),
+      requests: plan.requests,
+      changes: plan.changes,
+      undo: plan.undo ?? null,
+      notes: plan.notes ?? [],
+    };
+    this.entries.push(entry);
+    if (this.entries.length > this.maxEntries) this.entries.shift();
+    return entry;
+  }
+
+  /** The most recent entry, optionally for one character. */
+  latest(characterId?: number): JournalEntry | null {
+    for (let i = this.entries.length - 1; i >= 0; i--) {
+      const entry = this.entries[i];
+      if (characterId === undefined || entry.characterId === characterId) return entry;
+    }
+    return null;
+  }
+
+  remove(id: number): void {
+    const index = this.entries.findIndex((e) => e.id === id);
+    if (index >= 0) this.entries.splice(index, 1);
+  }
+
+  get size(): number {
+    return this.entries.length;
+  }
+}
@@ -0,0 +1,174 @@
+import { accessFromType, type AccessState } from "../access/content.js";
+import type { DdbClient } from "../api/client.js";
+import { ENDPOINTS } from "../api/endpoints.js";
+import { isLocalHomebrew } from "../homebrew/store.js";
+import type { DdbMonster, MonsterServiceResponse } from "../types/reference.js";
+import { parseMonsterActions } from "../utils/monster-actions.js";
+
+/** The monster service's page size; matches search_monsters so both share cached pages. */
+const PAGE_SIZE = 20;
+
+/** The fields search filters need, without the stat block HTML. */
+export interface IndexedMonster {
+  id: number;
+  name: string;
+  challengeRatingId: number;
+  typeId: number;
+  sizeId: number;
+  alignmentId: number;
+  armorClass: number;
+  averageHitPoints: number;
+  isHomebrew: boolean;
+  isLegendary: boolean;
+  isMythic: boolean;
+  environments: number[];
+  damageAdjustments: number[];
+  movementIds: number[];
+  sourceIds: number[];
+  /** Saving throws the monster's actions call for. */
+  saves: Array<{ action: string; dc: number; ability: string }>;
+  access: AccessState;
+  localHomebrew: boolean;
+}
+
+/** accessType is the monster service's code for this monster; local homebrew is always accessible. */
+export function indexMonster(m: DdbMonster, accessType?: number): IndexedMonster {
+  const localHomebrew = isLocalHomebrew(m);
+  return {
+    id: m.id,
+    name: m.name,
+    challengeRatingId: m.challengeRatingId,
+    typeId: m.typeId,
+    sizeId: m.sizeId,
+    alignmentId: m.alignmentId,
+    armorClass: m.armorClass,
+    averageHitPoints: m.averageHitPoints,
+    isHomebrew: Boolean(m.isHomebrew),
+    isLegendary: Boolean(m.isLegendary),
+    isMythic: Boolean(m.isMythic),
+    environments: m.environments ?? [],
+    damageAdjustments: m.damageAdjustments ?? [],
+    movementIds: (m.movements ?? []).map((mv) => mv.movementId),
+    sourceIds: (m.sources ?? []).map((s) => s.sourceId),
+    saves: parseMonsterActions(m).flatMap((a) => (a.save ? [{ action: a.name, ...a.save }] : [])),
+    access: localHomebrew ? "accessible" : accessFromType(accessType),
+    localHomebrew,
+  };
+}
+
+export interface MonsterIndexStatus {
+  state: "empty" | "building" | "ready" | "failed";
+  /** Monsters fetched so far in the current (or last) build. */
+  loaded: number;
+  /** The catalogue size the monster service reported, once known. */
+  total: number | null;
+  builtAt: string | null;
+  error: string | null;
+  /** When a failed build may be retried. */
+  retryAt: string | null;
+}
+
+export interface MonsterIndexOptions {
+  /** Rebuild in the background once the index is this old (default: 24 hours). */
+  maxAgeMs?: number;
+  /** Wait before retrying a failed build, doubling after each failure up to maxAgeMs (default: 1 minute). */
+  retryDelayMs?: number;
+}
+
+/**
+ * Every monster in the D&D Beyond catalogue, fetched page by page in the
+ * background so searches can filter the whole compendium instead of the first
+ * few pages. The first search starts the build, and its requests give way to
+ * tool calls at the rate limiter. Until it finishes, searches fall back to
+ * querying the monster service directly; a stale index keeps serving while it
+ * rebuilds.
+ */
+export class MonsterIndex {
+  private entries: IndexedMonster[] = [];
+  private building: Promise<void> | null = null;
+  private builtAtMs: number | null = null;
+  private progress = { loaded: 0, total: null as number | null };
+  private lastError: string | null = null;
+  private failures = 0;
+  private retryAtMs: number | null = null;
+  private readonly maxAgeMs: number;
+  private readonly retryDelayMs: number;
+
+  constructor(options: MonsterIndexOptions = {}) {
+    this.maxAgeMs = options.maxAgeMs ?? 86_400_000;
+    this.retryDelayMs = options.retryDelayMs ?? 60_000;
+  }
+
+  /** Returns null when DDB_MONSTER_INDEX is "off". */
+  static fromEnv(env: NodeJS.ProcessEnv = process.env): MonsterIndex | null {
+    if (env.DDB_MONSTER_INDEX?.toLowerCase() === "off") return null;
+    return new MonsterIndex();
+  }
+
+  get ready(): boolean {
+    return this.builtAtMs !== null;
+  }
+
+  /** Indexed monsters sorted by name, then ID, so pages stay stable between calls. */
+  get monsters(): IndexedMonster[] {
+    return this.entries;
+  }
+
+  get status(): MonsterIndexStatus {
+    return {
+      state: this.building ? "building" : this.ready ? "ready" : this.lastError ? "failed" : "empty",
+      loaded: this.progress.loaded,
+      total: this.progress.total,
+      builtAt: this.builtAtMs !== null ? new Date(this.builtAtMs).toISOString() : null,
+      error: this.lastError,
+      retryAt: this.retryAtMs !== null ? new Date(this.retryAtMs).toISOString() : null,
+    };
+  }
+
+  /**
+   * Starts a build unless one is running, the index is fresh, or a failed
+   * build is backing off. Failures are logged and retried by a later call.
+   */
+  start(client: DdbClient, now: number = Date.now()): void {
+    if (this.building) return;
+    if (this.builtAtMs !== null && now - this.builtAtMs < this.maxAgeMs) return;
+    if (this.retryAtMs !== null && now < this.retryAtMs) return;
+    void this.build(client).catch((error) => {
+      console.error("dndbeyond-mcp: monster index build failed:", error instanceof Error ? error.message : error);
+    });
+  }
+
+  /** Fetches every page of the monster service. Concurrent calls share one build. */
+  build(client: DdbClient): Promise<void> {
+    this.building ??= this.fetchAll(client).finally(() => {
+      this.building = null;
+    });
+    return this.building;
+  }
+
+  private async fetchAll(client: DdbClient): Promise<void> {
+    const monsters = new Map<number, IndexedMonster>();
+    this.progress = { loaded: 0, total: null };
+    this.lastError = null;
+
+    try {
+      for (let skip = 0; ; skip += PAGE_SIZE) {
+        // Uncached: the index keeps only the compact entries, not ~175 full pages in the caches
+        const response = await client.fetchRaw<MonsterServiceResponse>(ENDPOINTS.monster.search("", skip, PAGE_SIZE), "background");
+        for (const m of response.data ?? []) monsters.set(m.id, indexMonster(m, response.accessType?.[String(m.id)]));
+        this.progress = { loaded: monsters.size, total: response.pagination?.total ?? null };
+        if (!response.data?.length || skip + PAGE_SIZE >= (response.pagination?.total ?? 0)) break;
+      }
+    } catch (error) {
+      this.lastError = error instanceof Error ? error.message : String(error);
+      this.failures++;
+      this.retryAtMs = Date.now() + Math.min(this.retryDelayMs * 2 ** (this.failures - 1), this.maxAgeMs);
+      throw error;
+    }
+
+    this.entries = [...monsters.values()].sort((a, b) => a.name.localeCompare(b.name) || a.id - b.id);
+    this.builtAtMs = Date.now();
+    this.failures = 0;
+    this.retryAtMs = null;
+  }
+}
@@ -0,0 +1,254 @@
+/**
+ * Monster scaling. Moves a stat block to another challenge rating along the
+ * Dungeon Master's Guide "Monster Statistics by Challenge Rating" table and
+ * applies encounter-role templates (minion, elite, solo boss).
+ *
+ * Offensive numbers shift by the difference between the two table rows, so a
+ * monster keeps its place relative to the table (a hard-hitting monster stays
+ * hard-hitting): attack bonuses and save DCs move by the row difference, and
+ * damage rolls are multiplied by the ratio of the rows' damage per round.
+ * Hit points keep their ratio too but are held within the target row's range.
+ * Flat damage ("1 piercing damage") and ability scores are left alone.
+ */
+
+import type { DdbMonster, GameConfig } from "../types/reference.js";
+
+interface CrRow {
+  ac: number;
+  hp: [number, number];
+  attack: number;
+  damage: [number, number];
+  dc: number;
+}
+
+/** DMG p. 274, keyed by CR value. Proficiency bonus and XP come from game config. */
+const CR_TABLE: Record<number, CrRow> = {
+  0: { ac: 13, hp: [1, 6], attack: 3, damage: [0, 1], dc: 13 },
+  0.125: { ac: 13, hp: [7, 35], attack: 3, damage: [2, 3], dc: 13 },
+  0.25: { ac: 13, hp: [36, 49], attack: 3, damage: [4, 5], dc: 13 },
+  0.5: { ac: 13, hp: [50, 70], attack: 3, damage: [6, 8], dc: 13 },
+  1: { ac: 13, hp: [71, 85], attack: 3, damage: [9, 14], dc: 13 },
+  2: { ac: 13, hp: [86, 100], attack: 3, damage: [15, 20], dc: 13 },
+  3: { ac: 13, hp: [101, 115], attack: 4, damage: [21, 26], dc: 13 },
+  4: { ac: 14, hp: [116, 130], attack: 5, damage: [27, 32], dc: 14 },
+  5: { ac: 15, hp: [131, 145], attack: 6, damage: [33, 38], dc: 15 },
+  6: { ac: 15, hp: [146, 160], attack: 6, damage: [39, 44], dc: 15 },
+  7: { ac: 15, hp: [161, 175], attack: 6, damage: [45, 50], dc: 15 },
+  8: { ac: 16, hp: [176, 190], attack: 7, damage: [51, 56], dc: 16 },
+  9: { ac: 16, hp: [191, 205], attack: 7, damage: [57, 62], dc: 16 },
+  10: { ac: 17, hp: [206, 220], attack: 7, damage: [63, 68], dc: 16 },
+  11: { ac: 17, hp: [221, 235], attack: 8, damage: [69, 74], dc: 17 },
+  12: { ac: 17, hp: [236, 250], attack: 8, damage: [75, 80], dc: 17 },
+  13: { ac: 18, hp: [251, 265], attack: 8, damage: [81, 86], dc: 18 },
+  14: { ac: 18, hp: [266, 280], attack: 8, damage: [87, 92], dc: 18 },
+  15: { ac: 18, hp: [281, 295], attack: 8, damage: [93, 98], dc: 18 },
+  16: { ac: 18, hp: [296, 310], attack: 9, damage: [99, 104], dc: 18 },
+  17: { ac: 19, hp: [311, 325], attack: 10, damage: [105, 110], dc: 19 },
+  18: { ac: 19, hp: [326, 340], attack: 10, damage: [111, 116], dc: 19 },
+  19: { ac: 19, hp: [341, 355], attack: 10, damage: [117, 122], dc: 19 },
+  20: { ac: 19, hp: [356, 400], attack: 10, damage: [123, 140], dc: 19 },
+  21: { ac: 19, hp: [401, 445], attack: 11, damage: [141, 158], dc: 20 },
+  22: { ac: 19, hp: [446, 490], attack: 11, damage: [159, 176], dc: 20 },
+  23: { ac: 19, hp: [491, 535], attack: 11, damage: [177, 194], dc: 20 },
+  24: { ac: 19, hp: [536, 580], attack: 12, damage: [195, 212], dc: 21 },
+  25: { ac: 19, hp: [581, 625], attack: 12, damage: [213, 230], dc: 21 },
+  26: { ac: 19, hp: [626, 670], attack: 12, damage: [231, 248], dc: 21 },
+  27: { ac: 19, hp: [671, 715], attack: 13, damage: [249, 266], dc: 22 },
+  28: { ac: 19, hp: [716, 760], attack: 13, damage: [267, 284], dc: 22 },
+  29: { ac: 19, hp: [761, 805], attack: 13, damage: [285, 302], dc: 22 },
+  30: { ac: 19, hp: [806, 850], attack: 14, damage: [303, 320], dc: 23 },
+};
+
+export const MONSTER_TEMPLATES = ["minion", "elite", "solo-boss"] as const;
+export type MonsterTemplate = (typeof MONSTER_TEMPLATES)[number];
+
+export interface ScaleOptions {
+  /** Defaults to the monster's own CR, e.g. to apply only a template. */
+  targetCr?: number;
+  template?: MonsterTemplate;
+}
+
+export interface ScaledMonster {
+  monster: DdbMonster;
+  /** XP the scaled monster is worth; a quarter of the CR's XP for minions. */
+  xp: number;
+  /** One line per adjustment, e.g. "Hit Points: 7 → 116". */
+  changes: string[];
+}
+
+/** "1/4" for 0.25, so CRs read the way stat blocks print them. */
+export function formatCr(value: number): string {
+  const fractions: Record<number, string> = { 0.125: "1/8", 0.25: "1/4", 0.5: "1/2" };
+  return fractions[value] ?? String(value);
+}
+
+const midpoint = ([min, max]: [number, number]) => (min + max) / 2;
+
+function shiftNumbers(html: string, pattern: RegExp, delta: number): string {
+  if (!html || delta === 0) return html;
+  return html.replace(pattern, (_whole, before: string, value: string) => {
+    const shifted = Number(value) + delta;
+    return `${before}${shifted >= 0 && /^[+-]/.test(value) ? "+" : ""}${shifted}`;
+  });
+}
+
+/** "5 (1d6 + 2)" scaled by factor, keeping the die size and flat bonus. */
+function scaleDamage(html: string, factor: number): string {
+  if (!html || factor === 1) return html;
+  return html.replace(
+    /\b(\d+) \((\d+)d(\d+)(?:\s*([+−-])\s*(\d+))?\)/g,
+    (_whole, previous: string, _count: string, die: string, sign?: string, flat?: string) => {
+      const dieAverage = (Number(die) + 1) / 2;
+      const bonus = flat ? (sign === "+" ? 1 : -1) * Number(flat) : 0;
+      const target = Number(previous) * factor;
+      const count = Math.max(1, Math.round((target - bonus) / dieAverage));
+      const average = Math.max(1, Math.floor(count * dieAverage + bonus));
+      const bonusText = bonus === 0 ? "" : ` ${bonus > 0 ? "+" : "−"} ${Math.abs(bonus)}`;
+      return `${average} (${count}d${die}${bonusText})`;
+    }
+  );
+}
+
+/** Rewrites to-hit bonuses, save DCs and damage rolls in one stat block section. */
+function scaleSection(html: string, attackDelta: number, dcDelta: number, damageFactor: number): string {
+  let out = shiftNumbers(html, /(Attack Roll:(?:<\/?\w+>|\s)*)([+-]\d+)/gi, attackDelta);
+  out = shiftNumbers(out, /(^|[^\w])([+-]\d+)(?= to hit)/g, attackDelta);
+  out = shiftNumbers(out, /(\bDC )(\d+)/g, dcDelta);
+  return scaleDamage(out, damageFactor);
+}
+
+/** The fewest hit dice of the monster's die size and CON modifier that average at least hp. */
+function hitDiceFor(m: DdbMonster, hp: number): { averageHitPoints: number; hitPointDice: DdbMonster["hitPointDice"] } {
+  const die = m.hitPointDice?.diceValue || 8;
+  const con = m.stats?.find((s) => s.statId === 3)?.value ?? 10;
+  const conMod = Math.floor((con - 10) / 2);
+  const perDie = (die + 1) / 2 + conMod;
+  const count = Math.max(1, Math.ceil(hp / Math.max(1, perDie)));
+  const fixedValue = count * conMod;
+  const averageHitPoints = Math.max(1, Math.floor(count * ((die + 1) / 2)) + fixedValue);
+  const fixedText = fixedValue === 0 ? "" : ` ${fixedValue > 0 ? "+" : "-"} ${Math.abs(fixedValue)}`;
+  return { averageHitPoints, hitPointDice: { diceCount: count, diceValue: die, fixedValue, diceString: `${count}d${die}${fixedText}` } };
+}
+
+function addTrait(m: DdbMonster, name: string, text: string): void {
+  m.specialTraitsDescription = `${m.specialTraitsDescription ?? ""}<p><em><strong>${name}.</strong></em> ${text}</p>`;
+}
+
+const SECTIONS = [
+  "specialTraitsDescription",
+  "actionsDescription",
+  "bonusActionsDescription",
+  "reactionsDescription",
+  "legendaryActionsDescription",
+  "mythicActionsDescription",
+] as const;
+
+/**
+ * Returns a scaled copy of a monster. Throws when the monster's or the target's
+ * CR isn't on the table.
+ */
+export function scaleStatBlock(source: DdbMonster, config: GameConfig, options: ScaleOptions): ScaledMonster {
+  const fromCr = config.challengeRatings.find((c) => c.id === source.challengeRatingId);
+  if (!fromCr || !CR_TABLE[fromCr.value]) {
+    throw new Error(`${source.name} has no challenge rating to scale from.`);
+  }
+  const targetValue = options.targetCr ?? fromCr.value;
+  const toCr = config.challengeRatings.find((c) => c.value === targetValue);
+  if (!toCr || !CR_TABLE[targetValue]) {
+    throw new Error(`There is no CR ${targetValue}. Use 0, 0.125, 0.25, 0.5 or a whole number from 1 to 30.`);
+  }
+
+  const from = CR_TABLE[fromCr.value];
+  const to = CR_TABLE[targetValue];
+  const m: DdbMonster = structuredClone(source);
+  const changes: string[] = [];
+  const note = (label: string, before: number | string, after: number | string) => {
+    if (before !== after) changes.push(`${label}: ${before} → ${after}`);
+  };
+
+  const attackDelta = to.attack - from.attack;
+  const dcDelta = to.dc - from.dc;
+  const profDelta = toCr.proficiencyBonus - fromCr.proficiencyBonus;
+  const damageFactor = midpoint(to.damage) / Math.max(1, midpoint(from.damage));
+  let hp = Math.round(source.averageHitPoints * (midpoint(to.hp) / midpoint(from.hp)));
+  hp = Math.min(Math.max(hp, to.hp[0]), to.hp[1]);
+  let ac = source.armorClass + (to.ac - from.ac);
+  let xp = toCr.xp;
+
+  if (targetValue !== fromCr.value) {
+    m.challengeRatingId = toCr.id;
+    note("Challenge", formatCr(fromCr.value), formatCr(targetValue));
+    for (const section of SECTIONS) {
+      m[section] = scaleSection(m[section], attackDelta, dcDelta, damageFactor);
+    }
+    if (attackDelta !== 0) changes.push(`Attack bonuses: ${attackDelta > 0 ? "+" : ""}${attackDelta}`);
+    if (dcDelta !== 0) changes.push(`Save DCs: ${dcDelta > 0 ? "+" : ""}${dcDelta}`);
+    if (Math.abs(damageFactor - 1) >= 0.05) changes.push(`Damage: ×${damageFactor.toFixed(2)}`);
+    if (profDelta !== 0) {
+      m.savingThrows = (m.savingThrows ?? []).map((s) => ({ ...s, bonusModifier: s.bonusModifier + profDelta }));
+      m.skills = (m.skills ?? []).map((s) => ({ ...s, value: s.value + profDelta }));
+      m.skillsHtml = shiftNumbers(m.skillsHtml, /(^|[^\w])([+-]\d+)/g, profDelta);
+      changes.push(`Proficiency bonus: +${fromCr.proficiencyBonus} → +${toCr.proficiencyBonus} (saving throws and skills)`);
+    }
+  } else {
+    hp = source.averageHitPoints;
+    ac = source.armorClass;
+  }
+
+  switch (options.template) {
+    case "minion":
+      m.name = `${m.name} Minion`;
+      hp = 1;
+      xp = Math.floor(toCr.xp / 4);
+      m.isLegendary = false;
+      m.legendaryActionsDescription = "";
+      m.mythicActionsDescription = "";
+      addTrait(m, "Minion", "If the minion takes damage from an attack or as the result of a failed saving throw, it dies. If it succeeds on a saving throw against an effect that deals half damage on a success, it takes no damage.");
+      changes.push(`Minion: 1 hit point, no legendary or mythic actions, worth ${xp} XP (a quarter of CR ${formatCr(targetValue)})`);
+      break;
+    case "elite":
+      m.name = `Elite ${m.name}`;
+      hp = Math.round(hp * 1.5);
+      ac += 1;
+      for (const section of SECTIONS) {
+        m[section] = scaleSection(m[section], 1, 1, 1);
+      }
+      addTrait(m, "Elite Resilience (1/Day)", `If the ${source.name.toLowerCase()} fails a saving throw, it can choose to succeed instead.`);
+      changes.push("Elite: ×1.5 hit points, +1 AC, +1 to attack bonuses and save DCs, turns one failed save per day into a success");
+      break;
+    case "solo-boss": {
+      m.name = `Solo ${m.name}`;
+      hp *= 2;
+      if (!/Legendary Resistance/i.test(m.specialTraitsDescription ?? "")) {
+        addTrait(m, "Legendary Resistance (3/Day)", `If the ${source.name.toLowerCase()} fails a saving throw, it can choose to succeed instead.`);
+      }
+      const existing = /can take (\d+) legendary actions/i.exec(m.legendaryActionsDescription ?? "");
+      const count = existing ? Number(existing[1]) + 2 : 3;
+      const options =
+        "<p><strong>Move.</strong> It moves up to half its speed without provoking opportunity attacks.</p>" +
+        "<p><strong>Strike (Costs 2 Actions).</strong> It takes one action from its Actions that isn't Multiattack and doesn't have a recharge.</p>";
+      m.legendaryActionsDescription = existing
+        ? m.legendaryActionsDescription.replace(existing[0], `can take ${count} legendary actions`) + options
+        : `<p>The ${source.name.toLowerCase()} can take ${count} legendary actions, choosing from the options below. Only one legendary action option can be used at a time and only at the end of another creature's turn. It regains spent legendary actions at the start of its turn.</p>${options}`;
+      m.isLegendary = true;
+      changes.push(`Solo boss: ×2 hit points, Legendary Resistance (3/Day), ${count} legendary actions`);
+      break;
+    }
+  }
+
+  if (options.template === "minion") {
+    m.averageHitPoints = 1;
+    m.hitPointDice = { diceCount: 0, diceValue: 0, fixedValue: 1, diceString: "" };
+  } else {
+    Object.assign(m, hitDiceFor(m, hp));
+  }
+  note("Hit Points", source.averageHitPoints, m.averageHitPoints);
+  m.armorClass = ac;
+  note("Armor Class", source.armorClass, m.armorClass);
+
+  if (targetValue !== fromCr.value) {
+    m.name = `${m.name} (CR ${formatCr(targetValue)})`;
+  }
+
+  return { monster: m, xp, changes };
+}
@@ -0,0 +1,149 @@
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { DdbClient } from "../api/client.js";
+import { loadCharacterRoster } from "../api/roster.js";
+
+export type ProfileName = "full" | "dm" | "player" | "readonly";
+
+/**
+ * What a tool can change. Tools not listed here only read, or only touch
+ * local state such as the encounter tracker and the cache.
+ */
+export type ToolAccess = "gameplay" | "builder" | "encounter" | "account";
+
+export const TOOL_ACCESS: Record<string, ToolAccess> = {
+  // Things that change at the table
+  update_hp: "gameplay",
+  set_inspiration: "gameplay",
+  add_condition: "gameplay",
+  remove_condition: "gameplay",
+  update_spell_slots: "gameplay",
+  update_death_saves: "gameplay",
+  update_currency: "gameplay",
+  use_ability: "gameplay",
+  update_pact_magic: "gameplay",
+  long_rest: "gameplay",
+  short_rest: "gameplay",
+  cast_spell: "gameplay",
+  undo_last_change: "gameplay",
+  add_inventory_items: "gameplay",
+  set_gold: "gameplay",
+  // Character building
+  add_class: "builder",
+  set_background: "builder",
+  set_background_choice: "builder",
+  set_class_feature_choice: "builder",
+  set_race_trait_choice: "builder",
+  set_feat_choice: "builder",
+  resolve_choices: "builder",
+  set_species: "builder",
+  set_ability_score: "builder",
+  update_character_name: "builder",
+  set_class_level: "builder",
+  level_up: "builder",
+  set_ability_score_type: "builder",
+  set_starting_equipment_type: "builder",
+  update_description: "builder",
+  // Encounter tools that write through to characters on D&D Beyond
+  damage_combatant: "encounter",
+  set_combatant_condition: "encounter",
+  // The account itself
+  setup_auth: "account",
+  create_character: "account",
+  delete_character: "account",
+};
+
+interface ProfileRules {
+  access: ToolAccess[];
+  /** Which characters write tools may touch: any ID, the roster (own + campaign characters), or own characters. */
+  characters: "any" | "roster" | "owned";
+}
+
+const PROFILES: Record<ProfileName, ProfileRules> = {
+  full: { access: ["gameplay", "builder", "encounter", "account"], characters: "any" },
+  dm: { access: ["gameplay", "builder", "encounter"], characters: "roster" },
+  player: { access: ["gameplay"], characters: "owned" },
+  readonly: { access: [], characters: "owned" },
+};
+
+interface ToolResult {
+  [key: string]: unknown;
+  content: Array<{ type: "text"; text: string }>;
+}
+
+/**
+ * Limits what an assistant can do with the account the cookie belongs to:
+ * which tools are registered at all, and which characters the write tools
+ * may change.
+ */
+export class PermissionProfile {
+  readonly name: ProfileName;
+  private readonly rules: ProfileRules;
+
+  constructor(name: ProfileName = "full") {
+    this.name = name;
+    this.rules = PROFILES[name];
+  }
+
+  /** DDB_PROFILE selects the profile (default: full). Throws on an unknown name. */
+  static fromEnv(env: NodeJS.ProcessEnv = process.env): PermissionProfile {
+    const name = (env.DDB_PROFILE || "full").toLowerCase();
+    if (!(name in PROFILES)) {
+      throw new Error(`Unknown DDB_PROFILE "${env.DDB_PROFILE}" (expected readonly, player, dm or full)`);
+    }
+    return new PermissionProfile(name as ProfileName);
+  }
+
+  allowsTool(tool: string): boolean {
+    const access = TOOL_ACCESS[tool];
+    return access === undefined || this.rules.access.includes(access);
+  }
+
+  /** Returns why the character can't be changed under this profile, or null if it can. */
+  async checkCharacter(client: DdbClient, characterId: number): Promise<string | null> {
+    if (this.rules.characters === "any") return null;
+
+    const roster = await loadCharacterRoster(client);
+    const character = roster.find((c) => c.id === characterId);
+    if (this.rules.characters === "owned" && !character?.owned) {
+      return `The "${this.name}" profile only allows changes to your own characters, and character ${characterId} is not on your character list.`;
+    }
+    if (!character) {
+      return `The "${this.name}" profile only allows changes to your characters and those in your campaigns, and character ${characterId} is in neither.`;
+    }
+    return null;
+  }
+}
+
+type ToolHandler = (...args: unknown[]) => Promise<ToolResult>;
+
+/**
+ * Applies a profile to every tool registered on the server from here on:
+ * tools the profile doesn't allow are skipped, and write tools check their
+ * characterId against the profile before running.
+ */
+export function restrictTools(server: McpServer, client: DdbClient, profile: PermissionProfile): void {
+  if (profile.name === "full") return;
+
+  const guard = (name: string, handler: ToolHandler): ToolHandler => {
+    if (TOOL_ACCESS[name] === undefined) return handler;
+    return async (...args) => {
+      const characterId = (args[0] as { characterId?: unknown } | undefined)?.characterId;
+      if (typeof characterId === "number") {
+        const denied = await profile.checkCharacter(client, characterId);
+        if (denied) return { content: [{ type: "text", text: denied }], isError: true };
+      }
+      return handler(...args);
+    };
+  };
+
+  // Both registration methods take the handler as their last argument
+  type Register = (...args: unknown[]) => unknown;
+  const wrap = (register: Register) => (name: string, ...rest: unknown[]) => {
+    if (!profile.allowsTool(name)) return undefined;
+    const handler = rest.pop() as ToolHandler;
+    return register(name, ...rest, guard(name, handler));
+  };
+
+  server.tool = wrap(server.tool.bind(server) as Register) as unknown as typeof server.tool;
+  server.registerTool = wrap(server.registerTool.bind(server) as Register) as unknown as typeof server.registerTool;
+}
@@ -8,7 +8,7 @@ export function registerEncounterBuilderPrompt(server: McpServer): void {
     {
       partySize: z.string().describe("Number of players in the party"),
       partyLevel: z.string().describe("Average party level"),
-      difficulty: z.string().describe("Encounter difficulty (easy, medium, hard, deadly)"),
+      difficulty: z.string().describe("Encounter difficulty (2014: easy, medium, hard, deadly; 2024: low, moderate, high)"),
       environment: z.string().describe("Environment or theme for the encounter"),
     },
     async (args) => {
@@ -26,13 +26,14 @@ export function registerEncounterBuilderPrompt(server: McpServer): void {
               text: `Build a ${difficulty} encounter for a party of ${partySize} level ${partyLevel} characters in a ${environment} environment.
 
 Please:
-1. Calculate the appropriate XP budget based on party size, level, and difficulty
-2. Search for monsters that fit the environment and theme (use search_monsters)
-3. Suggest a balanced combination of monsters that meets the XP budget
-4. Provide tactical notes on how to run the encounter
-5. Note any environmental hazards or features that could enhance the encounter
+1. Search for monsters that fit the environment and theme (use search_monsters with environment: "${environment}" and a crMin/crMax range around the party level)
+2. If a monster fits the theme but not the CR, or you need minions or a solo boss, make a variant with scale_monster
+3. Propose a combination of monsters and check it with evaluate_encounter (pass partyLevels with ${partySize} entries of ${partyLevel}) — don't calculate XP by hand
+4. Adjust the monster mix until evaluate_encounter rates it ${difficulty}
+5. Provide tactical notes on how to run the encounter
+6. Note any environmental hazards or features that could enhance the encounter
 
-Include CR calculations and explain your monster selection choices.`,
+Report the XP figures from evaluate_encounter and explain your monster selection choices.`,
             },
           },
         ],
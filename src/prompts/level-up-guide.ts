@@ -27,6 +27,7 @@ Please:
 5. If this is an ASI level, recommend ability score improvements or feats
 6. Consider the character's existing build and playstyle in your recommendations
 7. Explain the mechanical and roleplay implications of each choice
+8. Once the player has decided, apply the level with level_up and resolve each choice it lists with set_class_feature_choice or set_feat_choice, using the options the player picked
 
 Provide a comprehensive walkthrough that helps the player make informed decisions about their character progression.`,
             },
@@ -22,8 +22,8 @@ export function registerSessionPrepPrompt(server: McpServer): void {
               text: `Prepare a D&D session for campaign ${campaignId} at party level ${partyLevel}.
 
 Please help me with:
-1. Review party composition and capabilities (use get_campaign_characters)
-2. Suggest appropriate encounters based on party level and composition
+1. Review party composition, capabilities and current state (use get_party_status, or read dndbeyond://campaign/${campaignId}/dashboard)
+2. Suggest appropriate encounters based on party level and composition, and rate each one with evaluate_encounter (campaignId ${campaignId})
 3. Note any unresolved plot hooks or character arcs from the campaign
 4. Recommend relevant monsters, items, or spells for this session
 
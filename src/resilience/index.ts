@@ -1,3 +1,3 @@
 export { CircuitBreaker } from "./circuit-breaker.js";
-export { RateLimiter } from "./rate-limiter.js";
+export { RateLimiter, type RequestPriority } from "./rate-limiter.js";
 export { withRetry, HttpError, type RetryOptions } from "./retry.js";
@@ -1,6 +1,10 @@
+/** Background requests (e.g. the monster index crawl) give way to tool calls. */
+export type RequestPriority = "interactive" | "background";
+
 export class RateLimiter {
   private tokens: number;
   private lastRefill: number;
+  private interactiveWaiting = 0;
 
   constructor(
     private readonly maxTokens: number = 2,
@@ -10,15 +14,22 @@ export class RateLimiter {
     this.lastRefill = Date.now();
   }
 
-  async acquire(): Promise<void> {
+  /** Background callers also wait while an interactive caller is queued. */
+  async acquire(priority: RequestPriority = "interactive"): Promise<void> {
     this.refill();
-    if (this.tokens >= 1) {
-      this.tokens--;
-      return;
+    const background = priority === "background";
+    if (!background) this.interactiveWaiting++;
+    try {
+      // Loop rather than wait once: callers queued behind the same refill would
+      // otherwise all take a token and push the count negative
+      while (this.tokens < 1 || (background && this.interactiveWaiting > 0)) {
+        const waitMs = this.refillRateMs - (Date.now() - this.lastRefill);
+        await new Promise((resolve) => setTimeout(resolve, Math.max(0, waitMs)));
+        this.refill();
+      }
+    } finally {
+      if (!background) this.interactiveWaiting--;
     }
-    const waitMs = this.refillRateMs - (Date.now() - this.lastRefill);
-    await new Promise((resolve) => setTimeout(resolve, Math.max(0, waitMs)));
-    this.refill();
     this.tokens--;
   }
 
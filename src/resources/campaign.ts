@@ -3,6 +3,7 @@ import { DdbClient } from "../api/client.js";
 import { ENDPOINTS } from "../api/endpoints.js";
 import { HttpError } from "../resilience/index.js";
 import type { DdbCampaign, DdbCampaignCharacter2 } from "../types/api.js";
+import { buildPartyDashboard } from "../tools/party.js";
 
 const CAMPAIGN_CACHE_TTL = 5 * 60 * 1000; // 5 minutes
 
@@ -141,4 +142,34 @@ export function registerCampaignResources(server: McpServer, client: DdbClient)
       }
     }
   );
+
+  // Resource 3: dndbeyond://campaign/{id}/dashboard - Live party status for a campaign
+  server.registerResource(
+    "campaign-dashboard",
+    new ResourceTemplate("dndbeyond://campaign/{id}/dashboard", {
+      list: undefined,
+    }),
+    {
+      description: "Party dashboard for a campaign: HP, AC, passive scores, spell slots, resources, conditions and inspiration for every character",
+      mimeType: "text/plain",
+    },
+    async (uri) => {
+      try {
+        const match = uri.toString().match(/^dndbeyond:\/\/campaign\/(\d+)\/dashboard$/);
+        if (!match) {
+          return {
+            contents: [{ uri: uri.toString(), text: "Invalid campaign dashboard URI format. Expected: dndbeyond://campaign/{id}/dashboard", mimeType: "text/plain" }],
+          };
+        }
+
+        const text = await buildPartyDashboard(client, parseInt(match[1], 10));
+        return { contents: [{ uri: uri.toString(), text, mimeType: "text/plain" }] };
+      } catch (error) {
+        if (error instanceof HttpError) {
+          return { contents: [{ uri: uri.toString(), text: `Error: ${error.message}`, mimeType: "text/plain" }] };
+        }
+        throw error;
+      }
+    }
+  );
 }
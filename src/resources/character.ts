@@ -2,7 +2,7 @@ import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mc
 import type { DdbClient } from "../api/client.js";
 import { ENDPOINTS } from "../api/endpoints.js";
 import type { DdbCharacter } from "../types/character.js";
-import type { DdbCampaign, DdbCampaignCharacter2 } from "../types/api.js";
+import { loadCharacterRoster, formatMembership } from "../api/roster.js";
 import { HttpError } from "../resilience/index.js";
 import { ABILITY_NAMES, calculateAbilityModifier, computeFinalAbilityScore, computeLevel, calculateMaxHp, calculateCurrentHp, calculateAc } from "../utils/character-calculations.js";
 
@@ -126,28 +126,9 @@ export function registerCharacterResources(server: McpServer, client: DdbClient)
     },
     async () => {
       try {
-        const campaignsResponse = await client.get<DdbCampaign[]>(
-          ENDPOINTS.campaign.list(),
-          "campaigns",
-          300_000
-        );
-
-        // Fetch characters from each campaign using the new endpoint
-        const allCharacters: Array<{ id: number; name: string; campaignName: string }> = [];
-        for (const campaign of campaignsResponse) {
-          const characters = await client.get<DdbCampaignCharacter2[]>(
-            ENDPOINTS.campaign.characters(campaign.id),
-            `campaign:${campaign.id}:characters`,
-            300_000
-          );
-          allCharacters.push(...characters.map((char) => ({
-            id: char.id,
-            name: char.name,
-            campaignName: campaign.name,
-          })));
-        }
+        const roster = await loadCharacterRoster(client);
 
-        if (allCharacters.length === 0) {
+        if (roster.length === 0) {
           return {
             contents: [
               {
@@ -161,29 +142,17 @@ export function registerCharacterResources(server: McpServer, client: DdbClient)
 
         // N+1 query: fetches full character data for each character individually.
         // Acceptable for typical usage (5-10 characters) since results are cached.
-        const characterDetails = await Promise.all(
-          allCharacters.map(async (char) => {
+        const lines = await Promise.all(
+          roster.map(async (char) => {
             const details = await client.get<DdbCharacter>(
               ENDPOINTS.character.get(char.id),
               `character:${char.id}`,
               60_000
             );
-            return {
-              id: char.id,
-              name: details.name,
-              race: details.race.fullName,
-              classes: formatClasses(details),
-              level: computeLevel(details),
-              campaign: char.campaignName,
-            };
+            return `ID: ${char.id} | ${details.name} - ${details.race.fullName} ${formatClasses(details)} (Level ${computeLevel(details)}) - ${formatMembership(char)}`;
           })
         );
 
-        const lines = characterDetails.map(
-          (char) =>
-            `ID: ${char.id} | ${char.name} - ${char.race} ${char.classes} (Level ${char.level}) - ${char.campaign}`
-        );
-
         return {
           contents: [
             {
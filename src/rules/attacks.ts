@@ -0,0 +1,304 @@
+/**
+ * Attack and damage calculator. Turns a character's equipped weapons and
+ * damaging spells into to-hit bonuses or save DCs and damage rolls, built on
+ * the derived-stat engine so every number carries its breakdown.
+ */
+
+import type { DdbCharacter, DdbDice, DdbInventoryItem, DdbSpell, DdbSpellModifier } from "../types/character.js";
+import {
+  ABILITY_NAMES,
+  SPELLCASTING_ABILITY,
+  abilityMod,
+  bonusParts,
+  characterLevel,
+  derived,
+  findModifiers,
+  modifierList,
+  proficiencyBonusForLevel,
+  type DerivedStat,
+  type SourcedModifier,
+  type StatPart,
+} from "./engine.js";
+
+export interface DamageRoll {
+  /** Dice part, e.g. "1d8"; null for flat damage. */
+  dice: string | null;
+  /** Flat part added to the dice. */
+  bonus: DerivedStat;
+  type: string | null;
+}
+
+export interface Attack {
+  name: string;
+  kind: "weapon" | "spell";
+  /** Attack roll bonus; null for saving-throw spells. */
+  toHit: DerivedStat | null;
+  save: { dc: DerivedStat; ability: string } | null;
+  damage: DamageRoll[];
+  /** Two-handed damage for versatile weapons. */
+  versatile: DamageRoll | null;
+  range: string | null;
+  properties: string[];
+  notes: string[];
+}
+
+const STR = 1;
+const DEX = 2;
+
+const CANTRIP_TIERS = [5, 11, 17];
+
+function diceString(dice: DdbDice | null | undefined): string | null {
+  if (!dice) return null;
+  if (dice.diceString) return dice.diceString;
+  if (dice.diceCount && dice.diceValue) return `${dice.diceCount}d${dice.diceValue}`;
+  return null;
+}
+
+function slug(name: string): string {
+  return name.toLowerCase().replace(/'/g, "").replace(/\s+/g, "-");
+}
+
+/** Fighting Style and similar option names, from class options (2014) or feats (2024). */
+function chosenOptions(char: DdbCharacter): Set<string> {
+  const names = new Set<string>();
+  for (const options of Object.values(char.options ?? {})) {
+    for (const option of options ?? []) names.add(option.definition.name);
+  }
+  for (const feat of char.feats ?? []) names.add(feat.definition.name);
+  return names;
+}
+
+// ============================================================================
+// WEAPONS
+// ============================================================================
+
+function isWeapon(item: DdbInventoryItem): boolean {
+  return Boolean(item.definition.damage) || item.definition.filterType === "Weapon";
+}
+
+function weaponProficient(item: DdbInventoryItem, mods: SourcedModifier[]): boolean {
+  const subTypes = [slug(item.definition.name)];
+  if (item.definition.type) subTypes.push(slug(item.definition.type));
+  if (item.definition.categoryId === 1) subTypes.push("simple-weapons");
+  if (item.definition.categoryId === 2) subTypes.push("martial-weapons");
+  return findModifiers(mods, "proficiency", subTypes).length > 0;
+}
+
+/** +N from the item's own "magic" bonus, falling back to the character's item modifiers. */
+function magicBonus(item: DdbInventoryItem, mods: SourcedModifier[]): number {
+  const granted = (item.definition.grantedModifiers ?? [])
+    .filter((m) => m.type === "bonus" && m.subType === "magic");
+  const sources = granted.length > 0
+    ? granted
+    : findModifiers(mods, "bonus", ["magic"])
+      .filter((m) => m.source === "item" && item.definition.id !== undefined && m.componentId === item.definition.id);
+  return sources.reduce((sum, m) => sum + (m.value ?? 0), 0);
+}
+
+function weaponAttack(char: DdbCharacter, item: DdbInventoryItem, mods: SourcedModifier[], options: Set<string>): Attack {
+  const def = item.definition;
+  const properties = (def.properties ?? []).map((p) => p.name);
+  const has = (name: string) => properties.some((p) => p.toLowerCase() === name);
+  const ranged = def.attackType === 2;
+  const reach = ranged ? "ranged" : "melee";
+
+  // Ranged weapons use DEX; finesse weapons whichever of STR and DEX is higher
+  let abilityId = ranged ? DEX : STR;
+  if (has("finesse") && abilityMod(char, DEX) > abilityMod(char, STR)) abilityId = DEX;
+  const ability: StatPart = { label: ABILITY_NAMES[abilityId - 1], value: abilityMod(char, abilityId) };
+  const magic = magicBonus(item, mods);
+  const notes: string[] = [];
+
+  const toHitParts: StatPart[] = [ability];
+  if (weaponProficient(item, mods)) {
+    toHitParts.push({ label: "proficiency", value: proficiencyBonusForLevel(characterLevel(char)) });
+  } else {
+    notes.push("Not proficient");
+  }
+  if (magic) toHitParts.push({ label: "magic", value: magic });
+  const attackBonuses = bonusParts(mods, ["weapon-attacks", `${reach}-weapon-attacks`, `${reach}-attacks`]);
+  toHitParts.push(...attackBonuses);
+  // D&D Beyond usually grants Archery as a ranged-weapon-attacks bonus; only add it when that's missing
+  if (ranged && options.has("Archery") && findModifiers(mods, "bonus", ["ranged-weapon-attacks"]).length === 0) {
+    toHitParts.push({ label: "Archery", value: 2 });
+  }
+
+  const damageParts: StatPart[] = [ability];
+  if (magic) damageParts.push({ label: "magic", value: magic });
+  if (!ranged && !has("two-handed") && options.has("Dueling")) {
+    damageParts.push({ label: "Dueling", value: 2 });
+    notes.push("Dueling applies only with no other weapon in hand");
+  }
+  if (has("thrown") && options.has("Thrown Weapon Fighting")) {
+    notes.push("Thrown Weapon Fighting: +2 damage when thrown");
+  }
+  if (!ranged && (has("two-handed") || has("versatile")) && options.has("Great Weapon Fighting")) {
+    notes.push("Great Weapon Fighting: 1s and 2s on damage dice are rerolled (2014) or count as 3 (2024) when wielded two-handed");
+  }
+  if (has("light") && options.has("Two-Weapon Fighting")) {
+    notes.push("Two-Weapon Fighting: add the ability modifier to off-hand damage");
+  }
+
+  const type = def.damageType ?? null;
+  const versatileDice = def.properties?.find((p) => p.name.toLowerCase() === "versatile")?.notes;
+  const withoutDueling = damageParts.filter((p) => p.label !== "Dueling");
+
+  let range = has("reach") ? "10 ft" : "5 ft";
+  if (ranged || has("thrown")) {
+    const long = def.longRange ? `/${def.longRange}` : "";
+    range = ranged ? `${def.range ?? 0}${long} ft` : `5 ft, thrown ${def.range ?? 20}${long} ft`;
+  }
+
+  return {
+    name: def.name,
+    kind: "weapon",
+    toHit: derived(toHitParts),
+    save: null,
+    damage: [{ dice: diceString(def.damage), bonus: derived(damageParts), type }],
+    versatile: versatileDice ? { dice: versatileDice, bonus: derived(withoutDueling), type } : null,
+    range,
+    properties,
+    notes,
+  };
+}
+
+// ============================================================================
+// SPELLS
+// ============================================================================
+
+function allSpells(char: DdbCharacter): Array<{ spell: DdbSpell; source: string }> {
+  const list: Array<{ spell: DdbSpell; source: string }> = [];
+  for (const [source, spells] of Object.entries(char.spells ?? {})) {
+    if (!Array.isArray(spells)) continue;
+    for (const spell of spells) list.push({ spell, source });
+  }
+  return list;
+}
+
+/** Class spells count once prepared (or always prepared); cantrips and other sources always do. */
+function isCastable(spell: DdbSpell, source: string): boolean {
+  return source !== "class" || spell.definition.level === 0 || spell.prepared || spell.alwaysPrepared;
+}
+
+/** The spell's own casting ability, else the highest-level spellcasting class, else WIS. */
+function spellcastingAbility(char: DdbCharacter, spell: DdbSpell): number {
+  if (spell.spellCastingAbilityId) return spell.spellCastingAbilityId;
+  const caster = [...(char.classes ?? [])]
+    .sort((a, b) => b.level - a.level)
+    .find((cls) => SPELLCASTING_ABILITY[cls.definition.name]);
+  return caster ? SPELLCASTING_ABILITY[caster.definition.name] : 5;
+}
+
+/**
+ * Damage dice at the character's level. Cantrips scale with character level:
+ * D&D Beyond lists the steps in atHigherLevels; without them the standard
+ * one extra die at levels 5, 11 and 17 applies.
+ */
+function scaledDice(mod: DdbSpellModifier, spellLevel: number, level: number): { dice: string | null; scaled: boolean } {
+  const base = diceString(mod.die);
+  if (spellLevel !== 0) return { dice: base, scaled: false };
+
+  const steps = (mod.atHigherLevels?.higherLevelDefinitions ?? [])
+    .filter((d) => d.level != null && d.level <= level && diceString(d.dice))
+    .sort((a, b) => (b.level as number) - (a.level as number));
+  if (steps.length > 0) return { dice: diceString(steps[0].dice), scaled: true };
+
+  const tier = 1 + CANTRIP_TIERS.filter((t) => level >= t).length;
+  const match = base?.match(/^(\d+)d(\d+)$/);
+  if (tier === 1 || !match) return { dice: base, scaled: false };
+  return { dice: `${Number(match[1]) * tier}d${match[2]}`, scaled: true };
+}
+
+function spellRange(spell: DdbSpell): string | null {
+  const range = spell.definition.range;
+  if (!range) return null;
+  const aoe = range.aoeType && range.aoeValue ? ` (${range.aoeValue} ft ${range.aoeType.toLowerCase()})` : "";
+  if (range.origin === "Ranged" && range.rangeValue) return `${range.rangeValue} ft${aoe}`;
+  return `${range.origin}${aoe}`;
+}
+
+function spellLevelLabel(level: number): string {
+  if (level === 0) return "Cantrip";
+  const suffix = level === 1 ? "st" : level === 2 ? "nd" : level === 3 ? "rd" : "th";
+  return `${level}${suffix} level`;
+}
+
+function spellAttack(char: DdbCharacter, spell: DdbSpell, mods: SourcedModifier[]): Attack | null {
+  const def = spell.definition;
+  const damageMods = (def.modifiers ?? []).filter((m) => m.type === "damage" && diceString(m.die));
+  if (damageMods.length === 0) return null;
+
+  const level = characterLevel(char);
+  const abilityId = spellcastingAbility(char, spell);
+  const ability: StatPart = { label: ABILITY_NAMES[abilityId - 1], value: abilityMod(char, abilityId) };
+  const proficiency: StatPart = { label: "proficiency", value: proficiencyBonusForLevel(level) };
+  const notes: string[] = [];
+
+  const toHit = def.requiresAttackRoll || def.attackType
+    ? derived([ability, proficiency, ...bonusParts(mods, ["spell-attacks"])])
+    : null;
+  const save = def.requiresSavingThrow && def.saveDcAbilityId
+    ? {
+      dc: derived([{ label: "base", value: 8 }, ability, proficiency, ...bonusParts(mods, ["spell-save-dc"])]),
+      ability: ABILITY_NAMES[def.saveDcAbilityId - 1],
+    }
+    : null;
+
+  const damage = damageMods.map((mod) => {
+    const { dice, scaled } = scaledDice(mod, def.level, level);
+    if (scaled && !notes.includes("Cantrip damage scaled to character level")) {
+      notes.push("Cantrip damage scaled to character level");
+    }
+    return {
+      dice,
+      bonus: derived(mod.usePrimaryStat ? [ability] : []),
+      type: mod.subType ? mod.subType.charAt(0).toUpperCase() + mod.subType.slice(1) : null,
+    };
+  });
+  if (def.level > 0 && damageMods.some((m) => m.atHigherLevels?.higherLevelDefinitions?.length)) {
+    notes.push("More damage when cast with a higher-level slot");
+  }
+
+  return {
+    name: def.name,
+    kind: "spell",
+    toHit,
+    save,
+    damage,
+    versatile: null,
+    range: spellRange(spell),
+    properties: [spellLevelLabel(def.level)],
+    notes,
+  };
+}
+
+// ============================================================================
+// ENTRY POINT
+// ============================================================================
+
+/** Every equipped weapon, then every castable damaging spell (by level, then name). */
+export function deriveAttacks(char: DdbCharacter): Attack[] {
+  const mods = modifierList(char.modifiers);
+  const options = chosenOptions(char);
+
+  const weapons = (char.inventory ?? [])
+    .filter((item) => item.equipped && isWeapon(item))
+    .map((item) => weaponAttack(char, item, mods, options));
+
+  const seen = new Set<string>();
+  const spells: Attack[] = [];
+  const castable = allSpells(char)
+    .filter(({ spell, source }) => isCastable(spell, source))
+    .sort((a, b) => a.spell.definition.level - b.spell.definition.level
+      || a.spell.definition.name.localeCompare(b.spell.definition.name));
+  for (const { spell } of castable) {
+    if (seen.has(spell.definition.name)) continue;
+    const attack = spellAttack(char, spell, mods);
+    if (attack) {
+      seen.add(spell.definition.name);
+      spells.push(attack);
+    }
+  }
+
+  return [...weapons, ...spells];
+}
@@ -0,0 +1,486 @@
+/**
+ * Derived-stat rules engine. Evaluates a character's D&D Beyond modifiers the
+ * way the D&D Beyond sheet does (override > set > base + bonuses) and records
+ * every contribution, so each number can be explained, e.g.
+ * "AC 16 = 10 base + 2 DEX + 4 WIS (Unarmored Defense)".
+ */
+
+import type { DdbCharacter, DdbInventoryItem, DdbModifier } from "../types/character.js";
+
+export const ABILITY_NAMES = ["STR", "DEX", "CON", "INT", "WIS", "CHA"];
+
+const ABILITY_KEYS = ["strength", "dexterity", "constitution", "intelligence", "wisdom", "charisma"];
+
+// Maps stat ID (1-6) to the subType prefix used in D&D Beyond modifiers
+export const ABILITY_SUBTYPE_MAP: Record<number, string> = {
+  1: "strength-score",
+  2: "dexterity-score",
+  3: "constitution-score",
+  4: "intelligence-score",
+  5: "wisdom-score",
+  6: "charisma-score",
+};
+
+export const SAVING_THROW_SUBTYPES: Record<number, string> = {
+  1: "strength-saving-throws",
+  2: "dexterity-saving-throws",
+  3: "constitution-saving-throws",
+  4: "intelligence-saving-throws",
+  5: "wisdom-saving-throws",
+  6: "charisma-saving-throws",
+};
+
+// Spellcasting ability by class; classes not listed don't cast from their own list
+export const SPELLCASTING_ABILITY: Record<string, number> = {
+  "Wizard": 4, "Artificer": 4,  // INT
+  "Sorcerer": 6, "Warlock": 6, "Bard": 6, "Paladin": 6,  // CHA
+  "Cleric": 5, "Druid": 5, "Ranger": 5,  // WIS
+};
+
+export interface SkillDefinition {
+  name: string;
+  abilityId: number;
+  subType: string;
+}
+
+export const SKILL_DEFINITIONS: SkillDefinition[] = [
+  { name: "Acrobatics", abilityId: 2, subType: "acrobatics" },
+  { name: "Animal Handling", abilityId: 5, subType: "animal-handling" },
+  { name: "Arcana", abilityId: 4, subType: "arcana" },
+  { name: "Athletics", abilityId: 1, subType: "athletics" },
+  { name: "Deception", abilityId: 6, subType: "deception" },
+  { name: "History", abilityId: 4, subType: "history" },
+  { name: "Insight", abilityId: 5, subType: "insight" },
+  { name: "Intimidation", abilityId: 6, subType: "intimidation" },
+  { name: "Investigation", abilityId: 4, subType: "investigation" },
+  { name: "Medicine", abilityId: 5, subType: "medicine" },
+  { name: "Nature", abilityId: 4, subType: "nature" },
+  { name: "Perception", abilityId: 5, subType: "perception" },
+  { name: "Performance", abilityId: 6, subType: "performance" },
+  { name: "Persuasion", abilityId: 6, subType: "persuasion" },
+  { name: "Religion", abilityId: 4, subType: "religion" },
+  { name: "Sleight of Hand", abilityId: 2, subType: "sleight-of-hand" },
+  { name: "Stealth", abilityId: 2, subType: "stealth" },
+  { name: "Survival", abilityId: 5, subType: "survival" },
+];
+
+/** One term of a derived number, e.g. { label: "DEX", value: 2 }. */
+export interface StatPart {
+  label: string;
+  value: number;
+}
+
+export interface DerivedStat {
+  value: number;
+  parts: StatPart[];
+  /** Context that doesn't change the number, e.g. alternatives that were beaten. */
+  notes: string[];
+}
+
+export type ProficiencyLevel = "none" | "half" | "proficient" | "expertise";
+
+export interface DerivedCheck extends DerivedStat {
+  proficiency: ProficiencyLevel;
+}
+
+/** The stat sources ability scores are computed from. */
+export type AbilitySources = Pick<DdbCharacter, "stats" | "bonusStats" | "overrideStats" | "modifiers">;
+
+const SOURCE_LABELS: Record<string, string> = {
+  race: "Species",
+  class: "Class",
+  background: "Background",
+  item: "Item",
+  feat: "Feat",
+  condition: "Condition",
+};
+
+export interface SourcedModifier extends DdbModifier {
+  source: string;
+}
+
+export function derived(parts: StatPart[], notes: string[] = []): DerivedStat {
+  return { value: parts.reduce((sum, p) => sum + p.value, 0), parts, notes };
+}
+
+/** Every modifier on the character, tagged with the bucket it came from. */
+export function modifierList(modifiers: Record<string, DdbModifier[]> | undefined): SourcedModifier[] {
+  const list: SourcedModifier[] = [];
+  for (const [source, mods] of Object.entries(modifiers ?? {})) {
+    if (!Array.isArray(mods)) continue;
+    for (const mod of mods) list.push({ ...mod, source });
+  }
+  return list;
+}
+
+export function findModifiers(mods: SourcedModifier[], type: string, subTypes: string[]): SourcedModifier[] {
+  return mods.filter((m) => m.type === type && subTypes.includes(m.subType));
+}
+
+function sourceLabel(mod: SourcedModifier): string {
+  return SOURCE_LABELS[mod.source] ?? mod.source;
+}
+
+/** "Item bonus" style parts for every matching bonus modifier with a value. */
+export function bonusParts(mods: SourcedModifier[], subTypes: string[]): StatPart[] {
+  return findModifiers(mods, "bonus", subTypes)
+    .filter((m) => m.value != null)
+    .map((m) => ({ label: `${sourceLabel(m)} bonus`, value: m.value as number }));
+}
+
+export function abilityModifier(score: number): number {
+  return Math.floor((score - 10) / 2);
+}
+
+export function characterLevel(char: Pick<DdbCharacter, "classes">): number {
+  return (char.classes ?? []).reduce((sum, cls) => sum + cls.level, 0);
+}
+
+export function proficiencyBonusForLevel(level: number): number {
+  return Math.ceil(level / 4) + 1;
+}
+
+// ============================================================================
+// ABILITY SCORES
+// ============================================================================
+
+/**
+ * Final ability score. A manual override wins outright; otherwise base + manual
+ * bonus + "bonus" modifiers, raised to the highest "set" modifier (Belt of Giant
+ * Strength, Headband of Intellect) when that is higher.
+ */
+export function deriveAbilityScore(char: AbilitySources, id: number): DerivedStat {
+  const override = char.overrideStats?.find((s) => s.id === id)?.value;
+  if (override !== null && override !== undefined) {
+    return derived([{ label: "override", value: override }]);
+  }
+
+  const mods = modifierList(char.modifiers);
+  const subType = ABILITY_SUBTYPE_MAP[id] ?? "";
+  const parts: StatPart[] = [{ label: "base", value: char.stats?.find((s) => s.id === id)?.value ?? 10 }];
+  const manualBonus = char.bonusStats?.find((s) => s.id === id)?.value;
+  if (manualBonus) parts.push({ label: "other bonus", value: manualBonus });
+  parts.push(...bonusParts(mods, [subType]));
+  const computed = derived(parts);
+
+  const set = findModifiers(mods, "set", [subType])
+    .filter((m) => m.value != null)
+    .sort((a, b) => (b.value as number) - (a.value as number))[0];
+  if (set && (set.value as number) > computed.value) {
+    return derived(
+      [{ label: `set by ${sourceLabel(set).toLowerCase()}`, value: set.value as number }],
+      [`replaces ${computed.value} from base and bonuses`],
+    );
+  }
+  return computed;
+}
+
+export function abilityMod(char: AbilitySources, id: number): number {
+  return abilityModifier(deriveAbilityScore(char, id).value);
+}
+
+// ============================================================================
+// PROFICIENCY, SAVES, SKILLS, PASSIVES, INITIATIVE
+// ============================================================================
+
+function proficiencyPart(level: ProficiencyLevel, profBonus: number, roundUp: boolean): StatPart | null {
+  switch (level) {
+    case "expertise":
+      return { label: "expertise", value: profBonus * 2 };
+    case "proficient":
+      return { label: "proficiency", value: profBonus };
+    case "half":
+      return {
+        label: "half proficiency",
+        value: roundUp ? Math.ceil(profBonus / 2) : Math.floor(profBonus / 2),
+      };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Proficiency in an ability check. Jack of All Trades arrives as a
+ * "half-proficiency" modifier on "ability-checks"; Remarkable Athlete as
+ * "half-proficiency-round-up" on e.g. "strength-ability-checks".
+ */
+function checkProficiency(
+  mods: SourcedModifier[],
+  subType: string,
+  abilityId: number,
+): { level: ProficiencyLevel; roundUp: boolean } {
+  if (findModifiers(mods, "expertise", [subType]).length > 0) return { level: "expertise", roundUp: false };
+  if (findModifiers(mods, "proficiency", [subType]).length > 0) return { level: "proficient", roundUp: false };
+
+  const halfTargets = [subType, "ability-checks", `${ABILITY_KEYS[abilityId - 1]}-ability-checks`];
+  if (findModifiers(mods, "half-proficiency-round-up", halfTargets).length > 0) return { level: "half", roundUp: true };
+  if (findModifiers(mods, "half-proficiency", halfTargets).length > 0) return { level: "half", roundUp: false };
+  return { level: "none", roundUp: false };
+}
+
+function abilityCheck(char: DdbCharacter, subType: string, abilityId: number): DerivedCheck {
+  const mods = modifierList(char.modifiers);
+  const profBonus = proficiencyBonusForLevel(characterLevel(char));
+  const { level, roundUp } = checkProficiency(mods, subType, abilityId);
+
+  const parts: StatPart[] = [{ label: ABILITY_NAMES[abilityId - 1], value: abilityMod(char, abilityId) }];
+  const prof = proficiencyPart(level, profBonus, roundUp);
+  if (prof) parts.push(prof);
+  parts.push(...bonusParts(mods, [subType, "ability-checks", `${ABILITY_KEYS[abilityId - 1]}-ability-checks`]));
+  return { ...derived(parts), proficiency: level };
+}
+
+export function deriveProficiencyBonus(char: DdbCharacter): DerivedStat {
+  const level = characterLevel(char);
+  return derived([{ label: `level ${level}`, value: proficiencyBonusForLevel(level) }]);
+}
+
+/** Saving throw: ability modifier, proficiency, and bonuses to that save or to all saves. */
+export function deriveSavingThrow(char: DdbCharacter, abilityId: number): DerivedCheck {
+  const mods = modifierList(char.modifiers);
+  const subType = SAVING_THROW_SUBTYPES[abilityId];
+  const proficient = findModifiers(mods, "proficiency", [subType]).length > 0;
+
+  const parts: StatPart[] = [{ label: ABILITY_NAMES[abilityId - 1], value: abilityMod(char, abilityId) }];
+  if (proficient) parts.push({ label: "proficiency", value: proficiencyBonusForLevel(characterLevel(char)) });
+  parts.push(...bonusParts(mods, [subType, "saving-throws"]));
+  return { ...derived(parts), proficiency: proficient ? "proficient" : "none" };
+}
+
+/** Skill check: ability modifier, proficiency (half, full or expertise) and check bonuses. */
+export function deriveSkill(char: DdbCharacter, skill: SkillDefinition): DerivedCheck {
+  return abilityCheck(char, skill.subType, skill.abilityId);
+}
+
+/** Raw ability check, e.g. a Strength check that isn't a skill. */
+export function deriveAbilityCheck(char: DdbCharacter, abilityId: number): DerivedCheck {
+  return abilityCheck(char, `${ABILITY_KEYS[abilityId - 1]}-ability-checks`, abilityId);
+}
+
+/** Passive score: 10 + the skill's bonus + "passive-<skill>" bonuses (Observant). */
+export function derivePassive(char: DdbCharacter, skill: SkillDefinition): DerivedStat {
+  const mods = modifierList(char.modifiers);
+  return derived([
+    { label: "base", value: 10 },
+    { label: skill.name, value: deriveSkill(char, skill).value },
+    ...bonusParts(mods, [`passive-${skill.subType}`]),
+  ]);
+}
+
+/**
+ * Initiative is a Dexterity check, so Jack of All Trades and check bonuses apply,
+ * along with "initiative" bonuses (Alert) and proficiency in initiative (Alert, 2024).
+ */
+export function deriveInitiative(char: DdbCharacter): DerivedStat {
+  const { proficiency: _proficiency, ...stat } = abilityCheck(char, "initiative", 2);
+  return stat;
+}
+
+// ============================================================================
+// ARMOR CLASS
+// ============================================================================
+
+type ArmorType = "light" | "medium" | "heavy" | "shield";
+
+// D&D Beyond armorTypeId values
+const ARMOR_TYPE_IDS: Record<number, ArmorType> = { 1: "light", 2: "medium", 3: "heavy", 4: "shield" };
+
+function armorType(item: DdbInventoryItem): ArmorType | null {
+  const byId = item.definition.armorTypeId ? ARMOR_TYPE_IDS[item.definition.armorTypeId] : undefined;
+  if (byId) return byId;
+
+  // Older payloads and homebrew lack armorTypeId; fall back to the type strings
+  const type = item.definition.type?.toLowerCase() ?? "";
+  const filterType = item.definition.filterType?.toLowerCase() ?? "";
+  if (type.includes("shield")) return "shield";
+  if (!type.includes("armor")) return null;
+  if (filterType.includes("heavy") || type.includes("heavy")) return "heavy";
+  if (filterType.includes("medium") || type.includes("medium")) return "medium";
+  return "light";
+}
+
+interface UnarmoredOption {
+  name: string;
+  parts: StatPart[];
+  /** Monk Unarmored Defense stops working with a shield. */
+  allowsShield: boolean;
+}
+
+const DRACONIC_SUBCLASSES = ["draconic bloodline", "draconic sorcery"];
+
+/**
+ * Every unarmored AC formula the character qualifies for. D&D Beyond grants these
+ * as "set unarmored-armor-class" modifiers: Unarmored Defense carries the extra
+ * ability in statId, Draconic Resilience a flat value (10 + 3 + DEX). Sheets
+ * without those modifiers fall back to the class and subclass names.
+ */
+function unarmoredOptions(char: DdbCharacter, mods: SourcedModifier[]): UnarmoredOption[] {
+  const dex: StatPart = { label: "DEX", value: abilityMod(char, 2) };
+  const options: UnarmoredOption[] = [];
+  const abilityOption = (statId: number, allowsShield: boolean): UnarmoredOption => ({
+    name: "Unarmored Defense",
+    parts: [{ label: "base", value: 10 }, dex, { label: ABILITY_NAMES[statId - 1], value: abilityMod(char, statId) }],
+    allowsShield,
+  });
+
+  for (const mod of findModifiers(mods, "set", ["unarmored-armor-class"])) {
+    if (mod.statId) {
+      options.push(abilityOption(mod.statId, mod.statId !== 5));
+    } else if (mod.value != null) {
+      options.push({
+        name: mod.source === "class" ? "Draconic Resilience" : `${sourceLabel(mod)} natural armor`,
+        parts: [{ label: "base", value: 10 + mod.value }, dex],
+        allowsShield: true,
+      });
+    }
+  }
+
+  if (options.length === 0) {
+    const classNames = (char.classes ?? []).map((c) => c.definition.name);
+    if (classNames.includes("Barbarian")) options.push(abilityOption(3, true));
+    if (classNames.includes("Monk")) options.push(abilityOption(5, false));
+    const draconic = (char.classes ?? []).some((c) =>
+      DRACONIC_SUBCLASSES.includes(c.subclassDefinition?.name?.toLowerCase() ?? ""));
+    if (draconic) {
+      options.push({ name: "Draconic Resilience", parts: [{ label: "base", value: 13 }, dex], allowsShield: true });
+    }
+  }
+
+  return options;
+}
+
+function knowsMageArmor(char: DdbCharacter): boolean {
+  const spells = char.spells ?? {};
+  return Object.values(spells).some((list) =>
+    Array.isArray(list) && list.some((s) => s.definition?.name === "Mage Armor"));
+}
+
+/**
+ * Armor class from equipped armor and shield, or the best unarmored formula,
+ * plus "armor-class" bonuses and the armored/unarmored-only bonuses that apply.
+ */
+export function deriveArmorClass(char: DdbCharacter): DerivedStat {
+  const mods = modifierList(char.modifiers);
+  const dexMod = abilityMod(char, 2);
+
+  let armor: { item: DdbInventoryItem; type: ArmorType } | null = null;
+  let shield: DdbInventoryItem | null = null;
+  for (const item of char.inventory ?? []) {
+    if (!item.equipped) continue;
+    const type = armorType(item);
+    if (type === "shield") shield = item;
+    else if (type) armor = { item, type };
+  }
+
+  const parts: StatPart[] = [];
+  const notes: string[] = [];
+  if (armor) {
+    parts.push({ label: armor.item.definition.name, value: armor.item.definition.armorClass ?? 10 });
+    if (armor.type === "light") parts.push({ label: "DEX", value: dexMod });
+    if (armor.type === "medium") parts.push({ label: "DEX (max 2)", value: Math.min(dexMod, 2) });
+    parts.push(...bonusParts(mods, ["armored-armor-class"]));
+  } else {
+    const options = unarmoredOptions(char, mods).filter((o) => o.allowsShield || !shield);
+    let best: UnarmoredOption = { name: "", parts: [{ label: "base", value: 10 }, { label: "DEX", value: dexMod }], allowsShield: true };
+    for (const option of options) {
+      if (derived(option.parts).value > derived(best.parts).value) best = option;
+    }
+    parts.push(...best.parts);
+    if (best.name) notes.push(best.name);
+    parts.push(...bonusParts(mods, ["unarmored-armor-class"]));
+
+    const mageArmor = 13 + dexMod;
+    if (knowsMageArmor(char) && mageArmor > derived(best.parts).value) {
+      notes.push(`Mage Armor would make the base ${mageArmor} (13 + DEX) while active`);
+    }
+  }
+
+  if (shield) parts.push({ label: shield.definition.name, value: shield.definition.armorClass ?? 2 });
+  parts.push(...bonusParts(mods, ["armor-class"]));
+  return derived(parts, notes);
+}
+
+// ============================================================================
+// HIT POINTS
+// ============================================================================
+
+/**
+ * Maximum HP. D&D Beyond's baseHitPoints covers the hit dice only; the sheet adds
+ * CON modifier and "hit-points-per-level" bonuses (Tough, Dwarven Toughness) for
+ * every level, then flat "hit-points" bonuses and the manual bonus. A manual
+ * override replaces everything.
+ */
+export function deriveMaxHp(char: DdbCharacter): DerivedStat {
+  if (char.overrideHitPoints != null) {
+    return derived([{ label: "override", value: char.overrideHitPoints }]);
+  }
+
+  const mods = modifierList(char.modifiers);
+  const level = characterLevel(char);
+  const parts: StatPart[] = [{ label: "hit dice", value: char.baseHitPoints ?? 0 }];
+
+  const conMod = abilityMod(char, 3);
+  if (conMod !== 0 && level > 0) parts.push({ label: `CON × ${level} levels`, value: conMod * level });
+
+  for (const mod of findModifiers(mods, "bonus", ["hit-points-per-level"])) {
+    if (mod.value == null || level === 0) continue;
+    parts.push({ label: `${sourceLabel(mod)} +${mod.value} × ${level} levels`, value: mod.value * level });
+  }
+  parts.push(...bonusParts(mods, ["hit-points"]));
+  if (char.bonusHitPoints) parts.push({ label: "other bonus", value: char.bonusHitPoints });
+
+  return derived(parts);
+}
+
+// ============================================================================
+// EXPLANATIONS
+// ============================================================================
+
+/** "10 base + 2 DEX + 4 WIS", the right-hand side of explainStat. */
+export function explainParts(stat: DerivedStat): string {
+  return stat.parts.map((part, i) => {
+    if (i === 0) return `${part.value} ${part.label}`;
+    return `${part.value < 0 ? "-" : "+"} ${Math.abs(part.value)} ${part.label}`;
+  }).join(" ");
+}
+
+/** "16 = 10 base + 2 DEX + 4 WIS (Unarmored Defense)". */
+export function explainStat(stat: DerivedStat): string {
+  const notes = stat.notes.length > 0 ? ` (${stat.notes.join("; ")})` : "";
+  return `${stat.value} = ${explainParts(stat)}${notes}`;
+}
+
+export interface DerivedStats {
+  level: number;
+  proficiencyBonus: DerivedStat;
+  abilityScores: DerivedStat[];
+  savingThrows: DerivedCheck[];
+  skills: DerivedCheck[];
+  passives: { perception: DerivedStat; investigation: DerivedStat; insight: DerivedStat };
+  initiative: DerivedStat;
+  armorClass: DerivedStat;
+  maxHp: DerivedStat;
+}
+
+function skillNamed(name: string): SkillDefinition {
+  return SKILL_DEFINITIONS.find((s) => s.name === name) as SkillDefinition;
+}
+
+/** Every derived number on the sheet, each with its breakdown. */
+export function deriveStats(char: DdbCharacter): DerivedStats {
+  return {
+    level: characterLevel(char),
+    proficiencyBonus: deriveProficiencyBonus(char),
+    abilityScores: ABILITY_NAMES.map((_, i) => deriveAbilityScore(char, i + 1)),
+    savingThrows: ABILITY_NAMES.map((_, i) => deriveSavingThrow(char, i + 1)),
+    skills: SKILL_DEFINITIONS.map((skill) => deriveSkill(char, skill)),
+    passives: {
+      perception: derivePassive(char, skillNamed("Perception")),
+      investigation: derivePassive(char, skillNamed("Investigation")),
+      insight: derivePassive(char, skillNamed("Insight")),
+    },
+    initiative: deriveInitiative(char),
+    armorClass: deriveArmorClass(char),
+    maxHp: deriveMaxHp(char),
+  };
+}
@@ -1,13 +1,25 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import { z } from "zod";
+import { randomBytes } from "node:crypto";
 import { TtlCache } from "./cache/lru.js";
+import { DiskCache } from "./cache/disk.js";
 import { CircuitBreaker, RateLimiter } from "./resilience/index.js";
 import { DdbClient } from "./api/client.js";
+import { FixtureStore } from "./api/fixtures.js";
+import { HomebrewStore } from "./homebrew/store.js";
+import { SnapshotStore } from "./snapshots/store.js";
+import { MutationJournal } from "./journal/store.js";
+import { MonsterIndex } from "./monsters/monster-index.js";
+import { MONSTER_TEMPLATES } from "./monsters/scaling.js";
+import { ConfirmationGuard, confirmWrite } from "./tools/confirmation.js";
+import { PermissionProfile, restrictTools } from "./permissions/profile.js";
+import { startHttpServer } from "./transport/http.js";
 import { registerAllPrompts } from "./prompts/index.js";
 import { registerCharacterResources } from "./resources/character.js";
 import { registerCampaignResources } from "./resources/campaign.js";
 import { setupAuth, checkAuth } from "./tools/auth.js";
+import { clearCache } from "./tools/cache.js";
 import {
   getCharacter,
   getDefinition,
@@ -44,14 +56,50 @@ import {
   updateDescription,
 } from "./tools/character.js";
 import { listCampaigns, getCampaignCharacters } from "./tools/campaign.js";
+import {
+  EncounterTracker,
+  startEncounter,
+  addCombatant,
+  rollInitiative,
+  nextTurn,
+  getEncounter,
+  damageCombatant,
+  setCombatantCondition,
+  endEncounter,
+} from "./tools/encounter.js";
+import { evaluateEncounter } from "./tools/encounter-difficulty.js";
+import { roll, rollCheck } from "./tools/dice.js";
+import { diffCharacter, characterHistory } from "./tools/snapshots.js";
+import { undoLastChange } from "./tools/journal.js";
+import { getAttacks } from "./tools/attacks.js";
+import { getPartyStatus } from "./tools/party.js";
+import { levelUp } from "./tools/level-up.js";
+import {
+  attacksSchema,
+  characterSheetSchema,
+  spellSearchSchema,
+  spellDetailSchema,
+  monsterSearchSchema,
+  monsterStatBlockSchema,
+  itemSearchSchema,
+  itemDetailSchema,
+  featSearchSchema,
+  classSearchSchema,
+  raceSearchSchema,
+  backgroundSearchSchema,
+  classFeatureSearchSchema,
+  racialTraitSearchSchema,
+} from "./tools/output-schemas.js";
 import {
   searchSpells,
   getSpell,
   searchMonsters,
   getMonster,
+  scaleMonster,
   searchItems,
   getItem,
   searchFeats,
+  listOwnedSources,
   getCondition,
   searchClasses,
   searchRaces,
@@ -60,16 +108,113 @@ import {
   searchRacialTraits,
 } from "./tools/reference.js";
 
-export async function startServer(): Promise<void> {
+/** Local, optional stores shared by every MCP session. */
+export interface LocalStores {
+  homebrew: HomebrewStore | null;
+  snapshots: SnapshotStore | null;
+  monsters: MonsterIndex | null;
+}
+
+export interface StartServerOptions {
+  /** Serve MCP over Streamable HTTP on this port instead of stdio. */
+  httpPort?: number;
+  /** Interface to bind the HTTP server to (default: 127.0.0.1). */
+  httpHost?: string;
+}
+
+export async function startServer(options: StartServerOptions = {}): Promise<void> {
   // Initialize cache instance
   const cache = new TtlCache<unknown>(60_000); // 60s TTL
+  const diskCache = DiskCache.fromEnv(); // Persistent tier for long-TTL compendium data
 
   // Initialize resilience components
   const circuitBreaker = new CircuitBreaker(5, 30_000); // 5 failures, 30s cooldown
   const rateLimiter = new RateLimiter(2, 1000); // 2 req/sec
 
+  // Optional fixture recording/replay (DDB_FIXTURES=record|replay)
+  const fixtures = FixtureStore.fromEnv();
+  if (fixtures) {
+    console.error(`dndbeyond-mcp: fixture ${fixtures.mode} mode (${fixtures.dir})`);
+  }
+
   // Initialize D&D Beyond API client
-  const client = new DdbClient(cache, circuitBreaker, rateLimiter);
+  const client = new DdbClient(cache, circuitBreaker, rateLimiter, fixtures, diskCache);
+
+  // Local homebrew overlay (DDB_HOMEBREW_DIR, default ~/.dndbeyond-mcp/homebrew)
+  const homebrew = HomebrewStore.fromEnv();
+
+  // Character snapshot history (DDB_SNAPSHOT_DIR, default ~/.dndbeyond-mcp/snapshots)
+  const snapshots = SnapshotStore.fromEnv();
+
+  // Every monster, fetched in the background from the first search on, for full-catalogue search filters (DDB_MONSTER_INDEX=off disables it)
+  const monsters = MonsterIndex.fromEnv();
+
+  const stores: LocalStores = { homebrew, snapshots, monsters };
+
+  // Which tools are registered and which characters they may change (DDB_PROFILE, default full)
+  const profile = PermissionProfile.fromEnv();
+  if (profile.name !== "full") {
+    console.error(`dndbeyond-mcp: ${profile.name} permission profile`);
+  }
+
+  if (options.httpPort !== undefined) {
+    // Every HTTP session gets its own McpServer on top of the shared client, cache and rate limiter
+    const token = process.env.DDB_MCP_TOKEN || randomBytes(24).toString("base64url");
+    const http = await startHttpServer(() => createServer(client, stores, profile), {
+      port: options.httpPort,
+      host: options.httpHost,
+      token,
+    });
+    if (!process.env.DDB_MCP_TOKEN) {
+      console.error(`dndbeyond-mcp: generated bearer token ${token} (set DDB_MCP_TOKEN to choose one)`);
+    }
+
+    const shutdown = async () => {
+      console.error("dndbeyond-mcp: shutting down...");
+      await http.close();
+      process.exit(0);
+    };
+    process.on("SIGINT", shutdown);
+    process.on("SIGTERM", shutdown);
+
+    console.error(`dndbeyond-mcp: server running at ${http.url}`);
+    return;
+  }
+
+  const server = createServer(client, stores, profile);
+
+  // Connect via stdio transport
+  const transport = new StdioServerTransport();
+  await server.connect(transport);
+
+  // Handle graceful shutdown
+  const shutdown = async () => {
+    console.error("dndbeyond-mcp: shutting down...");
+    await server.close();
+    process.exit(0);
+  };
+
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
+
+  console.error("dndbeyond-mcp: server running");
+}
+
+/**
+ * Creates an MCP server with all tools, resources and prompts registered against
+ * the given client. Stdio mode creates one; HTTP mode creates one per session.
+ */
+export function createServer(
+  client: DdbClient,
+  stores: LocalStores,
+  profile: PermissionProfile = new PermissionProfile()
+): McpServer {
+  const { homebrew, snapshots, monsters } = stores;
+  // Per server, so confirmation tokens don't carry across HTTP sessions
+  const confirmations = ConfirmationGuard.fromEnv();
+  // In-memory log of this session's writes for undo_last_change, per server so one
+  // HTTP client can't undo another's changes (DDB_JOURNAL=off disables it)
+  const journal = MutationJournal.fromEnv();
 
   // Create MCP server
   const server = new McpServer({
@@ -77,6 +222,9 @@ export async function startServer(): Promise<void> {
     version: "0.1.0",
   });
 
+  // Skip tools the profile doesn't allow before anything is registered
+  restrictTools(server, client, profile);
+
   // Register all prompts
   registerAllPrompts(server);
 
@@ -84,6 +232,25 @@ export async function startServer(): Promise<void> {
   registerCharacterResources(server, client);
   registerCampaignResources(server, client);
 
+  // Shared by every tool that writes to D&D Beyond
+  const dryRunParam = z
+    .boolean()
+    .optional()
+    .describe("Preview the request and the before/after values without sending anything");
+  const confirmationTokenParam = z
+    .string()
+    .optional()
+    .describe("Token from the first call of a write that needs confirmation; send it to go ahead");
+  // Shared by the compendium searches
+  const ownedOnlyParam = z
+    .boolean()
+    .optional()
+    .describe("Only content the account can open: owned, shared via a campaign, or free. Entries without their own access code take their books' access; content whose access is still unknown is left out too");
+  const sourceParam = z
+    .string()
+    .optional()
+    .describe("Sourcebook title or abbreviation (e.g., 'Monster Manual', 'XGtE', 'TCoE', \"PHB'24\")");
+
   // Register auth tools
   server.tool(
     "setup_auth",
@@ -99,32 +266,45 @@ export async function startServer(): Promise<void> {
     async () => checkAuth(client)
   );
 
-  // Register character read tools
   server.tool(
+    "clear_cache",
+    "Clear cached D&D Beyond data, including the on-disk compendium cache in ~/.dndbeyond-mcp/cache, and reload local homebrew files. Use when reference data looks stale.",
+    {},
+    async () => {
+      homebrew?.reload();
+      return clearCache(client);
+    }
+  );
+
+  // Register character read tools
+  server.registerTool(
     "get_character",
-    "Get character details by ID or name. Use 'detail' to control output: 'summary' (basic stats), 'sheet' (comprehensive with saves/skills/features, default), or 'full' (sheet + all definitions expanded, ~15-30KB).",
     {
-      characterId: z.coerce.number().optional().describe("The character ID"),
-      characterName: z
-        .string()
-        .optional()
-        .describe("The character name (case-insensitive search)"),
-      detail: z
-        .enum(["summary", "sheet", "full"])
-        .optional()
-        .describe("Detail level: 'summary', 'sheet' (default), or 'full'"),
+      description: "Get character details by ID or name. Use 'detail' to control output: 'summary' (basic stats), 'sheet' (comprehensive with saves/skills/features, default), or 'full' (sheet + all definitions expanded, ~15-30KB).",
+      inputSchema: {
+        characterId: z.coerce.number().optional().describe("The character ID"),
+        characterName: z
+          .string()
+          .optional()
+          .describe("The character name (case-insensitive search)"),
+        detail: z
+          .enum(["summary", "sheet", "full"])
+          .optional()
+          .describe("Detail level: 'summary', 'sheet' (default), or 'full'"),
+      },
+      outputSchema: characterSheetSchema,
     },
     async (params) =>
       getCharacter(client, {
         characterId: params.characterId,
         characterName: params.characterName,
         detail: params.detail,
-      })
+      }, snapshots)
   );
 
   server.tool(
     "list_characters",
-    "List all characters across all campaigns",
+    "List all your characters (including ones not in any campaign) plus campaign party members, with IDs, campaign membership and status",
     {},
     async () => listCharacters(client)
   );
@@ -152,6 +332,72 @@ export async function startServer(): Promise<void> {
       })
   );
 
+  server.registerTool(
+    "get_attacks",
+    {
+      description: "Get to-hit bonuses, save DCs and damage for a character's equipped weapons and damaging spells, with where each number comes from (ability, proficiency, magic bonuses, Fighting Styles, cantrip scaling).",
+      inputSchema: {
+        characterId: z.coerce.number().optional().describe("The character ID"),
+        characterName: z
+          .string()
+          .optional()
+          .describe("The character name (case-insensitive search)"),
+      },
+      outputSchema: attacksSchema,
+    },
+    async (params) =>
+      getAttacks(client, {
+        characterId: params.characterId,
+        characterName: params.characterName,
+      })
+  );
+
+  server.tool(
+    "diff_character",
+    "Show what changed on a character (HP, XP, level, inventory, spells, feats, currency) between two snapshots, or between a snapshot and the live sheet. Snapshots are saved whenever get_character reads the sheet.",
+    {
+      characterId: z.coerce.number().optional().describe("The character ID"),
+      characterName: z
+        .string()
+        .optional()
+        .describe("The character name (case-insensitive search)"),
+      from: z
+        .string()
+        .optional()
+        .describe("Snapshot ID to compare from (default: the most recent snapshot that differs)"),
+      to: z
+        .string()
+        .optional()
+        .describe("Snapshot ID to compare to, or 'live' for the current sheet (default)"),
+    },
+    async (params) =>
+      diffCharacter(client, {
+        characterId: params.characterId,
+        characterName: params.characterName,
+        from: params.from,
+        to: params.to,
+      }, snapshots)
+  );
+
+  server.tool(
+    "character_history",
+    "List saved snapshots of a character, newest first, with the changes recorded at each one",
+    {
+      characterId: z.coerce.number().optional().describe("The character ID"),
+      characterName: z
+        .string()
+        .optional()
+        .describe("The character name (case-insensitive search)"),
+      limit: z.coerce.number().optional().describe("Number of recent snapshots to show (default: 10)"),
+    },
+    async (params) =>
+      characterHistory(client, {
+        characterId: params.characterId,
+        characterName: params.characterName,
+        limit: params.limit,
+      }, snapshots)
+  );
+
   // Register character write tools
   server.tool(
     "update_hp",
@@ -165,13 +411,15 @@ export async function startServer(): Promise<void> {
         .coerce.number()
         .optional()
         .describe("Set temporary hit points to this value"),
+      dryRun: dryRunParam,
     },
     async (params) =>
       updateHp(client, {
         characterId: params.characterId,
         hpChange: params.hpChange,
         tempHp: params.tempHp,
-      })
+        dryRun: params.dryRun,
+      }, journal)
   );
 
   server.tool(
@@ -180,12 +428,14 @@ export async function startServer(): Promise<void> {
     {
       characterId: z.coerce.number().describe("The character ID"),
       inspiration: z.boolean().describe("true to grant inspiration, false to remove it"),
+      dryRun: dryRunParam,
     },
     async (params) =>
       setInspiration(client, {
         characterId: params.characterId,
         inspiration: params.inspiration,
-      })
+        dryRun: params.dryRun,
+      }, journal)
   );
 
   server.tool(
@@ -195,13 +445,15 @@ export async function startServer(): Promise<void> {
       characterId: z.coerce.number().describe("The character ID"),
       conditionId: z.coerce.number().describe("Condition ID (1-15)"),
       level: z.coerce.number().optional().describe("Exhaustion level (1-6). Only used for Exhaustion (conditionId=15)."),
+      dryRun: dryRunParam,
     },
     async (params) =>
       addCondition(client, {
         characterId: params.characterId,
         conditionId: params.conditionId,
         level: params.level,
-      })
+        dryRun: params.dryRun,
+      }, journal)
   );
 
   server.tool(
@@ -210,12 +462,14 @@ export async function startServer(): Promise<void> {
     {
       characterId: z.coerce.number().describe("The character ID"),
       conditionId: z.coerce.number().describe("Condition ID (1-15)"),
+      dryRun: dryRunParam,
     },
     async (params) =>
       removeCondition(client, {
         characterId: params.characterId,
         conditionId: params.conditionId,
-      })
+        dryRun: params.dryRun,
+      }, journal)
   );
 
   server.tool(
@@ -225,13 +479,15 @@ export async function startServer(): Promise<void> {
       characterId: z.coerce.number().describe("The character ID"),
       level: z.coerce.number().describe("Spell slot level (1-9)"),
       used: z.coerce.number().describe("Number of slots used at this level"),
+      dryRun: dryRunParam,
     },
     async (params) =>
       updateSpellSlots(client, {
         characterId: params.characterId,
         level: params.level,
         used: params.used,
-      })
+        dryRun: params.dryRun,
+      }, journal)
   );
 
   server.tool(
@@ -243,13 +499,15 @@ export async function startServer(): Promise<void> {
         .enum(["success", "failure"])
         .describe("Type of death save: 'success' or 'failure'"),
       count: z.coerce.number().describe("Number of successes or failures (0-3)"),
+      dryRun: dryRunParam,
     },
     async (params) =>
       updateDeathSaves(client, {
         characterId: params.characterId,
         type: params.type,
         count: params.count,
-      })
+        dryRun: params.dryRun,
+      }, journal)
   );
 
   server.tool(
@@ -262,6 +520,7 @@ export async function startServer(): Promise<void> {
         .describe("Currency type: cp, sp, ep, gp, or pp"),
       amount: z.coerce.number().optional().describe("Set currency to this exact amount"),
       delta: z.coerce.number().optional().describe("Add (positive) or spend (negative) this many coins"),
+      dryRun: dryRunParam,
     },
     async (params) =>
       updateCurrency(client, {
@@ -269,7 +528,8 @@ export async function startServer(): Promise<void> {
         currency: params.currency,
         amount: params.amount,
         delta: params.delta,
-      })
+        dryRun: params.dryRun,
+      }, journal)
   );
 
   server.tool(
@@ -288,13 +548,15 @@ export async function startServer(): Promise<void> {
         .describe(
           "Set exact number of uses expended. If omitted, increments current uses by 1."
         ),
+      dryRun: dryRunParam,
     },
     async (params) =>
       useAbility(client, {
         characterId: params.characterId,
         abilityName: params.abilityName,
         uses: params.uses,
-      })
+        dryRun: params.dryRun,
+      }, journal)
   );
 
   server.tool(
@@ -303,12 +565,14 @@ export async function startServer(): Promise<void> {
     {
       characterId: z.coerce.number().describe("The character ID"),
       used: z.coerce.number().describe("Number of pact magic slots used"),
+      dryRun: dryRunParam,
     },
     async (params) =>
       updatePactMagic(client, {
         characterId: params.characterId,
         used: params.used,
-      })
+        dryRun: params.dryRun,
+      }, journal)
   );
 
   server.tool(
@@ -316,11 +580,13 @@ export async function startServer(): Promise<void> {
     "Perform a long rest: restores HP, spell slots, pact magic, limited-use abilities, hit dice, and death saves (server-side)",
     {
       characterId: z.coerce.number().describe("The character ID"),
+      dryRun: dryRunParam,
     },
     async (params) =>
       longRest(client, {
         characterId: params.characterId,
-      })
+        dryRun: params.dryRun,
+      }, journal)
   );
 
   server.tool(
@@ -328,11 +594,13 @@ export async function startServer(): Promise<void> {
     "Perform a short rest: resets pact magic, short-rest abilities, and handles hit dice (server-side)",
     {
       characterId: z.coerce.number().describe("The character ID"),
+      dryRun: dryRunParam,
     },
     async (params) =>
       shortRest(client, {
         characterId: params.characterId,
-      })
+        dryRun: params.dryRun,
+      }, journal)
   );
 
   server.tool(
@@ -345,13 +613,29 @@ export async function startServer(): Promise<void> {
         .coerce.number()
         .optional()
         .describe("Cast at this level (for upcasting). Defaults to spell's base level."),
+      dryRun: dryRunParam,
     },
     async (params) =>
       castSpell(client, {
         characterId: params.characterId,
         spellName: params.spellName,
         level: params.level,
-      })
+        dryRun: params.dryRun,
+      }, journal)
+  );
+
+  server.tool(
+    "undo_last_change",
+    "Revert the most recent change made in this session on D&D Beyond (HP, inspiration, conditions, limited uses, currency, spell slots, builder choices). Changes it can't reverse, such as rests, are reported so they can be fixed by hand.",
+    {
+      characterId: z.coerce.number().optional().describe("Only undo changes to this character (default: the latest change to any character)"),
+      dryRun: dryRunParam,
+    },
+    async (params) =>
+      undoLastChange(client, {
+        characterId: params.characterId,
+        dryRun: params.dryRun,
+      }, journal)
   );
 
   // Register character creation/builder tools
@@ -363,6 +647,7 @@ export async function startServer(): Promise<void> {
       classId: z.coerce.number().optional().describe("Class ID for quick build. Use search_classes to find IDs. 2024 PHB: 2190875=Barbarian, 2190876=Bard, 2190877=Cleric, 2190878=Druid, 2190879=Fighter, 2190880=Monk, 2190881=Paladin, 2190882=Ranger, 2190883=Rogue, 2190884=Sorcerer, 2190885=Warlock, 2190886=Wizard"),
       entityRaceId: z.coerce.number().optional().describe("Race entity ID for quick build"),
       entityRaceTypeId: z.coerce.number().optional().describe("Race entity type ID for quick build"),
+      dryRun: dryRunParam,
     },
     async (params) =>
       createCharacter(client, {
@@ -370,19 +655,24 @@ export async function startServer(): Promise<void> {
         classId: params.classId,
         entityRaceId: params.entityRaceId,
         entityRaceTypeId: params.entityRaceTypeId,
-      })
+        dryRun: params.dryRun,
+      }, journal)
   );
 
   server.tool(
     "delete_character",
-    "Permanently delete a character from D&D Beyond",
+    "Permanently delete a character from D&D Beyond. The first call returns the character's name, level and campaign with a confirmation token; call again with that token to delete.",
     {
       characterId: z.coerce.number().describe("The character ID to delete"),
+      dryRun: dryRunParam,
+      confirmationToken: confirmationTokenParam,
     },
     async (params) =>
-      deleteCharacter(client, {
-        characterId: params.characterId,
-      })
+      confirmWrite(confirmations, "delete_character", params, (dryRun) =>
+        deleteCharacter(client, {
+          characterId: params.characterId,
+          dryRun,
+        }, journal))
   );
 
   server.tool(
@@ -392,13 +682,15 @@ export async function startServer(): Promise<void> {
       characterId: z.coerce.number().describe("The character ID"),
       classId: z.coerce.number().describe("Class ID. Use search_classes to find IDs. 2024 PHB: 2190875=Barbarian, 2190876=Bard, 2190877=Cleric, 2190878=Druid, 2190879=Fighter, 2190880=Monk, 2190881=Paladin, 2190882=Ranger, 2190883=Rogue, 2190884=Sorcerer, 2190885=Warlock, 2190886=Wizard"),
       level: z.coerce.number().describe("Class level to set"),
+      dryRun: dryRunParam,
     },
     async (params) =>
       addClass(client, {
         characterId: params.characterId,
         classId: params.classId,
         level: params.level,
-      })
+        dryRun: params.dryRun,
+      }, journal)
   );
 
   server.tool(
@@ -407,12 +699,14 @@ export async function startServer(): Promise<void> {
     {
       characterId: z.coerce.number().describe("The character ID"),
       backgroundId: z.coerce.number().describe("Background ID"),
+      dryRun: dryRunParam,
     },
     async (params) =>
       setBackground(client, {
         characterId: params.characterId,
         backgroundId: params.backgroundId,
-      })
+        dryRun: params.dryRun,
+      }, journal)
   );
 
   server.tool(
@@ -423,6 +717,7 @@ export async function startServer(): Promise<void> {
       type: z.coerce.number().describe("Choice type"),
       choiceKey: z.string().describe("Choice key identifier"),
       choiceValue: z.coerce.number().describe("Selected choice value"),
+      dryRun: dryRunParam,
     },
     async (params) =>
       setBackgroundChoice(client, {
@@ -430,7 +725,8 @@ export async function startServer(): Promise<void> {
         type: params.type,
         choiceKey: params.choiceKey,
         choiceValue: params.choiceValue,
-      })
+        dryRun: params.dryRun,
+      }, journal)
   );
 
   server.tool(
@@ -445,6 +741,7 @@ export async function startServer(): Promise<void> {
       choiceKey: z.string().describe("Choice key identifier from the choice object"),
       choiceValue: z.coerce.number().describe("Selected option ID"),
       parentChoiceId: z.coerce.number().optional().describe("Parent choice ID (for nested choices)"),
+      dryRun: dryRunParam,
     },
     async (params) =>
       setClassFeatureChoice(client, {
@@ -456,7 +753,8 @@ export async function startServer(): Promise<void> {
         choiceKey: params.choiceKey,
         choiceValue: params.choiceValue,
         parentChoiceId: params.parentChoiceId,
-      })
+        dryRun: params.dryRun,
+      }, journal)
   );
 
   server.tool(
@@ -468,6 +766,7 @@ export async function startServer(): Promise<void> {
       type: z.coerce.number().describe("Choice type from the choice object"),
       choiceKey: z.string().describe("Choice key identifier from the choice object"),
       choiceValue: z.coerce.number().describe("Selected option ID"),
+      dryRun: dryRunParam,
     },
     async (params) =>
       setRaceTraitChoice(client, {
@@ -476,7 +775,8 @@ export async function startServer(): Promise<void> {
         type: params.type,
         choiceKey: params.choiceKey,
         choiceValue: params.choiceValue,
-      })
+        dryRun: params.dryRun,
+      }, journal)
   );
 
   server.tool(
@@ -488,6 +788,7 @@ export async function startServer(): Promise<void> {
       type: z.coerce.number().describe("Choice type from the choice object"),
       choiceKey: z.string().describe("Choice key identifier from the choice object"),
       choiceValue: z.coerce.number().describe("Selected option ID"),
+      dryRun: dryRunParam,
     },
     async (params) =>
       setFeatChoice(client, {
@@ -496,7 +797,8 @@ export async function startServer(): Promise<void> {
         type: params.type,
         choiceKey: params.choiceKey,
         choiceValue: params.choiceValue,
-      })
+        dryRun: params.dryRun,
+      }, journal)
   );
 
   server.tool(
@@ -504,11 +806,13 @@ export async function startServer(): Promise<void> {
     "Auto-resolve all unresolved builder choices on a character by picking the first available option for each. Handles cascading choices (resolving one may unlock more). Use after create_character to make the character builder-complete.",
     {
       characterId: z.coerce.number().describe("The character ID"),
+      dryRun: dryRunParam,
     },
     async (params) =>
       resolveChoices(client, {
         characterId: params.characterId,
-      })
+        dryRun: params.dryRun,
+      }, journal)
   );
 
   server.tool(
@@ -518,13 +822,15 @@ export async function startServer(): Promise<void> {
       characterId: z.coerce.number().describe("The character ID"),
       entityRaceId: z.coerce.number().describe("Race entity ID"),
       entityRaceTypeId: z.coerce.number().describe("Race entity type ID"),
+      dryRun: dryRunParam,
     },
     async (params) =>
       setSpecies(client, {
         characterId: params.characterId,
         entityRaceId: params.entityRaceId,
         entityRaceTypeId: params.entityRaceTypeId,
-      })
+        dryRun: params.dryRun,
+      }, journal)
   );
 
   server.tool(
@@ -535,6 +841,7 @@ export async function startServer(): Promise<void> {
       statId: z.coerce.number().describe("Ability stat ID (1=STR, 2=DEX, 3=CON, 4=INT, 5=WIS, 6=CHA)"),
       type: z.coerce.number().describe("Score type (1=standard array, 2=rolled, 3=point buy)"),
       value: z.coerce.number().describe("The ability score value"),
+      dryRun: dryRunParam,
     },
     async (params) =>
       setAbilityScore(client, {
@@ -542,7 +849,8 @@ export async function startServer(): Promise<void> {
         statId: params.statId,
         type: params.type,
         value: params.value,
-      })
+        dryRun: params.dryRun,
+      }, journal)
   );
 
   server.tool(
@@ -551,44 +859,74 @@ export async function startServer(): Promise<void> {
     {
       characterId: z.coerce.number().describe("The character ID"),
       name: z.string().describe("The new character name"),
+      dryRun: dryRunParam,
     },
     async (params) =>
       updateCharacterName(client, {
         characterId: params.characterId,
         name: params.name,
-      })
+        dryRun: params.dryRun,
+      }, journal)
   );
 
   server.tool(
     "set_class_level",
-    "Set a character's class level. Requires the classMappingId (from the character's classes array, the 'id' field on each class entry).",
+    "Set a character's class level. Requires the classMappingId (from the character's classes array, the 'id' field on each class entry). If the result asks for confirmation, call again with the confirmationToken it returns.",
     {
       characterId: z.coerce.number().describe("The character ID"),
       classId: z.coerce.number().describe("The class definition ID"),
       classMappingId: z.coerce.number().describe("The character's class mapping ID (classes[].id)"),
       level: z.coerce.number().describe("The level to set (1-20)"),
+      dryRun: dryRunParam,
+      confirmationToken: confirmationTokenParam,
     },
     async (params) =>
-      setClassLevel(client, {
-        characterId: params.characterId,
-        classId: params.classId,
-        classMappingId: params.classMappingId,
-        level: params.level,
-      })
+      confirmWrite(confirmations, "set_class_level", params, (dryRun) =>
+        setClassLevel(client, {
+          characterId: params.characterId,
+          classId: params.classId,
+          classMappingId: params.classMappingId,
+          level: params.level,
+          dryRun,
+        }, journal))
+  );
+
+  server.tool(
+    "level_up",
+    "Level a character up by one in a class, or multiclass into a new class at level 1. Reports the class features gained and the new choices (ASI/feat, subclass, spells known, fighting style) with the set_class_feature_choice or set_feat_choice arguments that resolve each one. If the result asks for confirmation, call again with the confirmationToken it returns.",
+    {
+      characterId: z.coerce.number().describe("The character ID"),
+      className: z.string().optional().describe("Class to level up, e.g. 'Wizard'. A class the character doesn't have yet is added (multiclass). Optional if the character has one class."),
+      classId: z.coerce.number().optional().describe("Class definition ID, to pick between classes with the same name (e.g. 2014 and 2024 editions)"),
+      dryRun: dryRunParam,
+      confirmationToken: confirmationTokenParam,
+    },
+    async (params) =>
+      confirmWrite(confirmations, "level_up", params, (dryRun) =>
+        levelUp(client, {
+          characterId: params.characterId,
+          className: params.className,
+          classId: params.classId,
+          dryRun,
+        }, journal))
   );
 
   server.tool(
     "set_ability_score_type",
-    "Set the ability score generation method for a character. Must be set before assigning ability scores on standard-build characters.",
+    "Set the ability score generation method for a character. Must be set before assigning ability scores on standard-build characters. If the result asks for confirmation, call again with the confirmationToken it returns.",
     {
       characterId: z.coerce.number().describe("The character ID"),
       abilityScoreType: z.coerce.number().describe("1 = Standard Array, 2 = Rolled, 3 = Point Buy"),
+      dryRun: dryRunParam,
+      confirmationToken: confirmationTokenParam,
     },
     async (params) =>
-      setAbilityScoreType(client, {
-        characterId: params.characterId,
-        abilityScoreType: params.abilityScoreType,
-      })
+      confirmWrite(confirmations, "set_ability_score_type", params, (dryRun) =>
+        setAbilityScoreType(client, {
+          characterId: params.characterId,
+          abilityScoreType: params.abilityScoreType,
+          dryRun,
+        }, journal))
   );
 
   server.tool(
@@ -597,12 +935,14 @@ export async function startServer(): Promise<void> {
     {
       characterId: z.coerce.number().describe("The character ID"),
       startingEquipmentType: z.coerce.number().describe("Starting equipment type (1 = Normal, 3 = Equipment)"),
+      dryRun: dryRunParam,
     },
     async (params) =>
       setStartingEquipmentType(client, {
         characterId: params.characterId,
         startingEquipmentType: params.startingEquipmentType,
-      })
+        dryRun: params.dryRun,
+      }, journal)
   );
 
   server.tool(
@@ -615,12 +955,14 @@ export async function startServer(): Promise<void> {
         entityTypeId: z.coerce.number().describe("Item entity type ID (1782728300=weapon, 2103445194=gear)"),
         quantity: z.coerce.number().describe("Quantity to add"),
       })).describe("Array of items to add"),
+      dryRun: dryRunParam,
     },
     async (params) =>
       addInventoryItems(client, {
         characterId: params.characterId,
         equipment: params.equipment,
-      })
+        dryRun: params.dryRun,
+      }, journal)
   );
 
   server.tool(
@@ -629,12 +971,14 @@ export async function startServer(): Promise<void> {
     {
       characterId: z.coerce.number().describe("The character ID"),
       amount: z.coerce.number().describe("Gold amount to set"),
+      dryRun: dryRunParam,
     },
     async (params) =>
       setGold(client, {
         characterId: params.characterId,
         amount: params.amount,
-      })
+        dryRun: params.dryRun,
+      }, journal)
   );
 
   server.tool(
@@ -644,13 +988,15 @@ export async function startServer(): Promise<void> {
       characterId: z.coerce.number().describe("The character ID"),
       field: z.string().describe("Description field name (e.g., 'alignment', 'backstory', 'hair')"),
       value: z.union([z.string(), z.coerce.number()]).describe("Value to set (string for text fields, number for alignment/lifestyle IDs)"),
+      dryRun: dryRunParam,
     },
     async (params) =>
       updateDescription(client, {
         characterId: params.characterId,
         field: params.field,
         value: params.value,
-      })
+        dryRun: params.dryRun,
+      }, journal)
   );
 
   // Register campaign tools
@@ -673,134 +1019,438 @@ export async function startServer(): Promise<void> {
       })
   );
 
-  // Register reference tools - spells
   server.tool(
-    "search_spells",
-    "Search the full spell compendium by name, level, school, concentration, or ritual",
+    "get_party_status",
+    "Party dashboard for a campaign: each character's current/max HP, AC, passive Perception/Insight/Investigation, spell slots remaining, limited-use resources, conditions, exhaustion and inspiration",
     {
-      name: z.string().optional().describe("Spell name (partial match)"),
-      level: z.coerce.number().optional().describe("Spell level (0-9, 0=cantrip)"),
-      school: z
-        .string()
+      campaignId: z.coerce.number().describe("The campaign ID"),
+    },
+    async (params) =>
+      getPartyStatus(client, {
+        campaignId: params.campaignId,
+      })
+  );
+
+  // Register encounter tools; each server (and so each HTTP session) runs its own encounter
+  const encounters = new EncounterTracker();
+  server.tool(
+    "start_encounter",
+    "Start tracking a combat encounter. Optionally pass a campaign ID to add every party member automatically.",
+    {
+      name: z.string().optional().describe("Encounter name (e.g., 'Goblin Ambush')"),
+      campaignId: z.coerce.number().optional().describe("Campaign ID whose characters join the encounter"),
+    },
+    async (params) =>
+      startEncounter(client, encounters, {
+        name: params.name,
+        campaignId: params.campaignId,
+      })
+  );
+
+  server.tool(
+    "add_combatant",
+    "Add a monster (by name, optionally several copies) or a character (by ID or name) to the current encounter",
+    {
+      monsterName: z.string().optional().describe("Monster name to look up (e.g., 'Goblin')"),
+      count: z.coerce.number().optional().describe("Number of copies of the monster to add (default: 1)"),
+      characterId: z.coerce.number().optional().describe("The character ID"),
+      characterName: z.string().optional().describe("The character name (case-insensitive search)"),
+      name: z.string().optional().describe("Display name for the monster (e.g., 'Grix the Goblin Boss')"),
+      initiative: z.coerce.number().optional().describe("Initiative rolled at the table; rolled automatically if omitted"),
+    },
+    async (params) =>
+      addCombatant(client, encounters, {
+        monsterName: params.monsterName,
+        count: params.count,
+        characterId: params.characterId,
+        characterName: params.characterName,
+        name: params.name,
+        initiative: params.initiative,
+      }, homebrew)
+  );
+
+  server.tool(
+    "roll_initiative",
+    "Roll initiative for every combatant without one, sort the turn order and start round 1. Players' physical rolls can be passed as overrides.",
+    {
+      overrides: z
+        .array(
+          z.object({
+            combatant: z.string().describe("Combatant name"),
+            initiative: z.coerce.number().describe("Initiative total rolled at the table"),
+          })
+        )
         .optional()
-        .describe("School of magic (e.g., evocation, abjuration)"),
-      concentration: z.boolean().optional().describe("Requires concentration"),
-      ritual: z.boolean().optional().describe("Can be cast as ritual"),
+        .describe("Initiative totals rolled at the table"),
+      reroll: z.boolean().optional().describe("Re-roll combatants that already have an initiative"),
+    },
+    async (params) =>
+      rollInitiative(encounters, {
+        overrides: params.overrides,
+        reroll: params.reroll,
+      })
+  );
+
+  server.tool(
+    "next_turn",
+    "Advance the current encounter to the next combatant in initiative order, skipping defeated monsters",
+    {},
+    async () => nextTurn(encounters)
+  );
+
+  server.tool(
+    "get_encounter",
+    "Show the current encounter: round, initiative order, AC, HP and conditions",
+    {},
+    async () => getEncounter(encounters)
+  );
+
+  server.tool(
+    "damage_combatant",
+    "Damage or heal a combatant (positive = heal, negative = damage). Monster HP is tracked locally; character HP is saved to D&D Beyond.",
+    {
+      combatant: z.string().describe("Combatant name (e.g., 'Goblin 2')"),
+      hpChange: z.coerce.number().describe("HP change (positive for healing, negative for damage)"),
+      dryRun: dryRunParam,
+    },
+    async (params) =>
+      damageCombatant(client, encounters, {
+        combatant: params.combatant,
+        hpChange: params.hpChange,
+        dryRun: params.dryRun,
+      }, journal, profile)
+  );
+
+  server.tool(
+    "set_combatant_condition",
+    "Apply or remove a condition on a combatant. Character conditions are saved to D&D Beyond. Condition IDs: 1=Blinded, 2=Charmed, 3=Deafened, 4=Frightened, 5=Grappled, 6=Incapacitated, 7=Invisible, 8=Paralyzed, 9=Petrified, 10=Poisoned, 11=Prone, 12=Restrained, 13=Stunned, 14=Unconscious, 15=Exhaustion",
+    {
+      combatant: z.string().describe("Combatant name"),
+      conditionId: z.coerce.number().describe("Condition ID (1-15)"),
+      level: z.coerce.number().optional().describe("Exhaustion level (1-6). Only used for Exhaustion (conditionId=15)."),
+      remove: z.boolean().optional().describe("true to remove the condition instead of applying it"),
+      dryRun: dryRunParam,
+    },
+    async (params) =>
+      setCombatantCondition(client, encounters, {
+        combatant: params.combatant,
+        conditionId: params.conditionId,
+        level: params.level,
+        remove: params.remove,
+        dryRun: params.dryRun,
+      }, journal, profile)
+  );
+
+  server.tool(
+    "end_encounter",
+    "End the current encounter and summarize who was defeated and who is still standing",
+    {},
+    async () => endEncounter(encounters)
+  );
+
+  server.tool(
+    "evaluate_encounter",
+    "Rate an encounter's difficulty for a party. Returns total and adjusted XP with 2014 DMG easy/medium/hard/deadly thresholds and/or 2024 DMG low/moderate/high budgets.",
+    {
+      monsters: z
+        .array(
+          z.object({
+            name: z.string().optional().describe("Monster name (looked up for its CR)"),
+            cr: z.union([z.number(), z.string()]).optional().describe("Challenge rating (e.g., 2, '1/4'); overrides the lookup"),
+            count: z.coerce.number().optional().describe("How many of this monster (default: 1)"),
+          })
+        )
+        .describe("Monsters in the encounter"),
+      partyLevels: z.array(z.coerce.number()).optional().describe("Level of each party member (e.g., [5, 5, 4, 6])"),
+      campaignId: z.coerce.number().optional().describe("Campaign ID to read party levels from when partyLevels is omitted"),
+      rules: z.enum(["2014", "2024"]).optional().describe("Rules to apply (default: both)"),
+    },
+    async (params) =>
+      evaluateEncounter(client, {
+        monsters: params.monsters,
+        partyLevels: params.partyLevels,
+        campaignId: params.campaignId,
+        rules: params.rules,
+      }, homebrew)
+  );
+
+  // Register dice tools
+  server.tool(
+    "roll",
+    "Roll dice using D&D notation: 8d6, 1d20+5, 4d6kh3 (keep highest), 2d20kl1 (keep lowest), 4d6dl1 (drop lowest), 2d6ro<2 (reroll 1s and 2s once), 3d6! (exploding)",
+    {
+      expression: z.string().describe("Dice expression (e.g., '2d6+3', '4d6kh3')"),
+      mode: z
+        .enum(["normal", "advantage", "disadvantage"])
+        .optional()
+        .describe("Roll the expression's d20 with advantage or disadvantage"),
+      label: z.string().optional().describe("What the roll is for (e.g., 'Fireball damage')"),
+      seed: z.coerce.number().optional().describe("Seed for reproducible results"),
+    },
+    async (params) =>
+      roll({
+        expression: params.expression,
+        mode: params.mode,
+        label: params.label,
+        seed: params.seed,
+      })
+  );
+
+  server.tool(
+    "roll_check",
+    "Roll a skill check, saving throw, or ability check for a character using the bonuses from their sheet. Provide exactly one of skill, save, or ability.",
+    {
+      characterId: z.coerce.number().optional().describe("The character ID"),
+      characterName: z.string().optional().describe("The character name (case-insensitive search)"),
+      skill: z.string().optional().describe("Skill name (e.g., 'Stealth', 'Sleight of Hand')"),
+      save: z.string().optional().describe("Saving throw ability (e.g., 'DEX', 'Wisdom')"),
+      ability: z.string().optional().describe("Ability for a raw ability check (e.g., 'STR')"),
+      mode: z
+        .enum(["normal", "advantage", "disadvantage"])
+        .optional()
+        .describe("Roll with advantage or disadvantage"),
+      seed: z.coerce.number().optional().describe("Seed for reproducible results"),
+    },
+    async (params) =>
+      rollCheck(client, {
+        characterId: params.characterId,
+        characterName: params.characterName,
+        skill: params.skill,
+        save: params.save,
+        ability: params.ability,
+        mode: params.mode,
+        seed: params.seed,
+      })
+  );
+
+  // Register reference tools - spells
+  server.registerTool(
+    "search_spells",
+    {
+      description: "Search the full spell compendium by name, level, class, subclass, school, concentration, ritual, or sourcebook",
+      inputSchema: {
+        name: z.string().optional().describe("Spell name (partial match)"),
+        level: z.coerce.number().optional().describe("Spell level (0-9, 0=cantrip)"),
+        class: z
+          .string()
+          .optional()
+          .describe("Class spell list (e.g., Druid, Wizard). Subclass-only spells (domain, oath, circle) need the subclass filter."),
+        subclass: z
+          .string()
+          .optional()
+          .describe("Subclass name (e.g., 'Life Domain', 'Fiend'). Returns its class's list plus the subclass's expanded spells; class, if given, must match."),
+        school: z
+          .string()
+          .optional()
+          .describe("School of magic (e.g., evocation, abjuration)"),
+        concentration: z.boolean().optional().describe("Requires concentration"),
+        ritual: z.boolean().optional().describe("Can be cast as ritual"),
+        source: sourceParam,
+        ownedOnly: ownedOnlyParam,
+      },
+      outputSchema: spellSearchSchema,
     },
     async (params) =>
       searchSpells(client, {
         name: params.name,
         level: params.level,
+        class: params.class,
+        subclass: params.subclass,
         school: params.school,
         concentration: params.concentration,
         ritual: params.ritual,
-      })
+        source: params.source,
+        ownedOnly: params.ownedOnly,
+      }, undefined, homebrew, monsters)
   );
 
-  server.tool(
+  server.registerTool(
     "get_spell",
-    "Get full details for a specific spell by name from the compendium",
     {
-      spellName: z.string().describe("The spell name"),
+      description: "Get full details for a specific spell by name from the compendium",
+      inputSchema: {
+        spellName: z.string().describe("The spell name"),
+      },
+      outputSchema: spellDetailSchema,
     },
     async (params) =>
-      getSpell(client, { spellName: params.spellName })
+      getSpell(client, { spellName: params.spellName }, undefined, homebrew, monsters)
   );
 
   // Register reference tools - monsters
-  server.tool(
+  server.registerTool(
     "search_monsters",
-    "Search for monsters by name, CR, type, or size. Supports pagination and homebrew. Note: CR/type/size filters search the first 200 alphabetical monsters. For best results, combine filters with a name search term.",
     {
-      name: z.string().optional().describe("Monster name (partial match)"),
-      cr: z.coerce.number().optional().describe("Challenge Rating"),
-      type: z
-        .string()
-        .optional()
-        .describe("Monster type (e.g., dragon, undead, humanoid)"),
-      size: z
-        .string()
-        .optional()
-        .describe("Size (tiny, small, medium, large, huge, gargantuan)"),
-      page: z.coerce.number().optional().describe("Page number (default: 1, 20 results per page)"),
-      showHomebrew: z.boolean().optional().describe("Include homebrew monsters"),
-      source: z
-        .string()
-        .optional()
-        .describe("Source book name (e.g., 'Monster Manual', 'Volo's Guide')"),
+      description: "Search for monsters by name, CR or CR range, type, size, environment, alignment, legendary/mythic status, damage immunity, movement type, source, or the saving throws their actions call for (e.g. DC 15 CON). Filters cover every monster once the background monster index is built; until then they search the first 200 alphabetical monsters. Results are 20 per page in name order. Supports homebrew.",
+      inputSchema: {
+        name: z.string().optional().describe("Monster name (partial match)"),
+        cr: z.coerce.number().optional().describe("Challenge Rating"),
+        crMin: z.coerce.number().optional().describe("Minimum Challenge Rating (e.g. 0.25)"),
+        crMax: z.coerce.number().optional().describe("Maximum Challenge Rating"),
+        type: z
+          .string()
+          .optional()
+          .describe("Monster type (e.g., dragon, undead, humanoid)"),
+        size: z
+          .string()
+          .optional()
+          .describe("Size (tiny, small, medium, large, huge, gargantuan)"),
+        environment: z
+          .string()
+          .optional()
+          .describe("Environment (e.g., forest, underdark, coastal, arctic)"),
+        alignment: z
+          .string()
+          .optional()
+          .describe("Alignment (partial match, e.g. 'chaotic evil' or 'evil')"),
+        legendary: z.boolean().optional().describe("Only legendary (true) or non-legendary (false) monsters"),
+        mythic: z.boolean().optional().describe("Only mythic (true) or non-mythic (false) monsters"),
+        damageImmunity: z.string().optional().describe("Damage type the monster is immune to (e.g. fire, poison)"),
+        movement: z.string().optional().describe("Movement type the monster has (walk, burrow, climb, fly, swim)"),
+        saveAbility: z
+          .string()
+          .optional()
+          .describe("Only monsters with an action that forces this saving throw (e.g. CON, Dexterity)"),
+        saveDc: z.coerce.number().optional().describe("Only monsters with an action that forces a save at this DC"),
+        page: z.coerce.number().optional().describe("Page number (default: 1, 20 results per page)"),
+        showHomebrew: z.boolean().optional().describe("Include homebrew monsters (queries D&D Beyond directly rather than the monster index)"),
+        source: sourceParam,
+        ownedOnly: ownedOnlyParam,
+      },
+      outputSchema: monsterSearchSchema,
     },
     async (params) =>
       searchMonsters(client, {
         name: params.name,
         cr: params.cr,
+        crMin: params.crMin,
+        crMax: params.crMax,
         type: params.type,
         size: params.size,
+        environment: params.environment,
+        alignment: params.alignment,
+        legendary: params.legendary,
+        mythic: params.mythic,
+        damageImmunity: params.damageImmunity,
+        movement: params.movement,
+        saveAbility: params.saveAbility,
+        saveDc: params.saveDc,
         page: params.page,
         showHomebrew: params.showHomebrew,
         source: params.source,
-      })
+        ownedOnly: params.ownedOnly,
+      }, homebrew, monsters)
   );
 
-  server.tool(
+  server.registerTool(
     "get_monster",
-    "Get full stat block for a specific monster by name",
     {
-      monsterName: z.string().describe("The monster name"),
+      description: "Get full stat block for a specific monster by name",
+      inputSchema: {
+        monsterName: z.string().describe("The monster name"),
+      },
+      outputSchema: monsterStatBlockSchema,
     },
     async (params) =>
       getMonster(client, {
         monsterName: params.monsterName,
-      })
+      }, homebrew)
+  );
+
+  server.registerTool(
+    "scale_monster",
+    {
+      description: "Scale a monster to a target challenge rating using the DMG monster creation table (HP, AC, attack bonuses, damage, save DCs), optionally as a minion, elite or solo-boss variant with extra legendary actions. Returns the new stat block in get_monster's format.",
+      inputSchema: {
+        monsterName: z.string().describe("The monster to base the variant on"),
+        targetCr: z.coerce.number().optional().describe("Target Challenge Rating (0, 0.125, 0.25, 0.5 or 1-30); defaults to the monster's own CR"),
+        template: z
+          .enum(MONSTER_TEMPLATES)
+          .optional()
+          .describe("minion (1 HP, quarter XP), elite (tougher, +1 to hit and DCs) or solo-boss (double HP, Legendary Resistance, extra legendary actions)"),
+      },
+      outputSchema: monsterStatBlockSchema,
+    },
+    async (params) =>
+      scaleMonster(client, {
+        monsterName: params.monsterName,
+        targetCr: params.targetCr,
+        template: params.template,
+      }, homebrew)
   );
 
   // Register reference tools - items
-  server.tool(
+  server.registerTool(
     "search_items",
-    "Search for magic items by name, rarity, or type",
     {
-      name: z.string().optional().describe("Item name (partial match)"),
-      rarity: z
-        .string()
-        .optional()
-        .describe(
-          "Rarity (common, uncommon, rare, very rare, legendary, artifact)"
-        ),
-      type: z
-        .string()
-        .optional()
-        .describe("Item type (weapon, armor, potion, ring, etc.)"),
+      description: "Search for magic items by name, rarity, type, or sourcebook",
+      inputSchema: {
+        name: z.string().optional().describe("Item name (partial match)"),
+        rarity: z
+          .string()
+          .optional()
+          .describe(
+            "Rarity (common, uncommon, rare, very rare, legendary, artifact)"
+          ),
+        type: z
+          .string()
+          .optional()
+          .describe("Item type (weapon, armor, potion, ring, etc.)"),
+        source: sourceParam,
+        ownedOnly: ownedOnlyParam,
+      },
+      outputSchema: itemSearchSchema,
     },
     async (params) =>
       searchItems(client, {
         name: params.name,
         rarity: params.rarity,
         type: params.type,
-      })
+        source: params.source,
+        ownedOnly: params.ownedOnly,
+      }, homebrew, monsters)
   );
 
-  server.tool(
+  server.registerTool(
     "get_item",
-    "Get full details for a specific magic item by name",
     {
-      itemName: z.string().describe("The item name"),
+      description: "Get full details for a specific magic item by name",
+      inputSchema: {
+        itemName: z.string().describe("The item name"),
+      },
+      outputSchema: itemDetailSchema,
     },
     async (params) =>
       getItem(client, {
         itemName: params.itemName,
-      })
+      }, homebrew, monsters)
   );
 
   // Register reference tools - feats
-  server.tool(
+  server.registerTool(
     "search_feats",
-    "Search for feats by name",
     {
-      name: z.string().optional().describe("Feat name (partial match)"),
+      description: "Search for feats by name or sourcebook",
+      inputSchema: {
+        name: z.string().optional().describe("Feat name (partial match)"),
+        source: sourceParam,
+        ownedOnly: ownedOnlyParam,
+      },
+      outputSchema: featSearchSchema,
     },
     async (params) =>
       searchFeats(client, {
         name: params.name,
-      })
+        source: params.source,
+        ownedOnly: params.ownedOnly,
+      }, homebrew, monsters)
+  );
+
+  server.tool(
+    "list_owned_sources",
+    "List the sourcebooks this account can open on D&D Beyond: owned or shared through a campaign, free, or locked",
+    {},
+    async () => listOwnedSources(client, monsters)
   );
 
   // Register reference tools - conditions
@@ -819,89 +1469,96 @@ export async function startServer(): Promise<void> {
   );
 
   // Register reference tools - classes
-  server.tool(
+  server.registerTool(
     "search_classes",
-    "Search for character classes and subclasses",
     {
-      className: z.string().optional().describe("Class name (partial match)"),
+      description: "Search for character classes and subclasses",
+      inputSchema: {
+        className: z.string().optional().describe("Class name (partial match)"),
+      },
+      outputSchema: classSearchSchema,
     },
     async (params) =>
       searchClasses(client, {
         className: params.className,
-      })
+      }, monsters)
   );
 
   // Register reference tools - races
-  server.tool(
+  server.registerTool(
     "search_races",
-    "Search for character races by name",
     {
-      name: z.string().optional().describe("Race name (partial match)"),
+      description: "Search for character races by name or sourcebook",
+      inputSchema: {
+        name: z.string().optional().describe("Race name (partial match)"),
+        source: sourceParam,
+      },
+      outputSchema: raceSearchSchema,
     },
     async (params) =>
       searchRaces(client, {
         name: params.name,
-      })
+        source: params.source,
+      }, monsters)
   );
 
   // Register reference tools - backgrounds
-  server.tool(
+  server.registerTool(
     "search_backgrounds",
-    "Search for character backgrounds by name",
     {
-      name: z.string().optional().describe("Background name (partial match)"),
+      description: "Search for character backgrounds by name or sourcebook",
+      inputSchema: {
+        name: z.string().optional().describe("Background name (partial match)"),
+        source: sourceParam,
+      },
+      outputSchema: backgroundSearchSchema,
     },
     async (params) =>
       searchBackgrounds(client, {
         name: params.name,
-      })
+        source: params.source,
+      }, monsters)
   );
 
   // Register reference tools - class features
-  server.tool(
+  server.registerTool(
     "search_class_features",
-    "Search for class features by name, class, or level",
     {
-      name: z.string().optional().describe("Feature name (partial match)"),
-      className: z.string().optional().describe("Class name to filter by (e.g., 'Fighter', 'Wizard')"),
-      level: z.coerce.number().optional().describe("Class level requirement"),
+      description: "Search for class features by name, class, level, or sourcebook",
+      inputSchema: {
+        name: z.string().optional().describe("Feature name (partial match)"),
+        className: z.string().optional().describe("Class name to filter by (e.g., 'Fighter', 'Wizard')"),
+        level: z.coerce.number().optional().describe("Class level requirement"),
+        source: sourceParam,
+      },
+      outputSchema: classFeatureSearchSchema,
     },
     async (params) =>
       searchClassFeatures(client, {
         name: params.name,
         className: params.className,
         level: params.level,
-      })
+        source: params.source,
+      }, monsters)
   );
 
   // Register reference tools - racial traits
-  server.tool(
+  server.registerTool(
     "search_racial_traits",
-    "Search for racial traits by name or race",
     {
-      name: z.string().optional().describe("Trait name (partial match)"),
-      raceName: z.string().optional().describe("Race name to filter by (e.g., 'Elf', 'Dwarf')"),
+      description: "Search for racial traits by name or race",
+      inputSchema: {
+        name: z.string().optional().describe("Trait name (partial match)"),
+        raceName: z.string().optional().describe("Race name to filter by (e.g., 'Elf', 'Dwarf')"),
+      },
+      outputSchema: racialTraitSearchSchema,
     },
     async (params) =>
       searchRacialTraits(client, {
         name: params.name,
         raceName: params.raceName,
-      })
+      }, monsters)
   );
 
-  // Connect via stdio transport
-  const transport = new StdioServerTransport();
-  await server.connect(transport);
-
-  // Handle graceful shutdown
-  const shutdown = async () => {
-    console.error("dndbeyond-mcp: shutting down...");
-    await server.close();
-    process.exit(0);
-  };
-
-  process.on("SIGINT", shutdown);
-  process.on("SIGTERM", shutdown);
-
-  console.error("dndbeyond-mcp: server running");
+  return server;
 }
@@ -0,0 +1,128 @@
+import { readFile, writeFile, mkdir, readdir, unlink } from "node:fs/promises";
+import { createHash } from "node:crypto";
+import { join } from "node:path";
+import { homedir } from "node:os";
+import type { DdbCharacter } from "../types/character.js";
+
+export const DEFAULT_SNAPSHOT_DIR = join(homedir(), ".dndbeyond-mcp", "snapshots");
+
+export interface SnapshotInfo {
+  /** Sortable timestamp ID, e.g. "20261019T133632123Z". */
+  id: string;
+  characterId: number;
+  name: string;
+  takenAt: string;
+}
+
+export interface CharacterSnapshot extends SnapshotInfo {
+  hash: string;
+  character: DdbCharacter;
+}
+
+export interface SnapshotStoreOptions {
+  /** Snapshots kept per character; the oldest are pruned first (default: 100). */
+  maxPerCharacter?: number;
+}
+
+export function hashCharacter(character: DdbCharacter): string {
+  return createHash("sha256").update(JSON.stringify(character)).digest("hex").slice(0, 16);
+}
+
+function snapshotId(date: Date): string {
+  return date.toISOString().replace(/[-:.]/g, "");
+}
+
+/**
+ * On-disk history of character payloads, one directory per character and one
+ * JSON file per snapshot. A snapshot is only written when the payload differs
+ * from the most recent one, so repeated get_character calls don't pile up copies.
+ */
+export class SnapshotStore {
+  private readonly maxPerCharacter: number;
+
+  constructor(
+    readonly dir: string = DEFAULT_SNAPSHOT_DIR,
+    options: SnapshotStoreOptions = {},
+  ) {
+    this.maxPerCharacter = options.maxPerCharacter ?? 100;
+  }
+
+  /**
+   * Builds the store from DDB_SNAPSHOT_DIR.
+   * Returns null when DDB_SNAPSHOTS is "off".
+   */
+  static fromEnv(env: NodeJS.ProcessEnv = process.env): SnapshotStore | null {
+    if (env.DDB_SNAPSHOTS?.toLowerCase() === "off") return null;
+    return new SnapshotStore(env.DDB_SNAPSHOT_DIR || DEFAULT_SNAPSHOT_DIR);
+  }
+
+  /** Saves the character unless it matches the latest snapshot. Returns the new snapshot, or null. */
+  async save(character: DdbCharacter, now: Date = new Date()): Promise<SnapshotInfo | null> {
+    const hash = hashCharacter(character);
+    const ids = await this.ids(character.id);
+    const latest = ids.length > 0 ? await this.load(character.id, ids[ids.length - 1]) : null;
+    if (latest?.hash === hash) return null;
+
+    let id = snapshotId(now);
+    // Two saves in the same millisecond get a suffix rather than overwriting each other
+    for (let n = 1; ids.includes(id); n++) id = `${snapshotId(now)}-${n}`;
+
+    const snapshot: CharacterSnapshot = {
+      id,
+      characterId: character.id,
+      name: character.name,
+      takenAt: now.toISOString(),
+      hash,
+      character,
+    };
+    await mkdir(this.characterDir(character.id), { recursive: true });
+    await writeFile(this.fileFor(character.id, id), JSON.stringify(snapshot), "utf-8");
+
+    const excess = ids.length + 1 - this.maxPerCharacter;
+    for (const old of ids.slice(0, Math.max(0, excess))) {
+      await unlink(this.fileFor(character.id, old)).catch(() => {});
+    }
+
+    return { id, characterId: snapshot.characterId, name: snapshot.name, takenAt: snapshot.takenAt };
+  }
+
+  /** All snapshots of a character, oldest first. */
+  async list(characterId: number): Promise<CharacterSnapshot[]> {
+    const snapshots: CharacterSnapshot[] = [];
+    for (const id of await this.ids(characterId)) {
+      const snapshot = await this.load(characterId, id);
+      if (snapshot) snapshots.push(snapshot);
+    }
+    return snapshots;
+  }
+
+  async load(characterId: number, id: string): Promise<CharacterSnapshot | null> {
+    try {
+      const raw = await readFile(this.fileFor(characterId, id), "utf-8");
+      return JSON.parse(raw) as CharacterSnapshot;
+    } catch {
+      return null;
+    }
+  }
+
+  private async ids(characterId: number): Promise<string[]> {
+    try {
+      const files = await readdir(this.characterDir(characterId));
+      return files
+        .filter((f) => f.endsWith(".json"))
+        .map((f) => f.slice(0, -".json".length))
+        .sort();
+    } catch {
+      return [];
+    }
+  }
+
+  private characterDir(characterId: number): string {
+    return join(this.dir, String(characterId));
+  }
+
+  private fileFor(characterId: number, id: string): string {
+    // IDs come from tool arguments; keep them inside the character directory
+    return join(this.characterDir(characterId), `${id.replace(/[^0-9A-Za-z-]/g, "")}.json`);
+  }
+}
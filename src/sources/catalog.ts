@@ -0,0 +1,162 @@
+/**
+ * Sourcebooks, read from the sources list in D&D Beyond's game config.
+ *
+ * Resolves what people call a book (its title, the start of it, or a common
+ * abbreviation such as XGtE or PHB'24) to its source ID, and source IDs back
+ * to titles for result lines. Config lists each book with its short name and
+ * its title; the abbreviations below only name titles, so a book D&D Beyond
+ * doesn't list can never be matched by mistake.
+ */
+
+import type { GameConfig } from "../types/reference.js";
+
+export interface SourceBook {
+  id: number;
+  /** e.g. "Xanathar's Guide to Everything". */
+  title: string;
+  /** D&D Beyond's short name, e.g. "XGtE"; null when config only gives a title. */
+  abbreviation: string | null;
+}
+
+/** Common abbreviations and the (normalized) titles they stand for. */
+const ABBREVIATIONS: Record<string, string> = {
+  br: "basic rules",
+  srd: "systems reference document",
+  phb: "players handbook",
+  dmg: "dungeon masters guide",
+  mm: "monster manual",
+  vgm: "volos guide to monsters",
+  vgtm: "volos guide to monsters",
+  xge: "xanathars guide to everything",
+  xgte: "xanathars guide to everything",
+  mtf: "mordenkainens tome of foes",
+  mtof: "mordenkainens tome of foes",
+  tce: "tashas cauldron of everything",
+  tcoe: "tashas cauldron of everything",
+  ftd: "fizbans treasury of dragons",
+  ftod: "fizbans treasury of dragons",
+  motm: "monsters of the multiverse",
+  mpmm: "monsters of the multiverse",
+  scag: "sword coast adventurers guide",
+  egw: "explorers guide to wildemount",
+  egtw: "explorers guide to wildemount",
+  erlw: "eberron rising from the last war",
+  ggr: "guildmasters guide to ravnica",
+  vrgr: "van richtens guide to ravenloft",
+  cos: "curse of strahd",
+  hotdq: "hoard of the dragon queen",
+  pota: "princes of the apocalypse",
+  oota: "out of the abyss",
+  skt: "storm kings thunder",
+  tftyp: "tales from the yawning portal",
+  toa: "tomb of annihilation",
+  wdh: "waterdeep dragon heist",
+  bgdia: "descent into avernus",
+};
+
+/** Lowercase words without punctuation: "Volo's Guide" → "volos guide". */
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/['’]/g, "").replace(/[^a-z0-9]+/g, " ").trim();
+}
+
+/** Splits a trailing edition year off: "phb24" → words "phb", year "2024". */
+function splitYear(text: string): { words: string; year: string | null } {
+  const match = /^(.*[a-z])\s*(?:20)?(1[4-9]|2\d)$/.exec(text);
+  return match ? { words: match[1].trim(), year: `20${match[2]}` } : { words: text, year: null };
+}
+
+interface BookKeys {
+  /** The whole normalized title, year included. */
+  full: string;
+  title: string;
+  abbreviation: string | null;
+  year: string | null;
+}
+
+function bookKeys(book: SourceBook): BookKeys {
+  const title = splitYear(normalize(book.title));
+  const abbreviation = book.abbreviation ? splitYear(normalize(book.abbreviation)) : null;
+  return {
+    full: normalize(book.title),
+    title: title.words,
+    abbreviation: abbreviation?.words ?? null,
+    year: title.year ?? abbreviation?.year ?? null,
+  };
+}
+
+/**
+ * 3 for the exact title, 2 for the title or abbreviation without its year,
+ * 1 for a title with words starting the query, 0 for no match.
+ */
+function nameScore(keys: BookKeys, query: string, words: string): number {
+  if (keys.full === query) return 3;
+  const title = ABBREVIATIONS[words] ?? words;
+  if (keys.title === title || keys.abbreviation === words) return 2;
+  return ` ${keys.title}`.includes(` ${title}`) ? 1 : 0;
+}
+
+/** Without a year in the query, books with none win; with one, that year's book beats a book with no year. */
+function yearScore(keys: BookKeys, year: string | null): number {
+  if (year === null) return keys.year === null ? 1 : 0;
+  if (keys.year === year) return 2;
+  return keys.year === null ? 1 : -1;
+}
+
+export class SourceCatalog {
+  static readonly EMPTY = new SourceCatalog([]);
+
+  private readonly byId: Map<number, SourceBook>;
+
+  private constructor(readonly books: SourceBook[]) {
+    this.byId = new Map(books.map((book) => [book.id, book]));
+  }
+
+  /** Books whose config entry has a description use it as the title and their name as the abbreviation. */
+  static fromConfig(config: Pick<GameConfig, "sources"> | null | undefined): SourceCatalog {
+    return new SourceCatalog(
+      (config?.sources ?? []).map((s) => ({
+        id: s.id,
+        title: s.description?.trim() || s.name,
+        abbreviation: s.description?.trim() ? s.name : null,
+      }))
+    );
+  }
+
+  get(id: number): SourceBook | undefined {
+    return this.byId.get(id);
+  }
+
+  /** The best match for a title, part of one, or an abbreviation; ties go to the book listed first. */
+  resolve(query: string): SourceBook | undefined {
+    const normalized = normalize(query);
+    const { words, year } = splitYear(normalized);
+    if (!words) return undefined;
+
+    let best: { book: SourceBook; name: number; year: number } | undefined;
+    for (const book of this.books) {
+      const keys = bookKeys(book);
+      const name = nameScore(keys, normalized, words);
+      const edition = yearScore(keys, year);
+      if (name === 0 || edition < 0) continue;
+      if (!best || name > best.name || (name === best.name && edition > best.year)) {
+        best = { book, name, year: edition };
+      }
+    }
+    return best?.book;
+  }
+
+  /** Titles of the books an entry appears in, e.g. "Basic Rules, Monster Manual"; null when none are known. */
+  label(sources: Array<{ sourceId: number }> | null | undefined): string | null {
+    const titles = new Set<string>();
+    for (const { sourceId } of sources ?? []) {
+      const book = this.byId.get(sourceId);
+      if (book) titles.add(book.title);
+    }
+    return titles.size > 0 ? [...titles].join(", ") : null;
+  }
+}
+
+/** Whether an entry appears in the given book. */
+export function inSource(sources: Array<{ sourceId: number }> | null | undefined, book: SourceBook): boolean {
+  return (sources ?? []).some((s) => s.sourceId === book.id);
+}
@@ -0,0 +1,106 @@
+import type { DdbClient } from "../api/client.js";
+import { ENDPOINTS } from "../api/endpoints.js";
+import type { DdbCharacter } from "../types/character.js";
+import { deriveAttacks, type Attack, type DamageRoll } from "../rules/attacks.js";
+import { explainParts } from "../rules/engine.js";
+import { resolveCharacterId } from "./character.js";
+import type { AttacksData } from "./output-schemas.js";
+
+interface ToolResult {
+  [key: string]: unknown;
+  content: Array<{ type: "text"; text: string }>;
+}
+
+interface GetAttacksParams {
+  characterId?: number;
+  characterName?: string;
+}
+
+function signed(n: number): string {
+  return n >= 0 ? `+${n}` : `${n}`;
+}
+
+/** "1d8 + 3 slashing", "2d10 fire", "4 bludgeoning". */
+function formatDamage(roll: DamageRoll): string {
+  const bonus = roll.bonus.value;
+  let amount = roll.dice ?? String(bonus);
+  if (roll.dice && bonus !== 0) amount += ` ${bonus > 0 ? "+" : "-"} ${Math.abs(bonus)}`;
+  return roll.type ? `${amount} ${roll.type.toLowerCase()}` : amount;
+}
+
+function formatAttack(attack: Attack): string {
+  const lines = [`### ${attack.name}${attack.properties.length > 0 ? ` (${attack.properties.join(", ")})` : ""}`];
+  if (attack.toHit) lines.push(`- To hit: ${signed(attack.toHit.value)} (${explainParts(attack.toHit)})`);
+  if (attack.save) {
+    lines.push(`- Save: DC ${attack.save.dc.value} ${attack.save.ability} (${explainParts(attack.save.dc)})`);
+  }
+
+  const damage = attack.damage.map(formatDamage).join(" + ");
+  const flat = attack.damage.filter((d) => d.bonus.parts.length > 0 && d.bonus.value !== 0);
+  const breakdown = flat.length > 0 ? ` (${flat.map((d) => explainParts(d.bonus)).join("; ")})` : "";
+  lines.push(`- Damage: ${damage}${breakdown}`);
+  if (attack.versatile) lines.push(`- Two-handed: ${formatDamage(attack.versatile)}`);
+
+  if (attack.range) lines.push(`- Range: ${attack.range}`);
+  for (const note of attack.notes) lines.push(`- ${note}`);
+  return lines.join("\n");
+}
+
+function damageData(roll: DamageRoll) {
+  return { dice: roll.dice, bonus: roll.bonus.value, type: roll.type };
+}
+
+function attacksData(char: DdbCharacter, attacks: Attack[]): AttacksData {
+  return {
+    characterId: char.id,
+    name: char.name,
+    attacks: attacks.map((a) => ({
+      name: a.name,
+      kind: a.kind,
+      attackBonus: a.toHit?.value ?? null,
+      saveDc: a.save?.dc.value ?? null,
+      saveAbility: a.save?.ability ?? null,
+      damage: a.damage.map(damageData),
+      versatileDamage: a.versatile ? damageData(a.versatile) : null,
+      range: a.range,
+      properties: a.properties,
+      notes: a.notes,
+    })),
+  };
+}
+
+/**
+ * To-hit bonuses, save DCs and damage for a character's equipped weapons and
+ * castable damaging spells.
+ */
+export async function getAttacks(
+  client: DdbClient,
+  params: GetAttacksParams
+): Promise<ToolResult & { structuredContent?: AttacksData; isError?: boolean }> {
+  const idOrError = await resolveCharacterId(client, params);
+  if (typeof idOrError === "string") {
+    return { content: [{ type: "text", text: idOrError }], isError: true };
+  }
+
+  const character = await client.get<DdbCharacter>(
+    ENDPOINTS.character.get(idOrError),
+    `character:${idOrError}`,
+    60_000
+  );
+
+  const attacks = deriveAttacks(character);
+  const weapons = attacks.filter((a) => a.kind === "weapon");
+  const spells = attacks.filter((a) => a.kind === "spell");
+
+  const lines = [`# ${character.name} — Attacks`];
+  if (attacks.length === 0) {
+    lines.push("", "No equipped weapons or damaging spells.");
+  }
+  if (weapons.length > 0) lines.push("", "## Weapons", "", weapons.map(formatAttack).join("\n\n"));
+  if (spells.length > 0) lines.push("", "## Spells", "", spells.map(formatAttack).join("\n\n"));
+
+  return {
+    content: [{ type: "text", text: lines.join("\n") }],
+    structuredContent: attacksData(character, attacks),
+  };
+}
@@ -0,0 +1,19 @@
+import type { DdbClient } from "../api/client.js";
+
+interface CallToolResult {
+  [key: string]: unknown;
+  content: Array<{ type: "text"; text: string }>;
+}
+
+export async function clearCache(client: DdbClient): Promise<CallToolResult> {
+  const removed = await client.clearCache();
+  const kb = Math.round(removed.bytes / 1024);
+  return {
+    content: [
+      {
+        type: "text",
+        text: `Cache cleared. Removed ${removed.entries} on-disk entr${removed.entries === 1 ? "y" : "ies"} (${kb} KB). The next lookups will re-download from D&D Beyond.`,
+      },
+    ],
+  };
+}
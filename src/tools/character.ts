@@ -1,6 +1,5 @@
 import type { DdbClient } from "../api/client.js";
 import { ENDPOINTS } from "../api/endpoints.js";
-import { HttpError } from "../resilience/index.js";
 import type {
   DdbCharacter,
   DdbAction,
@@ -10,10 +9,40 @@ import type {
   DdbClassFeature,
   DdbRacialTrait,
   DdbInventoryItem,
+  DdbChoice,
+  DdbChoiceDefinition,
 } from "../types/character.js";
-import type { DdbCampaign, DdbCampaignCharacter2 } from "../types/api.js";
-import { fuzzyMatch, levenshteinDistance } from "../utils/fuzzy-match.js";
-import { ABILITY_NAMES, ABILITY_SUBTYPE_MAP, calculateAbilityModifier, sumModifierBonuses, computeFinalAbilityScore, computeLevel, calculateMaxHp, calculateCurrentHp, calculateAc } from "../utils/character-calculations.js";
+import type { SnapshotStore } from "../snapshots/store.js";
+import type { MutationJournal } from "../journal/store.js";
+import { findCharacterByName, formatMembership, loadCharacterRoster } from "../api/roster.js";
+import { fuzzyMatch } from "../utils/fuzzy-match.js";
+import {
+  ABILITY_NAMES,
+  ABILITY_SUBTYPE_MAP,
+  SKILL_DEFINITIONS,
+  calculateAbilityModifier,
+  sumModifierBonuses,
+  computeFinalAbilityScore,
+  computeLevel,
+  calculateMaxHp,
+  calculateCurrentHp,
+  calculateAc,
+  calculateProficiencyBonus,
+  calculateSavingThrowBonus,
+  calculateSkillBonus,
+  calculateInitiativeBonus,
+  calculatePassiveScore,
+} from "../utils/character-calculations.js";
+import { SPELLCASTING_ABILITY, deriveStats, explainStat } from "../rules/engine.js";
+import type { CharacterSheetData } from "./output-schemas.js";
+import {
+  dryRunResult,
+  executePlan,
+  sendWrite,
+  type FieldChange,
+  type WritePlan,
+  type WriteRequest,
+} from "./writes.js";
 
 interface GetCharacterParams {
   characterId?: number;
@@ -104,7 +133,7 @@ function getAllSpells(char: DdbCharacter): DdbSpell[] {
   ];
 }
 
-function stripHtml(s: string | null | undefined): string {
+export function stripHtml(s: string | null | undefined): string {
   if (!s) return StringUtils.EMPTY;
   return s
     .replace(/<[^>]*>/g, "")
@@ -121,16 +150,12 @@ function stripHtml(s: string | null | undefined): string {
     .trim();
 }
 
-async function resolveCharacterId(
+export async function resolveCharacterId(
   client: DdbClient,
   params: GetCharacterParams
 ): Promise<number | string> {
   if (params.characterId) return params.characterId;
-  if (params.characterName) {
-    const foundId = await findCharacterByName(client, params.characterName);
-    if (!foundId) return `Character "${params.characterName}" not found.`;
-    return foundId;
-  }
+  if (params.characterName) return findCharacterByName(client, params.characterName);
   return "Either characterId or characterName must be provided.";
 }
 
@@ -146,10 +171,6 @@ function featureDescription(f: DdbClassFeature): string {
   return f.definition?.description ?? f.description ?? "";
 }
 
-function calculateProficiencyBonus(level: number): number {
-  return Math.ceil(level / 4) + 1;
-}
-
 function getAbilityScoreNumeric(char: DdbCharacter, id: number): number {
   return computeFinalAbilityScore(char.stats, char.bonusStats, char.overrideStats, char.modifiers, id);
 }
@@ -171,58 +192,11 @@ const ABILITY_FULL_NAMES: Record<number, string> = {
   6: "Charisma",
 };
 
-const SAVING_THROW_SUBTYPES: Record<number, string> = {
-  1: "strength-saving-throws",
-  2: "dexterity-saving-throws",
-  3: "constitution-saving-throws",
-  4: "intelligence-saving-throws",
-  5: "wisdom-saving-throws",
-  6: "charisma-saving-throws",
-};
-
-const SKILL_DEFINITIONS: Array<{ name: string; abilityId: number; subType: string }> = [
-  { name: "Acrobatics", abilityId: 2, subType: "acrobatics" },
-  { name: "Animal Handling", abilityId: 5, subType: "animal-handling" },
-  { name: "Arcana", abilityId: 4, subType: "arcana" },
-  { name: "Athletics", abilityId: 1, subType: "athletics" },
-  { name: "Deception", abilityId: 6, subType: "deception" },
-  { name: "History", abilityId: 4, subType: "history" },
-  { name: "Insight", abilityId: 5, subType: "insight" },
-  { name: "Intimidation", abilityId: 6, subType: "intimidation" },
-  { name: "Investigation", abilityId: 4, subType: "investigation" },
-  { name: "Medicine", abilityId: 5, subType: "medicine" },
-  { name: "Nature", abilityId: 4, subType: "nature" },
-  { name: "Perception", abilityId: 5, subType: "perception" },
-  { name: "Performance", abilityId: 6, subType: "performance" },
-  { name: "Persuasion", abilityId: 6, subType: "persuasion" },
-  { name: "Religion", abilityId: 4, subType: "religion" },
-  { name: "Sleight of Hand", abilityId: 2, subType: "sleight-of-hand" },
-  { name: "Stealth", abilityId: 2, subType: "stealth" },
-  { name: "Survival", abilityId: 5, subType: "survival" },
-];
-
-function hasModifierBySubType(
-  modifiers: Record<string, DdbModifier[]>,
-  subType: string,
-  type: string
-): boolean {
-  for (const list of Object.values(modifiers)) {
-    if (!Array.isArray(list)) continue;
-    for (const mod of list) {
-      if (mod.subType === subType && mod.type === type) return true;
-    }
-  }
-  return false;
-}
-
 function formatSavingThrows(char: DdbCharacter): string {
-  const profBonus = calculateProficiencyBonus(computeLevel(char));
   const saves = [];
 
   for (let id = 1; id <= 6; id++) {
-    const mod = getAbilityModNumeric(char, id);
-    const proficient = hasModifierBySubType(char.modifiers, SAVING_THROW_SUBTYPES[id], "proficiency");
-    const total = mod + (proficient ? profBonus : 0);
+    const { total, proficient } = calculateSavingThrowBonus(char, id);
     const sign = total >= 0 ? "+" : "";
     const prof = proficient ? " *" : "";
     saves.push(`${ABILITY_NAMES[id - 1]}: ${sign}${total}${prof}`);
@@ -232,22 +206,9 @@ function formatSavingThrows(char: DdbCharacter): string {
 }
 
 function formatSkills(char: DdbCharacter): string {
-  const profBonus = calculateProficiencyBonus(computeLevel(char));
-
   const lines = SKILL_DEFINITIONS.map((skill) => {
-    const abilityMod = getAbilityModNumeric(char, skill.abilityId);
-    const proficient = hasModifierBySubType(char.modifiers, skill.subType, "proficiency");
-    const expertise = hasModifierBySubType(char.modifiers, skill.subType, "expertise");
-
-    let total = abilityMod;
-    let marker = "";
-    if (expertise) {
-      total += profBonus * 2;
-      marker = " **";
-    } else if (proficient) {
-      total += profBonus;
-      marker = " *";
-    }
+    const { total, proficient, expertise } = calculateSkillBonus(char, skill);
+    const marker = expertise ? " **" : proficient ? " *" : "";
 
     const sign = total >= 0 ? "+" : "";
     return `  ${skill.name}: ${sign}${total}${marker}`;
@@ -321,16 +282,9 @@ function formatProficiencies(char: DdbCharacter): string {
   return `\n--- Proficiencies ---\n${lines.join("\n")}`;
 }
 
-function formatSpellcasting(char: DdbCharacter): string {
-  const allSpells = getAllSpells(char);
-
-  if (allSpells.length === 0) return StringUtils.EMPTY;
-
-  const SPELLCASTING_ABILITY: Record<string, number> = {
-    "Wizard": 4, "Artificer": 4,  // INT
-    "Sorcerer": 6, "Warlock": 6, "Bard": 6, "Paladin": 6,  // CHA
-    "Cleric": 5, "Druid": 5, "Ranger": 5,  // WIS
-  };
+/** Save DC and attack bonus per spellcasting class; a single WIS-based entry when no class is a known caster. */
+function getSpellcastingStats(char: DdbCharacter): Array<{ className: string | null; saveDc: number; attackBonus: number }> {
+  if (getAllSpells(char).length === 0) return [];
 
   const profBonus = calculateProficiencyBonus(computeLevel(char));
   const spellcastingClasses = char.classes.filter(cls => SPELLCASTING_ABILITY[cls.definition.name]);
@@ -338,23 +292,27 @@ function formatSpellcasting(char: DdbCharacter): string {
   if (spellcastingClasses.length === 0) {
     // Fallback to WIS if no known spellcasting class
     const wisMod = getAbilityModNumeric(char, 5);
-    const spellSaveDC = 8 + profBonus + wisMod;
-    const spellAttack = profBonus + wisMod;
-    const attackSign = spellAttack >= 0 ? "+" : "";
-    return `Spell Save DC: ${spellSaveDC} | Spell Attack: ${attackSign}${spellAttack}`;
+    return [{ className: null, saveDc: 8 + profBonus + wisMod, attackBonus: profBonus + wisMod }];
   }
 
-  const dcStrings = spellcastingClasses.map(cls => {
+  return spellcastingClasses.map(cls => {
     const abilityId = SPELLCASTING_ABILITY[cls.definition.name] ?? 5;
     const abilityMod = getAbilityModNumeric(char, abilityId);
-    const spellSaveDC = 8 + profBonus + abilityMod;
-    const spellAttack = profBonus + abilityMod;
-    const attackSign = spellAttack >= 0 ? "+" : "";
+    return { className: cls.definition.name, saveDc: 8 + profBonus + abilityMod, attackBonus: profBonus + abilityMod };
+  });
+}
+
+function formatSpellcasting(char: DdbCharacter): string {
+  const stats = getSpellcastingStats(char);
+  if (stats.length === 0) return StringUtils.EMPTY;
+
+  const dcStrings = stats.map(({ className, saveDc, attackBonus }) => {
+    const attackSign = attackBonus >= 0 ? "+" : "";
 
-    if (spellcastingClasses.length > 1) {
-      return `${cls.definition.name}: DC ${spellSaveDC} (${attackSign}${spellAttack} attack)`;
+    if (stats.length > 1) {
+      return `${className}: DC ${saveDc} (${attackSign}${attackBonus} attack)`;
     }
-    return `Spell Save DC: ${spellSaveDC} | Spell Attack: ${attackSign}${spellAttack}`;
+    return `Spell Save DC: ${saveDc} | Spell Attack: ${attackSign}${attackBonus}`;
   });
 
   return dcStrings.join(" | ");
@@ -431,7 +389,7 @@ function formatRacialTraitNames(char: DdbCharacter): string {
   return traits.map((t) => t.definition.name).join(", ");
 }
 
-function formatSpeed(char: DdbCharacter): string {
+function calculateSpeed(char: DdbCharacter): number {
   // Base walking speed for most races is 30 ft
   let baseSpeed = 30;
 
@@ -440,8 +398,41 @@ function formatSpeed(char: DdbCharacter): string {
   speedBonus += sumModifierBonuses(char.modifiers, "unarmored-movement");
   speedBonus += sumModifierBonuses(char.modifiers, "innate-speed-walking");
 
-  const totalSpeed = baseSpeed + speedBonus;
-  return `Speed: ${totalSpeed} ft`;
+  return baseSpeed + speedBonus;
+}
+
+function formatSpeed(char: DdbCharacter): string {
+  return `Speed: ${calculateSpeed(char)} ft`;
+}
+
+function passiveScores(char: DdbCharacter): { perception: number; investigation: number; insight: number } {
+  const passive = (name: string) => calculatePassiveScore(char, SKILL_DEFINITIONS.find((s) => s.name === name)!);
+  return { perception: passive("Perception"), investigation: passive("Investigation"), insight: passive("Insight") };
+}
+
+function formatInitiativeAndPassives(char: DdbCharacter): string {
+  const initiative = calculateInitiativeBonus(char);
+  const passives = passiveScores(char);
+  return `Initiative: ${initiative >= 0 ? "+" : ""}${initiative} | Passive Perception: ${passives.perception} | ` +
+    `Passive Investigation: ${passives.investigation} | Passive Insight: ${passives.insight}`;
+}
+
+/** Where each derived number comes from, one line per stat. */
+function formatDerivedBreakdown(char: DdbCharacter): string {
+  const stats = deriveStats(char);
+  const lines = [
+    `AC ${explainStat(stats.armorClass)}`,
+    `Max HP ${explainStat(stats.maxHp)}`,
+    `Initiative ${explainStat(stats.initiative)}`,
+    `Proficiency Bonus ${explainStat(stats.proficiencyBonus)}`,
+    `Passive Perception ${explainStat(stats.passives.perception)}`,
+    `Passive Investigation ${explainStat(stats.passives.investigation)}`,
+    `Passive Insight ${explainStat(stats.passives.insight)}`,
+    ...stats.abilityScores.map((s, i) => `${ABILITY_FULL_NAMES[i + 1]} ${explainStat(s)}`),
+    ...stats.savingThrows.map((s, i) => `${ABILITY_FULL_NAMES[i + 1]} Save ${explainStat(s)}`),
+    ...stats.skills.map((s, i) => `${SKILL_DEFINITIONS[i].name} ${explainStat(s)}`),
+  ];
+  return lines.join("\n");
 }
 
 function formatSpellSlots(char: DdbCharacter): string {
@@ -543,6 +534,7 @@ function formatCharacterSheet(char: DdbCharacter): string {
     `HP: ${formatHp(char)}`,
     `AC: ${calculateAc(char)}`,
     formatSpeed(char),
+    formatInitiativeAndPassives(char),
     StringUtils.EMPTY,
     `--- Ability Scores ---`,
     formatAbilityScores(char),
@@ -606,6 +598,84 @@ function formatCharacterSheet(char: DdbCharacter): string {
   return sections.join("\n");
 }
 
+/** The sheet as plain data for `structuredContent`; mirrors what formatCharacterSheet renders. */
+function characterSheetData(char: DdbCharacter): CharacterSheetData {
+  const level = computeLevel(char);
+  const limitedUse: CharacterSheetData["limitedUseResources"] = [];
+  for (const list of Object.values(char.actions ?? {})) {
+    if (!Array.isArray(list)) continue;
+    for (const action of list) {
+      if (!action.limitedUse) continue;
+      limitedUse.push({
+        name: action.name,
+        used: action.limitedUse.numberUsed,
+        max: action.limitedUse.maxUses,
+        reset: action.limitedUse.resetTypeDescription || "unknown",
+      });
+    }
+  }
+
+  return {
+    id: char.id,
+    name: char.name,
+    race: char.race.fullName,
+    background: char.background?.definition?.name ?? null,
+    level,
+    proficiencyBonus: calculateProficiencyBonus(level),
+    classes: char.classes.map((cls) => ({
+      name: cls.definition.name,
+      subclass: cls.subclassDefinition?.name ?? null,
+      level: cls.level,
+    })),
+    hitPoints: {
+      current: calculateCurrentHp(char),
+      max: calculateMaxHp(char),
+      temp: char.temporaryHitPoints ?? 0,
+    },
+    armorClass: calculateAc(char),
+    speed: calculateSpeed(char),
+    initiative: calculateInitiativeBonus(char),
+    passives: passiveScores(char),
+    abilityScores: ABILITY_NAMES.map((ability, idx) => {
+      const score = getAbilityScoreNumeric(char, idx + 1);
+      return { ability, score, modifier: Math.floor((score - 10) / 2) };
+    }),
+    savingThrows: ABILITY_NAMES.map((ability, idx) => {
+      const { total, proficient } = calculateSavingThrowBonus(char, idx + 1);
+      return { ability, bonus: total, proficient };
+    }),
+    skills: SKILL_DEFINITIONS.map((skill) => {
+      const { total, proficient, expertise } = calculateSkillBonus(char, skill);
+      return { name: skill.name, ability: ABILITY_NAMES[skill.abilityId - 1], bonus: total, proficient, expertise };
+    }),
+    spellcasting: getSpellcastingStats(char),
+    spells: getAllSpells(char).map((spell) => ({
+      name: spell.definition.name,
+      level: spell.definition.level,
+      prepared: Boolean(spell.prepared || spell.alwaysPrepared),
+    })),
+    spellSlots: (char.spellSlots ?? []).filter((slot) => slot.available > 0),
+    pactMagic: char.pactMagic && char.pactMagic.available > 0 ? { ...char.pactMagic } : null,
+    limitedUseResources: limitedUse,
+    feats: (char.feats ?? []).map((f) => f.definition.name),
+    classFeatures: getActiveClassFeatures(char).map((f) => f.name),
+    racialTraits: (char.race.racialTraits ?? []).map((t) => t.definition.name),
+    inventory: (char.inventory ?? []).map((item) => ({
+      name: item.definition.name,
+      quantity: item.quantity,
+      equipped: Boolean(item.equipped),
+    })),
+    currencies: {
+      cp: char.currencies?.cp ?? 0,
+      sp: char.currencies?.sp ?? 0,
+      ep: char.currencies?.ep ?? 0,
+      gp: char.currencies?.gp ?? 0,
+      pp: char.currencies?.pp ?? 0,
+    },
+    campaign: char.campaign ? { id: char.campaign.id, name: char.campaign.name } : null,
+  };
+}
+
 // ============================================================================
 // DEFINITION LOOKUP
 // ============================================================================
@@ -816,7 +886,7 @@ function searchDefinitions(char: DdbCharacter, query: string): DefinitionResult[
 
 function formatCharacterFull(char: DdbCharacter): string {
   const sheet = formatCharacterSheet(char);
-  const definitionSections: string[] = [];
+  const definitionSections: string[] = [`\n=== Derived Stat Breakdown ===\n\n${formatDerivedBreakdown(char)}`];
 
   // Spells
   const allSpells = getAllSpells(char);
@@ -918,69 +988,14 @@ function formatCharacter(char: DdbCharacter): string {
   return sections.join("\n");
 }
 
-async function findCharacterByName(client: DdbClient, name: string): Promise<number | null> {
-  const campaignsResponse = await client.get<DdbCampaign[]>(
-    ENDPOINTS.campaign.list(),
-    "campaigns",
-    300_000
-  );
-
-  // Fetch characters from each campaign using the new endpoint
-  const allCharacters: Array<{ id: number; name: string }> = [];
-  for (const campaign of campaignsResponse) {
-    const characters = await client.get<DdbCampaignCharacter2[]>(
-      ENDPOINTS.campaign.characters(campaign.id),
-      `campaign:${campaign.id}:characters`,
-      300_000
-    );
-    allCharacters.push(...characters.map((char) => ({
-      id: char.id,
-      name: char.name,
-    })));
-  }
-
-  // 1. Exact match (case-insensitive)
-  const exactMatch = allCharacters.find(
-    (char) => char.name.toLowerCase() === name.toLowerCase()
-  );
-  if (exactMatch) return exactMatch.id;
-
-  // 2. Substring match (case-insensitive)
-  const lowerName = name.toLowerCase();
-  const substringMatches = allCharacters.filter(
-    (char) => char.name.toLowerCase().includes(lowerName)
-  );
-  if (substringMatches.length === 1) return substringMatches[0].id;
-
-  // 3. Fuzzy match via Levenshtein distance — check full names and individual words
-  const fuzzyResults: Array<{ id: number; name: string }> = [];
-  for (const char of allCharacters) {
-    const fullDistance = levenshteinDistance(lowerName, char.name.toLowerCase());
-    if (fullDistance <= 3) {
-      fuzzyResults.push(char);
-      continue;
-    }
-    // Check individual words (e.g., "Throin" matches "Thorin" in "Thorin Ironforge")
-    const words = char.name.split(/\s+/);
-    for (const word of words) {
-      if (levenshteinDistance(lowerName, word.toLowerCase()) <= 3) {
-        fuzzyResults.push(char);
-        break;
-      }
-    }
-  }
-  if (fuzzyResults.length === 1) return fuzzyResults[0].id;
-
-  return null;
-}
-
 export async function getCharacter(
   client: DdbClient,
-  params: GetCharacterParams
-): Promise<{ content: Array<{ type: "text"; text: string }> }> {
+  params: GetCharacterParams,
+  snapshots?: SnapshotStore | null
+): Promise<ToolResult & { structuredContent?: CharacterSheetData; isError?: boolean }> {
   const idOrError = await resolveCharacterId(client, params);
   if (typeof idOrError === "string") {
-    return { content: [{ type: "text", text: idOrError }] };
+    return { content: [{ type: "text", text: idOrError }], isError: true };
   }
 
   const character = await client.get<DdbCharacter>(
@@ -988,6 +1003,8 @@ export async function getCharacter(
     `character:${idOrError}`,
     60_000
   );
+  // Best effort: a failed snapshot write never blocks the read
+  await snapshots?.save(character).catch(() => null);
 
   const detail = params.detail ?? "sheet";
   let text: string;
@@ -1004,34 +1021,15 @@ export async function getCharacter(
       break;
   }
 
-  return { content: [{ type: "text", text }] };
+  return { content: [{ type: "text", text }], structuredContent: characterSheetData(character) };
 }
 
 export async function listCharacters(
   client: DdbClient
 ): Promise<{ content: Array<{ type: "text"; text: string }> }> {
-  const campaignsResponse = await client.get<DdbCampaign[]>(
-    ENDPOINTS.campaign.list(),
-    "campaigns",
-    300_000
-  );
+  const roster = await loadCharacterRoster(client);
 
-  // Fetch characters from each campaign using the characters endpoint
-  const allCharacters: Array<{ id: number; name: string; campaignName: string }> = [];
-  for (const campaign of campaignsResponse) {
-    const characters = await client.get<DdbCampaignCharacter2[]>(
-      ENDPOINTS.campaign.characters(campaign.id),
-      `campaign:${campaign.id}:characters`,
-      300_000
-    );
-    allCharacters.push(...characters.map((char) => ({
-      id: char.id,
-      name: char.name,
-      campaignName: campaign.name,
-    })));
-  }
-
-  if (allCharacters.length === 0) {
+  if (roster.length === 0) {
     return {
       content: [
         {
@@ -1042,28 +1040,18 @@ export async function listCharacters(
     };
   }
 
-  const characterDetails = await Promise.all(
-    allCharacters.map(async (char) => {
+  const lines = await Promise.all(
+    roster.map(async (char) => {
       const details = await client.get<DdbCharacter>(
         ENDPOINTS.character.get(char.id),
         `character:${char.id}`,
         60_000
       );
-      return {
-        name: details.name,
-        race: details.race.fullName,
-        classes: formatClasses(details),
-        level: computeLevel(details),
-        campaign: char.campaignName,
-      };
+      const race = details.race.fullName;
+      return `ID: ${char.id} | ${details.name} - ${race} ${formatClasses(details)} (Level ${computeLevel(details)}) - ${formatMembership(char)}`;
     })
   );
 
-  const lines = characterDetails.map(
-    (char) =>
-      `${char.name} - ${char.race} ${char.classes} (Level ${char.level}) - ${char.campaign}`
-  );
-
   return {
     content: [
       {
@@ -1119,15 +1107,109 @@ class StringUtils {
 // WRITE OPERATIONS
 // ============================================================================
 
+/** Fresh-enough sheet for computing the "before" side of a dry run. */
+export function loadCharacter(client: DdbClient, characterId: number): Promise<DdbCharacter> {
+  return client.get<DdbCharacter>(
+    ENDPOINTS.character.get(characterId),
+    `character:${characterId}`,
+    60_000
+  );
+}
+
+function formatConditionList(conditions: Array<{ id: number; level: number | null }>): string {
+  return conditions
+    .map((c) => {
+      const name = CONDITION_NAMES[c.id] ?? `Condition ${c.id}`;
+      return c.level ? `${name} ${c.level}` : name;
+    })
+    .join(", ");
+}
+
+/** Puts a condition back the way the sheet had it: re-applied at its old level, or removed. */
+function restoreConditionRequest(char: DdbCharacter, conditionId: number): WriteRequest {
+  const prior = char.conditions?.find((c) => c.id === conditionId);
+  if (!prior) {
+    return {
+      method: "DELETE",
+      url: ENDPOINTS.character.condition(),
+      body: { characterId: char.id, id: conditionId },
+    };
+  }
+  return {
+    method: "PUT",
+    url: ENDPOINTS.character.condition(),
+    body: { characterId: char.id, id: conditionId, level: prior.level ?? null, totalHp: calculateMaxHp(char) },
+  };
+}
+
+/** What a rest would reset, as read from the current sheet. */
+function restChanges(char: DdbCharacter, rest: "long" | "short"): FieldChange[] {
+  const changes: FieldChange[] = [];
+  if (rest === "long") {
+    const maxHp = calculateMaxHp(char);
+    changes.push({ field: "HP", before: `${calculateCurrentHp(char)}/${maxHp}`, after: `${maxHp}/${maxHp}` });
+    for (const slot of char.spellSlots ?? []) {
+      if (slot.available > 0 && slot.used > 0) {
+        changes.push({ field: `Level ${slot.level} slots used`, before: slot.used, after: 0 });
+      }
+    }
+    const saves = char.deathSaves;
+    if (saves && ((saves.failCount ?? 0) > 0 || (saves.successCount ?? 0) > 0)) {
+      changes.push({
+        field: "Death saves",
+        before: `${saves.successCount ?? 0} successes, ${saves.failCount ?? 0} failures`,
+        after: "0 successes, 0 failures",
+      });
+    }
+  }
+
+  if (char.pactMagic && char.pactMagic.used > 0) {
+    changes.push({ field: "Pact slots used", before: char.pactMagic.used, after: 0 });
+  }
+
+  for (const list of Object.values(char.actions ?? {})) {
+    if (!Array.isArray(list)) continue;
+    for (const action of list) {
+      const use = action.limitedUse;
+      if (!use || use.numberUsed === 0) continue;
+      // Long rests also restore everything that recharges on a short rest
+      if (rest === "short" && use.resetType !== 2) continue;
+      changes.push({ field: `${action.name} uses`, before: use.numberUsed, after: 0 });
+    }
+  }
+  return changes;
+}
+
+/**
+ * Fills in a builder choice plan from the sheet: the choice's current option,
+ * and a request that puts it back. Returns the dry-run summary.
+ */
+async function describeChoice(
+  client: DdbClient,
+  plan: WritePlan,
+  category: "background" | "class" | "race" | "feat",
+  choiceKey: string,
+  choiceValue: number
+): Promise<string> {
+  const character = await loadCharacter(client, plan.characterId!);
+  const choice = character.choices?.[category]?.find((c) => c.id === choiceKey);
+  const before: number | null = choice?.optionValue ?? null;
+  plan.changes.push({ field: `${category} choice ${choice?.label ?? choiceKey}`, before, after: choiceValue });
+  plan.undo = plan.requests.map((r) => ({ ...r, body: { ...r.body, choiceValue: before } }));
+  return `Set ${category} choice ${choice?.label ?? choiceKey} on ${character.name}`;
+}
+
 interface UpdateHpParams {
   characterId: number;
   hpChange: number;
   tempHp?: number;
+  dryRun?: boolean;
 }
 
 export async function updateHp(
   client: DdbClient,
-  params: UpdateHpParams
+  params: UpdateHpParams,
+  journal?: MutationJournal | null
 ): Promise<{ content: Array<{ type: "text"; text: string }> }> {
   const character = await client.get<DdbCharacter>(
     ENDPOINTS.character.get(params.characterId),
@@ -1135,10 +1217,11 @@ export async function updateHp(
     60_000
   );
 
+  const maxHp = calculateMaxHp(character);
   const newRemovedHp = Math.max(
     0,
     Math.min(
-      calculateMaxHp(character),
+      maxHp,
       character.removedHitPoints - params.hpChange
     )
   );
@@ -1152,17 +1235,30 @@ export async function updateHp(
     putBody.temporaryHitPoints = params.tempHp;
   }
 
-  await client.put(
-    ENDPOINTS.character.updateHp(),
-    putBody,
-    [`character:${params.characterId}`]
-  );
-
   const action = params.hpChange > 0 ? "Healed" : "Damaged";
   const amount = Math.abs(params.hpChange);
-  const newCurrent = calculateMaxHp(character) - newRemovedHp;
+  const newCurrent = maxHp - newRemovedHp;
+  const plan: WritePlan = {
+    characterId: params.characterId,
+    requests: [{ method: "PUT", url: ENDPOINTS.character.updateHp(), body: putBody }],
+    changes: [{ field: "HP", before: `${calculateCurrentHp(character)}/${maxHp}`, after: `${newCurrent}/${maxHp}` }],
+  };
+  const undoBody: Record<string, unknown> = {
+    characterId: params.characterId,
+    removedHitPoints: character.removedHitPoints,
+  };
+  if (params.tempHp !== undefined) {
+    plan.changes.push({ field: "Temporary HP", before: character.temporaryHitPoints ?? 0, after: params.tempHp });
+    undoBody.temporaryHitPoints = character.temporaryHitPoints ?? 0;
+  }
+  plan.undo = [{ method: "PUT", url: ENDPOINTS.character.updateHp(), body: undoBody }];
+
+  if (params.dryRun) {
+    return dryRunResult(`${params.hpChange > 0 ? "Heal" : "Damage"} ${character.name} for ${amount} HP`, plan);
+  }
+  await executePlan(client, plan, journal);
 
-  let text = `${action} ${character.name} for ${amount} HP. Current HP: ${newCurrent}/${calculateMaxHp(character)}`;
+  let text = `${action} ${character.name} for ${amount} HP. Current HP: ${newCurrent}/${maxHp}`;
   if (params.tempHp !== undefined) {
     text += ` (${params.tempHp} temp HP)`;
   }
@@ -1180,18 +1276,34 @@ export async function updateHp(
 interface SetInspirationParams {
   characterId: number;
   inspiration: boolean;
+  dryRun?: boolean;
 }
 
 export async function setInspiration(
   client: DdbClient,
-  params: SetInspirationParams
+  params: SetInspirationParams,
+  journal?: MutationJournal | null
 ): Promise<ToolResult> {
-  await client.put(
-    ENDPOINTS.character.setInspiration(),
-    { characterId: params.characterId, inspiration: params.inspiration },
-    [`character:${params.characterId}`]
-  );
+  const request: WriteRequest = {
+    method: "PUT",
+    url: ENDPOINTS.character.setInspiration(),
+    body: { characterId: params.characterId, inspiration: params.inspiration },
+  };
   const state = params.inspiration ? "granted" : "removed";
+
+  const plan: WritePlan = { characterId: params.characterId, requests: [request], changes: [] };
+  if (params.dryRun || journal) {
+    const character = await loadCharacter(client, params.characterId);
+    plan.changes.push({ field: "Inspiration", before: Boolean(character.inspiration), after: params.inspiration });
+    plan.undo = [{
+      ...request,
+      body: { characterId: params.characterId, inspiration: Boolean(character.inspiration) },
+    }];
+    if (params.dryRun) {
+      return dryRunResult(`${params.inspiration ? "Grant" : "Remove"} inspiration for ${character.name}`, plan);
+    }
+  }
+  await executePlan(client, plan, journal);
   return { content: [{ type: "text", text: `Inspiration ${state} for character ${params.characterId}.` }] };
 }
 
@@ -1199,9 +1311,10 @@ interface AddConditionParams {
   characterId: number;
   conditionId: number;
   level?: number | null;
+  dryRun?: boolean;
 }
 
-const CONDITION_NAMES: Record<number, string> = {
+export const CONDITION_NAMES: Record<number, string> = {
   1: "Blinded", 2: "Charmed", 3: "Deafened", 4: "Frightened",
   5: "Grappled", 6: "Incapacitated", 7: "Invisible", 8: "Paralyzed",
   9: "Petrified", 10: "Poisoned", 11: "Prone", 12: "Restrained",
@@ -1210,7 +1323,8 @@ const CONDITION_NAMES: Record<number, string> = {
 
 export async function addCondition(
   client: DdbClient,
-  params: AddConditionParams
+  params: AddConditionParams,
+  journal?: MutationJournal | null
 ): Promise<ToolResult> {
   const character = await client.get<DdbCharacter>(
     ENDPOINTS.character.get(params.characterId),
@@ -1219,38 +1333,69 @@ export async function addCondition(
   );
   const maxHp = calculateMaxHp(character);
 
-  await client.put(
-    ENDPOINTS.character.condition(),
-    {
+  const name = CONDITION_NAMES[params.conditionId] ?? `Condition ${params.conditionId}`;
+  const levelText = params.level ? ` (level ${params.level})` : "";
+  const request: WriteRequest = {
+    method: "PUT",
+    url: ENDPOINTS.character.condition(),
+    body: {
       characterId: params.characterId,
       id: params.conditionId,
       level: params.level ?? null,
       totalHp: maxHp,
     },
-    [`character:${params.characterId}`]
-  );
+  };
+
+  const others = (character.conditions ?? []).filter((c) => c.id !== params.conditionId);
+  const plan: WritePlan = {
+    characterId: params.characterId,
+    requests: [request],
+    changes: [{
+      field: "Conditions",
+      before: formatConditionList(character.conditions ?? []),
+      after: formatConditionList([...others, { id: params.conditionId, level: params.level ?? null }]),
+    }],
+    undo: [restoreConditionRequest(character, params.conditionId)],
+  };
+
+  if (params.dryRun) return dryRunResult(`Add ${name}${levelText} to ${character.name}`, plan);
+  await executePlan(client, plan, journal);
 
-  const name = CONDITION_NAMES[params.conditionId] ?? `Condition ${params.conditionId}`;
-  const levelText = params.level ? ` (level ${params.level})` : "";
   return { content: [{ type: "text", text: `Added ${name}${levelText} to character ${params.characterId}.` }] };
 }
 
 interface RemoveConditionParams {
   characterId: number;
   conditionId: number;
+  dryRun?: boolean;
 }
 
 export async function removeCondition(
   client: DdbClient,
-  params: RemoveConditionParams
+  params: RemoveConditionParams,
+  journal?: MutationJournal | null
 ): Promise<ToolResult> {
-  await client.delete(
-    ENDPOINTS.character.condition(),
-    { characterId: params.characterId, id: params.conditionId },
-    [`character:${params.characterId}`]
-  );
-
+  const request: WriteRequest = {
+    method: "DELETE",
+    url: ENDPOINTS.character.condition(),
+    body: { characterId: params.characterId, id: params.conditionId },
+  };
   const name = CONDITION_NAMES[params.conditionId] ?? `Condition ${params.conditionId}`;
+
+  const plan: WritePlan = { characterId: params.characterId, requests: [request], changes: [] };
+  if (params.dryRun || journal) {
+    const character = await loadCharacter(client, params.characterId);
+    const conditions = character.conditions ?? [];
+    plan.changes.push({
+      field: "Conditions",
+      before: formatConditionList(conditions),
+      after: formatConditionList(conditions.filter((c) => c.id !== params.conditionId)),
+    });
+    plan.undo = [restoreConditionRequest(character, params.conditionId)];
+    if (params.dryRun) return dryRunResult(`Remove ${name} from ${character.name}`, plan);
+  }
+  await executePlan(client, plan, journal);
+
   return { content: [{ type: "text", text: `Removed ${name} from character ${params.characterId}.` }] };
 }
 
@@ -1258,11 +1403,13 @@ interface UpdateSpellSlotsParams {
   characterId: number;
   level: number;
   used: number;
+  dryRun?: boolean;
 }
 
 export async function updateSpellSlots(
   client: DdbClient,
-  params: UpdateSpellSlotsParams
+  params: UpdateSpellSlotsParams,
+  journal?: MutationJournal | null
 ): Promise<{ content: Array<{ type: "text"; text: string }> }> {
   if (params.level < 1 || params.level > 9) {
     return {
@@ -1286,45 +1433,51 @@ export async function updateSpellSlots(
     };
   }
 
-  try {
-    await client.put(
-      ENDPOINTS.character.updateSpellSlots(params.characterId),
-      { level: params.level, used: params.used },
-      [`character:${params.characterId}`]
-    );
+  const request: WriteRequest = {
+    method: "PUT",
+    url: ENDPOINTS.character.updateSpellSlots(),
+    body: { characterId: params.characterId, level: params.level, used: params.used },
+  };
 
-    return {
-      content: [
-        {
-          type: "text",
-          text: `Updated level ${params.level} spell slots to ${params.used} used.`,
-        },
-      ],
-    };
-  } catch (error) {
-    if (error instanceof HttpError && error.statusCode === 404) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: `⚠️  Spell slot updates are temporarily unavailable.\n\nD&D Beyond has deprecated the v5 character write API endpoints. This feature cannot be used until D&D Beyond provides replacement endpoints.\n\nCharacter ID: ${params.characterId}\nRead operations still work normally.`,
-          },
-        ],
-      };
+  const plan: WritePlan = { characterId: params.characterId, requests: [request], changes: [] };
+  if (params.dryRun || journal) {
+    const character = await loadCharacter(client, params.characterId);
+    const slot = character.spellSlots?.find((s) => s.level === params.level);
+    plan.changes.push({
+      field: `Level ${params.level} slots used`,
+      before: slot ? `${slot.used}/${slot.available}` : null,
+      after: slot ? `${params.used}/${slot.available}` : params.used,
+    });
+    if (slot) {
+      plan.undo = [{ ...request, body: { characterId: params.characterId, level: params.level, used: slot.used } }];
+    }
+    if (params.dryRun) {
+      return dryRunResult(`Set level ${params.level} spell slots on ${character.name} to ${params.used} used`, plan);
     }
-    throw error;
   }
+  await executePlan(client, plan, journal);
+
+  return {
+    content: [
+      {
+        type: "text",
+        text: `Updated level ${params.level} spell slots to ${params.used} used.`,
+      },
+    ],
+  };
 }
 
 interface UpdateDeathSavesParams {
   characterId: number;
   type: "success" | "failure";
   count: number;
+  dryRun?: boolean;
 }
 
 export async function updateDeathSaves(
   client: DdbClient,
-  params: UpdateDeathSavesParams
+  params: UpdateDeathSavesParams,
+  journal?: MutationJournal | null
 ): Promise<{ content: Array<{ type: "text"; text: string }> }> {
   if (!["success", "failure"].includes(params.type)) {
     return {
@@ -1350,49 +1503,61 @@ export async function updateDeathSaves(
 
   const body =
     params.type === "success"
-      ? { successCount: params.count }
-      : { failCount: params.count };
-
-  try {
-    await client.put(
-      ENDPOINTS.character.updateDeathSaves(params.characterId),
-      body,
-      [`character:${params.characterId}`]
-    );
-
-    return {
-      content: [
-        {
-          type: "text",
-          text: `Updated death saves: ${params.count} ${params.type}${params.count === 1 ? StringUtils.EMPTY : "es"}.`,
-        },
-      ],
-    };
-  } catch (error) {
-    if (error instanceof HttpError && error.statusCode === 404) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: `⚠️  Death save updates are temporarily unavailable.\n\nD&D Beyond has deprecated the v5 character write API endpoints. This feature cannot be used until D&D Beyond provides replacement endpoints.\n\nCharacter ID: ${params.characterId}\nRead operations still work normally.`,
-          },
-        ],
-      };
+      ? { characterId: params.characterId, successCount: params.count }
+      : { characterId: params.characterId, failCount: params.count };
+  const request: WriteRequest = { method: "PUT", url: ENDPOINTS.character.updateDeathSaves(), body };
+
+  const plan: WritePlan = { characterId: params.characterId, requests: [request], changes: [] };
+  if (params.dryRun || journal) {
+    const character = await loadCharacter(client, params.characterId);
+    const before = params.type === "success"
+      ? character.deathSaves?.successCount
+      : character.deathSaves?.failCount;
+    plan.changes.push({
+      field: params.type === "success" ? "Death save successes" : "Death save failures",
+      before: before ?? 0,
+      after: params.count,
+    });
+    if (params.dryRun) {
+      return dryRunResult(
+        `Set ${character.name}'s death save ${params.type === "success" ? "successes" : "failures"} to ${params.count}`,
+        plan
+      );
     }
-    throw error;
   }
+  await executePlan(client, plan, journal);
+
+  return {
+    content: [
+      {
+        type: "text",
+        text: `Updated death saves: ${params.count} ${params.type}${params.count === 1 ? StringUtils.EMPTY : "es"}.`,
+      },
+    ],
+  };
 }
 
+// Each coin has its own body-addressed endpoint, e.g. inventory/currency/gold
+const CURRENCY_ENDPOINT_NAMES: Record<UpdateCurrencyParams["currency"], string> = {
+  cp: "copper",
+  sp: "silver",
+  ep: "electrum",
+  gp: "gold",
+  pp: "platinum",
+};
+
 interface UpdateCurrencyParams {
   characterId: number;
   currency: "cp" | "sp" | "ep" | "gp" | "pp";
   amount?: number;
   delta?: number;
+  dryRun?: boolean;
 }
 
 export async function updateCurrency(
   client: DdbClient,
-  params: UpdateCurrencyParams
+  params: UpdateCurrencyParams,
+  journal?: MutationJournal | null
 ): Promise<{ content: Array<{ type: "text"; text: string }> }> {
   const validCurrencies = ["cp", "sp", "ep", "gp", "pp"];
   if (!validCurrencies.includes(params.currency)) {
@@ -1414,10 +1579,11 @@ export async function updateCurrency(
 
   let finalAmount: number;
   let description: string;
+  let character: DdbCharacter | null = null;
 
   if (params.delta !== undefined) {
     // Delta mode: fetch current currency and add/subtract
-    const character = await client.get<DdbCharacter>(
+    character = await client.get<DdbCharacter>(
       ENDPOINTS.character.get(params.characterId),
       `character:${params.characterId}`,
       60_000
@@ -1435,53 +1601,56 @@ export async function updateCurrency(
     description = `Set ${params.currency.toUpperCase()} to ${finalAmount}`;
   }
 
-  try {
-    await client.put(
-      ENDPOINTS.character.updateCurrency(params.characterId),
-      { [params.currency]: finalAmount },
-      [`character:${params.characterId}`]
-    );
+  const request: WriteRequest = {
+    method: "PUT",
+    url: ENDPOINTS.character.inventory.setCurrency(CURRENCY_ENDPOINT_NAMES[params.currency]),
+    body: { characterId: params.characterId, amount: finalAmount },
+  };
 
-    return {
-      content: [{ type: "text", text: `${description}.` }],
-    };
-  } catch (error) {
-    if (error instanceof HttpError && error.statusCode === 404) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: `⚠️  Currency updates are temporarily unavailable.\n\nD&D Beyond has deprecated the v5 character write API endpoints. This feature cannot be used until D&D Beyond provides replacement endpoints.\n\nCharacter ID: ${params.characterId}\nRead operations still work normally.`,
-          },
-        ],
-      };
+  const plan: WritePlan = { characterId: params.characterId, requests: [request], changes: [] };
+  if (params.dryRun || journal) {
+    character ??= await loadCharacter(client, params.characterId);
+    const before = character.currencies?.[params.currency] ?? 0;
+    plan.changes.push({ field: params.currency.toUpperCase(), before, after: finalAmount });
+    plan.undo = [{ ...request, body: { characterId: params.characterId, amount: before } }];
+    if (params.dryRun) {
+      return dryRunResult(`Set ${character.name}'s ${params.currency.toUpperCase()} to ${finalAmount}`, plan);
     }
-    throw error;
   }
+  await executePlan(client, plan, journal);
+
+  return {
+    content: [{ type: "text", text: `${description}.` }],
+  };
 }
 
 interface UpdatePactMagicParams {
   characterId: number;
   used: number;
+  dryRun?: boolean;
 }
 
 interface LongRestParams {
   characterId: number;
+  dryRun?: boolean;
 }
 
 interface ShortRestParams {
   characterId: number;
+  dryRun?: boolean;
 }
 
 interface UseAbilityParams {
   characterId: number;
   abilityName: string;
   uses?: number;
+  dryRun?: boolean;
 }
 
 export async function updatePactMagic(
   client: DdbClient,
-  params: UpdatePactMagicParams
+  params: UpdatePactMagicParams,
+  journal?: MutationJournal | null
 ): Promise<{ content: Array<{ type: "text"; text: string }> }> {
   if (params.used < 0) {
     return {
@@ -1494,48 +1663,57 @@ export async function updatePactMagic(
     };
   }
 
-  try {
-    await client.put(
-      ENDPOINTS.character.updatePactMagic(params.characterId),
-      { used: params.used },
-      [`character:${params.characterId}`]
-    );
+  const request: WriteRequest = {
+    method: "PUT",
+    url: ENDPOINTS.character.updatePactMagic(),
+    body: { characterId: params.characterId, used: params.used },
+  };
 
-    return {
-      content: [
-        {
-          type: "text",
-          text: `Updated pact magic slots to ${params.used} used.`,
-        },
-      ],
-    };
-  } catch (error) {
-    if (error instanceof HttpError && error.statusCode === 404) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: `⚠️  Pact magic updates are temporarily unavailable.\n\nD&D Beyond has deprecated the v5 character write API endpoints. This feature cannot be used until D&D Beyond provides replacement endpoints.\n\nCharacter ID: ${params.characterId}\nRead operations still work normally.`,
-          },
-        ],
-      };
-    }
-    throw error;
+  const plan: WritePlan = { characterId: params.characterId, requests: [request], changes: [] };
+  if (params.dryRun || journal) {
+    const character = await loadCharacter(client, params.characterId);
+    const pact = character.pactMagic;
+    plan.changes.push({
+      field: "Pact slots used",
+      before: pact ? `${pact.used}/${pact.available}` : null,
+      after: pact ? `${params.used}/${pact.available}` : params.used,
+    });
+    if (pact) plan.undo = [{ ...request, body: { characterId: params.characterId, used: pact.used } }];
+    if (params.dryRun) return dryRunResult(`Set ${character.name}'s pact magic slots to ${params.used} used`, plan);
   }
+  await executePlan(client, plan, journal);
+
+  return {
+    content: [
+      {
+        type: "text",
+        text: `Updated pact magic slots to ${params.used} used.`,
+      },
+    ],
+  };
 }
 
 export async function longRest(
   client: DdbClient,
-  params: LongRestParams
+  params: LongRestParams,
+  journal?: MutationJournal | null
 ): Promise<{ content: Array<{ type: "text"; text: string }> }> {
   // Server-side long rest handles all resets atomically:
   // HP, spell slots, pact magic, limited-use abilities, hit dice, death saves
-  await client.get<unknown>(
-    ENDPOINTS.character.rest.long(params.characterId),
-    `rest:long:${params.characterId}:${Date.now()}`,
-    0
-  );
-  client.invalidateCache(`character:${params.characterId}`);
+  const request: WriteRequest = { method: "GET", url: ENDPOINTS.character.rest.long(params.characterId) };
+
+  const plan: WritePlan = { characterId: params.characterId, requests: [request], changes: [] };
+  if (params.dryRun || journal) {
+    const character = await loadCharacter(client, params.characterId);
+    plan.changes = restChanges(character, "long");
+    if (params.dryRun) {
+      return dryRunResult(`Take a long rest for ${character.name}`, {
+        ...plan,
+        notes: ["D&D Beyond applies the rest server-side; hit dice recovery follows its rules."],
+      });
+    }
+  }
+  await executePlan(client, plan, journal);
 
   return {
     content: [
@@ -1549,15 +1727,24 @@ export async function longRest(
 
 export async function shortRest(
   client: DdbClient,
-  params: ShortRestParams
+  params: ShortRestParams,
+  journal?: MutationJournal | null
 ): Promise<{ content: Array<{ type: "text"; text: string }> }> {
   // Server-side short rest handles pact magic, short-rest abilities, hit dice
-  await client.get<unknown>(
-    ENDPOINTS.character.rest.short(params.characterId),
-    `rest:short:${params.characterId}:${Date.now()}`,
-    0
-  );
-  client.invalidateCache(`character:${params.characterId}`);
+  const request: WriteRequest = { method: "GET", url: ENDPOINTS.character.rest.short(params.characterId) };
+
+  const plan: WritePlan = { characterId: params.characterId, requests: [request], changes: [] };
+  if (params.dryRun || journal) {
+    const character = await loadCharacter(client, params.characterId);
+    plan.changes = restChanges(character, "short");
+    if (params.dryRun) {
+      return dryRunResult(`Take a short rest for ${character.name}`, {
+        ...plan,
+        notes: ["Spending hit dice to heal is not part of the rest request."],
+      });
+    }
+  }
+  await executePlan(client, plan, journal);
 
   return {
     content: [
@@ -1573,11 +1760,13 @@ interface CastSpellParams {
   characterId: number;
   spellName: string;
   level?: number;
+  dryRun?: boolean;
 }
 
 export async function castSpell(
   client: DdbClient,
-  params: CastSpellParams
+  params: CastSpellParams,
+  journal?: MutationJournal | null
 ): Promise<{ content: Array<{ type: "text"; text: string }> }> {
   if (!params.spellName || params.spellName.trim() === StringUtils.EMPTY) {
     return {
@@ -1585,123 +1774,125 @@ export async function castSpell(
     };
   }
 
-  try {
-    const character = await client.get<DdbCharacter>(
-      ENDPOINTS.character.get(params.characterId),
-      `character:${params.characterId}`,
-      60_000
-    );
-
-    // Find the spell in character's spell lists
-    const allSpells = getAllSpells(character);
-    const spellNameLower = params.spellName.toLowerCase();
-    const spell = allSpells.find(
-      (s) => s.definition.name.toLowerCase() === spellNameLower
-    );
-
-    if (!spell) {
-      // Try fuzzy match
-      const spellNames = allSpells.map(s => s.definition.name);
-      const matches = fuzzyMatch(params.spellName, spellNames, 3);
-      if (matches.length > 0) {
-        return {
-          content: [{
-            type: "text",
-            text: `Spell "${params.spellName}" not found. Did you mean: ${matches.join(", ")}?`,
-          }],
-        };
-      }
-      return {
-        content: [{ type: "text", text: `Spell "${params.spellName}" not found on this character.` }],
-      };
-    }
-
-    const spellLevel = params.level ?? spell.definition.level;
+  const character = await client.get<DdbCharacter>(
+    ENDPOINTS.character.get(params.characterId),
+    `character:${params.characterId}`,
+    60_000
+  );
 
-    // Cantrips don't use spell slots
-    if (spellLevel === 0) {
-      return {
-        content: [{ type: "text", text: `Cast ${spell.definition.name} (cantrip) — no spell slot required.` }],
-      };
-    }
+  // Find the spell in character's spell lists
+  const allSpells = getAllSpells(character);
+  const spellNameLower = params.spellName.toLowerCase();
+  const spell = allSpells.find(
+    (s) => s.definition.name.toLowerCase() === spellNameLower
+  );
 
-    // Determine if warlock using pact magic
-    const isWarlock = character.classes.some(cls => cls.definition.name === "Warlock");
-    const hasPactMagic = character.pactMagic && character.pactMagic.available > 0;
-
-    if (isWarlock && hasPactMagic && spellLevel <= character.pactMagic!.level) {
-      // Use pact magic slot
-      const newUsed = character.pactMagic!.used + 1;
-      if (newUsed > character.pactMagic!.available) {
-        return {
-          content: [{ type: "text", text: `No pact magic slots remaining (${character.pactMagic!.used}/${character.pactMagic!.available} used).` }],
-        };
-      }
-      await client.put(
-        ENDPOINTS.character.updatePactMagic(params.characterId),
-        { used: newUsed },
-        [`character:${params.characterId}`]
-      );
+  if (!spell) {
+    // Try fuzzy match
+    const spellNames = allSpells.map(s => s.definition.name);
+    const matches = fuzzyMatch(params.spellName, spellNames, 3);
+    if (matches.length > 0) {
       return {
         content: [{
           type: "text",
-          text: `Cast ${spell.definition.name} using pact magic (level ${character.pactMagic!.level}). Pact slots: ${newUsed}/${character.pactMagic!.available} used.`,
+          text: `Spell "${params.spellName}" not found. Did you mean: ${matches.join(", ")}?`,
         }],
       };
     }
+    return {
+      content: [{ type: "text", text: `Spell "${params.spellName}" not found on this character.` }],
+    };
+  }
 
-    // Use regular spell slot
-    const slotData = character.spellSlots?.find(s => s.level === spellLevel);
-    if (slotData) {
-      const newUsed = slotData.used + 1;
-      if (newUsed > slotData.available) {
-        return {
-          content: [{ type: "text", text: `No level ${spellLevel} spell slots remaining (${slotData.used}/${slotData.available} used).` }],
-        };
-      }
-      await client.put(
-        ENDPOINTS.character.updateSpellSlots(params.characterId),
-        { level: spellLevel, used: newUsed },
-        [`character:${params.characterId}`]
-      );
-      return {
-        content: [{
-          type: "text",
-          text: `Cast ${spell.definition.name} at level ${spellLevel}. Level ${spellLevel} slots: ${newUsed}/${slotData.available} used.`,
-        }],
-      };
-    }
+  // Cantrips don't use spell slots
+  if (spell.definition.level === 0) {
+    return {
+      content: [{ type: "text", text: `Cast ${spell.definition.name} (cantrip) — no spell slot required.` }],
+    };
+  }
 
-    // No slot data available — just update the slot count
-    await client.put(
-      ENDPOINTS.character.updateSpellSlots(params.characterId),
-      { level: spellLevel, used: 1 },
-      [`character:${params.characterId}`]
-    );
+  const spellLevel = params.level ?? spell.definition.level;
+  if (spellLevel < spell.definition.level || spellLevel > 9) {
+    return {
+      content: [{ type: "text", text: `${spell.definition.name} is a level ${spell.definition.level} spell; cast it with a slot of level ${spell.definition.level}-9.` }],
+    };
+  }
+
+  // Pact slots are spent first when they can cover the spell; multiclass
+  // warlocks fall back to their regular slots once pact slots run out
+  const pact = character.pactMagic;
+  if (pact && pact.available > 0 && spellLevel <= pact.level && pact.used < pact.available) {
+    const newUsed = pact.used + 1;
+    const request: WriteRequest = {
+      method: "PUT",
+      url: ENDPOINTS.character.updatePactMagic(),
+      body: { characterId: params.characterId, used: newUsed },
+    };
+    const plan: WritePlan = {
+      characterId: params.characterId,
+      requests: [request],
+      changes: [{ field: "Pact slots used", before: `${pact.used}/${pact.available}`, after: `${newUsed}/${pact.available}` }],
+      undo: [{ ...request, body: { characterId: params.characterId, used: pact.used } }],
+    };
+    if (params.dryRun) {
+      return dryRunResult(`Cast ${spell.definition.name} using pact magic (level ${pact.level})`, plan);
+    }
+    await executePlan(client, plan, journal);
     return {
       content: [{
         type: "text",
-        text: `Cast ${spell.definition.name} at level ${spellLevel}. Updated level ${spellLevel} spell slot usage.`,
+        text: `Cast ${spell.definition.name} using pact magic (level ${pact.level}). Pact slots: ${newUsed}/${pact.available} used.`,
       }],
     };
-  } catch (error) {
-    if (error instanceof HttpError && error.statusCode === 404) {
+  }
+
+  const slotData = character.spellSlots?.find(s => s.level === spellLevel && s.available > 0);
+  if (!slotData) {
+    if (pact && pact.available > 0 && spellLevel <= pact.level) {
       return {
-        content: [
-          {
-            type: "text",
-            text: `⚠️  Spell casting operations are temporarily unavailable.\n\nD&D Beyond has deprecated the v5 character write API endpoints. This feature cannot be used until D&D Beyond provides replacement endpoints.\n\nCharacter ID: ${params.characterId}\nRead operations still work normally.`,
-          },
-        ],
+        content: [{ type: "text", text: `No pact magic slots remaining (${pact.used}/${pact.available} used).` }],
       };
     }
-    throw error;
+    return {
+      content: [{ type: "text", text: `${character.name} has no level ${spellLevel} spell slots.` }],
+    };
   }
+
+  const newUsed = slotData.used + 1;
+  if (newUsed > slotData.available) {
+    return {
+      content: [{ type: "text", text: `No level ${spellLevel} spell slots remaining (${slotData.used}/${slotData.available} used).` }],
+    };
+  }
+  const request: WriteRequest = {
+    method: "PUT",
+    url: ENDPOINTS.character.updateSpellSlots(),
+    body: { characterId: params.characterId, level: spellLevel, used: newUsed },
+  };
+  const plan: WritePlan = {
+    characterId: params.characterId,
+    requests: [request],
+    changes: [{
+      field: `Level ${spellLevel} slots used`,
+      before: `${slotData.used}/${slotData.available}`,
+      after: `${newUsed}/${slotData.available}`,
+    }],
+    undo: [{ ...request, body: { characterId: params.characterId, level: spellLevel, used: slotData.used } }],
+  };
+  if (params.dryRun) return dryRunResult(`Cast ${spell.definition.name} at level ${spellLevel}`, plan);
+  await executePlan(client, plan, journal);
+  return {
+    content: [{
+      type: "text",
+      text: `Cast ${spell.definition.name} at level ${spellLevel}. Level ${spellLevel} slots: ${newUsed}/${slotData.available} used.`,
+    }],
+  };
 }
 
 export async function useAbility(
   client: DdbClient,
-  params: UseAbilityParams
+  params: UseAbilityParams,
+  journal?: MutationJournal | null
 ): Promise<{ content: Array<{ type: "text"; text: string }> }> {
   if (!params.abilityName || params.abilityName.trim() === StringUtils.EMPTY) {
     return {
@@ -1784,16 +1975,24 @@ export async function useAbility(
   }
 
   // D&D Beyond expects id and entityTypeId as strings, characterId in the body
-  await client.put(
-    ENDPOINTS.character.updateLimitedUse(),
-    {
+  const request: WriteRequest = {
+    method: "PUT",
+    url: ENDPOINTS.character.updateLimitedUse(),
+    body: {
       characterId: params.characterId,
       id: String(foundAction.id),
       entityTypeId: String(foundAction.entityTypeId),
       uses: newUses,
     },
-    [`character:${params.characterId}`]
-  );
+  };
+  const plan: WritePlan = {
+    characterId: params.characterId,
+    requests: [request],
+    changes: [{ field: `${foundAction.name} uses`, before: `${currentUsed}/${maxUses}`, after: `${newUses}/${maxUses}` }],
+    undo: [{ ...request, body: { ...request.body, uses: currentUsed } }],
+  };
+  if (params.dryRun) return dryRunResult(`Set ${foundAction.name} to ${newUses}/${maxUses} uses expended`, plan);
+  await executePlan(client, plan, journal);
 
   return {
     content: [
@@ -1814,43 +2013,59 @@ interface CreateCharacterParams {
   classId?: number;
   entityRaceId?: number;
   entityRaceTypeId?: number;
+  dryRun?: boolean;
 }
 
 export async function createCharacter(
   client: DdbClient,
-  params: CreateCharacterParams
+  params: CreateCharacterParams,
+  journal?: MutationJournal | null
 ): Promise<ToolResult> {
+  let request: WriteRequest;
   if (params.method === "quick") {
     if (!params.classId || !params.entityRaceId || !params.entityRaceTypeId) {
       return { content: [{ type: "text", text: "Quick build requires classId, entityRaceId, and entityRaceTypeId." }] };
     }
-    const characterId = await client.post<number>(
-      ENDPOINTS.character.builder.quickBuild(),
-      { classId: params.classId, entityRaceId: params.entityRaceId, entityRaceTypeId: params.entityRaceTypeId }
-    );
-    return { content: [{ type: "text", text: `Created character via quick build. Character ID: ${characterId}` }] };
+    request = {
+      method: "POST",
+      url: ENDPOINTS.character.builder.quickBuild(),
+      body: { classId: params.classId, entityRaceId: params.entityRaceId, entityRaceTypeId: params.entityRaceTypeId },
+    };
+  } else {
+    request = { method: "POST", url: ENDPOINTS.character.builder.standardBuild(), body: { showHelpText: false } };
   }
 
-  const characterId = await client.post<number>(
-    ENDPOINTS.character.builder.standardBuild(),
-    { showHelpText: false }
-  );
-  return { content: [{ type: "text", text: `Created character via standard build. Character ID: ${characterId}` }] };
+  const plan: WritePlan = { characterId: null, requests: [request], changes: [] };
+  if (params.dryRun) return dryRunResult(`Create a new character via ${params.method} build`, plan);
+  const [characterId] = await executePlan<number>(client, plan, journal);
+  return { content: [{ type: "text", text: `Created character via ${params.method} build. Character ID: ${characterId}` }] };
 }
 
 interface DeleteCharacterParams {
   characterId: number;
+  dryRun?: boolean;
 }
 
 export async function deleteCharacter(
   client: DdbClient,
-  params: DeleteCharacterParams
+  params: DeleteCharacterParams,
+  journal?: MutationJournal | null
 ): Promise<ToolResult> {
-  await client.delete(
-    ENDPOINTS.character.delete(),
-    { characterId: params.characterId },
-    [`character:${params.characterId}`]
-  );
+  const request: WriteRequest = {
+    method: "DELETE",
+    url: ENDPOINTS.character.delete(),
+    body: { characterId: params.characterId },
+  };
+
+  const plan: WritePlan = { characterId: params.characterId, requests: [request], changes: [] };
+  if (params.dryRun || journal) {
+    const character = await loadCharacter(client, params.characterId);
+    const level = computeLevel(character);
+    plan.changes = [{ field: "Character", before: `${character.name} (level ${level})`, after: "deleted" }];
+    const campaign = character.campaign ? `in the campaign "${character.campaign.name}"` : "not in a campaign";
+    if (params.dryRun) return dryRunResult(`Permanently delete ${character.name} (level ${level}, ${campaign})`, plan);
+  }
+  await executePlan(client, plan, journal);
   return { content: [{ type: "text", text: `Deleted character ${params.characterId}.` }] };
 }
 
@@ -1858,34 +2073,59 @@ interface AddClassParams {
   characterId: number;
   classId: number;
   level: number;
+  dryRun?: boolean;
 }
 
 export async function addClass(
   client: DdbClient,
-  params: AddClassParams
+  params: AddClassParams,
+  journal?: MutationJournal | null
 ): Promise<ToolResult> {
-  await client.post(
-    ENDPOINTS.character.addClass(),
-    { characterId: params.characterId, classId: params.classId, level: params.level },
-    [`character:${params.characterId}`]
-  );
+  const request: WriteRequest = {
+    method: "POST",
+    url: ENDPOINTS.character.addClass(),
+    body: { characterId: params.characterId, classId: params.classId, level: params.level },
+  };
+
+  const plan: WritePlan = { characterId: params.characterId, requests: [request], changes: [] };
+  if (params.dryRun || journal) {
+    const character = await loadCharacter(client, params.characterId);
+    const classes = formatClasses(character);
+    plan.changes = [{ field: "Classes", before: classes, after: `${classes} + class ${params.classId} ${params.level}` }];
+    if (params.dryRun) return dryRunResult(`Add class ${params.classId} at level ${params.level} to ${character.name}`, plan);
+  }
+  await executePlan(client, plan, journal);
   return { content: [{ type: "text", text: `Added class ${params.classId} at level ${params.level} to character ${params.characterId}.` }] };
 }
 
 interface SetBackgroundParams {
   characterId: number;
   backgroundId: number;
+  dryRun?: boolean;
 }
 
 export async function setBackground(
   client: DdbClient,
-  params: SetBackgroundParams
+  params: SetBackgroundParams,
+  journal?: MutationJournal | null
 ): Promise<ToolResult> {
-  await client.put(
-    ENDPOINTS.character.setBackground(),
-    { characterId: params.characterId, backgroundId: params.backgroundId },
-    [`character:${params.characterId}`]
-  );
+  const request: WriteRequest = {
+    method: "PUT",
+    url: ENDPOINTS.character.setBackground(),
+    body: { characterId: params.characterId, backgroundId: params.backgroundId },
+  };
+
+  const plan: WritePlan = { characterId: params.characterId, requests: [request], changes: [] };
+  if (params.dryRun || journal) {
+    const character = await loadCharacter(client, params.characterId);
+    plan.changes = [{
+      field: "Background",
+      before: character.background?.definition?.name ?? null,
+      after: `background ${params.backgroundId}`,
+    }];
+    if (params.dryRun) return dryRunResult(`Set ${character.name}'s background to ${params.backgroundId}`, plan);
+  }
+  await executePlan(client, plan, journal);
   return { content: [{ type: "text", text: `Set background ${params.backgroundId} on character ${params.characterId}.` }] };
 }
 
@@ -1894,17 +2134,26 @@ interface SetBackgroundChoiceParams {
   type: number;
   choiceKey: string;
   choiceValue: number;
+  dryRun?: boolean;
 }
 
 export async function setBackgroundChoice(
   client: DdbClient,
-  params: SetBackgroundChoiceParams
+  params: SetBackgroundChoiceParams,
+  journal?: MutationJournal | null
 ): Promise<ToolResult> {
-  await client.put(
-    ENDPOINTS.character.setBackgroundChoice(),
-    { characterId: params.characterId, type: params.type, choiceKey: params.choiceKey, choiceValue: params.choiceValue },
-    [`character:${params.characterId}`]
-  );
+  const request: WriteRequest = {
+    method: "PUT",
+    url: ENDPOINTS.character.setBackgroundChoice(),
+    body: { characterId: params.characterId, type: params.type, choiceKey: params.choiceKey, choiceValue: params.choiceValue },
+  };
+
+  const plan: WritePlan = { characterId: params.characterId, requests: [request], changes: [] };
+  if (params.dryRun || journal) {
+    const summary = await describeChoice(client, plan, "background", params.choiceKey, params.choiceValue);
+    if (params.dryRun) return dryRunResult(summary, plan);
+  }
+  await executePlan(client, plan, journal);
   return { content: [{ type: "text", text: `Set background choice on character ${params.characterId}.` }] };
 }
 
@@ -1912,17 +2161,27 @@ interface SetSpeciesParams {
   characterId: number;
   entityRaceId: number;
   entityRaceTypeId: number;
+  dryRun?: boolean;
 }
 
 export async function setSpecies(
   client: DdbClient,
-  params: SetSpeciesParams
+  params: SetSpeciesParams,
+  journal?: MutationJournal | null
 ): Promise<ToolResult> {
-  await client.put(
-    ENDPOINTS.character.setRace(),
-    { characterId: params.characterId, entityRaceId: params.entityRaceId, entityRaceTypeId: params.entityRaceTypeId },
-    [`character:${params.characterId}`]
-  );
+  const request: WriteRequest = {
+    method: "PUT",
+    url: ENDPOINTS.character.setRace(),
+    body: { characterId: params.characterId, entityRaceId: params.entityRaceId, entityRaceTypeId: params.entityRaceTypeId },
+  };
+
+  const plan: WritePlan = { characterId: params.characterId, requests: [request], changes: [] };
+  if (params.dryRun || journal) {
+    const character = await loadCharacter(client, params.characterId);
+    plan.changes = [{ field: "Species", before: character.race?.fullName ?? null, after: `species ${params.entityRaceId}` }];
+    if (params.dryRun) return dryRunResult(`Set ${character.name}'s species to ${params.entityRaceId}`, plan);
+  }
+  await executePlan(client, plan, journal);
   return { content: [{ type: "text", text: `Set species on character ${params.characterId}.` }] };
 }
 
@@ -1931,38 +2190,62 @@ interface SetAbilityScoreParams {
   statId: number;
   type: number;
   value: number;
+  dryRun?: boolean;
 }
 
 export async function setAbilityScore(
   client: DdbClient,
-  params: SetAbilityScoreParams
+  params: SetAbilityScoreParams,
+  journal?: MutationJournal | null
 ): Promise<ToolResult> {
   if (params.statId < 1 || params.statId > 6) {
     return { content: [{ type: "text", text: "statId must be between 1 (STR) and 6 (CHA)." }] };
   }
   const abilityName = ["STR", "DEX", "CON", "INT", "WIS", "CHA"][params.statId - 1];
-  await client.put(
-    ENDPOINTS.character.setAbilityScore(),
-    { characterId: params.characterId, statId: params.statId, type: params.type, value: params.value },
-    [`character:${params.characterId}`]
-  );
+  const request: WriteRequest = {
+    method: "PUT",
+    url: ENDPOINTS.character.setAbilityScore(),
+    body: { characterId: params.characterId, statId: params.statId, type: params.type, value: params.value },
+  };
+
+  const plan: WritePlan = { characterId: params.characterId, requests: [request], changes: [] };
+  if (params.dryRun || journal) {
+    const character = await loadCharacter(client, params.characterId);
+    plan.changes = [{
+      field: `Base ${abilityName}`,
+      before: character.stats?.find((s) => s.id === params.statId)?.value ?? null,
+      after: params.value,
+    }];
+    if (params.dryRun) return dryRunResult(`Set ${character.name}'s base ${abilityName} to ${params.value}`, plan);
+  }
+  await executePlan(client, plan, journal);
   return { content: [{ type: "text", text: `Set ${abilityName} to ${params.value} on character ${params.characterId}.` }] };
 }
 
 interface UpdateCharacterNameParams {
   characterId: number;
   name: string;
+  dryRun?: boolean;
 }
 
 export async function updateCharacterName(
   client: DdbClient,
-  params: UpdateCharacterNameParams
+  params: UpdateCharacterNameParams,
+  journal?: MutationJournal | null
 ): Promise<ToolResult> {
-  await client.put(
-    ENDPOINTS.character.updateName(),
-    { characterId: params.characterId, name: params.name },
-    [`character:${params.characterId}`]
-  );
+  const request: WriteRequest = {
+    method: "PUT",
+    url: ENDPOINTS.character.updateName(),
+    body: { characterId: params.characterId, name: params.name },
+  };
+
+  const plan: WritePlan = { characterId: params.characterId, requests: [request], changes: [] };
+  if (params.dryRun || journal) {
+    const character = await loadCharacter(client, params.characterId);
+    plan.changes = [{ field: "Name", before: character.name, after: params.name }];
+    if (params.dryRun) return dryRunResult(`Rename ${character.name} to "${params.name}"`, plan);
+  }
+  await executePlan(client, plan, journal);
   return { content: [{ type: "text", text: `Updated character ${params.characterId} name to "${params.name}".` }] };
 }
 
@@ -1975,39 +2258,71 @@ interface SetClassLevelParams {
   classId: number;
   classMappingId: number;
   level: number;
+  dryRun?: boolean;
 }
 
 export async function setClassLevel(
   client: DdbClient,
-  params: SetClassLevelParams
-): Promise<ToolResult> {
+  params: SetClassLevelParams,
+  journal?: MutationJournal | null
+): Promise<ToolResult & { isError?: boolean }> {
   if (params.level < 1 || params.level > 20) {
-    return { content: [{ type: "text", text: "Level must be between 1 and 20." }] };
+    return { content: [{ type: "text", text: "Level must be between 1 and 20." }], isError: true };
   }
-  await client.put(
-    ENDPOINTS.character.setClassLevel(),
-    { characterId: params.characterId, classId: params.classId, classMappingId: params.classMappingId, level: params.level },
-    [`character:${params.characterId}`]
-  );
+  const request: WriteRequest = {
+    method: "PUT",
+    url: ENDPOINTS.character.setClassLevel(),
+    body: { characterId: params.characterId, classId: params.classId, classMappingId: params.classMappingId, level: params.level },
+  };
+
+  const plan: WritePlan = { characterId: params.characterId, requests: [request], changes: [] };
+  if (params.dryRun || journal) {
+    const character = await loadCharacter(client, params.characterId);
+    const cls = character.classes?.find((c) => c.id === params.classMappingId);
+    plan.changes = [{
+      field: `${cls?.definition.name ?? `Class ${params.classId}`} level`,
+      before: cls?.level ?? null,
+      after: params.level,
+    }];
+    const className = cls?.definition.name ?? `class ${params.classId}`;
+    if (params.dryRun) return dryRunResult(`Set ${className} to level ${params.level} on ${character.name}`, plan);
+  }
+  await executePlan(client, plan, journal);
   return { content: [{ type: "text", text: `Set class level to ${params.level} on character ${params.characterId}.` }] };
 }
 
+const ABILITY_SCORE_TYPE_NAMES: Record<number, string> = { 1: "Standard Array", 2: "Rolled", 3: "Point Buy" };
+
 interface SetAbilityScoreTypeParams {
   characterId: number;
   abilityScoreType: number;
+  dryRun?: boolean;
 }
 
 export async function setAbilityScoreType(
   client: DdbClient,
-  params: SetAbilityScoreTypeParams
+  params: SetAbilityScoreTypeParams,
+  journal?: MutationJournal | null
 ): Promise<ToolResult> {
-  const typeNames: Record<number, string> = { 1: "Standard Array", 2: "Rolled", 3: "Point Buy" };
-  const typeName = typeNames[params.abilityScoreType] ?? `type ${params.abilityScoreType}`;
-  await client.put(
-    ENDPOINTS.character.setAbilityScoreType(),
-    { characterId: params.characterId, abilityScoreType: params.abilityScoreType },
-    [`character:${params.characterId}`]
-  );
+  const typeName = ABILITY_SCORE_TYPE_NAMES[params.abilityScoreType] ?? `type ${params.abilityScoreType}`;
+  const request: WriteRequest = {
+    method: "PUT",
+    url: ENDPOINTS.character.setAbilityScoreType(),
+    body: { characterId: params.characterId, abilityScoreType: params.abilityScoreType },
+  };
+
+  const plan: WritePlan = { characterId: params.characterId, requests: [request], changes: [] };
+  if (params.dryRun || journal) {
+    const character = await loadCharacter(client, params.characterId);
+    const current = character.configuration?.abilityScoreType as number | undefined;
+    plan.changes = [{
+      field: "Ability score method",
+      before: current ? ABILITY_SCORE_TYPE_NAMES[current] ?? `type ${current}` : null,
+      after: typeName,
+    }];
+    if (params.dryRun) return dryRunResult(`Set ${character.name}'s ability score method to ${typeName}`, plan);
+  }
+  await executePlan(client, plan, journal);
   return { content: [{ type: "text", text: `Set ability score method to ${typeName} on character ${params.characterId}.` }] };
 }
 
@@ -2018,17 +2333,31 @@ export async function setAbilityScoreType(
 interface SetStartingEquipmentTypeParams {
   characterId: number;
   startingEquipmentType: number;
+  dryRun?: boolean;
 }
 
 export async function setStartingEquipmentType(
   client: DdbClient,
-  params: SetStartingEquipmentTypeParams
+  params: SetStartingEquipmentTypeParams,
+  journal?: MutationJournal | null
 ): Promise<ToolResult> {
-  await client.put(
-    ENDPOINTS.character.inventory.setStartingType(),
-    { characterId: params.characterId, startingEquipmentType: params.startingEquipmentType },
-    [`character:${params.characterId}`]
-  );
+  const request: WriteRequest = {
+    method: "PUT",
+    url: ENDPOINTS.character.inventory.setStartingType(),
+    body: { characterId: params.characterId, startingEquipmentType: params.startingEquipmentType },
+  };
+
+  const plan: WritePlan = { characterId: params.characterId, requests: [request], changes: [] };
+  if (params.dryRun || journal) {
+    const character = await loadCharacter(client, params.characterId);
+    plan.changes = [{
+      field: "Starting equipment type",
+      before: (character.configuration?.startingEquipmentType as number | undefined) ?? null,
+      after: params.startingEquipmentType,
+    }];
+    if (params.dryRun) return dryRunResult(`Set ${character.name}'s starting equipment type to ${params.startingEquipmentType}`, plan);
+  }
+  await executePlan(client, plan, journal);
   return { content: [{ type: "text", text: `Set starting equipment type to ${params.startingEquipmentType} on character ${params.characterId}.` }] };
 }
 
@@ -2039,11 +2368,13 @@ interface AddInventoryItemsParams {
     entityTypeId: number;
     quantity: number;
   }>;
+  dryRun?: boolean;
 }
 
 export async function addInventoryItems(
   client: DdbClient,
-  params: AddInventoryItemsParams
+  params: AddInventoryItemsParams,
+  journal?: MutationJournal | null
 ): Promise<ToolResult> {
   const items = params.equipment.map(item => ({
     containerEntityId: params.characterId,
@@ -2054,28 +2385,49 @@ export async function addInventoryItems(
     originEntityId: null,
     originEntityTypeId: null,
   }));
-  await client.post(
-    ENDPOINTS.character.inventory.addItems(),
-    { characterId: params.characterId, equipment: items },
-    [`character:${params.characterId}`]
-  );
+  const request: WriteRequest = {
+    method: "POST",
+    url: ENDPOINTS.character.inventory.addItems(),
+    body: { characterId: params.characterId, equipment: items },
+  };
+
+  const plan: WritePlan = { characterId: params.characterId, requests: [request], changes: [] };
+  if (params.dryRun || journal) {
+    const character = await loadCharacter(client, params.characterId);
+    const before = character.inventory?.length ?? 0;
+    plan.changes = [{ field: "Inventory entries", before, after: before + params.equipment.length }];
+    if (params.dryRun) return dryRunResult(`Add ${params.equipment.length} item(s) to ${character.name}`, plan);
+  }
+  await executePlan(client, plan, journal);
   return { content: [{ type: "text", text: `Added ${params.equipment.length} item(s) to character ${params.characterId}.` }] };
 }
 
 interface SetGoldParams {
   characterId: number;
   amount: number;
+  dryRun?: boolean;
 }
 
 export async function setGold(
   client: DdbClient,
-  params: SetGoldParams
+  params: SetGoldParams,
+  journal?: MutationJournal | null
 ): Promise<ToolResult> {
-  await client.put(
-    ENDPOINTS.character.inventory.setGold(),
-    { characterId: params.characterId, amount: params.amount },
-    [`character:${params.characterId}`]
-  );
+  const request: WriteRequest = {
+    method: "PUT",
+    url: ENDPOINTS.character.inventory.setGold(),
+    body: { characterId: params.characterId, amount: params.amount },
+  };
+
+  const plan: WritePlan = { characterId: params.characterId, requests: [request], changes: [] };
+  if (params.dryRun || journal) {
+    const character = await loadCharacter(client, params.characterId);
+    const before = character.currencies?.gp ?? 0;
+    plan.changes = [{ field: "GP", before, after: params.amount }];
+    plan.undo = [{ ...request, body: { characterId: params.characterId, amount: before } }];
+    if (params.dryRun) return dryRunResult(`Set ${character.name}'s gold to ${params.amount}`, plan);
+  }
+  await executePlan(client, plan, journal);
   return { content: [{ type: "text", text: `Set gold to ${params.amount} on character ${params.characterId}.` }] };
 }
 
@@ -2083,15 +2435,29 @@ export async function setGold(
 // DESCRIPTION FIELDS
 // ============================================================================
 
+/** Current value of an update_description field; traits and notes live in nested objects. */
+function descriptionValue(char: DdbCharacter, field: string): string | number | null {
+  if (field === "alignment") return char.alignmentId ?? null;
+  if (field === "lifestyle") return char.lifestyleId ?? null;
+  const sources = [char.traits, char.notes, char] as unknown as Array<Record<string, unknown> | undefined>;
+  for (const source of sources) {
+    const value = source?.[field];
+    if (typeof value === "string" || typeof value === "number") return value;
+  }
+  return null;
+}
+
 interface UpdateDescriptionParams {
   characterId: number;
   field: string;
   value: string | number;
+  dryRun?: boolean;
 }
 
 export async function updateDescription(
   client: DdbClient,
-  params: UpdateDescriptionParams
+  params: UpdateDescriptionParams,
+  journal?: MutationJournal | null
 ): Promise<ToolResult> {
   const FIELD_ENDPOINTS: Record<string, { endpoint: () => string; bodyKey: string }> = {
     alignment: { endpoint: ENDPOINTS.character.updateAlignment, bodyKey: "alignmentId" },
@@ -2121,11 +2487,18 @@ export async function updateDescription(
     return { content: [{ type: "text", text: `Invalid field "${params.field}". Valid fields: ${validFields}` }] };
   }
 
-  await client.put(
-    config.endpoint(),
-    { characterId: params.characterId, [config.bodyKey]: params.value },
-    [`character:${params.characterId}`]
-  );
+  const request: WriteRequest = {
+    method: "PUT",
+    url: config.endpoint(),
+    body: { characterId: params.characterId, [config.bodyKey]: params.value },
+  };
+  const plan: WritePlan = { characterId: params.characterId, requests: [request], changes: [] };
+  if (params.dryRun || journal) {
+    const character = await loadCharacter(client, params.characterId);
+    plan.changes = [{ field: params.field, before: descriptionValue(character, params.field), after: params.value }];
+    if (params.dryRun) return dryRunResult(`Update ${params.field} on ${character.name}`, plan);
+  }
+  await executePlan(client, plan, journal);
   return { content: [{ type: "text", text: `Updated ${params.field} on character ${params.characterId}.` }] };
 }
 
@@ -2142,15 +2515,18 @@ interface SetClassFeatureChoiceParams {
   choiceKey: string;
   choiceValue: number;
   parentChoiceId?: number | null;
+  dryRun?: boolean;
 }
 
 export async function setClassFeatureChoice(
   client: DdbClient,
-  params: SetClassFeatureChoiceParams
+  params: SetClassFeatureChoiceParams,
+  journal?: MutationJournal | null
 ): Promise<ToolResult> {
-  await client.put(
-    ENDPOINTS.character.setClassFeatureChoice(),
-    {
+  const request: WriteRequest = {
+    method: "PUT",
+    url: ENDPOINTS.character.setClassFeatureChoice(),
+    body: {
       characterId: params.characterId,
       classId: params.classId,
       classFeatureId: params.classFeatureId,
@@ -2160,8 +2536,14 @@ export async function setClassFeatureChoice(
       choiceValue: params.choiceValue,
       parentChoiceId: params.parentChoiceId ?? null,
     },
-    [`character:${params.characterId}`]
-  );
+  };
+
+  const plan: WritePlan = { characterId: params.characterId, requests: [request], changes: [] };
+  if (params.dryRun || journal) {
+    const summary = await describeChoice(client, plan, "class", params.choiceKey, params.choiceValue);
+    if (params.dryRun) return dryRunResult(summary, plan);
+  }
+  await executePlan(client, plan, journal);
   return { content: [{ type: "text", text: `Set class feature choice on character ${params.characterId}.` }] };
 }
 
@@ -2171,23 +2553,32 @@ interface SetRaceTraitChoiceParams {
   type: number;
   choiceKey: string;
   choiceValue: number;
+  dryRun?: boolean;
 }
 
 export async function setRaceTraitChoice(
   client: DdbClient,
-  params: SetRaceTraitChoiceParams
+  params: SetRaceTraitChoiceParams,
+  journal?: MutationJournal | null
 ): Promise<ToolResult> {
-  await client.put(
-    ENDPOINTS.character.setRaceTraitChoice(),
-    {
+  const request: WriteRequest = {
+    method: "PUT",
+    url: ENDPOINTS.character.setRaceTraitChoice(),
+    body: {
       characterId: params.characterId,
       racialTraitId: params.racialTraitId,
       type: params.type,
       choiceKey: params.choiceKey,
       choiceValue: params.choiceValue,
     },
-    [`character:${params.characterId}`]
-  );
+  };
+
+  const plan: WritePlan = { characterId: params.characterId, requests: [request], changes: [] };
+  if (params.dryRun || journal) {
+    const summary = await describeChoice(client, plan, "race", params.choiceKey, params.choiceValue);
+    if (params.dryRun) return dryRunResult(summary, plan);
+  }
+  await executePlan(client, plan, journal);
   return { content: [{ type: "text", text: `Set race trait choice on character ${params.characterId}.` }] };
 }
 
@@ -2197,33 +2588,128 @@ interface SetFeatChoiceParams {
   type: number;
   choiceKey: string;
   choiceValue: number;
+  dryRun?: boolean;
 }
 
 export async function setFeatChoice(
   client: DdbClient,
-  params: SetFeatChoiceParams
+  params: SetFeatChoiceParams,
+  journal?: MutationJournal | null
 ): Promise<ToolResult> {
-  await client.put(
-    ENDPOINTS.character.setFeatChoice(),
-    {
+  const request: WriteRequest = {
+    method: "PUT",
+    url: ENDPOINTS.character.setFeatChoice(),
+    body: {
       characterId: params.characterId,
       id: params.featId,
       type: params.type,
       choiceKey: params.choiceKey,
       choiceValue: params.choiceValue,
     },
-    [`character:${params.characterId}`]
-  );
+  };
+
+  const plan: WritePlan = { characterId: params.characterId, requests: [request], changes: [] };
+  if (params.dryRun || journal) {
+    const summary = await describeChoice(client, plan, "feat", params.choiceKey, params.choiceValue);
+    if (params.dryRun) return dryRunResult(summary, plan);
+  }
+  await executePlan(client, plan, journal);
   return { content: [{ type: "text", text: `Set feat choice on character ${params.characterId}.` }] };
 }
 
 interface ResolveChoicesParams {
   characterId: number;
+  dryRun?: boolean;
+}
+
+export interface PendingChoice {
+  category: string;
+  choice: DdbChoice;
+}
+
+export function unresolvedChoices(char: DdbCharacter): PendingChoice[] {
+  const unresolved: PendingChoice[] = [];
+  for (const [key, val] of Object.entries(char.choices ?? {})) {
+    if (key === "choiceDefinitions" || !Array.isArray(val)) continue;
+    for (const c of val as DdbChoice[]) {
+      if (!c.optionValue) unresolved.push({ category: key, choice: c });
+    }
+  }
+  return unresolved;
+}
+
+/** The options the sheet's choice definitions list for a choice. */
+export function choiceDefinitionOptions(char: DdbCharacter, choice: DdbChoice): DdbChoiceDefinition["options"] {
+  const defKey = `${choice.componentTypeId}-${choice.type}`;
+  return char.choices?.choiceDefinitions?.find((d) => d.id === defKey)?.options ?? [];
+}
+
+/** The request that picks the first (or default) option for a pending choice, or null when none applies. */
+function autoChoiceRequest(char: DdbCharacter, characterId: number, { category, choice }: PendingChoice): WriteRequest | null {
+  // Find option ID from optionIds or choiceDefinitions
+  let optionId: number | null = null;
+  if (choice.optionIds?.length) {
+    optionId = choice.optionIds[0];
+  } else {
+    const options = choiceDefinitionOptions(char, choice);
+    if (options.length) {
+      // Prefer default if specified
+      if (choice.defaultSubtypes?.length) {
+        const match = options.find((o) => o.label === choice.defaultSubtypes![0]);
+        optionId = match?.id ?? options[0].id;
+      } else {
+        optionId = options[0].id;
+      }
+    }
+  }
+  if (!optionId) return null;
+
+  const charClass = char.classes?.[0];
+  switch (category) {
+    case "background":
+      return {
+        method: "PUT",
+        url: ENDPOINTS.character.setBackgroundChoice(),
+        body: { characterId, type: choice.type, choiceKey: choice.id, choiceValue: optionId },
+      };
+    case "class":
+      return {
+        method: "PUT",
+        url: ENDPOINTS.character.setClassFeatureChoice(),
+        body: {
+          characterId, classId: charClass?.definition?.id, type: choice.type,
+          choiceKey: choice.id, choiceValue: optionId,
+          classFeatureId: choice.componentId, classMappingId: charClass?.id,
+        },
+      };
+    case "race":
+      return {
+        method: "PUT",
+        url: ENDPOINTS.character.setRaceTraitChoice(),
+        body: {
+          characterId, type: choice.type,
+          choiceKey: choice.id, choiceValue: optionId,
+          racialTraitId: choice.componentId,
+        },
+      };
+    case "feat":
+      return {
+        method: "PUT",
+        url: ENDPOINTS.character.setFeatChoice(),
+        body: {
+          characterId, id: choice.componentId,
+          type: choice.type, choiceKey: choice.id, choiceValue: optionId,
+        },
+      };
+    default:
+      return null;
+  }
 }
 
 export async function resolveChoices(
   client: DdbClient,
-  params: ResolveChoicesParams
+  params: ResolveChoicesParams,
+  journal?: MutationJournal | null
 ): Promise<ToolResult> {
   const MAX_ITERATIONS = 8;
   const resolved: string[] = [];
@@ -2237,26 +2723,59 @@ export async function resolveChoices(
     1
   );
   const config = (initialChar as any).configuration ?? {};
-
+  const configRequests: Array<{ label: string; change: FieldChange; request: WriteRequest }> = [];
   if (!config.abilityScoreType) {
-    try {
-      await client.put(
-        ENDPOINTS.character.setAbilityScoreType(),
-        { characterId: params.characterId, abilityScoreType: 1 },
-        [`character:${params.characterId}`]
-      );
-      configFixed.push("abilityScoreType → Standard Array");
-    } catch { /* ignore */ }
+    configRequests.push({
+      label: "abilityScoreType → Standard Array",
+      change: { field: "Ability score method", before: null, after: "Standard Array" },
+      request: {
+        method: "PUT",
+        url: ENDPOINTS.character.setAbilityScoreType(),
+        body: { characterId: params.characterId, abilityScoreType: 1 },
+      },
+    });
   }
-
   if (!config.startingEquipmentType) {
+    configRequests.push({
+      label: "startingEquipmentType → Normal",
+      change: { field: "Starting equipment type", before: null, after: "Normal" },
+      request: {
+        method: "PUT",
+        url: ENDPOINTS.character.inventory.setStartingType(),
+        body: { characterId: params.characterId, startingEquipmentType: 1 },
+      },
+    });
+  }
+
+  if (params.dryRun) {
+    const plan: WritePlan = {
+      characterId: params.characterId,
+      requests: configRequests.map((c) => c.request),
+      changes: configRequests.map((c) => c.change),
+      notes: ["Only the first pass is shown; choices unlocked by these picks are resolved in later passes."],
+    };
+    for (const pending of unresolvedChoices(initialChar)) {
+      const request = autoChoiceRequest(initialChar, params.characterId, pending);
+      if (!request) continue;
+      plan.requests.push(request);
+      plan.changes.push({
+        field: `${pending.category}: ${pending.choice.label || pending.choice.id}`,
+        before: null,
+        after: request.body?.choiceValue as number,
+      });
+    }
+    return dryRunResult(`Auto-resolve pending choices on ${initialChar.name}`, plan);
+  }
+
+  // Every write of the run becomes one journal entry, so a single undo clears them all
+  const sent: WritePlan = { characterId: params.characterId, requests: [], changes: [], undo: [] };
+  for (const { label, change, request } of configRequests) {
     try {
-      await client.put(
-        ENDPOINTS.character.inventory.setStartingType(),
-        { characterId: params.characterId, startingEquipmentType: 1 },
-        [`character:${params.characterId}`]
-      );
-      configFixed.push("startingEquipmentType → Normal");
+      await sendWrite(client, params.characterId, request);
+      configFixed.push(label);
+      sent.requests.push(request);
+      sent.changes.push(change);
+      sent.notes = ["Configuration defaults stay set; D&D Beyond has no way to clear them."];
     } catch { /* ignore */ }
   }
 
@@ -2267,90 +2786,30 @@ export async function resolveChoices(
       1 // no cache
     );
 
-    // Build choiceDefinitions lookup
-    const choiceDefs = (char as any).choices?.choiceDefinitions ?? [];
-    const defMap = new Map<string, any[]>();
-    for (const cd of choiceDefs) {
-      if (cd.options?.length) defMap.set(cd.id, cd.options);
-    }
-
-    // Gather unresolved choices
-    const choices = (char as any).choices ?? {};
-    const unresolved: Array<{ category: string; choice: any }> = [];
-    for (const [key, val] of Object.entries(choices)) {
-      if (key === "choiceDefinitions") continue;
-      const arr = val as any[];
-      if (!Array.isArray(arr)) continue;
-      for (const c of arr) {
-        if (!c.optionValue) unresolved.push({ category: key, choice: c });
-      }
-    }
-
+    const unresolved = unresolvedChoices(char);
     if (unresolved.length === 0) break;
 
     let progressMade = false;
-    const charClass = char.classes?.[0];
-    const classId = charClass?.definition?.id;
-    const classMappingId = charClass?.id;
-
-    for (const { category, choice } of unresolved) {
-      // Find option ID from optionIds or choiceDefinitions
-      let optionId: number | null = null;
-      if (choice.optionIds?.length > 0) {
-        optionId = choice.optionIds[0];
-      } else {
-        const defKey = `${choice.componentTypeId}-${choice.type}`;
-        const options = defMap.get(defKey);
-        if (options?.length) {
-          // Prefer default if specified
-          if (choice.defaultSubtypes?.length > 0) {
-            const match = options.find((o: any) => o.label === choice.defaultSubtypes[0]);
-            optionId = match?.id ?? options[0].id;
-          } else {
-            optionId = options[0].id;
-          }
-        }
-      }
-
-      if (!optionId) {
+    for (const pending of unresolved) {
+      const { category, choice } = pending;
+      const request = autoChoiceRequest(char, params.characterId, pending);
+      if (!request) {
         skipped.push(`${category}:${choice.id}`);
         continue;
       }
 
       try {
-        switch (category) {
-          case "background":
-            await client.put(ENDPOINTS.character.setBackgroundChoice(), {
-              characterId: params.characterId, type: choice.type,
-              choiceKey: choice.id, choiceValue: optionId,
-            }, [`character:${params.characterId}`]);
-            break;
-          case "class":
-            await client.put(ENDPOINTS.character.setClassFeatureChoice(), {
-              characterId: params.characterId, classId, type: choice.type,
-              choiceKey: choice.id, choiceValue: optionId,
-              classFeatureId: choice.componentId, classMappingId,
-            }, [`character:${params.characterId}`]);
-            break;
-          case "race":
-            await client.put(ENDPOINTS.character.setRaceTraitChoice(), {
-              characterId: params.characterId, type: choice.type,
-              choiceKey: choice.id, choiceValue: optionId,
-              racialTraitId: choice.componentId,
-            }, [`character:${params.characterId}`]);
-            break;
-          case "feat":
-            await client.put(ENDPOINTS.character.setFeatChoice(), {
-              characterId: params.characterId, id: choice.componentId,
-              type: choice.type, choiceKey: choice.id, choiceValue: optionId,
-            }, [`character:${params.characterId}`]);
-            break;
-          default:
-            skipped.push(`${category}:${choice.id}`);
-            continue;
-        }
+        await sendWrite(client, params.characterId, request);
         resolved.push(`${category}: ${choice.label || choice.id}`);
         progressMade = true;
+        sent.requests.push(request);
+        sent.changes.push({
+          field: `${category}: ${choice.label || choice.id}`,
+          before: null,
+          after: request.body?.choiceValue as number,
+        });
+        // Clear later choices first; they may depend on earlier ones
+        sent.undo!.unshift({ ...request, body: { ...request.body, choiceValue: null } });
       } catch {
         skipped.push(`${category}:${choice.id}`);
       }
@@ -2358,6 +2817,7 @@ export async function resolveChoices(
 
     if (!progressMade) break;
   }
+  if (sent.requests.length > 0) journal?.record(sent);
 
   // Final count
   const finalChar = await client.get<DdbCharacter>(
@@ -2365,14 +2825,7 @@ export async function resolveChoices(
     `resolve-final:${params.characterId}:${Date.now()}`,
     1
   );
-  const finalChoices = (finalChar as any).choices ?? {};
-  let remaining = 0;
-  for (const [key, val] of Object.entries(finalChoices)) {
-    if (key === "choiceDefinitions") continue;
-    const arr = val as any[];
-    if (!Array.isArray(arr)) continue;
-    remaining += arr.filter((c: any) => !c.optionValue).length;
-  }
+  const remaining = unresolvedChoices(finalChar).length;
 
   const lines = [
     `Auto-resolved ${resolved.length} choices on ${finalChar.name}.`,
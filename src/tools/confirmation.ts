@@ -0,0 +1,130 @@
+import { randomBytes } from "node:crypto";
+import { DRY_RUN_HEADER } from "./writes.js";
+
+interface ToolResult {
+  [key: string]: unknown;
+  content: Array<{ type: "text"; text: string }>;
+}
+
+/** Tools that can require a second, confirmed call. delete_character always does. */
+export const CONFIRMABLE_TOOLS = ["delete_character", "set_class_level", "level_up", "set_ability_score_type"] as const;
+
+export type ConfirmableTool = (typeof CONFIRMABLE_TOOLS)[number];
+
+const CONFIRMATION_HEADER = "**Confirmation required — nothing was sent to D&D Beyond yet.**";
+
+interface PendingConfirmation {
+  tool: ConfirmableTool;
+  /** The arguments the token was issued for; a token only confirms that exact call. */
+  fingerprint: string;
+  expiresAt: number;
+}
+
+export type RedeemResult = "confirmed" | "unknown" | "expired" | "mismatch";
+
+export interface ConfirmationGuardOptions {
+  /** Tools that need a token; delete_character is always included. */
+  tools?: Iterable<ConfirmableTool>;
+  /** How long a token stays valid (default: 5 minutes). */
+  ttlMs?: number;
+}
+
+/** Arguments in a stable order, without the ones that don't change what is sent. */
+function fingerprint(args: Record<string, unknown>): string {
+  const entries = Object.entries(args)
+    .filter(([key, value]) => key !== "dryRun" && key !== "confirmationToken" && value !== undefined)
+    .sort(([a], [b]) => a.localeCompare(b));
+  return JSON.stringify(entries);
+}
+
+/**
+ * Single-use tokens for two-phase writes. The first call to a guarded tool
+ * shows what it would do and issues a token; only a second call with the same
+ * arguments and that token, before it expires, is sent to D&D Beyond. Tokens
+ * live in memory for one MCP session, so one client can't confirm another's.
+ */
+export class ConfirmationGuard {
+  private readonly pending = new Map<string, PendingConfirmation>();
+  private readonly tools: Set<ConfirmableTool>;
+  readonly ttlMs: number;
+
+  constructor(options: ConfirmationGuardOptions = {}) {
+    this.tools = new Set<ConfirmableTool>(["delete_character", ...(options.tools ?? [])]);
+    // level_up sets class levels too, so guarding set_class_level can't be sidestepped through it
+    if (this.tools.has("set_class_level")) this.tools.add("level_up");
+    this.ttlMs = options.ttlMs ?? 5 * 60_000;
+  }
+
+  /** DDB_CONFIRM_WRITES lists extra tools to guard, e.g. "set_class_level,set_ability_score_type". */
+  static fromEnv(env: NodeJS.ProcessEnv = process.env): ConfirmationGuard {
+    const names = (env.DDB_CONFIRM_WRITES ?? "").split(",").map((name) => name.trim().toLowerCase());
+    const tools = CONFIRMABLE_TOOLS.filter((tool) => names.includes(tool));
+    return new ConfirmationGuard({ tools });
+  }
+
+  requires(tool: ConfirmableTool): boolean {
+    return this.tools.has(tool);
+  }
+
+  issue(tool: ConfirmableTool, args: Record<string, unknown>, now: number = Date.now()): string {
+    for (const [token, entry] of this.pending) {
+      if (now >= entry.expiresAt) this.pending.delete(token);
+    }
+    const token = randomBytes(6).toString("hex");
+    this.pending.set(token, { tool, fingerprint: fingerprint(args), expiresAt: now + this.ttlMs });
+    return token;
+  }
+
+  /** Checks a token against the call it was issued for. Every token is spent on its first use. */
+  redeem(tool: ConfirmableTool, token: string, args: Record<string, unknown>, now: number = Date.now()): RedeemResult {
+    const entry = this.pending.get(token);
+    if (!entry) return "unknown";
+    this.pending.delete(token);
+    if (now >= entry.expiresAt) return "expired";
+    if (entry.tool !== tool || entry.fingerprint !== fingerprint(args)) return "mismatch";
+    return "confirmed";
+  }
+}
+
+const REJECTIONS: Record<Exclude<RedeemResult, "confirmed">, string> = {
+  unknown: "That confirmation token is not valid (it may already have been used).",
+  expired: "That confirmation token has expired.",
+  mismatch: "That confirmation token was issued for a different call.",
+};
+
+/**
+ * Runs a guarded write in two phases. Without a token the tool runs as a dry
+ * run and the preview comes back with a token; with a valid token it runs for
+ * real. Tools that aren't guarded, and explicit dry runs, pass straight through.
+ */
+export async function confirmWrite(
+  guard: ConfirmationGuard,
+  tool: ConfirmableTool,
+  params: Record<string, unknown> & { dryRun?: boolean; confirmationToken?: string },
+  run: (dryRun: boolean) => Promise<ToolResult>
+): Promise<ToolResult> {
+  if (params.dryRun || !guard.requires(tool)) return run(params.dryRun ?? false);
+
+  if (params.confirmationToken === undefined) {
+    const preview = await run(true);
+    const text = preview.content[0]?.text ?? "";
+    // Validation errors come back as plain text; there is nothing to confirm
+    if (!text.startsWith(DRY_RUN_HEADER)) return preview;
+
+    const token = guard.issue(tool, params);
+    const minutes = Math.round(guard.ttlMs / 60_000);
+    const lines = [
+      CONFIRMATION_HEADER + text.slice(DRY_RUN_HEADER.length),
+      "",
+      `To go ahead, call ${tool} again with the same arguments and confirmationToken: "${token}" within ${minutes} minute${minutes === 1 ? "" : "s"}.`,
+    ];
+    return { content: [{ type: "text", text: lines.join("\n") }] };
+  }
+
+  const result = guard.redeem(tool, params.confirmationToken, params);
+  if (result !== "confirmed") {
+    const message = `${REJECTIONS[result]} Nothing was sent. Call ${tool} without confirmationToken to get a new one.`;
+    return { content: [{ type: "text", text: message }], isError: true };
+  }
+  return run(false);
+}
@@ -0,0 +1,129 @@
+import type { DdbClient } from "../api/client.js";
+import { ENDPOINTS } from "../api/endpoints.js";
+import type { DdbCharacter } from "../types/character.js";
+import {
+  ABILITY_NAMES,
+  SKILL_DEFINITIONS,
+  calculateSavingThrowBonus,
+  calculateSkillBonus,
+  calculateAbilityCheckBonus,
+} from "../utils/character-calculations.js";
+import { createRandom, formatRoll, naturalD20, rollDice, type RollMode } from "../utils/dice.js";
+import { resolveCharacterId } from "./character.js";
+
+interface ToolResult {
+  [key: string]: unknown;
+  content: Array<{ type: "text"; text: string }>;
+}
+
+const ABILITY_FULL_NAMES = ["Strength", "Dexterity", "Constitution", "Intelligence", "Wisdom", "Charisma"];
+
+function text(value: string): ToolResult {
+  return { content: [{ type: "text", text: value }] };
+}
+
+function signed(n: number): string {
+  return n >= 0 ? `+${n}` : `${n}`;
+}
+
+/** Matches "dex", "DEX" or "Dexterity" to an ability ID (1-6). */
+function findAbilityId(name: string): number | undefined {
+  const search = name.trim().toLowerCase();
+  const index = ABILITY_FULL_NAMES.findIndex(
+    (full, i) => full.toLowerCase() === search || ABILITY_NAMES[i].toLowerCase() === search
+  );
+  return index === -1 ? undefined : index + 1;
+}
+
+function rollNote(natural: number | undefined): string {
+  if (natural === 20) return " — natural 20!";
+  if (natural === 1) return " — natural 1!";
+  return "";
+}
+
+interface RollParams {
+  expression: string;
+  mode?: RollMode;
+  label?: string;
+  /** Seed for reproducible results. */
+  seed?: number;
+}
+
+export function roll(params: RollParams): ToolResult {
+  try {
+    const result = rollDice(params.expression, {
+      mode: params.mode,
+      random: createRandom(params.seed),
+    });
+    const label = params.label ? `**${params.label}:** ` : "";
+    return text(`${label}${formatRoll(result)}`);
+  } catch (error) {
+    return text(error instanceof Error ? error.message : String(error));
+  }
+}
+
+interface RollCheckParams {
+  characterId?: number;
+  characterName?: string;
+  /** Skill name, e.g. "Stealth". */
+  skill?: string;
+  /** Ability for a saving throw, e.g. "dex" or "Wisdom". */
+  save?: string;
+  /** Ability for a raw ability check, e.g. "str". */
+  ability?: string;
+  mode?: RollMode;
+  seed?: number;
+}
+
+/**
+ * Roll a skill check, saving throw or ability check for a character, using
+ * the same bonuses shown on the character sheet.
+ */
+export async function rollCheck(client: DdbClient, params: RollCheckParams): Promise<ToolResult> {
+  const requested = [params.skill, params.save, params.ability].filter((p) => p !== undefined);
+  if (requested.length !== 1) return text("Provide exactly one of skill, save, or ability.");
+
+  const idOrError = await resolveCharacterId(client, params);
+  if (typeof idOrError === "string") return text(idOrError);
+
+  const character = await client.get<DdbCharacter>(
+    ENDPOINTS.character.get(idOrError),
+    `character:${idOrError}`,
+    60_000
+  );
+
+  let label: string;
+  let bonus: number;
+  if (params.skill !== undefined) {
+    const search = params.skill.trim().toLowerCase();
+    const skill = SKILL_DEFINITIONS.find((s) => s.name.toLowerCase() === search);
+    if (!skill) {
+      return text(`Unknown skill "${params.skill}". Skills: ${SKILL_DEFINITIONS.map((s) => s.name).join(", ")}.`);
+    }
+    label = `${skill.name} check`;
+    bonus = calculateSkillBonus(character, skill).total;
+  } else {
+    const abilityName = (params.save ?? params.ability)!;
+    const abilityId = findAbilityId(abilityName);
+    if (!abilityId) {
+      return text(`Unknown ability "${abilityName}". Use STR, DEX, CON, INT, WIS, or CHA.`);
+    }
+    if (params.save !== undefined) {
+      label = `${ABILITY_FULL_NAMES[abilityId - 1]} saving throw`;
+      bonus = calculateSavingThrowBonus(character, abilityId).total;
+    } else {
+      label = `${ABILITY_FULL_NAMES[abilityId - 1]} check`;
+      bonus = calculateAbilityCheckBonus(character, abilityId);
+    }
+  }
+
+  const result = rollDice(`1d20${signed(bonus)}`, {
+    mode: params.mode,
+    random: createRandom(params.seed),
+  });
+  const modeText = params.mode && params.mode !== "normal" ? ` with ${params.mode}` : "";
+  return text(
+    `**${character.name}** — ${label} (${signed(bonus)})${modeText}\n` +
+      `${formatRoll(result)}${rollNote(naturalD20(result))}`
+  );
+}
@@ -0,0 +1,273 @@
+import type { DdbClient } from "../api/client.js";
+import { ENDPOINTS } from "../api/endpoints.js";
+import type { DdbCharacter } from "../types/character.js";
+import type { DdbCampaignCharacter2 } from "../types/api.js";
+import { computeLevel } from "../utils/character-calculations.js";
+import type { HomebrewStore } from "../homebrew/store.js";
+import { findMonster, getGameConfig } from "./reference.js";
+
+interface ToolResult {
+  [key: string]: unknown;
+  content: Array<{ type: "text"; text: string }>;
+}
+
+export type EncounterRules = "2014" | "2024";
+
+/** 2014 DMG XP thresholds per character level: [easy, medium, hard, deadly]. */
+const XP_THRESHOLDS_2014: Record<number, [number, number, number, number]> = {
+  1: [25, 50, 75, 100],
+  2: [50, 100, 150, 200],
+  3: [75, 150, 225, 400],
+  4: [125, 250, 375, 500],
+  5: [250, 500, 750, 1100],
+  6: [300, 600, 900, 1400],
+  7: [350, 750, 1100, 1700],
+  8: [450, 900, 1400, 2100],
+  9: [550, 1100, 1600, 2400],
+  10: [600, 1200, 1900, 2800],
+  11: [800, 1600, 2400, 3600],
+  12: [1000, 2000, 3000, 4500],
+  13: [1100, 2200, 3400, 5100],
+  14: [1250, 2500, 3800, 5700],
+  15: [1400, 2800, 4300, 6400],
+  16: [1600, 3200, 4800, 7200],
+  17: [2000, 3900, 5900, 8800],
+  18: [2100, 4200, 6300, 9500],
+  19: [2400, 4900, 7300, 10900],
+  20: [2800, 5700, 8500, 12700],
+};
+
+/** 2024 DMG XP budget per character level: [low, moderate, high]. */
+const XP_BUDGETS_2024: Record<number, [number, number, number]> = {
+  1: [50, 75, 100],
+  2: [100, 150, 200],
+  3: [150, 225, 400],
+  4: [250, 375, 500],
+  5: [500, 750, 1100],
+  6: [600, 1000, 1400],
+  7: [750, 1300, 1700],
+  8: [1000, 1700, 2100],
+  9: [1300, 2000, 2600],
+  10: [1600, 2300, 3100],
+  11: [1900, 2900, 4100],
+  12: [2200, 3700, 4700],
+  13: [2600, 4200, 5400],
+  14: [2900, 4900, 6200],
+  15: [3300, 5400, 7800],
+  16: [3800, 6100, 9800],
+  17: [4500, 7200, 11700],
+  18: [5000, 8700, 14200],
+  19: [5500, 10700, 17200],
+  20: [6400, 13200, 22000],
+};
+
+/** 2014 DMG encounter multipliers, including the extra steps used for small and large parties. */
+const MULTIPLIERS_2014 = [0.5, 1, 1.5, 2, 2.5, 3, 4, 5];
+
+const DIFFICULTIES_2014 = ["Easy", "Medium", "Hard", "Deadly"] as const;
+const DIFFICULTIES_2024 = ["Low", "Moderate", "High"] as const;
+
+export interface EncounterMonster {
+  name: string;
+  cr: number;
+  xp: number;
+  count: number;
+}
+
+export interface DifficultyReport2014 {
+  multiplier: number;
+  adjustedXp: number;
+  thresholds: Record<(typeof DIFFICULTIES_2014)[number], number>;
+  rating: (typeof DIFFICULTIES_2014)[number] | "Trivial";
+}
+
+export interface DifficultyReport2024 {
+  budgets: Record<(typeof DIFFICULTIES_2024)[number], number>;
+  rating: (typeof DIFFICULTIES_2024)[number] | "Beyond High";
+}
+
+function clampLevel(level: number): number {
+  return Math.min(20, Math.max(1, Math.round(level)));
+}
+
+/**
+ * Index into MULTIPLIERS_2014 for a monster count. Parties of fewer than three
+ * use the next multiplier up; parties of six or more use the next one down.
+ */
+function multiplierIndex(monsterCount: number, partySize: number): number {
+  let index: number;
+  if (monsterCount <= 1) index = 1;
+  else if (monsterCount === 2) index = 2;
+  else if (monsterCount <= 6) index = 3;
+  else if (monsterCount <= 10) index = 4;
+  else if (monsterCount <= 14) index = 5;
+  else index = 6;
+
+  if (partySize < 3) index++;
+  else if (partySize >= 6) index--;
+  return Math.min(MULTIPLIERS_2014.length - 1, Math.max(0, index));
+}
+
+export function evaluate2014(monsters: EncounterMonster[], partyLevels: number[]): DifficultyReport2014 {
+  const totalXp = monsters.reduce((sum, m) => sum + m.xp * m.count, 0);
+  const monsterCount = monsters.reduce((sum, m) => sum + m.count, 0);
+  const multiplier = MULTIPLIERS_2014[multiplierIndex(monsterCount, partyLevels.length)];
+  const adjustedXp = Math.round(totalXp * multiplier);
+
+  const sums = [0, 0, 0, 0];
+  for (const level of partyLevels) {
+    XP_THRESHOLDS_2014[clampLevel(level)].forEach((xp, i) => (sums[i] += xp));
+  }
+  const thresholds = { Easy: sums[0], Medium: sums[1], Hard: sums[2], Deadly: sums[3] };
+
+  let rating: DifficultyReport2014["rating"] = "Trivial";
+  for (const difficulty of DIFFICULTIES_2014) {
+    if (adjustedXp >= thresholds[difficulty]) rating = difficulty;
+  }
+  return { multiplier, adjustedXp, thresholds, rating };
+}
+
+export function evaluate2024(monsters: EncounterMonster[], partyLevels: number[]): DifficultyReport2024 {
+  const totalXp = monsters.reduce((sum, m) => sum + m.xp * m.count, 0);
+
+  const sums = [0, 0, 0];
+  for (const level of partyLevels) {
+    XP_BUDGETS_2024[clampLevel(level)].forEach((xp, i) => (sums[i] += xp));
+  }
+  const budgets = { Low: sums[0], Moderate: sums[1], High: sums[2] };
+
+  // Budgets are spending limits: an encounter is rated by the smallest budget it fits in
+  const rating = DIFFICULTIES_2024.find((d) => totalXp <= budgets[d]) ?? "Beyond High";
+  return { budgets, rating };
+}
+
+/** Accepts 2, "2", 0.25, "1/4". */
+export function parseChallengeRating(value: string | number): number | null {
+  if (typeof value === "number") return value;
+  const fraction = /^\s*(\d+)\s*\/\s*(\d+)\s*$/.exec(value);
+  if (fraction) return Number(fraction[1]) / Number(fraction[2]);
+  const n = Number(value);
+  return Number.isFinite(n) ? n : null;
+}
+
+export function formatChallengeRating(cr: number): string {
+  if (cr > 0 && cr < 1) return `1/${Math.round(1 / cr)}`;
+  return String(cr);
+}
+
+interface EvaluateEncounterParams {
+  monsters: Array<{ name?: string; cr?: string | number; count?: number }>;
+  partyLevels?: number[];
+  campaignId?: number;
+  rules?: EncounterRules;
+}
+
+async function loadPartyLevels(client: DdbClient, campaignId: number): Promise<number[]> {
+  const party = await client.get<DdbCampaignCharacter2[]>(
+    ENDPOINTS.campaign.characters(campaignId),
+    `campaign:${campaignId}:characters`,
+    300_000
+  );
+  const levels: number[] = [];
+  for (const member of party) {
+    const character = await client.get<DdbCharacter>(
+      ENDPOINTS.character.get(member.id),
+      `character:${member.id}`,
+      60_000
+    );
+    levels.push(computeLevel(character));
+  }
+  return levels;
+}
+
+/**
+ * Rate an encounter against a party using the 2014 DMG (adjusted XP with group
+ * multipliers) and/or 2024 DMG (per-character XP budgets) rules. Monster XP comes
+ * from the game config's challenge rating table; named monsters are looked up
+ * local homebrew first, like get_monster.
+ */
+export async function evaluateEncounter(
+  client: DdbClient,
+  params: EvaluateEncounterParams,
+  homebrew?: HomebrewStore | null
+): Promise<ToolResult> {
+  if (params.monsters.length === 0) {
+    return { content: [{ type: "text", text: "Provide at least one monster (by name or CR)." }] };
+  }
+
+  let partyLevels = params.partyLevels ?? [];
+  if (partyLevels.length === 0 && params.campaignId !== undefined) {
+    partyLevels = await loadPartyLevels(client, params.campaignId);
+  }
+  if (partyLevels.length === 0) {
+    return {
+      content: [{ type: "text", text: "Provide party levels or a campaign ID with at least one character." }],
+    };
+  }
+
+  const config = await getGameConfig(client);
+  const crById = new Map(config.challengeRatings.map((cr) => [cr.id, cr]));
+
+  const monsters: EncounterMonster[] = [];
+  for (const input of params.monsters) {
+    const count = Math.max(1, input.count ?? 1);
+    let name = input.name;
+    let challenge;
+
+    if (input.cr !== undefined) {
+      const value = parseChallengeRating(input.cr);
+      challenge = config.challengeRatings.find((cr) => cr.value === value);
+      if (!challenge) {
+        return { content: [{ type: "text", text: `Unknown challenge rating "${input.cr}".` }] };
+      }
+    } else if (input.name) {
+      const found = await findMonster(client, input.name, homebrew);
+      if (!found) return { content: [{ type: "text", text: `Monster "${input.name}" not found.` }] };
+      name = found.monster.name;
+      challenge = crById.get(found.monster.challengeRatingId);
+      if (!challenge) {
+        return { content: [{ type: "text", text: `${found.monster.name} has no challenge rating.` }] };
+      }
+    } else {
+      return { content: [{ type: "text", text: "Each monster needs a name or a CR." }] };
+    }
+
+    monsters.push({
+      name: name ?? `CR ${formatChallengeRating(challenge.value)} monster`,
+      cr: challenge.value,
+      xp: challenge.xp,
+      count,
+    });
+  }
+
+  const totalXp = monsters.reduce((sum, m) => sum + m.xp * m.count, 0);
+  const lines: string[] = ["# Encounter Evaluation", ""];
+  lines.push(`**Party:** ${partyLevels.length} character${partyLevels.length === 1 ? "" : "s"} (levels ${partyLevels.join(", ")})`);
+  lines.push("**Monsters:**");
+  for (const m of monsters) {
+    const each = m.count > 1 ? ` each = ${(m.xp * m.count).toLocaleString()} XP` : "";
+    lines.push(`- ${m.count}× ${m.name} (CR ${formatChallengeRating(m.cr)}, ${m.xp.toLocaleString()} XP${each})`);
+  }
+  lines.push(`**Total XP:** ${totalXp.toLocaleString()}`);
+
+  if (params.rules !== "2024") {
+    const report = evaluate2014(monsters, partyLevels);
+    lines.push("", "## 2014 DMG");
+    lines.push(`**Multiplier:** ×${report.multiplier} → **Adjusted XP:** ${report.adjustedXp.toLocaleString()}`);
+    lines.push(
+      `**Thresholds:** ${DIFFICULTIES_2014.map((d) => `${d} ${report.thresholds[d].toLocaleString()}`).join(" | ")}`
+    );
+    lines.push(`**Difficulty:** ${report.rating}`);
+  }
+
+  if (params.rules !== "2014") {
+    const report = evaluate2024(monsters, partyLevels);
+    lines.push("", "## 2024 DMG");
+    lines.push(
+      `**Budgets:** ${DIFFICULTIES_2024.map((d) => `${d} ${report.budgets[d].toLocaleString()}`).join(" | ")}`
+    );
+    lines.push(`**Difficulty:** ${report.rating}`);
+  }
+
+  return { content: [{ type: "text", text: lines.join("\n") }] };
+}
@@ -0,0 +1,531 @@
+import type { DdbClient } from "../api/client.js";
+import { ENDPOINTS } from "../api/endpoints.js";
+import type { DdbCharacter } from "../types/character.js";
+import type { DdbCampaignCharacter2 } from "../types/api.js";
+import type { DdbMonster } from "../types/reference.js";
+import type { MutationJournal } from "../journal/store.js";
+import type { PermissionProfile } from "../permissions/profile.js";
+import type { HomebrewStore } from "../homebrew/store.js";
+import {
+  calculateAc,
+  calculateCurrentHp,
+  calculateInitiativeBonus,
+  calculateMaxHp,
+} from "../utils/character-calculations.js";
+import { rollDice, type RandomSource } from "../utils/dice.js";
+import { findMonster } from "./reference.js";
+import { addCondition, removeCondition, resolveCharacterId, updateHp, CONDITION_NAMES } from "./character.js";
+
+interface ToolResult {
+  [key: string]: unknown;
+  content: Array<{ type: "text"; text: string }>;
+}
+
+export interface Combatant {
+  name: string;
+  kind: "character" | "monster";
+  /** D&D Beyond character ID or monster ID. */
+  sourceId: number;
+  initiativeBonus: number;
+  initiative: number | null;
+  ac: number;
+  currentHp: number;
+  maxHp: number;
+  /** Temporary hit points, lost before currentHp. */
+  tempHp: number;
+  conditions: string[];
+}
+
+export interface Encounter {
+  name: string;
+  campaignId?: number;
+  combatants: Combatant[];
+  /** 0 until initiative has been rolled. */
+  round: number;
+  turnIndex: number;
+}
+
+/**
+ * The encounter a server is running. createServer makes one tracker per
+ * server, so each HTTP session runs its own encounter. Only one encounter is
+ * tracked at a time; monster HP and conditions live here, character HP and
+ * conditions are written through to D&D Beyond.
+ */
+export class EncounterTracker {
+  encounter: Encounter | null = null;
+}
+
+const NO_ENCOUNTER = "No encounter in progress. Use start_encounter first.";
+
+function text(value: string): ToolResult {
+  return { content: [{ type: "text", text: value }] };
+}
+
+/**
+ * Why the profile won't let a combatant's character be changed, or null. The
+ * profile's tool guard only sees characterId arguments, and these tools name
+ * combatants instead.
+ */
+async function checkCombatant(
+  client: DdbClient,
+  combatant: Combatant,
+  profile: PermissionProfile | null | undefined
+): Promise<string | null> {
+  if (combatant.kind !== "character" || !profile) return null;
+  return profile.checkCharacter(client, combatant.sourceId);
+}
+
+function rollD20(random: RandomSource): number {
+  return rollDice("1d20", { random }).total;
+}
+
+function signed(n: number): string {
+  return n >= 0 ? `+${n}` : `${n}`;
+}
+
+function isDefeated(c: Combatant): boolean {
+  return c.kind === "monster" && c.currentHp <= 0;
+}
+
+function characterCombatant(character: DdbCharacter): Combatant {
+  return {
+    name: character.name,
+    kind: "character",
+    sourceId: character.id,
+    initiativeBonus: calculateInitiativeBonus(character),
+    initiative: null,
+    ac: calculateAc(character),
+    currentHp: calculateCurrentHp(character),
+    maxHp: calculateMaxHp(character),
+    tempHp: character.temporaryHitPoints ?? 0,
+    conditions: [],
+  };
+}
+
+function monsterCombatant(monster: DdbMonster, name: string): Combatant {
+  const dex = monster.stats?.find((s) => s.statId === 2)?.value ?? 10;
+  return {
+    name,
+    kind: "monster",
+    sourceId: monster.id,
+    initiativeBonus: Math.floor((dex - 10) / 2),
+    initiative: null,
+    ac: monster.armorClass,
+    currentHp: monster.averageHitPoints,
+    maxHp: monster.averageHitPoints,
+    tempHp: 0,
+    conditions: [],
+  };
+}
+
+async function fetchCharacter(client: DdbClient, characterId: number): Promise<DdbCharacter> {
+  return client.get<DdbCharacter>(
+    ENDPOINTS.character.get(characterId),
+    `character:${characterId}`,
+    60_000
+  );
+}
+
+/**
+ * Find a combatant by name: exact (case-insensitive) first, then a unique
+ * partial match. Returns an error message when nothing or several match.
+ */
+function findCombatant(encounter: Encounter, name: string): Combatant | string {
+  const search = name.toLowerCase();
+  const exact = encounter.combatants.find((c) => c.name.toLowerCase() === search);
+  if (exact) return exact;
+
+  const partial = encounter.combatants.filter((c) => c.name.toLowerCase().includes(search));
+  if (partial.length === 1) return partial[0];
+  if (partial.length > 1) {
+    return `"${name}" matches several combatants: ${partial.map((c) => c.name).join(", ")}. Be more specific.`;
+  }
+  return `No combatant named "${name}" in ${encounter.name}.`;
+}
+
+/**
+ * Sort by initiative (highest first), breaking ties on initiative bonus and
+ * then name. Keeps the turn pointer on whoever is currently acting.
+ */
+function sortCombatants(encounter: Encounter): void {
+  const current = encounter.round > 0 ? encounter.combatants[encounter.turnIndex] : undefined;
+  encounter.combatants.sort(
+    (a, b) =>
+      (b.initiative ?? -Infinity) - (a.initiative ?? -Infinity) ||
+      b.initiativeBonus - a.initiativeBonus ||
+      a.name.localeCompare(b.name)
+  );
+  if (current) encounter.turnIndex = encounter.combatants.indexOf(current);
+}
+
+function formatCombatant(c: Combatant, isCurrent: boolean): string {
+  const marker = isCurrent ? "▶" : " ";
+  const init = c.initiative === null ? "--" : String(c.initiative).padStart(2);
+  const temp = c.tempHp > 0 ? ` +${c.tempHp} temp` : "";
+  let line = `${marker} ${init}  ${c.name} (AC ${c.ac}, HP ${c.currentHp}/${c.maxHp}${temp})`;
+  if (c.conditions.length > 0) line += ` [${c.conditions.join(", ")}]`;
+  if (isDefeated(c)) line += " — defeated";
+  else if (c.kind === "character" && c.currentHp <= 0) line += " — dying";
+  return line;
+}
+
+function formatEncounter(encounter: Encounter): string {
+  const header = encounter.round > 0
+    ? `## ${encounter.name} — Round ${encounter.round}`
+    : `## ${encounter.name} — Initiative not rolled`;
+  const lines = [header, ""];
+  if (encounter.combatants.length === 0) {
+    lines.push("No combatants yet. Use add_combatant to add monsters or characters.");
+    return lines.join("\n");
+  }
+  encounter.combatants.forEach((c, i) => {
+    lines.push(formatCombatant(c, encounter.round > 0 && i === encounter.turnIndex));
+  });
+  return lines.join("\n");
+}
+
+interface StartEncounterParams {
+  name?: string;
+  campaignId?: number;
+}
+
+/**
+ * Start a new encounter, optionally seeding it with every character in a campaign.
+ * Sheets are fetched through DdbClient.getMany; members whose sheet fails to load
+ * are listed so they can be added by hand.
+ */
+export async function startEncounter(
+  client: DdbClient,
+  tracker: EncounterTracker,
+  params: StartEncounterParams
+): Promise<ToolResult> {
+  if (tracker.encounter) {
+    return text(`"${tracker.encounter.name}" is still running. Use end_encounter before starting a new one.`);
+  }
+
+  const encounter: Encounter = {
+    name: params.name ?? "Encounter",
+    campaignId: params.campaignId,
+    combatants: [],
+    round: 0,
+    turnIndex: 0,
+  };
+
+  const failed: string[] = [];
+  if (params.campaignId !== undefined) {
+    const party = await client.get<DdbCampaignCharacter2[]>(
+      ENDPOINTS.campaign.characters(params.campaignId),
+      `campaign:${params.campaignId}:characters`,
+      300_000
+    );
+    // One sheet that can't be loaded leaves that member out rather than stopping the encounter
+    const sheets = await client.getMany<DdbCharacter>(party.map((member) => ({
+      url: ENDPOINTS.character.get(member.id),
+      cacheKey: `character:${member.id}`,
+      ttl: 60_000,
+    })));
+    sheets.forEach((sheet, i) => {
+      if (sheet.status === "fulfilled") {
+        encounter.combatants.push(characterCombatant(sheet.value));
+      } else {
+        const reason = sheet.reason instanceof Error ? sheet.reason.message : String(sheet.reason);
+        failed.push(`- ${party[i].name} (character ${party[i].id}): ${reason}`);
+      }
+    });
+  }
+
+  tracker.encounter = encounter;
+  const lines = [`Started ${encounter.name}.`, "", formatEncounter(encounter)];
+  if (failed.length > 0) {
+    lines.push("", "Could not load these party members; add them with add_combatant once their sheets load:", ...failed);
+  }
+  return text(lines.join("\n"));
+}
+
+interface AddCombatantParams {
+  monsterName?: string;
+  count?: number;
+  characterId?: number;
+  characterName?: string;
+  /** Display name override for monsters (e.g. "Grix the Goblin Boss"). */
+  name?: string;
+  /** Use a rolled-at-the-table initiative instead of rolling one. */
+  initiative?: number;
+}
+
+/**
+ * Add a party member or one or more copies of a monster to the encounter.
+ * Monsters are looked up like get_monster, local homebrew first.
+ * Combatants joining after initiative has been rolled roll immediately.
+ */
+export async function addCombatant(
+  client: DdbClient,
+  tracker: EncounterTracker,
+  params: AddCombatantParams,
+  homebrew?: HomebrewStore | null,
+  random: RandomSource = Math.random
+): Promise<ToolResult> {
+  const encounter = tracker.encounter;
+  if (!encounter) return text(NO_ENCOUNTER);
+
+  const added: Combatant[] = [];
+
+  if (params.monsterName) {
+    const found = await findMonster(client, params.monsterName, homebrew);
+    if (!found) return text(`Monster "${params.monsterName}" not found.`);
+
+    const baseName = params.name ?? found.monster.name;
+    const count = Math.max(1, params.count ?? 1);
+    // Copies are "Goblin" or "Goblin 2", not "Goblin Boss"
+    const isCopy = (name: string) =>
+      name === baseName || (name.startsWith(`${baseName} `) && /^\d+$/.test(name.slice(baseName.length + 1)));
+    const existing = encounter.combatants.filter((c) => c.kind === "monster" && isCopy(c.name));
+    // Number copies once there is more than one of the same monster
+    if (existing.length === 1 && existing[0].name === baseName) existing[0].name = `${baseName} 1`;
+    const numbered = existing.length + count > 1;
+    for (let i = 1; i <= count; i++) {
+      const name = numbered ? `${baseName} ${existing.length + i}` : baseName;
+      added.push(monsterCombatant(found.monster, name));
+    }
+  } else if (params.characterId || params.characterName) {
+    const idOrError = await resolveCharacterId(client, params);
+    if (typeof idOrError === "string") return text(idOrError);
+    if (encounter.combatants.some((c) => c.kind === "character" && c.sourceId === idOrError)) {
+      return text(`Character ${idOrError} is already in ${encounter.name}.`);
+    }
+    added.push(characterCombatant(await fetchCharacter(client, idOrError)));
+  } else {
+    return text("Provide monsterName, characterId, or characterName.");
+  }
+
+  for (const c of added) {
+    if (params.initiative !== undefined) c.initiative = params.initiative;
+    else if (encounter.round > 0) c.initiative = rollD20(random) + c.initiativeBonus;
+    encounter.combatants.push(c);
+  }
+  if (encounter.round > 0) sortCombatants(encounter);
+
+  return text(`Added ${added.map((c) => c.name).join(", ")} to ${encounter.name}.\n\n${formatEncounter(encounter)}`);
+}
+
+interface RollInitiativeParams {
+  /** Initiatives rolled at the table, keyed by combatant name. */
+  overrides?: Array<{ combatant: string; initiative: number }>;
+  /** Re-roll combatants that already have an initiative. */
+  reroll?: boolean;
+}
+
+/**
+ * Roll initiative (d20 + bonus) for every combatant that doesn't have one yet,
+ * sort the turn order and start round 1.
+ */
+export function rollInitiative(
+  tracker: EncounterTracker,
+  params: RollInitiativeParams,
+  random: RandomSource = Math.random
+): ToolResult {
+  const encounter = tracker.encounter;
+  if (!encounter) return text(NO_ENCOUNTER);
+  if (encounter.combatants.length === 0) return text(`${encounter.name} has no combatants yet.`);
+
+  // Overrides name combatants partially, so remember who they resolved to
+  const overridden = new Set<Combatant>();
+  for (const override of params.overrides ?? []) {
+    const combatant = findCombatant(encounter, override.combatant);
+    if (typeof combatant === "string") return text(combatant);
+    combatant.initiative = override.initiative;
+    overridden.add(combatant);
+  }
+
+  const rolls: string[] = [];
+  for (const c of encounter.combatants) {
+    if (overridden.has(c)) continue;
+    if (c.initiative !== null && !params.reroll) continue;
+    const roll = rollD20(random);
+    c.initiative = roll + c.initiativeBonus;
+    rolls.push(`${c.name}: ${roll} ${signed(c.initiativeBonus)} = ${c.initiative}`);
+  }
+
+  encounter.round = Math.max(encounter.round, 1);
+  sortCombatants(encounter);
+  encounter.turnIndex = 0;
+
+  const lines = [];
+  if (rolls.length > 0) lines.push("**Rolls:**", ...rolls, "");
+  lines.push(formatEncounter(encounter));
+  return text(lines.join("\n"));
+}
+
+/**
+ * Advance to the next combatant, skipping defeated monsters and starting a new
+ * round after the last one.
+ */
+export function nextTurn(tracker: EncounterTracker): ToolResult {
+  const encounter = tracker.encounter;
+  if (!encounter) return text(NO_ENCOUNTER);
+  if (encounter.round === 0) return text("Initiative hasn't been rolled yet. Use roll_initiative first.");
+  if (encounter.combatants.every(isDefeated)) {
+    return text(`Every combatant in ${encounter.name} is defeated. Use end_encounter to wrap up.`);
+  }
+
+  do {
+    encounter.turnIndex++;
+    if (encounter.turnIndex >= encounter.combatants.length) {
+      encounter.turnIndex = 0;
+      encounter.round++;
+    }
+  } while (isDefeated(encounter.combatants[encounter.turnIndex]));
+
+  const current = encounter.combatants[encounter.turnIndex];
+  return text(`**${current.name}'s turn** (round ${encounter.round})\n\n${formatEncounter(encounter)}`);
+}
+
+export function getEncounter(tracker: EncounterTracker): ToolResult {
+  if (!tracker.encounter) return text(NO_ENCOUNTER);
+  return text(formatEncounter(tracker.encounter));
+}
+
+interface DamageCombatantParams {
+  combatant: string;
+  /** Positive heals, negative damages. */
+  hpChange: number;
+  dryRun?: boolean;
+}
+
+/** Damage comes off temporary HP first; healing leaves temporary HP alone. */
+function absorbDamage(tempHp: number, hpChange: number): { hpChange: number; tempHp: number } {
+  if (hpChange >= 0) return { hpChange, tempHp };
+  const absorbed = Math.min(tempHp, -hpChange);
+  return { hpChange: hpChange + absorbed, tempHp: tempHp - absorbed };
+}
+
+/**
+ * Apply damage or healing, taking damage off temporary HP first. Monster HP is
+ * tracked locally; character HP is written to D&D Beyond through updateHp and
+ * then read back. A dry run leaves both untouched.
+ */
+export async function damageCombatant(
+  client: DdbClient,
+  tracker: EncounterTracker,
+  params: DamageCombatantParams,
+  journal?: MutationJournal | null,
+  profile?: PermissionProfile | null
+): Promise<ToolResult> {
+  const encounter = tracker.encounter;
+  if (!encounter) return text(NO_ENCOUNTER);
+  const combatant = findCombatant(encounter, params.combatant);
+  if (typeof combatant === "string") return text(combatant);
+  const denied = await checkCombatant(client, combatant, profile);
+  if (denied) return { ...text(denied), isError: true };
+
+  if (combatant.kind === "character") {
+    const character = await fetchCharacter(client, combatant.sourceId);
+    const tempHp = character.temporaryHitPoints ?? 0;
+    const split = absorbDamage(tempHp, params.hpChange);
+    const result = await updateHp(client, {
+      characterId: combatant.sourceId,
+      hpChange: split.hpChange,
+      tempHp: split.tempHp !== tempHp ? split.tempHp : undefined,
+      dryRun: params.dryRun,
+    }, journal);
+    if (params.dryRun) return text(result.content[0].text);
+    // Show what D&D Beyond has now rather than what the write was meant to do
+    const updated = await fetchCharacter(client, combatant.sourceId);
+    combatant.currentHp = calculateCurrentHp(updated);
+    combatant.maxHp = calculateMaxHp(updated);
+    combatant.tempHp = updated.temporaryHitPoints ?? 0;
+    return text(`${result.content[0].text}\n\n${formatEncounter(encounter)}`);
+  }
+
+  const split = absorbDamage(combatant.tempHp, params.hpChange);
+  const newHp = Math.max(0, Math.min(combatant.maxHp, combatant.currentHp + split.hpChange));
+  if (params.dryRun) {
+    return text(`**Dry run — encounter unchanged.**\nWould set ${combatant.name}'s HP: ${combatant.currentHp}/${combatant.maxHp} → ${newHp}/${combatant.maxHp}`);
+  }
+  combatant.currentHp = newHp;
+  combatant.tempHp = split.tempHp;
+  const action = params.hpChange >= 0 ? "Healed" : "Damaged";
+  let summary = `${action} ${combatant.name} for ${Math.abs(params.hpChange)} HP. Current HP: ${combatant.currentHp}/${combatant.maxHp}`;
+  if (isDefeated(combatant)) summary += `. ${combatant.name} is defeated.`;
+  return text(`${summary}\n\n${formatEncounter(encounter)}`);
+}
+
+interface SetCombatantConditionParams {
+  combatant: string;
+  conditionId: number;
+  level?: number;
+  remove?: boolean;
+  dryRun?: boolean;
+}
+
+/**
+ * Apply or remove a condition. Monster conditions are tracked locally;
+ * character conditions are written through addCondition/removeCondition.
+ */
+export async function setCombatantCondition(
+  client: DdbClient,
+  tracker: EncounterTracker,
+  params: SetCombatantConditionParams,
+  journal?: MutationJournal | null,
+  profile?: PermissionProfile | null
+): Promise<ToolResult> {
+  const encounter = tracker.encounter;
+  if (!encounter) return text(NO_ENCOUNTER);
+  const combatant = findCombatant(encounter, params.combatant);
+  if (typeof combatant === "string") return text(combatant);
+  const denied = await checkCombatant(client, combatant, profile);
+  if (denied) return { ...text(denied), isError: true };
+
+  const name = CONDITION_NAMES[params.conditionId];
+  if (!name) return text(`Unknown condition ID ${params.conditionId}. Use 1-15.`);
+
+  if (combatant.kind === "character") {
+    if (params.remove) {
+      const result = await removeCondition(client, {
+        characterId: combatant.sourceId,
+        conditionId: params.conditionId,
+        dryRun: params.dryRun,
+      }, journal);
+      if (params.dryRun) return text(result.content[0].text);
+    } else {
+      const result = await addCondition(client, {
+        characterId: combatant.sourceId,
+        conditionId: params.conditionId,
+        level: params.level,
+        dryRun: params.dryRun,
+      }, journal);
+      if (params.dryRun) return text(result.content[0].text);
+    }
+  }
+
+  if (params.dryRun) {
+    const verb = params.remove ? `remove ${name} from` : `apply ${name} to`;
+    return text(`**Dry run — encounter unchanged.**\nWould ${verb} ${combatant.name}.`);
+  }
+
+  combatant.conditions = combatant.conditions.filter((c) => !c.startsWith(name));
+  if (!params.remove) {
+    combatant.conditions.push(params.level ? `${name} ${params.level}` : name);
+  }
+
+  const verb = params.remove ? `Removed ${name} from` : `Applied ${name} to`;
+  return text(`${verb} ${combatant.name}.\n\n${formatEncounter(encounter)}`);
+}
+
+/**
+ * End the encounter, clearing local state and summarising the outcome.
+ */
+export function endEncounter(tracker: EncounterTracker): ToolResult {
+  const encounter = tracker.encounter;
+  if (!encounter) return text(NO_ENCOUNTER);
+  tracker.encounter = null;
+
+  const defeated = encounter.combatants.filter(isDefeated).map((c) => c.name);
+  const standing = encounter.combatants.filter((c) => !isDefeated(c));
+  const lines = [`Ended ${encounter.name} after ${encounter.round} round${encounter.round === 1 ? "" : "s"}.`];
+  if (defeated.length > 0) lines.push(`**Defeated:** ${defeated.join(", ")}`);
+  if (standing.length > 0) {
+    lines.push(`**Still standing:** ${standing.map((c) => `${c.name} (${c.currentHp}/${c.maxHp} HP)`).join(", ")}`);
+  }
+  return text(lines.join("\n"));
+}
@@ -0,0 +1,81 @@
+import type { DdbClient } from "../api/client.js";
+import type { MutationJournal } from "../journal/store.js";
+import { DRY_RUN_HEADER, dryRunResult, formatFieldValue, sendWrite, type FieldChange } from "./writes.js";
+
+interface ToolResult {
+  [key: string]: unknown;
+  content: Array<{ type: "text"; text: string }>;
+}
+
+const DISABLED_MESSAGE = "The change journal is disabled (DDB_JOURNAL=off).";
+
+interface UndoLastChangeParams {
+  /** Only consider changes to this character (default: the most recent change to any character). */
+  characterId?: number;
+  /** Show the requests that would restore the prior values without sending them. */
+  dryRun?: boolean;
+}
+
+function text(value: string): ToolResult {
+  return { content: [{ type: "text", text: value }] };
+}
+
+function formatChange(change: FieldChange, reverse = false): string {
+  const [from, to] = reverse ? [change.after, change.before] : [change.before, change.after];
+  return `- ${change.field}: ${formatFieldValue(from)} → ${formatFieldValue(to)}`;
+}
+
+/**
+ * Revert the most recent journaled write by replaying requests that restore
+ * the values the sheet had before it. Writes the journal can't reverse are
+ * reported and dropped, so the next undo reaches the change before them.
+ */
+export async function undoLastChange(
+  client: DdbClient,
+  params: UndoLastChangeParams,
+  journal: MutationJournal | null
+): Promise<ToolResult> {
+  if (!journal) return text(DISABLED_MESSAGE);
+
+  const entry = journal.latest(params.characterId);
+  if (!entry) {
+    const scope = params.characterId !== undefined ? ` for character ${params.characterId}` : "";
+    return text(`No changes recorded${scope} in this session.`);
+  }
+
+  const target = entry.characterId !== null ? `character ${entry.characterId}` : "a new character";
+
+  if (!entry.undo) {
+    if (!params.dryRun) journal.remove(entry.id);
+    const lines = params.dryRun ? [DRY_RUN_HEADER] : [];
+    lines.push(`The last change to ${target} can't be undone automatically; fix it by hand on D&D Beyond.`, "");
+    if (entry.changes.length > 0) {
+      lines.push("It changed:", ...entry.changes.map((c) => formatChange(c)));
+    } else {
+      lines.push("Requests sent:", ...entry.requests.map((r) => `- ${r.method} ${r.url}`));
+    }
+    lines.push("", params.dryRun
+      ? "Undoing it for real drops it from the journal, so the next undo reaches the change before it."
+      : "It has been dropped from the journal, so the next undo reaches the change before it.");
+    return text(lines.join("\n"));
+  }
+
+  if (params.dryRun) {
+    return dryRunResult(`undo the last change to ${target}`, {
+      characterId: entry.characterId,
+      requests: entry.undo,
+      changes: entry.changes.map((c) => ({ ...c, before: c.after, after: c.before })),
+      notes: entry.notes,
+    });
+  }
+
+  for (const request of entry.undo) {
+    await sendWrite(client, entry.characterId, request);
+  }
+  journal.remove(entry.id);
+
+  const lines = [`Undid the last change to ${target}.`];
+  if (entry.changes.length > 0) lines.push("", ...entry.changes.map((c) => formatChange(c, true)));
+  for (const note of entry.notes) lines.push("", `Note: ${note}`);
+  return text(lines.join("\n"));
+}
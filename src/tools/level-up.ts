@@ -0,0 +1,254 @@
+import type { DdbClient } from "../api/client.js";
+import type { MutationJournal } from "../journal/store.js";
+import type { DdbCharacter, DdbChoice, DdbClass } from "../types/character.js";
+import { computeLevel } from "../utils/character-calculations.js";
+import {
+  addClass,
+  choiceDefinitionOptions,
+  loadCharacter,
+  setClassLevel,
+  stripHtml,
+  unresolvedChoices,
+  type PendingChoice,
+} from "./character.js";
+import { loadClassCollection, loadClassFeatureCollection, type DdbClass as GameDataClass, type DdbClassFeature } from "./reference.js";
+
+interface ToolResult {
+  [key: string]: unknown;
+  content: Array<{ type: "text"; text: string }>;
+}
+
+interface LevelUpParams {
+  characterId: number;
+  /** Class to advance; one the character doesn't have yet is added at level 1 (multiclassing). */
+  className?: string;
+  /** Game-data class ID, to pick between editions of a class with the same name. */
+  classId?: number;
+  dryRun?: boolean;
+}
+
+/** The tool that resolves each choice category, and the arguments that identify the choice. */
+const CHOICE_TOOLS: Record<string, string> = {
+  class: "set_class_feature_choice",
+  feat: "set_feat_choice",
+  race: "set_race_trait_choice",
+  background: "set_background_choice",
+};
+
+function text(value: string): ToolResult {
+  return { content: [{ type: "text", text: value }] };
+}
+
+/** What kind of decision a feature or choice asks for, when it's one players usually plan around. */
+function choiceKind(name: string, picksSubclass = false): string | null {
+  if (picksSubclass) return "subclass";
+  if (/ability score|\basi\b/i.test(name)) return "ASI or feat";
+  if (/fighting style/i.test(name)) return "fighting style";
+  if (/spell|cantrip/i.test(name)) return "spells";
+  return null;
+}
+
+/** Option IDs and labels for a pending choice, from its optionIds or the sheet's choice definitions. */
+function choiceOptions(char: DdbCharacter, choice: DdbChoice): string[] {
+  const options = choiceDefinitionOptions(char, choice);
+  if (choice.optionIds?.length) {
+    return choice.optionIds.map((id) => {
+      const option = options.find((o) => o.id === id);
+      return option ? `${id} = ${option.label}` : String(id);
+    });
+  }
+  return options.map((o) => `${o.id} = ${o.label}`);
+}
+
+function choiceArguments(category: string, choice: DdbChoice, cls: DdbClass | undefined): Record<string, unknown> {
+  const common = { type: choice.type, choiceKey: choice.id };
+  switch (category) {
+    case "class":
+      return { classId: cls?.definition.id, classMappingId: cls?.id, classFeatureId: choice.componentId, ...common };
+    case "feat":
+      return { featId: choice.componentId, ...common };
+    case "race":
+      return { racialTraitId: choice.componentId, ...common };
+    default:
+      return common;
+  }
+}
+
+/**
+ * The level a class picks its subclass at: the lowest level any of its
+ * subclasses grants a feature. Subclass features are listed under the
+ * subclass's own ID in the class feature collection.
+ */
+function subclassLevel(gameClass: GameDataClass | undefined, allFeatures: DdbClassFeature[]): number | null {
+  const subclassIds = new Set((gameClass?.subclasses ?? []).map((s) => s.id));
+  const levels = allFeatures.filter((f) => subclassIds.has(f.classId)).map((f) => f.requiredLevel);
+  return levels.length > 0 ? Math.min(...levels) : null;
+}
+
+/**
+ * IDs of the class features that pick the subclass, e.g. Martial Archetype or
+ * Divine Domain: those at the subclass level that name one of its subclasses.
+ */
+function subclassFeatureIds(gameClass: GameDataClass | undefined, features: DdbClassFeature[]): Set<number> {
+  const names = (gameClass?.subclasses ?? []).map((s) => s.name.toLowerCase());
+  return new Set(features
+    .filter((f) => names.some((name) => stripHtml(`${f.snippet} ${f.description}`).toLowerCase().includes(name)))
+    .map((f) => f.id));
+}
+
+function formatChoice(
+  char: DdbCharacter,
+  { category, choice }: PendingChoice,
+  cls: DdbClass | undefined,
+  features: DdbClassFeature[],
+  picksSubclass: Set<number>
+): string[] {
+  const feature = features.find((f) => f.id === choice.componentId);
+  const title = feature && choice.label ? `${feature.name}: ${choice.label}` : feature?.name ?? choice.label ?? choice.id;
+  const kind = choiceKind(title, feature !== undefined && picksSubclass.has(feature.id));
+  const lines = [`- **${title}**${kind ? ` (${kind})` : ""}`];
+
+  const options = choiceOptions(char, choice);
+  if (options.length > 0) lines.push(`  Options: ${options.join(", ")}`);
+
+  const tool = CHOICE_TOOLS[category];
+  if (tool) {
+    lines.push(`  Resolve with ${tool}: ${JSON.stringify(choiceArguments(category, choice, cls))} plus choiceValue`);
+  } else {
+    lines.push("  Resolve this on D&D Beyond.");
+  }
+  return lines;
+}
+
+/** "Spells known: 6 → 7" lines for a class whose spell rules grant more at the new level. */
+function spellCountChanges(cls: DdbClass | undefined, level: number): string[] {
+  const rules = cls?.definition.spellRules;
+  if (!rules) return [];
+  const lines: string[] = [];
+  const counts: Array<[string, number[] | undefined]> = [
+    ["Cantrips known", rules.levelCantripsKnownMaxes],
+    ["Spells known", rules.levelSpellKnownMaxes],
+  ];
+  for (const [label, maxes] of counts) {
+    const before = maxes?.[level - 1] ?? 0;
+    const after = maxes?.[level] ?? 0;
+    if (after > before) lines.push(`- **${label}** (spells): ${before} → ${after}; pick ${after - before} new on D&D Beyond`);
+  }
+  return lines;
+}
+
+function formatFeatures(className: string, level: number, features: DdbClassFeature[], picksSubclass: Set<number>): string[] {
+  const lines = [`## ${className} Level ${level} Features`];
+  if (features.length === 0) {
+    lines.push("No new class features at this level.");
+    return lines;
+  }
+  for (const feature of features) {
+    const kind = choiceKind(feature.name, picksSubclass.has(feature.id));
+    const snippet = stripHtml(feature.snippet || feature.description).replace(/\s+/g, " ").substring(0, 160);
+    lines.push(`- **${feature.name}**${kind ? ` (${kind})` : ""}${snippet ? ` — ${snippet}` : ""}`);
+  }
+  return lines;
+}
+
+/**
+ * Advance a character one level in a class: raise an existing class with
+ * setClassLevel, or multiclass into a new one with addClass. Reports the class
+ * features the level grants and the choices it leaves open, with the tool and
+ * arguments that resolve each one, so the player decides rather than getting
+ * the first option.
+ */
+export async function levelUp(
+  client: DdbClient,
+  params: LevelUpParams,
+  journal?: MutationJournal | null
+): Promise<ToolResult> {
+  const character = await loadCharacter(client, params.characterId);
+  const classes = character.classes ?? [];
+
+  if (computeLevel(character) >= 20) {
+    return text(`${character.name} is already level 20.`);
+  }
+  if (params.className === undefined && params.classId === undefined && classes.length !== 1) {
+    const current = classes.map((c) => `${c.definition.name} ${c.level}`).join(", ") || "no classes";
+    return text(`Which class should ${character.name} level up? They have ${current}. Pass className or classId.`);
+  }
+
+  const gameClasses = await loadClassCollection(client);
+  const existing = params.classId !== undefined
+    ? classes.find((c) => c.definition.id === params.classId)
+    : params.className !== undefined
+      ? classes.find((c) => c.definition.name.toLowerCase() === params.className!.toLowerCase())
+      : classes[0];
+
+  let target: { classId: number; name: string; level: number };
+  let write: ToolResult;
+  if (existing) {
+    target = { classId: existing.definition.id, name: existing.definition.name, level: existing.level + 1 };
+    write = await setClassLevel(client, {
+      characterId: params.characterId,
+      classId: existing.definition.id,
+      classMappingId: existing.id,
+      level: target.level,
+      dryRun: params.dryRun,
+    }, journal);
+  } else {
+    const candidates = gameClasses.filter((c) =>
+      params.classId !== undefined ? c.id === params.classId : c.name.toLowerCase() === params.className!.toLowerCase()
+    );
+    if (candidates.length === 0) {
+      return text(`No class "${params.className ?? params.classId}" found. Use search_classes to find one.`);
+    }
+    if (candidates.length > 1) {
+      const list = candidates.map((c) => `- ${c.name} (classId ${c.id})${c.isHomebrew ? " [Homebrew]" : ""}`);
+      return text([`More than one class is named "${params.className}". Pass the classId of the one to add:`, ...list].join("\n"));
+    }
+    target = { classId: candidates[0].id, name: candidates[0].name, level: 1 };
+    write = await addClass(client, {
+      characterId: params.characterId,
+      classId: target.classId,
+      level: 1,
+      dryRun: params.dryRun,
+    }, journal);
+  }
+
+  if (write.isError) return write;
+
+  const allFeatures = await loadClassFeatureCollection(client);
+  const features = allFeatures
+    .filter((f) => f.classId === target.classId && f.requiredLevel === target.level)
+    .sort((a, b) => a.name.localeCompare(b.name));
+  const gameClass = gameClasses.find((c) => c.id === target.classId);
+  const picksSubclassAt = subclassLevel(gameClass, allFeatures);
+  const picksSubclass = target.level === picksSubclassAt ? subclassFeatureIds(gameClass, features) : new Set<number>();
+
+  if (params.dryRun) {
+    const lines = [write.content[0].text, "", ...formatFeatures(target.name, target.level, features, picksSubclass)];
+    lines.push("", "The choices this level opens are listed once it has been applied.");
+    return text(lines.join("\n"));
+  }
+
+  // The write invalidated the cached sheet, so this reads the leveled character
+  const leveled = await loadCharacter(client, params.characterId);
+  const cls = leveled.classes?.find((c) => c.definition.id === target.classId);
+  const before = new Set(unresolvedChoices(character).map((p) => p.choice.id));
+  const opened = unresolvedChoices(leveled).filter((p) => !before.has(p.choice.id));
+
+  const from = existing ? `${target.name} ${existing.level} → ${target.level}` : `added ${target.name} 1`;
+  const lines = [
+    `# ${leveled.name} Leveled Up: ${from} (character level ${computeLevel(leveled)})`,
+    "",
+    ...formatFeatures(target.name, target.level, features, picksSubclass),
+    "",
+    "## Choices to Make",
+  ];
+  const choices = [
+    ...opened.flatMap((pending) => formatChoice(leveled, pending, cls, features, picksSubclass)),
+    ...spellCountChanges(cls, target.level),
+  ];
+  if (!cls?.subclassDefinition && picksSubclassAt !== null && target.level >= picksSubclassAt) {
+    choices.push(`- **Subclass**: ${target.name} has no subclass yet; choose one on D&D Beyond.`);
+  }
+  lines.push(...(choices.length > 0 ? choices : ["No new choices to make."]));
+  return text(lines.join("\n"));
+}
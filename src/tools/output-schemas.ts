@@ -0,0 +1,375 @@
+import { z } from "zod";
+import { ACCESS_STATES } from "../access/content.js";
+
+/**
+ * Output schemas for tools that return `structuredContent` next to their
+ * markdown text. The text block stays the human-readable rendering; these
+ * objects carry the same data for scripts and agents that shouldn't have to
+ * parse markdown.
+ */
+
+const access = z.enum(ACCESS_STATES).describe("accessible (owned or shared via a campaign), free (Basic Rules/SRD), locked, or unknown when neither the entry nor its books say");
+const source = z.string().nullable().describe("Sourcebook titles, e.g. \"Basic Rules, Monster Manual\"");
+
+const abilityScore = z.object({
+  ability: z.string().describe("Ability abbreviation, e.g. STR"),
+  score: z.number(),
+  modifier: z.number(),
+});
+
+// --- Character sheet ---
+
+export const characterSheetSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  race: z.string(),
+  background: z.string().nullable(),
+  level: z.number(),
+  proficiencyBonus: z.number(),
+  classes: z.array(z.object({
+    name: z.string(),
+    subclass: z.string().nullable(),
+    level: z.number(),
+  })),
+  hitPoints: z.object({
+    current: z.number(),
+    max: z.number(),
+    temp: z.number(),
+  }),
+  armorClass: z.number(),
+  speed: z.number().describe("Walking speed in feet"),
+  initiative: z.number(),
+  passives: z.object({
+    perception: z.number(),
+    investigation: z.number(),
+    insight: z.number(),
+  }),
+  abilityScores: z.array(abilityScore),
+  savingThrows: z.array(z.object({
+    ability: z.string(),
+    bonus: z.number(),
+    proficient: z.boolean(),
+  })),
+  skills: z.array(z.object({
+    name: z.string(),
+    ability: z.string(),
+    bonus: z.number(),
+    proficient: z.boolean(),
+    expertise: z.boolean(),
+  })),
+  spellcasting: z.array(z.object({
+    className: z.string().nullable(),
+    saveDc: z.number(),
+    attackBonus: z.number(),
+  })),
+  spells: z.array(z.object({
+    name: z.string(),
+    level: z.number(),
+    prepared: z.boolean(),
+  })),
+  spellSlots: z.array(z.object({
+    level: z.number(),
+    used: z.number(),
+    available: z.number(),
+  })),
+  pactMagic: z.object({
+    level: z.number(),
+    used: z.number(),
+    available: z.number(),
+  }).nullable(),
+  limitedUseResources: z.array(z.object({
+    name: z.string(),
+    used: z.number(),
+    max: z.number(),
+    reset: z.string(),
+  })),
+  feats: z.array(z.string()),
+  classFeatures: z.array(z.string()),
+  racialTraits: z.array(z.string()),
+  inventory: z.array(z.object({
+    name: z.string(),
+    quantity: z.number(),
+    equipped: z.boolean(),
+  })),
+  currencies: z.object({
+    cp: z.number(),
+    sp: z.number(),
+    ep: z.number(),
+    gp: z.number(),
+    pp: z.number(),
+  }),
+  campaign: z.object({ id: z.number(), name: z.string() }).nullable(),
+});
+
+export type CharacterSheetData = z.infer<typeof characterSheetSchema>;
+
+// --- Attacks ---
+
+const damageRoll = z.object({
+  dice: z.string().nullable(),
+  bonus: z.number(),
+  type: z.string().nullable(),
+});
+
+export const attacksSchema = z.object({
+  characterId: z.number(),
+  name: z.string(),
+  attacks: z.array(z.object({
+    name: z.string(),
+    kind: z.enum(["weapon", "spell"]),
+    attackBonus: z.number().nullable().describe("Null for saving-throw spells"),
+    saveDc: z.number().nullable(),
+    saveAbility: z.string().nullable(),
+    damage: z.array(damageRoll),
+    versatileDamage: damageRoll.nullable().describe("Two-handed damage for versatile weapons"),
+    range: z.string().nullable(),
+    properties: z.array(z.string()),
+    notes: z.array(z.string()),
+  })),
+});
+
+export type AttacksData = z.infer<typeof attacksSchema>;
+
+// --- Spells ---
+
+export const spellDetailSchema = z.object({
+  name: z.string(),
+  level: z.number().describe("0 for cantrips"),
+  school: z.string(),
+  castingTime: z.string(),
+  range: z.string(),
+  components: z.array(z.string()),
+  duration: z.string(),
+  concentration: z.boolean(),
+  ritual: z.boolean(),
+  classes: z.array(z.string()),
+  subclassLists: z.array(z.string()),
+  description: z.string(),
+  source,
+  access,
+  localHomebrew: z.boolean(),
+});
+
+export type SpellDetailData = z.infer<typeof spellDetailSchema>;
+
+export const spellSearchSchema = z.object({
+  total: z.number(),
+  results: z.array(z.object({
+    name: z.string(),
+    level: z.number(),
+    school: z.string(),
+    concentration: z.boolean(),
+    ritual: z.boolean(),
+    classes: z.array(z.string()),
+    expandedList: z.string().nullable().describe("Subclass whose expanded list adds this spell"),
+    source,
+    access,
+    localHomebrew: z.boolean(),
+  })),
+});
+
+export type SpellSearchData = z.infer<typeof spellSearchSchema>;
+
+// --- Monsters ---
+
+const monsterAction = z.object({
+  kind: z.enum(["trait", "action", "bonus action", "reaction", "legendary", "mythic"]),
+  name: z.string(),
+  attackType: z.string().nullable().describe('e.g. "melee weapon", "ranged spell"'),
+  toHit: z.number().nullable(),
+  reach: z.number().nullable().describe("Feet"),
+  range: z.object({ normal: z.number(), long: z.number().nullable() }).nullable().describe("Feet"),
+  damage: z.array(z.object({ average: z.number(), dice: z.string().nullable(), type: z.string() })),
+  save: z.object({ dc: z.number(), ability: z.string() }).nullable(),
+  recharge: z.string().nullable().describe('"5-6", "6" or "short or long rest"'),
+  usesPerDay: z.number().nullable(),
+  legendaryCost: z.number().nullable(),
+  description: z.string(),
+});
+
+export const monsterStatBlockSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  size: z.string(),
+  type: z.string(),
+  alignment: z.string(),
+  armorClass: z.number(),
+  armorClassDescription: z.string().nullable(),
+  hitPoints: z.number(),
+  hitDice: z.string().nullable(),
+  speeds: z.array(z.object({ mode: z.string(), feet: z.number() })),
+  abilityScores: z.array(abilityScore),
+  savingThrows: z.array(z.object({ ability: z.string(), bonus: z.number() })),
+  skills: z.string().nullable(),
+  senses: z.array(z.string()),
+  passivePerception: z.number(),
+  languages: z.string().nullable(),
+  challengeRating: z.number().nullable(),
+  xp: z.number(),
+  legendary: z.boolean(),
+  traits: z.string().nullable(),
+  actions: z.string().nullable(),
+  bonusActions: z.string().nullable(),
+  reactions: z.string().nullable(),
+  legendaryActions: z.string().nullable(),
+  mythicActions: z.string().nullable(),
+  parsedActions: z.array(monsterAction).describe("Traits and actions parsed into attacks, damage, saves and limits"),
+  restricted: z.boolean().describe("True when the full stat block requires content ownership"),
+  source,
+  access,
+  homebrew: z.boolean(),
+  localHomebrew: z.boolean(),
+});
+
+export type MonsterStatBlockData = z.infer<typeof monsterStatBlockSchema>;
+
+export const monsterSearchSchema = z.object({
+  total: z.number(),
+  results: z.array(z.object({
+    id: z.number(),
+    name: z.string(),
+    challengeRating: z.number().nullable(),
+    size: z.string(),
+    type: z.string(),
+    armorClass: z.number(),
+    hitPoints: z.number(),
+    legendary: z.boolean(),
+    source,
+    access,
+    homebrew: z.boolean(),
+    localHomebrew: z.boolean(),
+  })),
+});
+
+export type MonsterSearchData = z.infer<typeof monsterSearchSchema>;
+
+// --- Items ---
+
+export const itemDetailSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  type: z.string().nullable(),
+  rarity: z.string(),
+  requiresAttunement: z.boolean(),
+  attunementDescription: z.string().nullable(),
+  weight: z.number().nullable(),
+  armorClass: z.number().nullable(),
+  damage: z.string().nullable(),
+  properties: z.array(z.string()),
+  description: z.string(),
+  source,
+  access,
+  homebrew: z.boolean(),
+  localHomebrew: z.boolean(),
+});
+
+export type ItemDetailData = z.infer<typeof itemDetailSchema>;
+
+export const itemSearchSchema = z.object({
+  total: z.number().describe("All matches; results holds at most 30"),
+  results: z.array(z.object({
+    id: z.number(),
+    name: z.string(),
+    rarity: z.string(),
+    type: z.string().nullable(),
+    requiresAttunement: z.boolean(),
+    source,
+    access,
+    localHomebrew: z.boolean(),
+  })),
+});
+
+export type ItemSearchData = z.infer<typeof itemSearchSchema>;
+
+// --- Feats ---
+
+export const featSearchSchema = z.object({
+  total: z.number(),
+  results: z.array(z.object({
+    id: z.number(),
+    name: z.string(),
+    prerequisite: z.string().nullable(),
+    snippet: z.string(),
+    source,
+    access,
+    localHomebrew: z.boolean(),
+  })),
+});
+
+export type FeatSearchData = z.infer<typeof featSearchSchema>;
+
+// --- Classes, races and backgrounds ---
+
+export const classSearchSchema = z.object({
+  total: z.number(),
+  results: z.array(z.object({
+    id: z.number(),
+    name: z.string(),
+    hitDie: z.number().nullable().describe("Hit die size, e.g. 10 for d10"),
+    spellcastingAbility: z.string().nullable(),
+    subclasses: z.array(z.string()),
+    description: z.string(),
+    source,
+    access,
+  })),
+});
+
+export type ClassSearchData = z.infer<typeof classSearchSchema>;
+
+export const raceSearchSchema = z.object({
+  total: z.number(),
+  results: z.array(z.object({
+    id: z.number(),
+    name: z.string(),
+    baseName: z.string(),
+    legacy: z.boolean(),
+    subrace: z.boolean(),
+    description: z.string(),
+    source,
+    access,
+  })),
+});
+
+export type RaceSearchData = z.infer<typeof raceSearchSchema>;
+
+export const backgroundSearchSchema = z.object({
+  total: z.number(),
+  results: z.array(z.object({
+    id: z.number(),
+    name: z.string(),
+    description: z.string(),
+    source,
+    access,
+  })),
+});
+
+export type BackgroundSearchData = z.infer<typeof backgroundSearchSchema>;
+
+export const classFeatureSearchSchema = z.object({
+  total: z.number().describe("All matches; results holds at most 30"),
+  results: z.array(z.object({
+    id: z.number(),
+    name: z.string(),
+    className: z.string().nullable(),
+    level: z.number(),
+    snippet: z.string(),
+    source,
+    access,
+  })),
+});
+
+export type ClassFeatureSearchData = z.infer<typeof classFeatureSearchSchema>;
+
+export const racialTraitSearchSchema = z.object({
+  total: z.number().describe("All matches; results holds at most 30"),
+  results: z.array(z.object({
+    id: z.number(),
+    name: z.string(),
+    raceName: z.string().nullable(),
+    snippet: z.string(),
+    source,
+    access,
+  })),
+});
+
+export type RacialTraitSearchData = z.infer<typeof racialTraitSearchSchema>;
@@ -0,0 +1,141 @@
+import type { DdbClient } from "../api/client.js";
+import { ENDPOINTS } from "../api/endpoints.js";
+import type { DdbCampaign, DdbCampaignCharacter2 } from "../types/api.js";
+import type { DdbCharacter } from "../types/character.js";
+import {
+  SKILL_DEFINITIONS,
+  calculateAc,
+  calculateCurrentHp,
+  calculateMaxHp,
+  calculatePassiveScore,
+  computeLevel,
+} from "../utils/character-calculations.js";
+import { CONDITION_NAMES } from "./character.js";
+
+const CAMPAIGN_CACHE_TTL = 5 * 60 * 1000; // 5 minutes
+const EXHAUSTION_ID = 15;
+
+interface ToolResult {
+  [key: string]: unknown;
+  content: Array<{ type: "text"; text: string }>;
+}
+
+interface GetPartyStatusParams {
+  campaignId: number;
+}
+
+function ordinal(n: number): string {
+  if (n === 1) return "1st";
+  if (n === 2) return "2nd";
+  if (n === 3) return "3rd";
+  return `${n}th`;
+}
+
+function passive(char: DdbCharacter, name: string): number {
+  return calculatePassiveScore(char, SKILL_DEFINITIONS.find((s) => s.name === name)!);
+}
+
+function formatSlots(char: DdbCharacter): string | null {
+  const slots = (char.spellSlots ?? [])
+    .filter((slot) => slot.available > 0)
+    .map((slot) => `${ordinal(slot.level)} ${slot.available - slot.used}/${slot.available}`);
+  if (char.pactMagic && char.pactMagic.available > 0) {
+    const { level, used, available } = char.pactMagic;
+    slots.push(`Pact (${ordinal(level)}) ${available - used}/${available}`);
+  }
+  return slots.length > 0 ? slots.join(", ") : null;
+}
+
+function formatResources(char: DdbCharacter): string | null {
+  const resources: string[] = [];
+  for (const list of Object.values(char.actions ?? {})) {
+    if (!Array.isArray(list)) continue;
+    for (const action of list) {
+      if (!action.limitedUse) continue;
+      const { maxUses, numberUsed, resetTypeDescription } = action.limitedUse;
+      resources.push(`${action.name} ${maxUses - numberUsed}/${maxUses}${resetTypeDescription ? ` (${resetTypeDescription})` : ""}`);
+    }
+  }
+  return resources.length > 0 ? resources.join(", ") : null;
+}
+
+function formatConditions(char: DdbCharacter): { conditions: string; exhaustion: number } {
+  let exhaustion = 0;
+  const names: string[] = [];
+  for (const condition of char.conditions ?? []) {
+    if (condition.id === EXHAUSTION_ID) {
+      exhaustion = condition.level ?? 1;
+      continue;
+    }
+    names.push(CONDITION_NAMES[condition.id] ?? `Condition ${condition.id}`);
+  }
+  return { conditions: names.length > 0 ? names.join(", ") : "None", exhaustion };
+}
+
+function formatMember(char: DdbCharacter, player: string): string {
+  const classes = (char.classes ?? []).map((c) => `${c.definition.name} ${c.level}`).join(" / ");
+  const temp = char.temporaryHitPoints ? ` (+${char.temporaryHitPoints} temp)` : "";
+  const { conditions, exhaustion } = formatConditions(char);
+  const lines = [
+    `## ${char.name} — ${char.race?.fullName ?? "Unknown"} ${classes} (Level ${computeLevel(char)}, ${player})`,
+    `HP ${calculateCurrentHp(char)}/${calculateMaxHp(char)}${temp} | AC ${calculateAc(char)}`,
+    `Passive Perception ${passive(char, "Perception")} | Insight ${passive(char, "Insight")} | Investigation ${passive(char, "Investigation")}`,
+  ];
+  const slots = formatSlots(char);
+  if (slots) lines.push(`Spell slots: ${slots}`);
+  const resources = formatResources(char);
+  if (resources) lines.push(`Resources: ${resources}`);
+  lines.push(
+    `Conditions: ${conditions} | Exhaustion: ${exhaustion} | Inspiration: ${char.inspiration ? "Yes" : "No"}`
+  );
+  return lines.join("\n");
+}
+
+/**
+ * Party dashboard text for a campaign: every character's HP, AC, passives,
+ * slots, resources and conditions. Character sheets are fetched through
+ * DdbClient.getMany so the batch stays inside the rate limit.
+ */
+export async function buildPartyDashboard(client: DdbClient, campaignId: number): Promise<string> {
+  const campaigns = await client.get<DdbCampaign[]>(
+    ENDPOINTS.campaign.list(),
+    "campaigns",
+    CAMPAIGN_CACHE_TTL
+  );
+  const campaign = campaigns.find((c) => c.id === campaignId);
+  if (!campaign) return `Campaign ${campaignId} not found.`;
+
+  const members = await client.get<DdbCampaignCharacter2[]>(
+    ENDPOINTS.campaign.characters(campaignId),
+    `campaign:${campaignId}:characters`,
+    CAMPAIGN_CACHE_TTL
+  );
+  if (members.length === 0) return `Campaign "${campaign.name}" has no characters yet.`;
+
+  const sheets = await client.getMany<DdbCharacter>(
+    members.map((m) => ({
+      url: ENDPOINTS.character.get(m.id),
+      cacheKey: `character:${m.id}`,
+      ttl: 60_000,
+    }))
+  );
+
+  const sections = members.map((member, i) => {
+    const sheet = sheets[i];
+    if (sheet.status === "rejected") {
+      const reason = sheet.reason instanceof Error ? sheet.reason.message : String(sheet.reason);
+      return `## ${member.name} (${member.userName})\nCould not load character ${member.id}: ${reason}`;
+    }
+    return formatMember(sheet.value, member.userName);
+  });
+
+  return [`# Party Status — ${campaign.name}`, "", sections.join("\n\n")].join("\n");
+}
+
+export async function getPartyStatus(
+  client: DdbClient,
+  params: GetPartyStatusParams
+): Promise<ToolResult> {
+  const text = await buildPartyDashboard(client, params.campaignId);
+  return { content: [{ type: "text", text }] };
+}
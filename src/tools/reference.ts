@@ -1,25 +1,75 @@
 import { DdbClient } from "../api/client.js";
-import { SpellSearchParams, MonsterSearchParams, ItemSearchParams, FeatSearchParams, RaceSearchParams, BackgroundSearchParams, ClassFeatureSearchParams, RacialTraitSearchParams } from "../types/reference.js";
+import { GameConfig, DdbMonster, DdbItem, DdbCompendiumFeat, MonsterServiceResponse, MonsterServiceSingleResponse, SpellSearchParams, MonsterSearchParams, ItemSearchParams, FeatSearchParams, RaceSearchParams, BackgroundSearchParams, ClassFeatureSearchParams, RacialTraitSearchParams } from "../types/reference.js";
 import { DdbCharacter, DdbSpell } from "../types/character.js";
 import { ENDPOINTS } from "../api/endpoints.js";
+import { HomebrewStore, HOMEBREW_TAG, isLocalHomebrew, markLocalHomebrew } from "../homebrew/store.js";
+import { parseMonsterActions } from "../utils/monster-actions.js";
+import { indexMonster, type IndexedMonster, type MonsterIndex } from "../monsters/monster-index.js";
+import { accessFromType, accessTag, canOpen, ContentAccess, freeSourceIds, SourceAccess, type AccessState } from "../access/content.js";
+import { inSource, SourceCatalog, type SourceBook } from "../sources/catalog.js";
+import { scaleStatBlock, type MonsterTemplate, type ScaledMonster } from "../monsters/scaling.js";
+import type {
+  SpellDetailData,
+  SpellSearchData,
+  MonsterStatBlockData,
+  MonsterSearchData,
+  ItemDetailData,
+  ItemSearchData,
+  FeatSearchData,
+  ClassSearchData,
+  RaceSearchData,
+  BackgroundSearchData,
+  ClassFeatureSearchData,
+  RacialTraitSearchData,
+} from "./output-schemas.js";
 
 interface ToolResult {
   [key: string]: unknown;
   content: Array<{ type: "text"; text: string }>;
 }
 
-// --- Game config / enum lookup tables ---
+// --- Local homebrew overlay ---
+
+function localTag(entry: object): string {
+  return isLocalHomebrew(entry) ? ` ${HOMEBREW_TAG}` : "";
+}
+
+function sourceIds(sources: Array<{ sourceId: number }> | null | undefined): number[] {
+  return (sources ?? []).map((s) => s.sourceId);
+}
+
+/**
+ * Access rules for the catalog's books. Book states come from the monster
+ * index, so entries without their own code fall back to unknown until it's built.
+ */
+function contentAccess(client: DdbClient, catalog: SourceCatalog, index?: MonsterIndex | null): ContentAccess {
+  index?.start(client);
+  return ContentAccess.fromCatalog(catalog, index?.ready ? index.monsters : []);
+}
+
+/** An entry's access; local homebrew is always accessible. */
+function entryAccess(
+  entry: object,
+  accessType: number | null | undefined,
+  sources: Array<{ sourceId: number }> | null | undefined,
+  rules: ContentAccess
+): AccessState {
+  return isLocalHomebrew(entry) ? "accessible" : rules.resolve(accessFromType(accessType), sourceIds(sources));
+}
+
+function spellAccess(spell: CompendiumSpell, rules: ContentAccess): AccessState {
+  return entryAccess(spell, spell.definition.accessType, spell.definition.sources, rules);
+}
 
-interface GameConfig {
-  challengeRatings: Array<{ id: number; value: number; xp: number; proficiencyBonus: number }>;
-  monsterTypes: Array<{ id: number; name: string }>;
-  environments: Array<{ id: number; name: string }>;
-  alignments: Array<{ id: number; name: string }>;
-  damageTypes: Array<{ id: number; name: string }>;
-  senses: Array<{ id: number; name: string }>;
-  sources?: Array<{ id: number; name: string }>;
+/** Appends local homebrew entries, replacing D&D Beyond entries with the same name. */
+function overlayHomebrew<T>(entries: T[], local: T[], nameOf: (entry: T) => string): T[] {
+  if (local.length === 0) return entries;
+  const localNames = new Set(local.map((e) => nameOf(e).toLowerCase()));
+  return [...entries.filter((e) => !localNames.has(nameOf(e).toLowerCase())), ...local];
 }
 
+// --- Game config / enum lookup tables ---
+
 const SIZE_MAP: Record<number, string> = {
   2: "Tiny", 3: "Small", 4: "Medium", 5: "Large", 6: "Huge", 7: "Gargantuan",
 };
@@ -32,28 +82,9 @@ const MOVEMENT_NAMES: Record<number, string> = {
   1: "walk", 2: "burrow", 3: "climb", 4: "fly", 5: "swim",
 };
 
-// Hardcoded source book map as fallback if config doesn't have sources
-const SOURCE_MAP: Record<string, number> = {
-  "monster manual": 1,
-  "volos guide": 2,
-  "volos guide to monsters": 2,
-  "mordenkainens tome": 3,
-  "mordenkainens tome of foes": 3,
-  "fizbans treasury": 4,
-  "fizbans treasury of dragons": 4,
-  "tomb of annihilation": 9,
-  "curse of strahd": 1,
-  "hoard of the dragon queen": 1,
-  "princes of the apocalypse": 2,
-  "out of the abyss": 2,
-  "storm kings thunder": 3,
-  "tales from the yawning portal": 7,
-  "tomb of horrors": 9,
-};
-
 let cachedConfig: GameConfig | null = null;
 
-async function getGameConfig(client: DdbClient): Promise<GameConfig> {
+export async function getGameConfig(client: DdbClient): Promise<GameConfig> {
   if (cachedConfig) return cachedConfig;
   cachedConfig = await client.getRaw<GameConfig>(
     ENDPOINTS.config.json(),
@@ -63,150 +94,173 @@ async function getGameConfig(client: DdbClient): Promise<GameConfig> {
   return cachedConfig;
 }
 
-// --- Monster service types ---
-
-interface MonsterServiceResponse {
-  accessType: Record<string, number>;
-  pagination: { take: number; skip: number; currentPage: number; pages: number; total: number };
-  data: DdbMonster[];
+/**
+ * Sourcebooks for result lines and source filters. Entries still list without
+ * their book when game config can't be loaded.
+ */
+async function loadSourceCatalog(client: DdbClient): Promise<SourceCatalog> {
+  try {
+    return SourceCatalog.fromConfig(await getGameConfig(client));
+  } catch {
+    return SourceCatalog.EMPTY;
+  }
 }
 
-interface MonsterServiceSingleResponse {
-  accessType: number;
-  data: DdbMonster;
+/** " · Monster Manual" for search result lines. */
+function sourceTag(source: string | null): string {
+  return source ? ` · ${source}` : "";
 }
 
-interface DdbMonster {
-  id: number;
-  name: string;
-  alignmentId: number;
-  sizeId: number;
-  typeId: number;
-  armorClass: number;
-  armorClassDescription: string;
-  averageHitPoints: number;
-  hitPointDice: { diceCount: number; diceValue: number; fixedValue: number; diceString: string };
-  passivePerception: number;
-  challengeRatingId: number;
-  isHomebrew: boolean;
-  isLegendary: boolean;
-  isMythic: boolean;
-  isLegacy: boolean;
-  url: string;
-  avatarUrl: string;
-  stats: Array<{ statId: number; value: number }>;
-  skills: Array<{ skillId: number; value: number }>;
-  senses: Array<{ senseId: number; notes: string }>;
-  savingThrows: Array<{ statId: number; bonusModifier: number }>;
-  movements: Array<{ movementId: number; speed: number; notes: string | null }>;
-  languages: Array<{ languageId: number; notes: string }>;
-  damageAdjustments: number[];
-  conditionImmunities: number[];
-  environments: number[];
-  specialTraitsDescription: string;
-  actionsDescription: string;
-  reactionsDescription: string;
-  legendaryActionsDescription: string;
-  mythicActionsDescription: string;
-  bonusActionsDescription: string;
-  lairDescription: string;
-  languageDescription: string;
-  languageNote: string;
-  sensesHtml: string;
-  skillsHtml: string;
-  conditionImmunitiesHtml: string;
+/** The book a source filter names, or the error message when none matches. */
+function findSourceBook(catalog: SourceCatalog, source: string): SourceBook | string {
+  return catalog.resolve(source) ??
+    `Unknown sourcebook "${source}". Use a title such as "Xanathar's Guide to Everything" or an abbreviation such as XGtE, TCoE or PHB'24.`;
 }
 
 // --- Spell compendium ---
 
-// Class IDs for building the full spell compendium
-const SPELLCASTING_CLASS_IDS = [1, 2, 3, 4, 5, 6, 7, 8]; // Bard through Wizard
+// Spellcasting classes whose lists make up the full spell compendium
+const SPELLCASTING_CLASSES: Record<number, string> = {
+  1: "Bard", 2: "Cleric", 3: "Druid", 4: "Paladin",
+  5: "Ranger", 6: "Sorcerer", 7: "Warlock", 8: "Wizard",
+};
+const SPELLCASTING_CLASS_IDS = Object.keys(SPELLCASTING_CLASSES).map(Number);
+
+/**
+ * A compendium spell annotated with the class lists it was found on.
+ * `classes` comes from always-known-spells (the class spell list itself);
+ * `subclassLists` holds classes that only grant the spell through an
+ * always-prepared list (domain, oath, circle and other subclass spells).
+ */
+interface CompendiumSpell extends DdbSpell {
+  classes: string[];
+  subclassLists: string[];
+}
+
+// The four per-class queries: cantrips need classLevel=1, levels 1-9 need classLevel=20
+const COMPENDIUM_QUERIES: Array<{
+  url: (classId: number) => string;
+  cacheKey: (classId: number) => string;
+  alwaysPrepared: boolean;
+}> = [
+  {
+    url: (classId) => ENDPOINTS.gameData.alwaysKnownSpells(classId, 1),
+    cacheKey: (classId) => `spell-compendium:class:${classId}:cantrips`,
+    alwaysPrepared: false,
+  },
+  {
+    url: (classId) => ENDPOINTS.gameData.alwaysKnownSpells(classId, 20),
+    cacheKey: (classId) => `spell-compendium:class:${classId}`,
+    alwaysPrepared: false,
+  },
+  {
+    url: (classId) => ENDPOINTS.gameData.alwaysPreparedSpells(classId, 1),
+    cacheKey: (classId) => `spell-compendium:class:${classId}:prepared-cantrips`,
+    alwaysPrepared: true,
+  },
+  {
+    url: (classId) => ENDPOINTS.gameData.alwaysPreparedSpells(classId, 20),
+    cacheKey: (classId) => `spell-compendium:class:${classId}:prepared`,
+    alwaysPrepared: true,
+  },
+];
 
 /**
  * Loads the full spell compendium by querying always-known-spells and always-prepared-spells for all classes.
  * Queries both classLevel=1 (for cantrips/level 0 spells) and classLevel=20 (for levels 1-9).
- * Deduplicates by spell definition name.
+ * Deduplicates by spell definition name and records which class lists each spell appears on.
+ * Local homebrew spells are added last and override D&D Beyond spells of the same name.
  */
-async function loadSpellCompendium(client: DdbClient): Promise<DdbSpell[]> {
-  const allSpells = new Map<string, DdbSpell>();
+async function loadSpellCompendium(client: DdbClient, homebrew?: HomebrewStore | null): Promise<CompendiumSpell[]> {
+  const allSpells = new Map<string, CompendiumSpell>();
   let failureCount = 0;
-  const totalRequests = SPELLCASTING_CLASS_IDS.length * 4; // 2 for known, 2 for prepared
+  const totalRequests = SPELLCASTING_CLASS_IDS.length * COMPENDIUM_QUERIES.length;
 
   for (const classId of SPELLCASTING_CLASS_IDS) {
-    // Fetch cantrips (level 0) by querying at classLevel=1
-    try {
-      const cantrips = await client.get<DdbSpell[]>(
-        ENDPOINTS.gameData.alwaysKnownSpells(classId, 1),
-        `spell-compendium:class:${classId}:cantrips`,
-        86_400_000, // 24h
-      );
-
-      for (const spell of cantrips ?? []) {
-        if (spell.definition?.name && !allSpells.has(spell.definition.name)) {
-          allSpells.set(spell.definition.name, spell);
-        }
+    const className = SPELLCASTING_CLASSES[classId];
+
+    for (const query of COMPENDIUM_QUERIES) {
+      let spells: DdbSpell[];
+      try {
+        spells = await client.get<DdbSpell[]>(
+          query.url(classId),
+          query.cacheKey(classId),
+          86_400_000, // 24h
+        );
+      } catch {
+        failureCount++;
+        continue;
       }
-    } catch {
-      failureCount++;
-    }
-
-    // Fetch higher-level spells (levels 1-9) by querying at classLevel=20
-    try {
-      const spells = await client.get<DdbSpell[]>(
-        ENDPOINTS.gameData.alwaysKnownSpells(classId, 20),
-        `spell-compendium:class:${classId}`,
-        86_400_000, // 24h
-      );
 
       for (const spell of spells ?? []) {
-        if (spell.definition?.name && !allSpells.has(spell.definition.name)) {
-          allSpells.set(spell.definition.name, spell);
+        if (!spell.definition?.name) continue;
+        let entry = allSpells.get(spell.definition.name);
+        if (!entry) {
+          entry = { ...spell, classes: [], subclassLists: [] };
+          allSpells.set(spell.definition.name, entry);
         }
+        const target = query.alwaysPrepared ? entry.subclassLists : entry.classes;
+        if (!target.includes(className)) target.push(className);
       }
-    } catch {
-      failureCount++;
     }
+  }
 
-    // Fetch always-prepared cantrips (level 0) by querying at classLevel=1
-    try {
-      const preparedCantrips = await client.get<DdbSpell[]>(
-        ENDPOINTS.gameData.alwaysPreparedSpells(classId, 1),
-        `spell-compendium:class:${classId}:prepared-cantrips`,
-        86_400_000, // 24h
-      );
+  if (failureCount === totalRequests) {
+    throw new Error("Failed to load spell compendium: all API requests failed. Check your authentication or try again later.");
+  }
 
-      for (const spell of preparedCantrips ?? []) {
-        if (spell.definition?.name && !allSpells.has(spell.definition.name)) {
-          allSpells.set(spell.definition.name, spell);
-        }
-      }
-    } catch {
-      failureCount++;
+  // A class that has the spell on its own list doesn't need it listed again as a subclass grant
+  const compendium = Array.from(allSpells.values());
+  for (const spell of compendium) {
+    spell.subclassLists = spell.subclassLists.filter((c) => !spell.classes.includes(c));
+  }
+
+  if (!homebrew) return compendium;
+  const local = (await homebrew.load()).spells.map((spell) =>
+    markLocalHomebrew<CompendiumSpell>({ ...spell, classes: spell.classes ?? [], subclassLists: [] })
+  );
+  return overlayHomebrew(compendium, local, (s) => s.definition.name);
+}
+
+/**
+ * Resolves a subclass by name from game-data classes and loads its expanded spell list
+ * (always-known-spells filtered by the subclass's spellListIds).
+ */
+async function loadSubclassSpells(
+  client: DdbClient,
+  subclassName: string,
+): Promise<{ className: string; subclassName: string; spells: DdbSpell[] } | string> {
+  const classes = await client.get<DdbClass[]>(
+    ENDPOINTS.gameData.classes(),
+    "game-data:classes",
+    86_400_000,
+  );
+
+  const search = subclassName.toLowerCase();
+  for (const cls of classes ?? []) {
+    const subclass = (cls.subclasses ?? []).find((sc) => sc.name.toLowerCase().includes(search));
+    if (!subclass) continue;
+
+    if (!subclass.spellListIds || subclass.spellListIds.length === 0) {
+      return { className: cls.name, subclassName: subclass.name, spells: [] };
     }
 
-    // Fetch always-prepared spells (levels 1-9) by querying at classLevel=20
-    try {
-      const preparedSpells = await client.get<DdbSpell[]>(
-        ENDPOINTS.gameData.alwaysPreparedSpells(classId, 20),
-        `spell-compendium:class:${classId}:prepared`,
-        86_400_000, // 24h
+    // Like the class lists: classLevel=1 for cantrips, classLevel=20 for levels 1-9
+    const spells = new Map<string, DdbSpell>();
+    for (const [classLevel, suffix] of [[1, ":cantrips"], [20, ""]] as const) {
+      const page = await client.get<DdbSpell[]>(
+        ENDPOINTS.gameData.alwaysKnownSpells(cls.id, classLevel, subclass.spellListIds),
+        `spell-compendium:subclass:${subclass.id}${suffix}`,
+        86_400_000,
       );
-
-      for (const spell of preparedSpells ?? []) {
-        if (spell.definition?.name && !allSpells.has(spell.definition.name)) {
-          allSpells.set(spell.definition.name, spell);
-        }
+      for (const spell of page ?? []) {
+        if (spell.definition?.name && !spells.has(spell.definition.name)) spells.set(spell.definition.name, spell);
       }
-    } catch {
-      failureCount++;
     }
+    return { className: cls.name, subclassName: subclass.name, spells: [...spells.values()] };
   }
 
-  if (failureCount === totalRequests) {
-    throw new Error("Failed to load spell compendium: all API requests failed. Check your authentication or try again later.");
-  }
-
-  return Array.from(allSpells.values());
+  return `Subclass "${subclassName}" not found.`;
 }
 
 /**
@@ -216,17 +270,69 @@ async function loadSpellCompendium(client: DdbClient): Promise<DdbSpell[]> {
 export async function searchSpells(
   client: DdbClient,
   params: SpellSearchParams,
-  _characterIds?: number[]
+  _characterIds?: number[],
+  homebrew?: HomebrewStore | null,
+  index?: MonsterIndex | null
 ): Promise<ToolResult> {
-  let allSpells: DdbSpell[];
+  let allSpells: CompendiumSpell[];
   try {
-    allSpells = await loadSpellCompendium(client);
+    allSpells = await loadSpellCompendium(client, homebrew);
   } catch (error) {
     const message = error instanceof Error ? error.message : "Failed to load spell compendium";
-    return { content: [{ type: "text", text: message }] };
+    return { content: [{ type: "text", text: message }], isError: true };
   }
 
   let matchedSpells = allSpells;
+  let classFilter = params.class;
+  let listNote: string | null = null;
+
+  // Subclass expanded lists: spells the subclass adds on top of its class list
+  const expandedBy = new Map<string, string>();
+  if (params.subclass) {
+    const subclass = await loadSubclassSpells(client, params.subclass);
+    if (typeof subclass === "string") {
+      return { content: [{ type: "text", text: subclass }], isError: true };
+    }
+    if (params.class && !subclass.className.toLowerCase().includes(params.class.toLowerCase())) {
+      return {
+        content: [{ type: "text", text: `${subclass.subclassName} is a ${subclass.className} subclass, not ${params.class}.` }],
+        isError: true,
+      };
+    }
+    classFilter = subclass.className;
+    listNote = `${subclass.className} spell list plus the ${subclass.subclassName} expanded list`;
+    const known = new Map(allSpells.map((s) => [s.definition.name, s]));
+    for (const spell of subclass.spells) {
+      const name = spell.definition?.name;
+      if (!name) continue;
+      const existing = known.get(name);
+      if (!existing?.classes.includes(subclass.className)) {
+        expandedBy.set(name, subclass.subclassName);
+        if (!existing) {
+          const added: CompendiumSpell = { ...spell, classes: [], subclassLists: [] };
+          known.set(name, added);
+          matchedSpells = [...matchedSpells, added];
+        }
+      }
+    }
+  }
+
+  if (classFilter) {
+    const searchClass = classFilter.toLowerCase();
+    const isKnownClass = Object.values(SPELLCASTING_CLASSES).some((c) => c.toLowerCase().includes(searchClass));
+    if (!isKnownClass && expandedBy.size === 0) {
+      const known = Object.values(SPELLCASTING_CLASSES).join(", ");
+      return {
+        content: [{ type: "text", text: `Unknown spellcasting class "${classFilter}". Known classes: ${known}` }],
+        isError: true,
+      };
+    }
+    // Other subclasses' always-prepared grants (subclassLists) aren't on the class list
+    matchedSpells = matchedSpells.filter((spell) =>
+      expandedBy.has(spell.definition.name) ||
+      spell.classes.some((c) => c.toLowerCase().includes(searchClass))
+    );
+  }
 
   if (params.name) {
     const searchName = params.name.toLowerCase();
@@ -260,33 +366,67 @@ export async function searchSpells(
     );
   }
 
+  const catalog = await loadSourceCatalog(client);
+  if (params.source) {
+    const book = findSourceBook(catalog, params.source);
+    if (typeof book === "string") return { content: [{ type: "text", text: book }], isError: true };
+    matchedSpells = matchedSpells.filter((spell) => inSource(spell.definition.sources, book));
+  }
+
+  const rules = contentAccess(client, catalog, index);
+  if (params.ownedOnly) {
+    matchedSpells = matchedSpells.filter((spell) => canOpen(spellAccess(spell, rules)));
+  }
+
   // Sort by level then name
   matchedSpells.sort((a, b) => {
     if (a.definition.level !== b.definition.level) return a.definition.level - b.definition.level;
     return a.definition.name.localeCompare(b.definition.name);
   });
 
+  const data: SpellSearchData = {
+    total: matchedSpells.length,
+    results: matchedSpells.map((spell) => ({
+      name: spell.definition.name,
+      level: spell.definition.level,
+      school: spell.definition.school,
+      concentration: spell.definition.concentration,
+      ritual: spell.definition.ritual,
+      classes: spell.classes,
+      expandedList: expandedBy.get(spell.definition.name) ?? null,
+      source: catalog.label(spell.definition.sources),
+      access: spellAccess(spell, rules),
+      localHomebrew: isLocalHomebrew(spell),
+    })),
+  };
+
   if (matchedSpells.length === 0) {
     return {
       content: [{ type: "text", text: "No spells found matching the criteria." }],
+      structuredContent: data,
     };
   }
 
   const lines = [`# Spell Search Results (${matchedSpells.length} found)\n`];
+  if (listNote) lines.push(`*${listNote}*\n`);
   for (const spell of matchedSpells) {
     const level = spell.definition.level === 0 ? "Cantrip" : `Level ${spell.definition.level}`;
     const tags = [];
     if (spell.definition.concentration) tags.push("Concentration");
     if (spell.definition.ritual) tags.push("Ritual");
     const tagStr = tags.length > 0 ? ` (${tags.join(", ")})` : "";
+    const classStr = spell.classes.length > 0 ? ` [${spell.classes.join(", ")}]` : "";
+    const expanded = expandedBy.get(spell.definition.name);
+    const expandedStr = expanded ? ` — ${expanded} expanded list` : "";
 
     lines.push(
-      `- **${spell.definition.name}** — ${level}, ${spell.definition.school}${tagStr}`
+      `- **${spell.definition.name}**${localTag(spell)}${accessTag(spellAccess(spell, rules))} — ${level}, ${spell.definition.school}${tagStr}${classStr}${expandedStr}${sourceTag(catalog.label(spell.definition.sources))}`
     );
   }
 
   return {
     content: [{ type: "text", text: lines.join("\n") }],
+    structuredContent: data,
   };
 }
 
@@ -296,15 +436,17 @@ export async function searchSpells(
 export async function getSpell(
   client: DdbClient,
   params: { spellName: string },
-  _characterIds?: number[]
+  _characterIds?: number[],
+  homebrew?: HomebrewStore | null,
+  index?: MonsterIndex | null
 ): Promise<ToolResult> {
   const searchName = params.spellName.toLowerCase();
-  let allSpells: DdbSpell[];
+  let allSpells: CompendiumSpell[];
   try {
-    allSpells = await loadSpellCompendium(client);
+    allSpells = await loadSpellCompendium(client, homebrew);
   } catch (error) {
     const message = error instanceof Error ? error.message : "Failed to load spell compendium";
-    return { content: [{ type: "text", text: message }] };
+    return { content: [{ type: "text", text: message }], isError: true };
   }
 
   // Exact match first, then partial
@@ -322,22 +464,21 @@ export async function getSpell(
       content: [
         { type: "text", text: `Spell "${params.spellName}" not found in the compendium.` },
       ],
+      isError: true,
     };
   }
 
-  return formatSpellDetails(spell);
+  const catalog = await loadSourceCatalog(client);
+  return formatSpellDetails(spell, catalog, contentAccess(client, catalog, index));
 }
 
-function formatSpellDetails(spell: DdbSpell): ToolResult {
+function spellDetailData(spell: CompendiumSpell, catalog: SourceCatalog, rules: ContentAccess): SpellDetailData {
   const def = spell.definition;
 
-  const level = def.level === 0 ? "Cantrip" : `${def.level}${getOrdinalSuffix(def.level)}-level`;
-
   const componentMap = { 1: "V", 2: "S", 3: "M" };
   const components = (def.components ?? [])
     .map((c) => componentMap[c as keyof typeof componentMap])
-    .filter(Boolean)
-    .join(", ");
+    .filter(Boolean);
 
   const ACTIVATION_TYPES: Record<number, string> = {
     0: "No Action",
@@ -375,23 +516,51 @@ function formatSpellDetails(spell: DdbSpell): ToolResult {
     }
   }
 
+  return {
+    name: def.name,
+    level: def.level,
+    school: def.school,
+    castingTime,
+    range,
+    components,
+    duration,
+    concentration: def.concentration,
+    ritual: def.ritual,
+    classes: spell.classes,
+    subclassLists: spell.subclassLists,
+    description: stripHtml(def.description),
+    source: catalog.label(def.sources),
+    access: spellAccess(spell, rules),
+    localHomebrew: isLocalHomebrew(spell),
+  };
+}
+
+function formatSpellDetails(spell: CompendiumSpell, catalog: SourceCatalog, rules: ContentAccess): ToolResult {
+  const data = spellDetailData(spell, catalog, rules);
+
+  const level = data.level === 0 ? "Cantrip" : `${data.level}${getOrdinalSuffix(data.level)}-level`;
+
   const tags = [];
-  if (def.concentration) tags.push("Concentration");
-  if (def.ritual) tags.push("Ritual");
+  if (data.concentration) tags.push("Concentration");
+  if (data.ritual) tags.push("Ritual");
   const tagStr = tags.length > 0 ? ` (${tags.join(", ")})` : "";
 
   const lines = [
-    `# ${def.name}`,
-    `*${level} ${def.school}${tagStr}*\n`,
-    `**Casting Time:** ${castingTime}`,
-    `**Range:** ${range}`,
-    `**Components:** ${components}`,
-    `**Duration:** ${duration}\n`,
-    stripHtml(def.description),
+    `# ${data.name}${localTag(spell)}${accessTag(data.access)}`,
+    `*${level} ${data.school}${tagStr}*\n`,
+    `**Casting Time:** ${data.castingTime}`,
+    `**Range:** ${data.range}`,
+    `**Components:** ${data.components.join(", ")}`,
+    `**Duration:** ${data.duration}`,
   ];
+  if (data.classes.length > 0) lines.push(`**Classes:** ${data.classes.join(", ")}`);
+  if (data.subclassLists.length > 0) lines.push(`**Subclass Lists:** ${data.subclassLists.join(", ")}`);
+  if (data.source) lines.push(`**Source:** ${data.source}`);
+  lines.push("", data.description);
 
   return {
     content: [{ type: "text", text: lines.join("\n") }],
+    structuredContent: data,
   };
 }
 
@@ -424,216 +593,348 @@ function abilityMod(score: number): string {
   return mod >= 0 ? `+${mod}` : `${mod}`;
 }
 
+const MONSTER_PAGE_SIZE = 20;
+// damageAdjustments[].type in game config
+const DAMAGE_IMMUNITY = 2;
+
+/** The saves a monster's actions call for that match the save filters. */
+function matchingSaves(m: IndexedMonster, params: MonsterSearchParams): IndexedMonster["saves"] {
+  const ability = params.saveAbility?.trim().slice(0, 3).toUpperCase();
+  return m.saves.filter((s) =>
+    (ability === undefined || s.ability === ability) && (params.saveDc === undefined || s.dc === params.saveDc)
+  );
+}
+
+/** Client-side filters; names from game config match by case-insensitive substring. */
+function monsterFilters(params: MonsterSearchParams, config: GameConfig): Array<(m: IndexedMonster) => boolean> {
+  const crValue = new Map(config.challengeRatings.map((cr) => [cr.id, cr.value]));
+  const typeMap = new Map(config.monsterTypes.map((t) => [t.id, t.name]));
+  const matches = (name: string | undefined, search: string) => (name ?? "").toLowerCase().includes(search.toLowerCase().trim());
+  const idsNamed = (list: Array<{ id: number; name: string }>, search: string) =>
+    new Set(list.filter((entry) => matches(entry.name, search)).map((entry) => entry.id));
+
+  const filters: Array<(m: IndexedMonster) => boolean> = [];
+  const { cr, crMin, crMax } = params;
+  if (cr !== undefined) filters.push((m) => crValue.get(m.challengeRatingId) === cr);
+  if (crMin !== undefined) filters.push((m) => (crValue.get(m.challengeRatingId) ?? -1) >= crMin);
+  if (crMax !== undefined) filters.push((m) => (crValue.get(m.challengeRatingId) ?? Infinity) <= crMax);
+  if (params.type) {
+    const type = params.type;
+    filters.push((m) => matches(typeMap.get(m.typeId), type));
+  }
+  if (params.size) {
+    const size = params.size;
+    filters.push((m) => matches(SIZE_MAP[m.sizeId], size));
+  }
+  if (params.environment) {
+    const ids = idsNamed(config.environments, params.environment);
+    filters.push((m) => m.environments.some((id) => ids.has(id)));
+  }
+  if (params.alignment) {
+    const ids = idsNamed(config.alignments, params.alignment);
+    filters.push((m) => ids.has(m.alignmentId));
+  }
+  if (params.legendary !== undefined) filters.push((m) => m.isLegendary === params.legendary);
+  if (params.mythic !== undefined) filters.push((m) => m.isMythic === params.mythic);
+  if (params.damageImmunity) {
+    const immunities = (config.damageAdjustments ?? []).filter((a) => a.type === DAMAGE_IMMUNITY);
+    const ids = idsNamed(immunities, params.damageImmunity);
+    filters.push((m) => m.damageAdjustments.some((id) => ids.has(id)));
+  }
+  if (params.movement) {
+    const ids = new Set(Object.keys(MOVEMENT_NAMES).map(Number).filter((id) => matches(MOVEMENT_NAMES[id], params.movement!)));
+    filters.push((m) => m.movementIds.some((id) => ids.has(id)));
+  }
+  if (params.saveAbility !== undefined || params.saveDc !== undefined) {
+    filters.push((m) => matchingSaves(m, params).length > 0);
+  }
+  if (params.ownedOnly) filters.push((m) => canOpen(m.access));
+  return filters;
+}
+
 /**
- * Search for monsters by name.
- * When CR/type/size filters are provided without a name search, fetches multiple pages
- * to improve match reliability (up to 200 monsters across 10 pages).
+ * Search for monsters by name and filters.
+ * Once the monster index is built, filters cover the whole catalogue and results come
+ * 20 per page in name order. Until then, and for showHomebrew searches, the monster
+ * service is queried directly: filters without a name search then cover up to 200
+ * monsters across 10 pages.
+ * Local homebrew monsters matching the name are included unless a source book is requested.
  */
 export async function searchMonsters(
   client: DdbClient,
-  params: MonsterSearchParams
+  params: MonsterSearchParams,
+  homebrew?: HomebrewStore | null,
+  index?: MonsterIndex | null
 ): Promise<ToolResult> {
   const searchTerm = params.name || "";
-  const hasFilters = params.cr !== undefined || params.type !== undefined || params.size !== undefined;
-  const shouldPaginate = hasFilters && !searchTerm;
-
   const config = await getGameConfig(client);
   const crMap = new Map(config.challengeRatings.map((cr) => [cr.id, cr]));
   const typeMap = new Map(config.monsterTypes.map((t) => [t.id, t.name]));
-
-  // Resolve source name to ID if provided
-  let sourceId: string | undefined;
+  const catalog = SourceCatalog.fromConfig(config);
+  let sourceId: number | undefined;
   if (params.source) {
-    const sourceLower = params.source.toLowerCase().trim();
-
-    // Try config sources first
-    if (config.sources) {
-      const configSource = config.sources.find((s) =>
-        s.name.toLowerCase().includes(sourceLower) || sourceLower.includes(s.name.toLowerCase())
-      );
-      if (configSource) {
-        sourceId = configSource.id.toString();
-      }
-    }
-
-    // Fallback to hardcoded map
-    if (!sourceId) {
-      const mappedId = SOURCE_MAP[sourceLower];
-      if (mappedId) {
-        sourceId = mappedId.toString();
-      }
-    }
-  }
-
-  let allMonsters: DdbMonster[] = [];
-  let totalInDataset = 0;
-  let pagesSearched = 0;
-  const maxPages = shouldPaginate ? 10 : 1; // Fetch up to 10 pages (200 results) when filtering
-
-  // Fetch multiple pages if we're filtering without a name search
-  for (let pageIdx = 0; pageIdx < maxPages; pageIdx++) {
-    const skip = pageIdx * 20;
-    const url = ENDPOINTS.monster.search(searchTerm, skip, 20, params.showHomebrew, sourceId);
-    const cacheKey = `monsters:search:${searchTerm}:${skip}:${params.showHomebrew ?? false}:${sourceId ?? ""}`;
-
-    try {
-      const response = await client.getRaw<MonsterServiceResponse>(url, cacheKey, 86_400_000);
-      totalInDataset = response.pagination.total;
-
-      if (!response.data || response.data.length === 0) {
-        break; // No more results
-      }
+    const book = findSourceBook(catalog, params.source);
+    if (typeof book === "string") return { content: [{ type: "text", text: book }], isError: true };
+    sourceId = book.id;
+  }
+  const sourceOf = (m: IndexedMonster) => catalog.label(m.sourceIds.map((id) => ({ sourceId: id })));
+  const filters = monsterFilters(params, config);
+
+  index?.start(client);
+  const fromIndex = index?.ready === true && !params.showHomebrew;
+  const shouldPaginate = !fromIndex && filters.length > 0 && !searchTerm;
+
+  let monsters: IndexedMonster[];
+  let searchInfo: string;
+  let limitNote: string | null = null;
+  if (fromIndex) {
+    const searchName = searchTerm.toLowerCase();
+    monsters = index.monsters.filter((m) =>
+      m.name.toLowerCase().includes(searchName) && (sourceId === undefined || m.sourceIds.includes(sourceId))
+    );
+    searchInfo = `searched all ${index.monsters.length} indexed monsters`;
+  } else {
+    const allMonsters: IndexedMonster[] = [];
+    let totalInDataset = 0;
+    let pagesSearched = 0;
+    const maxPages = shouldPaginate ? 10 : 1; // Fetch up to 10 pages (200 results) when filtering
+
+    // Fetch multiple pages if we're filtering without a name search
+    for (let pageIdx = 0; pageIdx < maxPages; pageIdx++) {
+      const skip = pageIdx * MONSTER_PAGE_SIZE;
+      const url = ENDPOINTS.monster.search(searchTerm, skip, MONSTER_PAGE_SIZE, params.showHomebrew, sourceId?.toString());
+      const cacheKey = `monsters:search:${searchTerm}:${skip}:${params.showHomebrew ?? false}:${sourceId ?? ""}`;
+
+      try {
+        const response = await client.getRaw<MonsterServiceResponse>(url, cacheKey, 86_400_000);
+        totalInDataset = response.pagination.total;
+
+        if (!response.data || response.data.length === 0) {
+          break; // No more results
+        }
 
-      allMonsters.push(...response.data);
-      pagesSearched++;
+        allMonsters.push(...response.data.map((m) => indexMonster(m, response.accessType?.[String(m.id)])));
+        pagesSearched++;
 
-      // Stop if we've reached the end of available data
-      if (allMonsters.length >= totalInDataset) {
-        break;
+        // Stop if we've reached the end of available data
+        if (allMonsters.length >= totalInDataset) {
+          break;
+        }
+      } catch {
+        break; // Stop on error
       }
-    } catch {
-      break; // Stop on error
     }
-  }
-
-  let monsters = allMonsters;
 
-  // Client-side filter by CR if requested
-  if (params.cr !== undefined) {
-    const targetCr = config.challengeRatings.find((cr) => cr.value === params.cr);
-    if (targetCr) {
-      monsters = monsters.filter((m) => m.challengeRatingId === targetCr.id);
+    monsters = allMonsters;
+    searchInfo = shouldPaginate
+      ? `searched ${allMonsters.length} of ${totalInDataset} total monsters across ${pagesSearched} pages`
+      : `showing results from page 1`;
+    if (shouldPaginate && allMonsters.length < totalInDataset) {
+      const status = index?.status;
+      limitNote = status?.state === "building"
+        ? `Filters were applied to the first ${allMonsters.length} monsters; the full monster index is still building (${status.loaded} of ${status.total ?? "?"} loaded) and will cover every monster once it's done.`
+        : `Filters were applied to the first ${allMonsters.length} monsters. For comprehensive results, add a name search term.`;
     }
   }
 
-  // Client-side filter by type if requested
-  if (params.type) {
-    const searchType = params.type.toLowerCase();
-    monsters = monsters.filter((m) => {
-      const typeName = typeMap.get(m.typeId)?.toLowerCase() ?? "";
-      return typeName.includes(searchType);
-    });
-  }
-
-  // Client-side filter by size if requested
-  if (params.size) {
-    const searchSize = params.size.toLowerCase();
-    monsters = monsters.filter((m) => {
-      const sizeName = SIZE_MAP[m.sizeId]?.toLowerCase() ?? "";
-      return sizeName.includes(searchSize);
-    });
-  }
+  if (homebrew && !params.source) {
+    const searchName = searchTerm.toLowerCase();
+    const local = (await homebrew.load()).monsters.filter((m) => m.name.toLowerCase().includes(searchName));
+    monsters = overlayHomebrew(monsters, local.map((m) => indexMonster(m)), (m) => m.name);
+  }
+
+  const rules = contentAccess(client, catalog, index);
+  monsters = monsters.map((m) => ({ ...m, access: rules.resolve(m.access, m.sourceIds) }));
+  monsters = monsters.filter((m) => filters.every((filter) => filter(m)));
+
+  const total = monsters.length;
+  const pages = Math.max(1, Math.ceil(total / MONSTER_PAGE_SIZE));
+  const page = fromIndex ? Math.min(Math.max(1, params.page ?? 1), pages) : 1;
+  const shown = fromIndex ? monsters.slice((page - 1) * MONSTER_PAGE_SIZE, page * MONSTER_PAGE_SIZE) : monsters;
+
+  const data: MonsterSearchData = {
+    total,
+    results: shown.map((m) => ({
+      id: m.id,
+      name: m.name,
+      challengeRating: crMap.get(m.challengeRatingId)?.value ?? null,
+      size: SIZE_MAP[m.sizeId] ?? "Unknown",
+      type: typeMap.get(m.typeId) ?? "Unknown",
+      armorClass: m.armorClass,
+      hitPoints: m.averageHitPoints,
+      legendary: m.isLegendary,
+      source: sourceOf(m),
+      access: m.access,
+      homebrew: m.isHomebrew,
+      localHomebrew: m.localHomebrew,
+    })),
+  };
 
-  if (monsters.length === 0) {
-    const hint = shouldPaginate
-      ? "\n\nNote: CR/type/size filters were applied to a limited dataset. For best results, combine filters with a name search term."
-      : "";
+  if (total === 0) {
+    const hint = limitNote ? `\n\nNote: ${limitNote}` : "";
     return {
       content: [{ type: "text", text: `No monsters found matching the search criteria.${hint}` }],
+      structuredContent: data,
     };
   }
 
-  const searchInfo = shouldPaginate
-    ? `searched ${allMonsters.length} of ${totalInDataset} total monsters across ${pagesSearched} pages`
-    : `showing results from page 1`;
-
-  const lines = [`# Monster Search Results (${monsters.length} matches, ${searchInfo})\n`];
+  const pageInfo = fromIndex ? `, page ${page} of ${pages}` : "";
+  const lines = [`# Monster Search Results (${total} matches, ${searchInfo}${pageInfo})\n`];
 
-  if (shouldPaginate && allMonsters.length < totalInDataset) {
-    lines.push(`*Note: Filters applied to the first ${allMonsters.length} monsters. For comprehensive results, add a name search term.*\n`);
+  if (limitNote) {
+    lines.push(`*Note: ${limitNote}*\n`);
   }
 
-  for (const m of monsters) {
+  const showSaves = params.saveAbility !== undefined || params.saveDc !== undefined;
+  for (const m of shown) {
     const cr = crMap.get(m.challengeRatingId);
-    const crStr = cr ? (cr.value < 1 ? `${cr.value}` : `${cr.value}`) : "?";
+    const crStr = cr ? `${cr.value}` : "?";
     const typeName = typeMap.get(m.typeId) ?? "Unknown";
     const sizeName = SIZE_MAP[m.sizeId] ?? "Unknown";
-    const homebrewTag = m.isHomebrew ? " [Homebrew]" : "";
+    const homebrewTag = m.localHomebrew ? ` ${HOMEBREW_TAG}` : m.isHomebrew ? " [Homebrew]" : "";
 
     lines.push(
-      `- **${m.name}**${homebrewTag} — CR ${crStr}, ${sizeName} ${typeName}, AC ${m.armorClass}, ${m.averageHitPoints} HP${m.isLegendary ? " ★" : ""}`
+      `- **${m.name}**${homebrewTag}${accessTag(m.access)} — CR ${crStr}, ${sizeName} ${typeName}, AC ${m.armorClass}, ${m.averageHitPoints} HP${m.isLegendary ? " ★" : ""}${sourceTag(sourceOf(m))}`
     );
+    if (showSaves) {
+      lines.push(`  Saves: ${matchingSaves(m, params).map((s) => `${s.action} (DC ${s.dc} ${s.ability})`).join(", ")}`);
+    }
+  }
+
+  if (fromIndex && page < pages) {
+    lines.push(`\nMore results: call again with page ${page + 1}.`);
   }
 
   return {
     content: [{ type: "text", text: lines.join("\n") }],
+    structuredContent: data,
   };
 }
 
 /**
- * Get full stat block for a specific monster by name.
+ * Look up a monster by name and fetch its full stat block.
+ * Prefers an exact name match, falling back to the first search result.
+ * An exact local homebrew match wins over D&D Beyond; a partial one is used when D&D Beyond has none.
  */
-export async function getMonster(
+export async function findMonster(
   client: DdbClient,
-  params: { monsterName: string }
-): Promise<ToolResult> {
-  // Search for the monster by name
-  const searchUrl = ENDPOINTS.monster.search(params.monsterName, 0, 5);
-  const searchCacheKey = `monsters:search:${params.monsterName.toLowerCase()}`;
+  monsterName: string,
+  homebrew?: HomebrewStore | null
+): Promise<{ monster: DdbMonster; accessType: number } | null> {
+  const searchName = monsterName.toLowerCase();
+  const local = homebrew ? (await homebrew.load()).monsters : [];
+  const localMatch = local.find((m) => m.name.toLowerCase() === searchName);
+  if (localMatch) return { monster: localMatch, accessType: 1 };
+
+  const searchUrl = ENDPOINTS.monster.search(monsterName, 0, 5);
+  const searchCacheKey = `monsters:search:${searchName}`;
   const searchResponse = await client.getRaw<MonsterServiceResponse>(searchUrl, searchCacheKey, 86_400_000);
 
   if (!searchResponse.data || searchResponse.data.length === 0) {
-    return {
-      content: [{ type: "text", text: `Monster "${params.monsterName}" not found.` }],
-    };
+    const partial = local.find((m) => m.name.toLowerCase().includes(searchName));
+    return partial ? { monster: partial, accessType: 1 } : null;
   }
 
   // Find best match (exact first, then partial)
-  const searchName = params.monsterName.toLowerCase();
-  let monster = searchResponse.data.find(
-    (m) => m.name.toLowerCase() === searchName
-  );
-  if (!monster) {
-    monster = searchResponse.data[0];
-  }
+  const match = searchResponse.data.find((m) => m.name.toLowerCase() === searchName) ?? searchResponse.data[0];
 
   // Fetch full details by ID
-  const detailUrl = ENDPOINTS.monster.get(monster.id);
-  const detailCacheKey = `monster:${monster.id}`;
+  const detailUrl = ENDPOINTS.monster.get(match.id);
+  const detailCacheKey = `monster:${match.id}`;
   const detailResponse = await client.getRaw<MonsterServiceSingleResponse>(detailUrl, detailCacheKey, 86_400_000);
 
-  const m = detailResponse.data;
-  if (!m) {
+  if (!detailResponse.data) return null;
+  return { monster: detailResponse.data, accessType: detailResponse.accessType };
+}
+
+/**
+ * Get full stat block for a specific monster by name.
+ */
+export async function getMonster(
+  client: DdbClient,
+  params: { monsterName: string },
+  homebrew?: HomebrewStore | null
+): Promise<ToolResult> {
+  const found = await findMonster(client, params.monsterName, homebrew);
+  if (!found) {
+    return {
+      content: [{ type: "text", text: `Monster "${params.monsterName}" not found.` }],
+      isError: true,
+    };
+  }
+  return formatMonsterStatBlock(found.monster, monsterStatBlockData(found.monster, found.accessType, await getGameConfig(client)));
+}
+
+/**
+ * Scale a monster to another challenge rating and/or apply a minion, elite or
+ * solo-boss template. Returns the new stat block in get_monster's format,
+ * followed by what was changed.
+ */
+export async function scaleMonster(
+  client: DdbClient,
+  params: { monsterName: string; targetCr?: number; template?: MonsterTemplate },
+  homebrew?: HomebrewStore | null
+): Promise<ToolResult> {
+  if (params.targetCr === undefined && !params.template) {
+    return {
+      content: [{ type: "text", text: "Pass a targetCr, a template, or both." }],
+      isError: true,
+    };
+  }
+  const found = await findMonster(client, params.monsterName, homebrew);
+  if (!found) {
     return {
       content: [{ type: "text", text: `Monster "${params.monsterName}" not found.` }],
+      isError: true,
+    };
+  }
+  const source = found.monster;
+  if (found.accessType === 4 && (!source.stats || source.stats.length === 0)) {
+    return {
+      content: [{ type: "text", text: `${source.name}'s full stat block requires content ownership on D&D Beyond, so it can't be scaled.` }],
+      isError: true,
     };
   }
 
   const config = await getGameConfig(client);
-  const crMap = new Map(config.challengeRatings.map((cr) => [cr.id, cr]));
-  const typeMap = new Map(config.monsterTypes.map((t) => [t.id, t.name]));
-  const alignMap = new Map(config.alignments.map((a) => [a.id, a.name]));
-  const senseMap = new Map(config.senses.map((s) => [s.id, s.name]));
+  let scaled: ScaledMonster;
+  try {
+    scaled = scaleStatBlock(source, config, { targetCr: params.targetCr, template: params.template });
+  } catch (error) {
+    return {
+      content: [{ type: "text", text: error instanceof Error ? error.message : String(error) }],
+      isError: true,
+    };
+  }
 
-  const cr = crMap.get(m.challengeRatingId);
-  const crStr = cr ? `${cr.value}` : "?";
-  const xp = cr?.xp ?? 0;
-  const typeName = typeMap.get(m.typeId) ?? "Unknown";
-  const sizeName = SIZE_MAP[m.sizeId] ?? "Unknown";
-  const alignment = alignMap.get(m.alignmentId) ?? "Unaligned";
+  const data = { ...monsterStatBlockData(scaled.monster, found.accessType, config), xp: scaled.xp };
+  const result = formatMonsterStatBlock(scaled.monster, data);
+  const notes = [`\n## Scaling\n`, `Based on ${source.name}, using the DMG monster statistics by challenge rating.`];
+  notes.push(...(scaled.changes.length > 0 ? scaled.changes.map((c) => `- ${c}`) : ["- No changes."]));
+  result.content[0].text += `\n${notes.join("\n")}`;
+  return result;
+}
 
+/** get_monster's markdown stat block, with the data as structured content. */
+function formatMonsterStatBlock(m: DdbMonster, data: MonsterStatBlockData): ToolResult {
   const lines: string[] = [];
-  lines.push(`# ${m.name}`);
-  lines.push(`*${sizeName} ${typeName}, ${alignment}*\n`);
+  lines.push(`# ${data.name}${localTag(m)}${accessTag(data.access)}`);
+  lines.push(`*${data.size} ${data.type}, ${data.alignment}*\n`);
 
-  lines.push(`**Armor Class** ${m.armorClass}${m.armorClassDescription ? " " + m.armorClassDescription.trim() : ""}`);
-  lines.push(`**Hit Points** ${m.averageHitPoints}${m.hitPointDice?.diceString ? " (" + m.hitPointDice.diceString + ")" : ""}`);
+  lines.push(`**Armor Class** ${data.armorClass}${data.armorClassDescription ? " " + data.armorClassDescription : ""}`);
+  lines.push(`**Hit Points** ${data.hitPoints}${data.hitDice ? " (" + data.hitDice + ")" : ""}`);
 
   // Speed
-  if (m.movements && m.movements.length > 0) {
-    const speeds = m.movements.map((mv) => {
-      const name = MOVEMENT_NAMES[mv.movementId] ?? "walk";
-      return name === "walk" ? `${mv.speed} ft.` : `${name} ${mv.speed} ft.`;
-    });
+  if (data.speeds.length > 0) {
+    const speeds = data.speeds.map((mv) => mv.mode === "walk" ? `${mv.feet} ft.` : `${mv.mode} ${mv.feet} ft.`);
     lines.push(`**Speed** ${speeds.join(", ")}`);
   }
 
   // Ability scores
-  if (m.stats && m.stats.length > 0) {
+  if (data.abilityScores.length > 0) {
     lines.push("");
-    const statLine = m.stats
-      .sort((a, b) => a.statId - b.statId)
-      .map((s) => `**${STAT_NAMES[s.statId]}** ${s.value} (${abilityMod(s.value)})`)
+    const statLine = data.abilityScores
+      .map((s) => `**${s.ability}** ${s.score} (${abilityMod(s.score)})`)
       .join(" | ");
     lines.push(statLine);
   }
@@ -641,105 +942,115 @@ export async function getMonster(
   lines.push("");
 
   // Saving throws
-  if (m.savingThrows && m.savingThrows.length > 0) {
-    const saves = m.savingThrows
-      .map((s) => `${STAT_NAMES[s.statId]} +${s.bonusModifier}`)
+  if (data.savingThrows.length > 0) {
+    const saves = data.savingThrows
+      .map((s) => `${s.ability} +${s.bonus}`)
       .join(", ");
     lines.push(`**Saving Throws** ${saves}`);
   }
 
   // Skills
-  if (m.skillsHtml) {
-    lines.push(`**Skills** ${stripHtml(m.skillsHtml)}`);
+  if (data.skills) {
+    lines.push(`**Skills** ${data.skills}`);
   }
 
   // Senses
-  if (m.senses && m.senses.length > 0) {
-    const senseStrs = m.senses.map((s) => {
-      const name = senseMap.get(s.senseId) ?? "Unknown";
-      return `${name} ${s.notes}`;
-    });
-    senseStrs.push(`passive Perception ${m.passivePerception}`);
-    lines.push(`**Senses** ${senseStrs.join(", ")}`);
-  } else {
-    lines.push(`**Senses** passive Perception ${m.passivePerception}`);
-  }
+  lines.push(`**Senses** ${[...data.senses, `passive Perception ${data.passivePerception}`].join(", ")}`);
 
   // Languages
-  if (m.languageDescription) {
-    lines.push(`**Languages** ${m.languageDescription}${m.languageNote ? " " + m.languageNote : ""}`);
+  if (data.languages) {
+    lines.push(`**Languages** ${data.languages}`);
   }
 
   // CR
-  lines.push(`**Challenge** ${crStr} (${xp.toLocaleString()} XP)`);
+  lines.push(`**Challenge** ${data.challengeRating ?? "?"} (${data.xp.toLocaleString()} XP)`);
+  if (data.source) lines.push(`**Source** ${data.source}`);
 
   // Traits
-  if (m.specialTraitsDescription) {
+  if (data.traits) {
     lines.push("\n---\n");
-    lines.push(stripHtml(m.specialTraitsDescription));
-  }
-
-  // Actions
-  if (m.actionsDescription) {
-    lines.push("\n## Actions\n");
-    lines.push(stripHtml(m.actionsDescription));
-  }
-
-  // Bonus Actions
-  if (m.bonusActionsDescription) {
-    lines.push("\n## Bonus Actions\n");
-    lines.push(stripHtml(m.bonusActionsDescription));
-  }
-
-  // Reactions
-  if (m.reactionsDescription) {
-    lines.push("\n## Reactions\n");
-    lines.push(stripHtml(m.reactionsDescription));
+    lines.push(data.traits);
   }
 
-  // Legendary Actions
-  if (m.legendaryActionsDescription) {
-    lines.push("\n## Legendary Actions\n");
-    lines.push(stripHtml(m.legendaryActionsDescription));
-  }
-
-  // Mythic Actions
-  if (m.mythicActionsDescription) {
-    lines.push("\n## Mythic Actions\n");
-    lines.push(stripHtml(m.mythicActionsDescription));
+  const sections: Array<[string, string | null]> = [
+    ["Actions", data.actions],
+    ["Bonus Actions", data.bonusActions],
+    ["Reactions", data.reactions],
+    ["Legendary Actions", data.legendaryActions],
+    ["Mythic Actions", data.mythicActions],
+  ];
+  for (const [heading, body] of sections) {
+    if (!body) continue;
+    lines.push(`\n## ${heading}\n`);
+    lines.push(body);
   }
 
   // Restricted content notice
-  if (detailResponse.accessType === 4 && (!m.stats || m.stats.length === 0)) {
+  if (data.restricted) {
     lines.push("\n---\n*This monster's full stat block requires content ownership on D&D Beyond.*");
   }
 
   return {
     content: [{ type: "text", text: lines.join("\n") }],
+    structuredContent: data,
   };
 }
 
-// --- Item types ---
+/** The stat block as plain data, with game-config IDs resolved to names and HTML stripped. */
+function monsterStatBlockData(m: DdbMonster, accessType: number, config: GameConfig): MonsterStatBlockData {
+  const catalog = SourceCatalog.fromConfig(config);
+  const cr = config.challengeRatings.find((c) => c.id === m.challengeRatingId);
+  const senseMap = new Map(config.senses.map((s) => [s.id, s.name]));
+  const html = (value: string | null | undefined) => (value ? stripHtml(value) || null : null);
 
-interface DdbItem {
-  id: number;
-  name: string;
-  type: string;
-  filterType: string;
-  rarity: string;
-  requiresAttunement: boolean;
-  attunementDescription: string;
-  description: string;
-  snippet: string;
-  weight: number;
-  cost: number | null;
-  armorClass: number | null;
-  damage: { diceString: string } | null;
-  properties: Array<{ name: string }> | null;
-  isHomebrew: boolean;
-  sources: Array<{ sourceId: number }>;
-  canAttune: boolean;
-  magic: boolean;
+  return {
+    id: m.id,
+    name: m.name,
+    size: SIZE_MAP[m.sizeId] ?? "Unknown",
+    type: config.monsterTypes.find((t) => t.id === m.typeId)?.name ?? "Unknown",
+    alignment: config.alignments.find((a) => a.id === m.alignmentId)?.name ?? "Unaligned",
+    armorClass: m.armorClass,
+    armorClassDescription: m.armorClassDescription?.trim() || null,
+    hitPoints: m.averageHitPoints,
+    hitDice: m.hitPointDice?.diceString || null,
+    speeds: (m.movements ?? []).map((mv) => ({ mode: MOVEMENT_NAMES[mv.movementId] ?? "walk", feet: mv.speed })),
+    abilityScores: [...(m.stats ?? [])]
+      .sort((a, b) => a.statId - b.statId)
+      .map((s) => ({ ability: STAT_NAMES[s.statId], score: s.value, modifier: Math.floor((s.value - 10) / 2) })),
+    savingThrows: (m.savingThrows ?? []).map((s) => ({ ability: STAT_NAMES[s.statId], bonus: s.bonusModifier })),
+    skills: html(m.skillsHtml),
+    senses: (m.senses ?? []).map((s) => `${senseMap.get(s.senseId) ?? "Unknown"} ${s.notes}`),
+    passivePerception: m.passivePerception,
+    languages: m.languageDescription ? `${m.languageDescription}${m.languageNote ? " " + m.languageNote : ""}` : null,
+    challengeRating: cr?.value ?? null,
+    xp: cr?.xp ?? 0,
+    legendary: Boolean(m.isLegendary),
+    traits: html(m.specialTraitsDescription),
+    actions: html(m.actionsDescription),
+    bonusActions: html(m.bonusActionsDescription),
+    reactions: html(m.reactionsDescription),
+    legendaryActions: html(m.legendaryActionsDescription),
+    mythicActions: html(m.mythicActionsDescription),
+    parsedActions: parseMonsterActions(m),
+    restricted: accessType === 4 && (!m.stats || m.stats.length === 0),
+    source: catalog.label(m.sources),
+    access: entryAccess(m, accessType, m.sources, ContentAccess.fromCatalog(catalog)),
+    homebrew: Boolean(m.isHomebrew),
+    localHomebrew: isLocalHomebrew(m),
+  };
+}
+
+// --- Item tools ---
+
+/** The item compendium with local homebrew items overlaid. */
+async function loadItems(client: DdbClient, homebrew?: HomebrewStore | null): Promise<DdbItem[]> {
+  const items = await client.get<DdbItem[]>(
+    ENDPOINTS.gameData.items(),
+    "game-data:items",
+    86_400_000,
+  );
+  const local = homebrew ? (await homebrew.load()).items : [];
+  return overlayHomebrew(items ?? [], local, (i) => i.name);
 }
 
 /**
@@ -747,16 +1058,13 @@ interface DdbItem {
  */
 export async function searchItems(
   client: DdbClient,
-  params: ItemSearchParams
+  params: ItemSearchParams,
+  homebrew?: HomebrewStore | null,
+  index?: MonsterIndex | null
 ): Promise<ToolResult> {
-  const cacheKey = "game-data:items";
-  const items = await client.get<DdbItem[]>(
-    ENDPOINTS.gameData.items(),
-    cacheKey,
-    86_400_000,
-  );
+  const items = await loadItems(client, homebrew);
 
-  let matched = items ?? [];
+  let matched = items;
 
   if (params.name) {
     const searchName = params.name.toLowerCase();
@@ -777,6 +1085,19 @@ export async function searchItems(
     );
   }
 
+  const catalog = await loadSourceCatalog(client);
+  if (params.source) {
+    const book = findSourceBook(catalog, params.source);
+    if (typeof book === "string") return { content: [{ type: "text", text: book }], isError: true };
+    matched = matched.filter((i) => inSource(i.sources, book));
+  }
+
+  const rules = contentAccess(client, catalog, index);
+  const access = (i: DdbItem) => entryAccess(i, i.accessType, i.sources, rules);
+  if (params.ownedOnly) {
+    matched = matched.filter((i) => canOpen(access(i)));
+  }
+
   // Sort by name
   matched.sort((a, b) => a.name.localeCompare(b.name));
 
@@ -784,20 +1105,36 @@ export async function searchItems(
   const total = matched.length;
   matched = matched.slice(0, 30);
 
+  const data: ItemSearchData = {
+    total,
+    results: matched.map((item) => ({
+      id: item.id,
+      name: item.name,
+      rarity: item.rarity || "Common",
+      type: item.filterType || item.type || null,
+      requiresAttunement: Boolean(item.requiresAttunement),
+      source: catalog.label(item.sources),
+      access: access(item),
+      localHomebrew: isLocalHomebrew(item),
+    })),
+  };
+
   if (matched.length === 0) {
     return {
       content: [{ type: "text", text: "No items found matching the search criteria." }],
+      structuredContent: data,
     };
   }
 
   const lines = [`# Item Search Results (${total > 30 ? `showing 30 of ${total}` : `${total} found`})\n`];
   for (const item of matched) {
     const attune = item.requiresAttunement ? " (attunement)" : "";
-    lines.push(`- **${item.name}** — ${item.rarity || "Common"} ${item.filterType || item.type || ""}${attune}`);
+    lines.push(`- **${item.name}**${localTag(item)}${accessTag(access(item))} — ${item.rarity || "Common"} ${item.filterType || item.type || ""}${attune}${sourceTag(catalog.label(item.sources))}`);
   }
 
   return {
     content: [{ type: "text", text: lines.join("\n") }],
+    structuredContent: data,
   };
 }
 
@@ -806,29 +1143,46 @@ export async function searchItems(
  */
 export async function getItem(
   client: DdbClient,
-  params: { itemName: string }
+  params: { itemName: string },
+  homebrew?: HomebrewStore | null,
+  index?: MonsterIndex | null
 ): Promise<ToolResult> {
-  const cacheKey = "game-data:items";
-  const items = await client.get<DdbItem[]>(
-    ENDPOINTS.gameData.items(),
-    cacheKey,
-    86_400_000,
-  );
+  const items = await loadItems(client, homebrew);
 
   const searchName = params.itemName.toLowerCase();
-  let item = (items ?? []).find((i) => i.name.toLowerCase() === searchName);
+  let item = items.find((i) => i.name.toLowerCase() === searchName);
   if (!item) {
-    item = (items ?? []).find((i) => i.name.toLowerCase().includes(searchName));
+    item = items.find((i) => i.name.toLowerCase().includes(searchName));
   }
 
   if (!item) {
     return {
       content: [{ type: "text", text: `Item "${params.itemName}" not found.` }],
+      isError: true,
     };
   }
 
+  const catalog = await loadSourceCatalog(client);
+  const data: ItemDetailData = {
+    id: item.id,
+    name: item.name,
+    type: item.filterType || item.type || null,
+    rarity: item.rarity || "common",
+    requiresAttunement: Boolean(item.requiresAttunement),
+    attunementDescription: item.attunementDescription || null,
+    weight: item.weight || null,
+    armorClass: item.armorClass || null,
+    damage: item.damage?.diceString || null,
+    properties: (item.properties ?? []).map((p) => p.name),
+    description: stripHtml(item.description || item.snippet || "No description available."),
+    source: catalog.label(item.sources),
+    access: entryAccess(item, item.accessType, item.sources, contentAccess(client, catalog, index)),
+    homebrew: Boolean(item.isHomebrew),
+    localHomebrew: isLocalHomebrew(item),
+  };
+
   const lines: string[] = [];
-  lines.push(`# ${item.name}`);
+  lines.push(`# ${item.name}${localTag(item)}${accessTag(data.access)}`);
   lines.push(`*${item.filterType || item.type || "Item"}, ${item.rarity || "common"}*\n`);
 
   if (item.requiresAttunement) {
@@ -842,42 +1196,37 @@ export async function getItem(
   if (item.properties && item.properties.length > 0) {
     lines.push(`**Properties:** ${item.properties.map((p) => p.name).join(", ")}`);
   }
+  if (data.source) lines.push(`**Source:** ${data.source}`);
 
   lines.push("");
-  lines.push(stripHtml(item.description || item.snippet || "No description available."));
+  lines.push(data.description);
 
   return {
     content: [{ type: "text", text: lines.join("\n") }],
+    structuredContent: data,
   };
 }
 
-// --- Feat types ---
-
-interface DdbFeat {
-  id: number;
-  name: string;
-  description: string;
-  snippet: string;
-  prerequisite: string | null;
-  isHomebrew: boolean;
-  sources: Array<{ sourceId: number }>;
-}
+// --- Feat tools ---
 
 /**
  * Search for feats by name.
  */
 export async function searchFeats(
   client: DdbClient,
-  params: FeatSearchParams
+  params: FeatSearchParams,
+  homebrew?: HomebrewStore | null,
+  index?: MonsterIndex | null
 ): Promise<ToolResult> {
   const cacheKey = "game-data:feats";
-  const feats = await client.get<DdbFeat[]>(
+  const feats = await client.get<DdbCompendiumFeat[]>(
     ENDPOINTS.gameData.feats(),
     cacheKey,
     86_400_000,
   );
+  const local = homebrew ? (await homebrew.load()).feats : [];
 
-  let matched = feats ?? [];
+  let matched = overlayHomebrew(feats ?? [], local, (f) => f.name);
 
   if (params.name) {
     const searchName = params.name.toLowerCase();
@@ -891,11 +1240,38 @@ export async function searchFeats(
     );
   }
 
+  const catalog = await loadSourceCatalog(client);
+  if (params.source) {
+    const book = findSourceBook(catalog, params.source);
+    if (typeof book === "string") return { content: [{ type: "text", text: book }], isError: true };
+    matched = matched.filter((f) => inSource(f.sources, book));
+  }
+
+  const rules = contentAccess(client, catalog, index);
+  const access = (f: DdbCompendiumFeat) => entryAccess(f, f.accessType, f.sources, rules);
+  if (params.ownedOnly) {
+    matched = matched.filter((f) => canOpen(access(f)));
+  }
+
   matched.sort((a, b) => a.name.localeCompare(b.name));
 
+  const data: FeatSearchData = {
+    total: matched.length,
+    results: matched.map((feat) => ({
+      id: feat.id,
+      name: feat.name,
+      prerequisite: feat.prerequisite || null,
+      snippet: stripHtml(feat.snippet || feat.description || ""),
+      source: catalog.label(feat.sources),
+      access: access(feat),
+      localHomebrew: isLocalHomebrew(feat),
+    })),
+  };
+
   if (matched.length === 0) {
     return {
       content: [{ type: "text", text: "No feats found matching the search criteria." }],
+      structuredContent: data,
     };
   }
 
@@ -904,11 +1280,12 @@ export async function searchFeats(
     const prereq = feat.prerequisite ? ` (Prerequisite: ${feat.prerequisite})` : "";
     const desc = feat.snippet || feat.description || "";
     const shortDesc = stripHtml(desc).substring(0, 80);
-    lines.push(`- **${feat.name}**${prereq} — ${shortDesc}${shortDesc.length >= 80 ? "..." : ""}`);
+    lines.push(`- **${feat.name}**${localTag(feat)}${accessTag(access(feat))}${prereq}${sourceTag(catalog.label(feat.sources))} — ${shortDesc}${shortDesc.length >= 80 ? "..." : ""}`);
   }
 
   return {
     content: [{ type: "text", text: lines.join("\n") }],
+    structuredContent: data,
   };
 }
 
@@ -1090,33 +1467,40 @@ function formatConditionDetails(condition: { name: string; description: string;
 
 // --- Class search ---
 
-interface DdbClass {
+export interface DdbClass {
   id: number;
   name: string;
   description: string;
   hitDice: number;
   isHomebrew: boolean;
   spellCastingAbilityId: number | null;
-  subclasses?: Array<{ id: number; name: string; description: string }>;
+  subclasses?: Array<{ id: number; name: string; description: string; spellListIds?: number[] }>;
   sources: Array<{ sourceId: number }>;
   classFeatures?: Array<{ id: number; name: string; description: string; level: number }>;
 }
 
+/** Every class in game data, including both editions of the core classes. */
+export async function loadClassCollection(client: DdbClient): Promise<DdbClass[]> {
+  const classes = await client.get<DdbClass[]>(
+    ENDPOINTS.gameData.classes(),
+    "game-data:classes",
+    86_400_000,
+  );
+  return classes ?? [];
+}
+
 /**
  * Search for character classes.
  */
 export async function searchClasses(
   client: DdbClient,
-  params: { className?: string }
+  params: { className?: string },
+  index?: MonsterIndex | null
 ): Promise<ToolResult> {
-  const cacheKey = "game-data:classes";
-  const classes = await client.get<DdbClass[]>(
-    ENDPOINTS.gameData.classes(),
-    cacheKey,
-    86_400_000,
-  );
-
-  let matched = classes ?? [];
+  let matched = await loadClassCollection(client);
+  const catalog = await loadSourceCatalog(client);
+  const rules = contentAccess(client, catalog, index);
+  const access = (c: DdbClass) => rules.resolve("unknown", sourceIds(c.sources));
 
   if (params.className) {
     const searchName = params.className.toLowerCase();
@@ -1125,9 +1509,24 @@ export async function searchClasses(
 
   matched.sort((a, b) => a.name.localeCompare(b.name));
 
+  const data: ClassSearchData = {
+    total: matched.length,
+    results: matched.map((cls) => ({
+      id: cls.id,
+      name: cls.name,
+      hitDie: cls.hitDice || null,
+      spellcastingAbility: cls.spellCastingAbilityId ? STAT_NAMES[cls.spellCastingAbilityId] ?? null : null,
+      subclasses: (cls.subclasses ?? []).map((s) => s.name),
+      description: stripHtml(cls.description || ""),
+      source: catalog.label(cls.sources),
+      access: access(cls),
+    })),
+  };
+
   if (matched.length === 0) {
     return {
       content: [{ type: "text", text: "No classes found matching the search criteria." }],
+      structuredContent: data,
     };
   }
 
@@ -1137,7 +1536,7 @@ export async function searchClasses(
     const spellcasting = cls.spellCastingAbilityId
       ? ` | Spellcasting: ${STAT_NAMES[cls.spellCastingAbilityId] || "Yes"}`
       : "";
-    lines.push(`- **${cls.name}** — Hit Die: ${hitDie}${spellcasting}`);
+    lines.push(`- **${cls.name}**${accessTag(access(cls))} — Hit Die: ${hitDie}${spellcasting}${sourceTag(catalog.label(cls.sources))}`);
 
     const desc = stripHtml(cls.description || "").substring(0, 100);
     if (desc) lines.push(`  ${desc}${desc.length >= 100 ? "..." : ""}`);
@@ -1145,6 +1544,7 @@ export async function searchClasses(
 
   return {
     content: [{ type: "text", text: lines.join("\n") }],
+    structuredContent: data,
   };
 }
 
@@ -1169,7 +1569,8 @@ interface DdbRace {
  */
 export async function searchRaces(
   client: DdbClient,
-  params: RaceSearchParams
+  params: RaceSearchParams,
+  index?: MonsterIndex | null
 ): Promise<ToolResult> {
   const cacheKey = "game-data:races";
   const races = await client.get<DdbRace[]>(
@@ -1187,11 +1588,35 @@ export async function searchRaces(
     );
   }
 
+  const catalog = await loadSourceCatalog(client);
+  if (params.source) {
+    const book = findSourceBook(catalog, params.source);
+    if (typeof book === "string") return { content: [{ type: "text", text: book }], isError: true };
+    matched = matched.filter((r) => inSource(r.sources, book));
+  }
+  const rules = contentAccess(client, catalog, index);
+  const access = (r: DdbRace) => rules.resolve("unknown", sourceIds(r.sources));
+
   matched.sort((a, b) => (a.fullName || a.baseName).localeCompare(b.fullName || b.baseName));
 
+  const data: RaceSearchData = {
+    total: matched.length,
+    results: matched.map((race) => ({
+      id: race.entityRaceId,
+      name: race.fullName || race.baseName,
+      baseName: race.baseName || race.fullName,
+      legacy: Boolean(race.isLegacy),
+      subrace: Boolean(race.isSubRace),
+      description: stripHtml(race.description || ""),
+      source: catalog.label(race.sources),
+      access: access(race),
+    })),
+  };
+
   if (matched.length === 0) {
     return {
       content: [{ type: "text", text: "No races found matching the search criteria." }],
+      structuredContent: data,
     };
   }
 
@@ -1200,11 +1625,12 @@ export async function searchRaces(
     const name = race.fullName || race.baseName;
     const desc = stripHtml(race.description || "").substring(0, 100);
     const legacy = race.isLegacy ? " *(Legacy)*" : "";
-    lines.push(`- **${name}**${legacy} — ${desc}${desc.length >= 100 ? "..." : ""}`);
+    lines.push(`- **${name}**${accessTag(access(race))}${legacy}${sourceTag(catalog.label(race.sources))} — ${desc}${desc.length >= 100 ? "..." : ""}`);
   }
 
   return {
     content: [{ type: "text", text: lines.join("\n") }],
+    structuredContent: data,
   };
 }
 
@@ -1223,7 +1649,8 @@ interface DdbBackground {
  */
 export async function searchBackgrounds(
   client: DdbClient,
-  params: BackgroundSearchParams
+  params: BackgroundSearchParams,
+  index?: MonsterIndex | null
 ): Promise<ToolResult> {
   const cacheKey = "game-data:backgrounds";
   const backgrounds = await client.get<DdbBackground[]>(
@@ -1239,28 +1666,50 @@ export async function searchBackgrounds(
     matched = matched.filter((b) => b.name.toLowerCase().includes(searchName));
   }
 
+  const catalog = await loadSourceCatalog(client);
+  if (params.source) {
+    const book = findSourceBook(catalog, params.source);
+    if (typeof book === "string") return { content: [{ type: "text", text: book }], isError: true };
+    matched = matched.filter((b) => inSource(b.sources, book));
+  }
+  const rules = contentAccess(client, catalog, index);
+  const access = (b: DdbBackground) => rules.resolve("unknown", sourceIds(b.sources));
+
   matched.sort((a, b) => a.name.localeCompare(b.name));
 
+  const data: BackgroundSearchData = {
+    total: matched.length,
+    results: matched.map((bg) => ({
+      id: bg.id,
+      name: bg.name,
+      description: stripHtml(bg.description || ""),
+      source: catalog.label(bg.sources),
+      access: access(bg),
+    })),
+  };
+
   if (matched.length === 0) {
     return {
       content: [{ type: "text", text: "No backgrounds found matching the search criteria." }],
+      structuredContent: data,
     };
   }
 
   const lines = [`# Background Search Results (${matched.length} found)\n`];
   for (const bg of matched) {
     const desc = stripHtml(bg.description || "").substring(0, 100);
-    lines.push(`- **${bg.name}** — ${desc}${desc.length >= 100 ? "..." : ""}`);
+    lines.push(`- **${bg.name}**${accessTag(access(bg))}${sourceTag(catalog.label(bg.sources))} — ${desc}${desc.length >= 100 ? "..." : ""}`);
   }
 
   return {
     content: [{ type: "text", text: lines.join("\n") }],
+    structuredContent: data,
   };
 }
 
 // --- Class feature types ---
 
-interface DdbClassFeature {
+export interface DdbClassFeature {
   id: number;
   name: string;
   description: string;
@@ -1272,21 +1721,25 @@ interface DdbClassFeature {
   sources: Array<{ sourceId: number }>;
 }
 
+/** Every class feature in game data, with the class and level that grants it. */
+export async function loadClassFeatureCollection(client: DdbClient): Promise<DdbClassFeature[]> {
+  const features = await client.get<DdbClassFeature[]>(
+    ENDPOINTS.gameData.classFeatureCollection(),
+    "game-data:class-features",
+    86_400_000,
+  );
+  return features ?? [];
+}
+
 /**
  * Search for class features by name, class, or level.
  */
 export async function searchClassFeatures(
   client: DdbClient,
-  params: ClassFeatureSearchParams
+  params: ClassFeatureSearchParams,
+  index?: MonsterIndex | null
 ): Promise<ToolResult> {
-  const cacheKey = "game-data:class-features";
-  const features = await client.get<DdbClassFeature[]>(
-    ENDPOINTS.gameData.classFeatureCollection(),
-    cacheKey,
-    86_400_000,
-  );
-
-  let matched = features ?? [];
+  let matched = await loadClassFeatureCollection(client);
 
   if (params.name) {
     const searchName = params.name.toLowerCase();
@@ -1304,6 +1757,15 @@ export async function searchClassFeatures(
     matched = matched.filter((f) => f.requiredLevel === params.level);
   }
 
+  const catalog = await loadSourceCatalog(client);
+  if (params.source) {
+    const book = findSourceBook(catalog, params.source);
+    if (typeof book === "string") return { content: [{ type: "text", text: book }], isError: true };
+    matched = matched.filter((f) => inSource(f.sources, book));
+  }
+  const rules = contentAccess(client, catalog, index);
+  const access = (f: DdbClassFeature) => rules.resolve("unknown", sourceIds(f.sources));
+
   matched.sort((a, b) => {
     // Sort by class name, then by level, then by feature name
     const classComp = (a.className || "").localeCompare(b.className || "");
@@ -1315,9 +1777,23 @@ export async function searchClassFeatures(
   const total = matched.length;
   matched = matched.slice(0, 30);
 
+  const data: ClassFeatureSearchData = {
+    total,
+    results: matched.map((feature) => ({
+      id: feature.id,
+      name: feature.name,
+      className: feature.className || null,
+      level: feature.requiredLevel,
+      snippet: stripHtml(feature.snippet || feature.description || ""),
+      source: catalog.label(feature.sources),
+      access: access(feature),
+    })),
+  };
+
   if (matched.length === 0) {
     return {
       content: [{ type: "text", text: "No class features found matching the search criteria." }],
+      structuredContent: data,
     };
   }
 
@@ -1325,7 +1801,7 @@ export async function searchClassFeatures(
   for (const feature of matched) {
     const className = feature.className || "Unknown";
     const level = feature.requiredLevel || "?";
-    lines.push(`- **${feature.name}** — ${className} level ${level}`);
+    lines.push(`- **${feature.name}**${accessTag(access(feature))} — ${className} level ${level}${sourceTag(catalog.label(feature.sources))}`);
 
     const desc = stripHtml(feature.snippet || feature.description || "").substring(0, 100);
     if (desc) lines.push(`  ${desc}${desc.length >= 100 ? "..." : ""}`);
@@ -1333,6 +1809,7 @@ export async function searchClassFeatures(
 
   return {
     content: [{ type: "text", text: lines.join("\n") }],
+    structuredContent: data,
   };
 }
 
@@ -1354,7 +1831,8 @@ interface DdbRacialTrait {
  */
 export async function searchRacialTraits(
   client: DdbClient,
-  params: RacialTraitSearchParams
+  params: RacialTraitSearchParams,
+  index?: MonsterIndex | null
 ): Promise<ToolResult> {
   const cacheKey = "game-data:racial-traits";
   const traits = await client.get<DdbRacialTrait[]>(
@@ -1364,6 +1842,9 @@ export async function searchRacialTraits(
   );
 
   let matched = traits ?? [];
+  const catalog = await loadSourceCatalog(client);
+  const rules = contentAccess(client, catalog, index);
+  const access = (t: DdbRacialTrait) => rules.resolve("unknown", sourceIds(t.sources));
 
   if (params.name) {
     const searchName = params.name.toLowerCase();
@@ -1387,21 +1868,96 @@ export async function searchRacialTraits(
   const total = matched.length;
   matched = matched.slice(0, 30);
 
+  const data: RacialTraitSearchData = {
+    total,
+    results: matched.map((trait) => ({
+      id: trait.id,
+      name: trait.name,
+      raceName: trait.raceName || null,
+      snippet: stripHtml(trait.snippet || trait.description || ""),
+      source: catalog.label(trait.sources),
+      access: access(trait),
+    })),
+  };
+
   if (matched.length === 0) {
     return {
       content: [{ type: "text", text: "No racial traits found matching the search criteria." }],
+      structuredContent: data,
     };
   }
 
   const lines = [`# Racial Trait Search Results (${total > 30 ? `showing 30 of ${total}` : `${total} found`})\n`];
   for (const trait of matched) {
     const raceName = trait.raceName || "Unknown";
-    lines.push(`- **${trait.name}** — ${raceName}`);
+    lines.push(`- **${trait.name}**${accessTag(access(trait))} — ${raceName}${sourceTag(catalog.label(trait.sources))}`);
 
     const desc = stripHtml(trait.snippet || trait.description || "").substring(0, 100);
     if (desc) lines.push(`  ${desc}${desc.length >= 100 ? "..." : ""}`);
   }
 
+  return {
+    content: [{ type: "text", text: lines.join("\n") }],
+    structuredContent: data,
+  };
+}
+
+// --- Content access ---
+
+const ACCESS_HEADINGS: Array<[AccessState, string]> = [
+  ["accessible", "Owned or Shared via Campaign"],
+  ["free", "Free (Basic Rules / SRD)"],
+  ["locked", "Locked"],
+  ["unknown", "Access Unknown"],
+];
+
+/**
+ * List the sourcebooks the account can open, grouped by access state. Basic
+ * Rules and SRD books are free; each other book takes the access codes of the
+ * monsters, spells and items printed only in it (see SourceAccess). Books whose
+ * entries don't report access are listed as unknown.
+ */
+export async function listOwnedSources(client: DdbClient, index?: MonsterIndex | null): Promise<ToolResult> {
+  if (!index) {
+    return {
+      content: [{ type: "text", text: "Sourcebook access comes from the monster index, which is disabled (DDB_MONSTER_INDEX=off)." }],
+      isError: true,
+    };
+  }
+  index.start(client);
+  if (!index.ready) {
+    const { loaded, total } = index.status;
+    return {
+      content: [{
+        type: "text",
+        text: `The monster index is still being built (${loaded} of ${total ?? "?"} monsters loaded). Sourcebook access is known once it's done; try again in a minute.`,
+      }],
+    };
+  }
+
+  const entries: Array<{ sourceIds: number[]; access: AccessState }> = [...index.monsters];
+  try {
+    const spells = await loadSpellCompendium(client);
+    entries.push(...spells.map((s) => ({ sourceIds: sourceIds(s.definition.sources), access: accessFromType(s.definition.accessType) })));
+  } catch {
+    // Books with only spells are left out when the compendium can't be loaded
+  }
+  const items = await loadItems(client);
+  entries.push(...items.map((i) => ({ sourceIds: sourceIds(i.sources), access: accessFromType(i.accessType) })));
+  const catalog = SourceCatalog.fromConfig(await getGameConfig(client));
+  const books = new Map(SourceAccess.fromEntries(entries, freeSourceIds(catalog.books)).entries().map((e) => [e.sourceId, e.access]));
+  const lines = [`# Sourcebook Access (${books.size} books)\n`];
+  for (const [access, heading] of ACCESS_HEADINGS) {
+    const titles = [...books]
+      .filter(([, state]) => state === access)
+      .map(([id]) => catalog.get(id)?.title ?? `Source ${id}`)
+      .sort((a, b) => a.localeCompare(b));
+    if (titles.length === 0) continue;
+    lines.push(`## ${heading} (${titles.length})`);
+    lines.push(...titles.map((t) => `- ${t}`), "");
+  }
+  lines.push("Pass ownedOnly to search_monsters, search_spells, search_items or search_feats to leave out locked content and content whose access is unknown.");
+
   return {
     content: [{ type: "text", text: lines.join("\n") }],
   };
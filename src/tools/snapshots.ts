@@ -0,0 +1,147 @@
+import type { DdbClient } from "../api/client.js";
+import { ENDPOINTS } from "../api/endpoints.js";
+import type { DdbCharacter } from "../types/character.js";
+import { hashCharacter, type CharacterSnapshot, type SnapshotStore } from "../snapshots/store.js";
+import { diffCharacters, type CharacterDiff } from "../utils/character-diff.js";
+import { calculateCurrentHp, calculateMaxHp, computeLevel } from "../utils/character-calculations.js";
+import { resolveCharacterId } from "./character.js";
+
+interface ToolResult {
+  [key: string]: unknown;
+  content: Array<{ type: "text"; text: string }>;
+}
+
+const DISABLED_MESSAGE = "Character snapshots are disabled (DDB_SNAPSHOTS=off).";
+
+interface DiffCharacterParams {
+  characterId?: number;
+  characterName?: string;
+  /** Snapshot ID to compare from (default: the latest snapshot that differs from `to`). */
+  from?: string;
+  /** Snapshot ID or "live" (default). */
+  to?: string;
+}
+
+interface CharacterHistoryParams {
+  characterId?: number;
+  characterName?: string;
+  /** Most recent snapshots to show (default: 10). */
+  limit?: number;
+}
+
+function text(value: string): ToolResult {
+  return { content: [{ type: "text", text: value }] };
+}
+
+function formatTakenAt(iso: string): string {
+  return `${iso.slice(0, 10)} ${iso.slice(11, 16)} UTC`;
+}
+
+function formatDiff(diff: CharacterDiff[]): string[] {
+  const lines: string[] = [];
+  for (const { section, changes } of diff) {
+    lines.push("", `## ${section}`);
+    for (const change of changes) lines.push(`- ${change}`);
+  }
+  return lines;
+}
+
+function summarize(character: DdbCharacter): string {
+  const gp = character.currencies?.gp ?? 0;
+  return `Level ${computeLevel(character)}, HP ${calculateCurrentHp(character)}/${calculateMaxHp(character)}, ` +
+    `${(character.currentXp ?? 0).toLocaleString()} XP, ${gp.toLocaleString()} gp`;
+}
+
+/**
+ * Compare two snapshots of a character, or a snapshot against the live sheet.
+ */
+export async function diffCharacter(
+  client: DdbClient,
+  params: DiffCharacterParams,
+  snapshots: SnapshotStore | null
+): Promise<ToolResult> {
+  if (!snapshots) return text(DISABLED_MESSAGE);
+
+  const idOrError = await resolveCharacterId(client, params);
+  if (typeof idOrError === "string") return text(idOrError);
+
+  const to = params.to ?? "live";
+  let after: DdbCharacter;
+  let afterLabel: string;
+  let history: CharacterSnapshot[];
+  if (to === "live") {
+    after = await client.get<DdbCharacter>(
+      ENDPOINTS.character.get(idOrError),
+      `character:${idOrError}`,
+      60_000
+    );
+    await snapshots.save(after).catch(() => null);
+    afterLabel = "live";
+    history = await snapshots.list(idOrError);
+  } else {
+    history = await snapshots.list(idOrError);
+    const snapshot = history.find((s) => s.id === to);
+    if (!snapshot) return text(`Snapshot "${to}" not found. Use character_history to list snapshots.`);
+    after = snapshot.character;
+    afterLabel = `${formatTakenAt(snapshot.takenAt)} (${snapshot.id})`;
+    history = history.slice(0, history.indexOf(snapshot));
+  }
+
+  let before: CharacterSnapshot | undefined;
+  if (params.from) {
+    before = history.find((s) => s.id === params.from);
+    if (!before) return text(`Snapshot "${params.from}" not found. Use character_history to list snapshots.`);
+  } else {
+    const afterHash = hashCharacter(after);
+    before = [...history].reverse().find((s) => s.hash !== afterHash);
+    if (!before) {
+      return text(`No earlier snapshot of ${after.name} to compare against. Snapshots are taken whenever get_character reads the sheet.`);
+    }
+  }
+
+  const diff = diffCharacters(before.character, after);
+  const range = `${formatTakenAt(before.takenAt)} (${before.id}) → ${afterLabel}`;
+  if (diff.length === 0) return text(`No changes to ${after.name} between ${range}.`);
+
+  const lines = [`# Changes to ${after.name}`, `*${range}*`, ...formatDiff(diff)];
+  return text(lines.join("\n"));
+}
+
+/**
+ * List a character's snapshots, newest first, with what changed at each one.
+ */
+export async function characterHistory(
+  client: DdbClient,
+  params: CharacterHistoryParams,
+  snapshots: SnapshotStore | null
+): Promise<ToolResult> {
+  if (!snapshots) return text(DISABLED_MESSAGE);
+
+  const idOrError = await resolveCharacterId(client, params);
+  if (typeof idOrError === "string") return text(idOrError);
+
+  const history = await snapshots.list(idOrError);
+  if (history.length === 0) {
+    return text("No snapshots recorded yet. Snapshots are taken whenever get_character reads the sheet.");
+  }
+
+  const limit = Math.max(1, params.limit ?? 10);
+  const name = history[history.length - 1].name;
+  const lines = [`# ${name} — Snapshot History (${Math.min(limit, history.length)} of ${history.length})`];
+
+  for (let i = history.length - 1; i >= Math.max(0, history.length - limit); i--) {
+    const snapshot = history[i];
+    lines.push("", `## ${formatTakenAt(snapshot.takenAt)} — \`${snapshot.id}\``, summarize(snapshot.character));
+    if (i === 0) {
+      lines.push("- First snapshot");
+      continue;
+    }
+    const diff = diffCharacters(history[i - 1].character, snapshot.character);
+    if (diff.length === 0) lines.push("- No tracked changes");
+    for (const { section, changes } of diff) {
+      for (const change of changes) lines.push(`- ${section}: ${change}`);
+    }
+  }
+
+  return text(lines.join("\n"));
+}
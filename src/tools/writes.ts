@@ -0,0 +1,108 @@
+import type { DdbClient } from "../api/client.js";
+import type { MutationJournal } from "../journal/store.js";
+
+/**
+ * Shared plumbing for tools that change a character on D&D Beyond. A tool
+ * describes its write as requests plus the fields they change, so a dry run
+ * can show exactly what would be sent without sending it, and the journal can
+ * record what to send to put things back.
+ */
+
+export interface WriteRequest {
+  /** GET is only used by the rest endpoints, which reset resources as a side effect. */
+  method: "GET" | "PUT" | "POST" | "DELETE";
+  url: string;
+  body?: Record<string, unknown>;
+}
+
+export type FieldValue = string | number | boolean | null;
+
+export interface FieldChange {
+  field: string;
+  before: FieldValue;
+  after: FieldValue;
+}
+
+export interface WritePlan {
+  /** Null when the write creates a new character. */
+  characterId: number | null;
+  requests: WriteRequest[];
+  changes: FieldChange[];
+  /** Requests that restore the prior values; omitted when the write can't be reversed. */
+  undo?: WriteRequest[];
+  /** Caveats, e.g. where the server decides the final values. */
+  notes?: string[];
+}
+
+interface ToolResult {
+  [key: string]: unknown;
+  content: Array<{ type: "text"; text: string }>;
+}
+
+export function formatFieldValue(value: FieldValue): string {
+  if (value === null || value === "") return "(none)";
+  if (typeof value === "boolean") return value ? "yes" : "no";
+  return String(value);
+}
+
+/** Sends one request, invalidating the character's cached sheet afterwards. */
+export async function sendWrite<T = unknown>(
+  client: DdbClient,
+  characterId: number | null,
+  request: WriteRequest
+): Promise<T> {
+  const invalidate = characterId !== null ? [`character:${characterId}`] : undefined;
+  switch (request.method) {
+    case "GET": {
+      const result = await client.get<T>(request.url, `write:${request.url}:${Date.now()}`, 0);
+      if (characterId !== null) client.invalidateCache(`character:${characterId}`);
+      return result;
+    }
+    case "POST":
+      return invalidate
+        ? client.post<T>(request.url, request.body, invalidate)
+        : client.post<T>(request.url, request.body);
+    case "DELETE":
+      return client.delete<T>(request.url, request.body, invalidate);
+    case "PUT":
+    default:
+      return client.put<T>(request.url, request.body, invalidate);
+  }
+}
+
+/** Sends every request in the plan, in order, then records it in the journal. */
+export async function executePlan<T = unknown>(
+  client: DdbClient,
+  plan: WritePlan,
+  journal?: MutationJournal | null
+): Promise<T[]> {
+  const results: T[] = [];
+  for (const request of plan.requests) {
+    results.push(await sendWrite<T>(client, plan.characterId, request));
+  }
+  journal?.record(plan);
+  return results;
+}
+
+export const DRY_RUN_HEADER = "**Dry run — nothing was sent to D&D Beyond.**";
+
+/** The preview a tool returns instead of writing when called with dryRun. */
+export function dryRunResult(summary: string, plan: WritePlan): ToolResult {
+  const lines = [DRY_RUN_HEADER, `Would: ${summary}`];
+
+  if (plan.changes.length > 0) {
+    lines.push("", "Changes:");
+    for (const change of plan.changes) {
+      lines.push(`- ${change.field}: ${formatFieldValue(change.before)} → ${formatFieldValue(change.after)}`);
+    }
+  }
+
+  lines.push("", "Requests:");
+  for (const request of plan.requests) {
+    lines.push(`- ${request.method} ${request.url}`);
+    if (request.body) lines.push(`  ${JSON.stringify(request.body)}`);
+  }
+
+  for (const note of plan.notes ?? []) lines.push("", `Note: ${note}`);
+  return { content: [{ type: "text", text: lines.join("\n") }] };
+}
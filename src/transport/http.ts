@@ -0,0 +1,212 @@
+import { createServer as createHttpServer, IncomingMessage, ServerResponse } from "node:http";
+import { randomUUID, timingSafeEqual } from "node:crypto";
+import type { AddressInfo } from "node:net";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+
+export const MCP_HTTP_PATH = "/mcp";
+
+/** Largest JSON-RPC request body accepted (1 MB). */
+const MAX_BODY_BYTES = 1024 * 1024;
+
+/** How long a session may go without requests before it is closed (30 minutes). */
+const DEFAULT_SESSION_IDLE_MS = 30 * 60_000;
+
+export interface HttpServerOptions {
+  port: number;
+  /** Interface to bind to (default: 127.0.0.1). */
+  host?: string;
+  /** Every request must carry `Authorization: Bearer <token>`. */
+  token: string;
+  /** Close sessions with no open request for this long (default: 30 minutes). */
+  sessionIdleMs?: number;
+}
+
+export interface RunningHttpServer {
+  url: string;
+  /** Number of open MCP sessions. */
+  readonly sessionCount: number;
+  close(): Promise<void>;
+}
+
+interface Session {
+  server: McpServer;
+  transport: StreamableHTTPServerTransport;
+  /** Requests still being answered, including open SSE streams. */
+  openRequests: number;
+  lastSeenMs: number;
+}
+
+class HttpRequestError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+  ) {
+    super(message);
+    this.name = "HttpRequestError";
+  }
+}
+
+function sendError(res: ServerResponse, status: number, message: string, headers: Record<string, string> = {}): void {
+  if (res.headersSent) return;
+  res.writeHead(status, { "Content-Type": "application/json", ...headers });
+  res.end(JSON.stringify({ jsonrpc: "2.0", error: { code: -32000, message }, id: null }));
+}
+
+function hasValidToken(req: IncomingMessage, token: string): boolean {
+  const header = req.headers.authorization ?? "";
+  const match = /^Bearer\s+(.+)$/i.exec(header);
+  if (!match) return false;
+  const given = Buffer.from(match[1].trim());
+  const expected = Buffer.from(token);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw new HttpRequestError(413, "Request body too large");
+    chunks.push(chunk);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString("utf-8"));
+  } catch {
+    throw new HttpRequestError(400, "Invalid JSON");
+  }
+}
+
+/**
+ * Serves MCP over Streamable HTTP at /mcp. Each client session gets its own
+ * McpServer from `createServer`, so sessions are isolated at the protocol level
+ * while sharing whatever the factory closes over (the D&D Beyond client, cache
+ * and rate limiter). Sessions of clients that went away without closing them
+ * are closed once they have been idle for `sessionIdleMs`.
+ */
+export async function startHttpServer(
+  createServer: () => McpServer,
+  options: HttpServerOptions,
+): Promise<RunningHttpServer> {
+  const sessions = new Map<string, Session>();
+  const idleMs = options.sessionIdleMs ?? DEFAULT_SESSION_IDLE_MS;
+
+  /** Counts the request as open until its response ends, so streaming sessions aren't idle. */
+  function track(session: Session, res: ServerResponse): void {
+    session.openRequests++;
+    session.lastSeenMs = Date.now();
+    res.once("close", () => {
+      session.openRequests--;
+      session.lastSeenMs = Date.now();
+    });
+  }
+
+  function closeIdleSessions(now: number): void {
+    for (const [sessionId, session] of sessions) {
+      if (session.openRequests > 0 || now - session.lastSeenMs < idleMs) continue;
+      sessions.delete(sessionId);
+      session.server.close().catch((error) => {
+        console.error("dndbeyond-mcp: closing idle session failed:", error);
+      });
+    }
+  }
+
+  async function openSession(req: IncomingMessage, res: ServerResponse, body: unknown): Promise<void> {
+    const server = createServer();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (sessionId) => {
+        sessions.set(sessionId, { server, transport, openRequests: 0, lastSeenMs: Date.now() });
+      },
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) sessions.delete(transport.sessionId);
+    };
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  }
+
+  async function handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const path = new URL(req.url ?? "/", "http://localhost").pathname;
+    if (path !== MCP_HTTP_PATH) {
+      sendError(res, 404, "Not found");
+      return;
+    }
+    if (!hasValidToken(req, options.token)) {
+      sendError(res, 401, "Missing or invalid bearer token", { "WWW-Authenticate": 'Bearer realm="dndbeyond-mcp"' });
+      return;
+    }
+
+    const sessionHeader = req.headers["mcp-session-id"];
+    const sessionId = Array.isArray(sessionHeader) ? sessionHeader[0] : sessionHeader;
+    const session = sessionId ? sessions.get(sessionId) : undefined;
+
+    if (req.method === "POST") {
+      const body = await readJsonBody(req);
+      if (session) {
+        track(session, res);
+        await session.transport.handleRequest(req, res, body);
+      } else if (!sessionId && isInitializeRequest(body)) {
+        await openSession(req, res, body);
+      } else if (sessionId) {
+        sendError(res, 404, "Session not found");
+      } else {
+        sendError(res, 400, "No session ID provided and request is not an initialize request");
+      }
+      return;
+    }
+
+    if (req.method === "GET" || req.method === "DELETE") {
+      if (!session) {
+        sendError(res, sessionId ? 404 : 400, sessionId ? "Session not found" : "Missing session ID");
+        return;
+      }
+      track(session, res);
+      await session.transport.handleRequest(req, res);
+      return;
+    }
+
+    sendError(res, 405, "Method not allowed", { Allow: "GET, POST, DELETE" });
+  }
+
+  const httpServer = createHttpServer((req, res) => {
+    handle(req, res).catch((error) => {
+      if (error instanceof HttpRequestError) {
+        sendError(res, error.status, error.message);
+        return;
+      }
+      console.error("dndbeyond-mcp: HTTP request failed:", error);
+      sendError(res, 500, "Internal server error");
+    });
+  });
+
+  const host = options.host ?? "127.0.0.1";
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(options.port, host, () => {
+      httpServer.off("error", reject);
+      resolve();
+    });
+  });
+  const { port } = httpServer.address() as AddressInfo;
+
+  const idleSweep = setInterval(() => closeIdleSessions(Date.now()), Math.min(idleMs, 60_000));
+  idleSweep.unref();
+
+  return {
+    url: `http://${host.includes(":") ? `[${host}]` : host}:${port}${MCP_HTTP_PATH}`,
+    get sessionCount() {
+      return sessions.size;
+    },
+    async close() {
+      clearInterval(idleSweep);
+      for (const { server } of [...sessions.values()]) {
+        await server.close();
+      }
+      sessions.clear();
+      httpServer.closeAllConnections();
+      await new Promise<void>((resolve) => httpServer.close(() => resolve()));
+    },
+  };
+}
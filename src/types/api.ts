@@ -46,3 +46,15 @@ export interface DdbCampaignCharacter2 {
   characterStatus: number;
   isAssigned: boolean;
 }
+
+/** Entry from the user's own character list (character/v5/characters/list). */
+export interface DdbUserCharacter {
+  id: number;
+  name: string;
+  avatarUrl?: string | null;
+  campaignId?: number | null;
+  campaignName?: string | null;
+  characterStatus?: number;
+  status?: number;
+  isAssigned?: boolean;
+}
@@ -20,11 +20,18 @@ export interface DdbCharacter {
   spells: DdbSpellsContainer;
   inventory: DdbInventoryItem[];
   deathSaves: DdbDeathSaves;
+  /** Active conditions; `level` is set for Exhaustion. */
+  conditions?: Array<{ id: number; level: number | null }>;
+  inspiration?: boolean;
   traits: DdbTraits;
   preferences: Record<string, unknown>;
   configuration: Record<string, unknown>;
   actions: Record<string, DdbAction[]>;
   modifiers: Record<string, DdbModifier[]>;
+  /** Chosen class/race/feat options, e.g. a Fighting Style. */
+  options?: Record<string, DdbOption[] | null>;
+  /** Builder choices by category, made or still open, and the options each offers. */
+  choices?: DdbChoices;
   campaign: { id: number; name: string } | null;
   feats: DdbFeat[];
   notes: DdbNotes;
@@ -51,7 +58,12 @@ export interface DdbRace {
 
 export interface DdbClass {
   id: number;
-  definition: { id: number; name: string };
+  definition: {
+    id: number;
+    name: string;
+    // Indexed by class level; index 0 is unused
+    spellRules?: { levelCantripsKnownMaxes?: number[]; levelSpellKnownMaxes?: number[] } | null;
+  };
   subclassDefinition: { name: string; classFeatures: DdbClassFeature[] } | null;
   level: number;
   isStartingClass: boolean;
@@ -118,15 +130,80 @@ export interface DdbSpell {
     componentsDescription: string | null;
     concentration: boolean;
     ritual: boolean;
+    /** 1 = melee spell attack, 2 = ranged spell attack. */
+    attackType?: number | null;
+    requiresAttackRoll?: boolean;
+    requiresSavingThrow?: boolean;
+    saveDcAbilityId?: number | null;
+    modifiers?: DdbSpellModifier[];
+    sources?: Array<{ sourceId: number }>;
+    /** D&D Beyond's access code, when it sends one. */
+    accessType?: number | null;
   };
+  /** Set on spells granted outside a class (race, feat, item). */
+  spellCastingAbilityId?: number | null;
   prepared: boolean;
   alwaysPrepared: boolean;
   usesSpellSlot: boolean;
 }
 
+export interface DdbDice {
+  diceCount: number | null;
+  diceValue: number | null;
+  fixedValue: number | null;
+  diceString: string | null;
+}
+
+export interface DdbSpellModifier {
+  type: string; // "damage", "bonus", ...
+  subType: string; // damage type for "damage", e.g. "fire"
+  die: DdbDice | null;
+  usePrimaryStat?: boolean;
+  atHigherLevels?: {
+    scaleType?: string | null; // "characterlevel" for cantrips, "spellscale" for slots
+    higherLevelDefinitions?: Array<{ level: number | null; dice: DdbDice | null }> | null;
+  } | null;
+}
+
+export interface DdbOption {
+  definition: { name: string };
+}
+
+export interface DdbChoice {
+  /** The choiceKey that set_*_choice tools take. */
+  id: string;
+  type: number;
+  /** The class feature, racial trait or feat the choice belongs to. */
+  componentId: number;
+  componentTypeId: number;
+  label: string | null;
+  /** The chosen option; null while the choice is open. */
+  optionValue: number | null;
+  /** Options limited to these IDs; when empty, the choice definition lists them. */
+  optionIds?: number[] | null;
+  /** Option labels to prefer, e.g. a race's default skill. */
+  defaultSubtypes?: string[] | null;
+}
+
+export interface DdbChoiceDefinition {
+  /** "componentTypeId-type" of the choices it applies to. */
+  id: string;
+  options: Array<{ id: number; label: string }>;
+}
+
+export interface DdbChoices {
+  race?: DdbChoice[] | null;
+  class?: DdbChoice[] | null;
+  background?: DdbChoice[] | null;
+  item?: DdbChoice[] | null;
+  feat?: DdbChoice[] | null;
+  choiceDefinitions?: DdbChoiceDefinition[] | null;
+}
+
 export interface DdbInventoryItem {
   id: number;
   definition: {
+    id?: number;
     name: string;
     description: string;
     type: string;
@@ -135,7 +212,21 @@ export interface DdbInventoryItem {
     cost: number | null;
     isHomebrew: boolean;
     armorClass?: number | null;
+    /** 1 = light, 2 = medium, 3 = heavy, 4 = shield. */
+    armorTypeId?: number | null;
     filterType?: string;
+    /** Weapon fields; absent on non-weapons. */
+    damage?: DdbDice | null;
+    damageType?: string | null;
+    /** 1 = melee, 2 = ranged. */
+    attackType?: number | null;
+    /** 1 = simple, 2 = martial. */
+    categoryId?: number | null;
+    range?: number | null;
+    longRange?: number | null;
+    properties?: Array<{ name: string; notes?: string | null }> | null;
+    grantedModifiers?: DdbModifier[] | null;
+    magic?: boolean;
   };
   equipped: boolean;
   quantity: number;
@@ -178,6 +269,8 @@ export interface DdbModifier {
   value: number | null;
   friendlyTypeName: string;
   friendlySubtypeName: string;
+  /** Ability the modifier scales with, e.g. WIS (5) for Monk Unarmored Defense. */
+  statId?: number | null;
   componentId: number;
   componentTypeId: number;
 }
@@ -1,21 +1,141 @@
+export interface GameConfig {
+  challengeRatings: Array<{ id: number; value: number; xp: number; proficiencyBonus: number }>;
+  monsterTypes: Array<{ id: number; name: string }>;
+  environments: Array<{ id: number; name: string }>;
+  alignments: Array<{ id: number; name: string }>;
+  damageTypes: Array<{ id: number; name: string }>;
+  senses: Array<{ id: number; name: string }>;
+  /** name is the short name (e.g. "XGtE") when description holds the title. */
+  sources?: Array<{ id: number; name: string; description?: string }>;
+  /** type: 1 = resistance, 2 = immunity, 3 = vulnerability */
+  damageAdjustments?: Array<{ id: number; name: string; type: number }>;
+}
+
+export interface MonsterServiceResponse {
+  accessType: Record<string, number>;
+  pagination: { take: number; skip: number; currentPage: number; pages: number; total: number };
+  data: DdbMonster[];
+}
+
+export interface MonsterServiceSingleResponse {
+  accessType: number;
+  data: DdbMonster;
+}
+
+export interface DdbMonster {
+  id: number;
+  name: string;
+  alignmentId: number;
+  sizeId: number;
+  typeId: number;
+  armorClass: number;
+  armorClassDescription: string;
+  averageHitPoints: number;
+  hitPointDice: { diceCount: number; diceValue: number; fixedValue: number; diceString: string };
+  passivePerception: number;
+  challengeRatingId: number;
+  isHomebrew: boolean;
+  isLegendary: boolean;
+  isMythic: boolean;
+  isLegacy: boolean;
+  url: string;
+  avatarUrl: string;
+  stats: Array<{ statId: number; value: number }>;
+  skills: Array<{ skillId: number; value: number }>;
+  senses: Array<{ senseId: number; notes: string }>;
+  savingThrows: Array<{ statId: number; bonusModifier: number }>;
+  movements: Array<{ movementId: number; speed: number; notes: string | null }>;
+  languages: Array<{ languageId: number; notes: string }>;
+  damageAdjustments: number[];
+  conditionImmunities: number[];
+  environments: number[];
+  sources?: Array<{ sourceId: number; pageNumber?: number | null }>;
+  specialTraitsDescription: string;
+  actionsDescription: string;
+  reactionsDescription: string;
+  legendaryActionsDescription: string;
+  mythicActionsDescription: string;
+  bonusActionsDescription: string;
+  lairDescription: string;
+  languageDescription: string;
+  languageNote: string;
+  sensesHtml: string;
+  skillsHtml: string;
+  conditionImmunitiesHtml: string;
+}
+
+export interface DdbItem {
+  id: number;
+  name: string;
+  type: string;
+  filterType: string;
+  rarity: string;
+  requiresAttunement: boolean;
+  attunementDescription: string;
+  description: string;
+  snippet: string;
+  weight: number;
+  cost: number | null;
+  armorClass: number | null;
+  damage: { diceString: string } | null;
+  properties: Array<{ name: string }> | null;
+  isHomebrew: boolean;
+  sources: Array<{ sourceId: number }>;
+  /** D&D Beyond's access code, when it sends one. */
+  accessType?: number | null;
+  canAttune: boolean;
+  magic: boolean;
+}
+
+export interface DdbCompendiumFeat {
+  id: number;
+  name: string;
+  description: string;
+  snippet: string;
+  prerequisite: string | null;
+  isHomebrew: boolean;
+  sources: Array<{ sourceId: number }>;
+  /** D&D Beyond's access code, when it sends one. */
+  accessType?: number | null;
+}
+
 export interface SpellSearchParams {
   name?: string;
   level?: number;
   class?: string;
+  subclass?: string;
   school?: string;
   concentration?: boolean;
   ritual?: boolean;
+  source?: string;
+  ownedOnly?: boolean;
 }
 
 export interface MonsterSearchParams {
   name?: string;
   cr?: number;
+  crMin?: number;
+  crMax?: number;
   type?: string;
   size?: string;
+  alignment?: string;
+  legendary?: boolean;
+  mythic?: boolean;
+  /** Damage type the monster is immune to, e.g. "fire". */
+  damageImmunity?: string;
+  /** Movement mode the monster has: walk, burrow, climb, fly or swim. */
+  movement?: string;
+  /** Only monsters with an action that calls for this save, e.g. "CON" or "Constitution". */
+  saveAbility?: string;
+  /** Only monsters with an action that calls for a save at this DC. */
+  saveDc?: number;
   environment?: string;
   page?: number;
   showHomebrew?: boolean;
+  /** Sourcebook title, part of one, or an abbreviation such as "MM" or "PHB'24". */
   source?: string;
+  /** Drop monsters whose stat blocks are locked: keep owned, campaign-shared and free ones. */
+  ownedOnly?: boolean;
 }
 
 export interface ItemSearchParams {
@@ -23,25 +143,32 @@ export interface ItemSearchParams {
   rarity?: string;
   type?: string;
   attunement?: boolean;
+  source?: string;
+  ownedOnly?: boolean;
 }
 
 export interface FeatSearchParams {
   name?: string;
   prerequisite?: string;
+  source?: string;
+  ownedOnly?: boolean;
 }
 
 export interface RaceSearchParams {
   name?: string;
+  source?: string;
 }
 
 export interface BackgroundSearchParams {
   name?: string;
+  source?: string;
 }
 
 export interface ClassFeatureSearchParams {
   name?: string;
   className?: string;
   level?: number;
+  source?: string;
 }
 
 export interface RacialTraitSearchParams {
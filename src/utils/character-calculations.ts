@@ -1,6 +1,7 @@
 /**
- * Shared character calculation utilities used by both tools and resources.
- * These are the canonical implementations for ability scores, AC, HP, and level.
+ * Number-only character calculations used by tools and resources. Each one
+ * delegates to the rules engine in src/rules/engine.ts, which also records the
+ * breakdown behind every number.
  */
 
 import type {
@@ -8,18 +9,26 @@ import type {
   DdbAbilityScore,
   DdbModifier,
 } from "../types/character.js";
-
-export const ABILITY_NAMES = ["STR", "DEX", "CON", "INT", "WIS", "CHA"];
-
-// Maps stat ID (1-6) to the subType prefix used in D&D Beyond modifiers
-export const ABILITY_SUBTYPE_MAP: Record<number, string> = {
-  1: "strength-score",
-  2: "dexterity-score",
-  3: "constitution-score",
-  4: "intelligence-score",
-  5: "wisdom-score",
-  6: "charisma-score",
-};
+import {
+  ABILITY_NAMES,
+  ABILITY_SUBTYPE_MAP,
+  SAVING_THROW_SUBTYPES,
+  SKILL_DEFINITIONS,
+  characterLevel,
+  deriveAbilityCheck,
+  deriveAbilityScore,
+  deriveArmorClass,
+  deriveInitiative,
+  deriveMaxHp,
+  derivePassive,
+  deriveSavingThrow,
+  deriveSkill,
+  proficiencyBonusForLevel,
+  type SkillDefinition,
+} from "../rules/engine.js";
+
+export { ABILITY_NAMES, ABILITY_SUBTYPE_MAP, SAVING_THROW_SUBTYPES, SKILL_DEFINITIONS };
+export type { SkillDefinition };
 
 export function calculateAbilityModifier(score: number): string {
   const modifier = Math.floor((score - 10) / 2);
@@ -49,105 +58,75 @@ export function computeFinalAbilityScore(
   modifiers: Record<string, DdbModifier[]>,
   id: number
 ): number {
-  const overrideValue = override.find((s) => s.id === id)?.value;
-  if (overrideValue !== null && overrideValue !== undefined) return overrideValue;
-
-  const baseValue = base.find((s) => s.id === id)?.value ?? 10;
-  const bonusValue = bonus.find((s) => s.id === id)?.value ?? 0;
-  const modifierBonus = sumModifierBonuses(modifiers, ABILITY_SUBTYPE_MAP[id] ?? "");
-  return baseValue + bonusValue + modifierBonus;
+  return deriveAbilityScore({ stats: base, bonusStats: bonus, overrideStats: override, modifiers }, id).value;
 }
 
 export function computeLevel(char: DdbCharacter): number {
-  return char.classes.reduce((sum, cls) => sum + cls.level, 0);
+  return characterLevel(char);
 }
 
-export function calculateMaxHp(char: DdbCharacter): number {
-  const base = char.baseHitPoints;
-  const bonus = char.bonusHitPoints ?? 0;
-  const override = char.overrideHitPoints;
-  return override ?? (base + bonus);
+export function calculateProficiencyBonus(level: number): number {
+  return proficiencyBonusForLevel(level);
 }
 
-export function calculateCurrentHp(char: DdbCharacter): number {
-  const max = calculateMaxHp(char);
-  return max - char.removedHitPoints;
+export function hasModifierBySubType(
+  modifiers: Record<string, DdbModifier[]>,
+  subType: string,
+  type: string
+): boolean {
+  for (const list of Object.values(modifiers)) {
+    if (!Array.isArray(list)) continue;
+    for (const mod of list) {
+      if (mod.subType === subType && mod.type === type) return true;
+    }
+  }
+  return false;
 }
 
-export function calculateAc(char: DdbCharacter): number {
-  const dexMod = Math.floor((computeFinalAbilityScore(char.stats, char.bonusStats, char.overrideStats, char.modifiers, 2) - 10) / 2);
-  const conMod = Math.floor((computeFinalAbilityScore(char.stats, char.bonusStats, char.overrideStats, char.modifiers, 3) - 10) / 2);
-  const wisMod = Math.floor((computeFinalAbilityScore(char.stats, char.bonusStats, char.overrideStats, char.modifiers, 5) - 10) / 2);
-
-  // Find equipped armor and shields
-  let baseAc = 10;
-  let armorType: "heavy" | "medium" | "light" | "none" = "none";
-  let shieldBonus = 0;
-
-  for (const item of char.inventory) {
-    if (!item.equipped) continue;
-
-    const itemType = item.definition.type?.toLowerCase() || "";
-    const filterType = item.definition.filterType?.toLowerCase() || "";
+/** Saving throw bonus for an ability (1-6), including proficiency and save bonuses. */
+export function calculateSavingThrowBonus(
+  char: DdbCharacter,
+  abilityId: number
+): { total: number; proficient: boolean } {
+  const save = deriveSavingThrow(char, abilityId);
+  return { total: save.value, proficient: save.proficiency === "proficient" };
+}
 
-    // Check for shield
-    if (itemType.includes("shield")) {
-      shieldBonus = item.definition.armorClass ?? 2;
-      continue;
-    }
+/** Skill bonus, including expertise, half proficiency (Jack of All Trades) and check bonuses. */
+export function calculateSkillBonus(
+  char: DdbCharacter,
+  skill: SkillDefinition
+): { total: number; proficient: boolean; expertise: boolean } {
+  const check = deriveSkill(char, skill);
+  return {
+    total: check.value,
+    proficient: check.proficiency === "proficient" || check.proficiency === "expertise",
+    expertise: check.proficiency === "expertise",
+  };
+}
 
-    // Check for armor
-    if (itemType.includes("armor")) {
-      const acValue = item.definition.armorClass ?? 10;
-
-      if (filterType.includes("heavy") || itemType.includes("heavy")) {
-        baseAc = acValue;
-        armorType = "heavy";
-      } else if (filterType.includes("medium") || itemType.includes("medium")) {
-        baseAc = acValue;
-        armorType = "medium";
-      } else if (filterType.includes("light") || itemType.includes("light")) {
-        baseAc = acValue;
-        armorType = "light";
-      } else {
-        // Default to light armor if type unclear
-        baseAc = acValue;
-        armorType = "light";
-      }
-    }
-  }
+/** Raw ability check bonus (not a skill), including Jack of All Trades. */
+export function calculateAbilityCheckBonus(char: DdbCharacter, abilityId: number): number {
+  return deriveAbilityCheck(char, abilityId).value;
+}
 
-  // Apply DEX modifier based on armor type
-  let finalAc = baseAc;
-  if (armorType === "none") {
-    // Check for unarmored defense
-    const isBarbarian = char.classes.some(cls => cls.definition.name === "Barbarian");
-    const isMonk = char.classes.some(cls => cls.definition.name === "Monk");
-
-    if (isBarbarian) {
-      finalAc = 10 + dexMod + conMod;
-    } else if (isMonk) {
-      finalAc = 10 + dexMod + wisMod;
-    } else {
-      finalAc = 10 + dexMod;
-    }
-  } else if (armorType === "light") {
-    finalAc = baseAc + dexMod;
-  } else if (armorType === "medium") {
-    finalAc = baseAc + Math.min(dexMod, 2);
-  } else if (armorType === "heavy") {
-    finalAc = baseAc; // No DEX bonus
-  }
+export function calculatePassiveScore(char: DdbCharacter, skill: SkillDefinition): number {
+  return derivePassive(char, skill).value;
+}
 
-  // Add shield bonus
-  finalAc += shieldBonus;
+export function calculateInitiativeBonus(char: DdbCharacter): number {
+  return deriveInitiative(char).value;
+}
 
-  // Add AC modifiers from features/spells
-  const acBonus = sumModifierBonuses(char.modifiers, "armor-class")
-    + sumModifierBonuses(char.modifiers, "armored-armor-class")
-    + sumModifierBonuses(char.modifiers, "unarmored-armor-class");
+export function calculateMaxHp(char: DdbCharacter): number {
+  return deriveMaxHp(char).value;
+}
 
-  finalAc += acBonus;
+export function calculateCurrentHp(char: DdbCharacter): number {
+  const max = calculateMaxHp(char);
+  return max - char.removedHitPoints;
+}
 
-  return finalAc;
+export function calculateAc(char: DdbCharacter): number {
+  return deriveArmorClass(char).value;
 }
@@ -0,0 +1,163 @@
+/**
+ * Field-by-field comparison of two DdbCharacter payloads, used by the snapshot
+ * history tools to explain what changed between sessions.
+ */
+
+import type { DdbCharacter, DdbSpell } from "../types/character.js";
+import { calculateCurrentHp, calculateMaxHp, computeLevel } from "./character-calculations.js";
+
+export type DiffSection = "Hit Points" | "Experience" | "Level" | "Inventory" | "Spells" | "Feats" | "Currency";
+
+export interface CharacterDiff {
+  section: DiffSection;
+  changes: string[];
+}
+
+const CURRENCY_ORDER = ["pp", "gp", "ep", "sp", "cp"] as const;
+
+function signed(n: number): string {
+  return n > 0 ? `+${n.toLocaleString()}` : n.toLocaleString();
+}
+
+function diffHp(before: DdbCharacter, after: DdbCharacter): string[] {
+  const changes: string[] = [];
+  const hp = (c: DdbCharacter) => `${calculateCurrentHp(c)}/${calculateMaxHp(c)}`;
+  if (hp(before) !== hp(after)) {
+    const delta = calculateCurrentHp(after) - calculateCurrentHp(before);
+    changes.push(`HP ${hp(before)} → ${hp(after)}${delta !== 0 ? ` (${signed(delta)})` : ""}`);
+  }
+  const tempBefore = before.temporaryHitPoints ?? 0;
+  const tempAfter = after.temporaryHitPoints ?? 0;
+  if (tempBefore !== tempAfter) changes.push(`Temporary HP ${tempBefore} → ${tempAfter}`);
+  return changes;
+}
+
+function diffXp(before: DdbCharacter, after: DdbCharacter): string[] {
+  const xpBefore = before.currentXp ?? 0;
+  const xpAfter = after.currentXp ?? 0;
+  if (xpBefore === xpAfter) return [];
+  return [`XP ${xpBefore.toLocaleString()} → ${xpAfter.toLocaleString()} (${signed(xpAfter - xpBefore)})`];
+}
+
+function diffLevel(before: DdbCharacter, after: DdbCharacter): string[] {
+  const changes: string[] = [];
+  const levelBefore = computeLevel(before);
+  const levelAfter = computeLevel(after);
+  if (levelBefore !== levelAfter) changes.push(`Level ${levelBefore} → ${levelAfter}`);
+
+  const classLevels = (c: DdbCharacter) => new Map((c.classes ?? []).map((cls) => [cls.definition.name, cls.level]));
+  const classesBefore = classLevels(before);
+  const classesAfter = classLevels(after);
+  for (const [name, level] of classesAfter) {
+    const previous = classesBefore.get(name);
+    if (previous === undefined) changes.push(`Added class ${name} ${level}`);
+    else if (previous !== level) changes.push(`${name} ${previous} → ${level}`);
+  }
+  for (const [name, level] of classesBefore) {
+    if (!classesAfter.has(name)) changes.push(`Removed class ${name} ${level}`);
+  }
+  return changes;
+}
+
+function diffInventory(before: DdbCharacter, after: DdbCharacter): string[] {
+  // Group by item name so re-added items with new inventory IDs don't show as churn
+  const tally = (c: DdbCharacter) => {
+    const items = new Map<string, { quantity: number; equipped: number }>();
+    for (const item of c.inventory ?? []) {
+      const entry = items.get(item.definition.name) ?? { quantity: 0, equipped: 0 };
+      entry.quantity += item.quantity;
+      if (item.equipped) entry.equipped++;
+      items.set(item.definition.name, entry);
+    }
+    return items;
+  };
+  const itemsBefore = tally(before);
+  const itemsAfter = tally(after);
+  const changes: string[] = [];
+
+  const names = [...new Set([...itemsBefore.keys(), ...itemsAfter.keys()])].sort((a, b) => a.localeCompare(b));
+  for (const name of names) {
+    const was = itemsBefore.get(name);
+    const now = itemsAfter.get(name);
+    if (!was && now) {
+      changes.push(`Added ${name}${now.quantity > 1 ? ` ×${now.quantity}` : ""}`);
+    } else if (was && !now) {
+      changes.push(`Removed ${name}${was.quantity > 1 ? ` ×${was.quantity}` : ""}`);
+    } else if (was && now) {
+      if (was.quantity !== now.quantity) changes.push(`${name} ×${was.quantity} → ×${now.quantity}`);
+      if (was.equipped === 0 && now.equipped > 0) changes.push(`Equipped ${name}`);
+      if (was.equipped > 0 && now.equipped === 0) changes.push(`Unequipped ${name}`);
+    }
+  }
+  return changes;
+}
+
+function allSpells(c: DdbCharacter): DdbSpell[] {
+  const spells = c.spells ?? { class: null, race: null, background: null, item: null, feat: null };
+  return [
+    ...(spells.class ?? []),
+    ...(spells.race ?? []),
+    ...(spells.background ?? []),
+    ...(spells.item ?? []),
+    ...(spells.feat ?? []),
+  ];
+}
+
+function diffSpells(before: DdbCharacter, after: DdbCharacter): string[] {
+  const index = (c: DdbCharacter) => {
+    const spells = new Map<string, boolean>();
+    for (const spell of allSpells(c)) {
+      const prepared = spell.prepared || spell.alwaysPrepared;
+      spells.set(spell.definition.name, (spells.get(spell.definition.name) ?? false) || prepared);
+    }
+    return spells;
+  };
+  const spellsBefore = index(before);
+  const spellsAfter = index(after);
+  const changes: string[] = [];
+
+  const names = [...new Set([...spellsBefore.keys(), ...spellsAfter.keys()])].sort((a, b) => a.localeCompare(b));
+  for (const name of names) {
+    const was = spellsBefore.get(name);
+    const now = spellsAfter.get(name);
+    if (was === undefined) changes.push(`Learned ${name}`);
+    else if (now === undefined) changes.push(`Lost ${name}`);
+    else if (!was && now) changes.push(`Prepared ${name}`);
+    else if (was && !now) changes.push(`Unprepared ${name}`);
+  }
+  return changes;
+}
+
+function diffFeats(before: DdbCharacter, after: DdbCharacter): string[] {
+  const names = (c: DdbCharacter) => new Set((c.feats ?? []).map((f) => f.definition.name));
+  const featsBefore = names(before);
+  const featsAfter = names(after);
+  return [
+    ...[...featsAfter].filter((f) => !featsBefore.has(f)).map((f) => `Gained ${f}`),
+    ...[...featsBefore].filter((f) => !featsAfter.has(f)).map((f) => `Lost ${f}`),
+  ];
+}
+
+function diffCurrency(before: DdbCharacter, after: DdbCharacter): string[] {
+  const changes: string[] = [];
+  for (const coin of CURRENCY_ORDER) {
+    const was = before.currencies?.[coin] ?? 0;
+    const now = after.currencies?.[coin] ?? 0;
+    if (was !== now) changes.push(`${coin} ${was.toLocaleString()} → ${now.toLocaleString()} (${signed(now - was)})`);
+  }
+  return changes;
+}
+
+/** Changes from `before` to `after`, grouped by section. Sections without changes are omitted. */
+export function diffCharacters(before: DdbCharacter, after: DdbCharacter): CharacterDiff[] {
+  const sections: CharacterDiff[] = [
+    { section: "Hit Points", changes: diffHp(before, after) },
+    { section: "Experience", changes: diffXp(before, after) },
+    { section: "Level", changes: diffLevel(before, after) },
+    { section: "Inventory", changes: diffInventory(before, after) },
+    { section: "Spells", changes: diffSpells(before, after) },
+    { section: "Feats", changes: diffFeats(before, after) },
+    { section: "Currency", changes: diffCurrency(before, after) },
+  ];
+  return sections.filter((s) => s.changes.length > 0);
+}
@@ -0,0 +1,241 @@
+/**
+ * Dice expression parser and roller using common D&D notation.
+ *
+ * Supported syntax (terms joined with + or -):
+ *   d20, 8d6, d%        plain dice (d% is a d100)
+ *   4d6kh3 / 4d6k3      keep highest N
+ *   2d20kl1             keep lowest N
+ *   4d6dl1 / 4d6dh1     drop lowest/highest N
+ *   2d6r1 / 2d6r<2      reroll matching dice until they stop matching
+ *   2d6ro<2             reroll matching dice once (Great Weapon Fighting)
+ *   3d6! / 3d6!>5       exploding dice (on max, or on N and above)
+ *   5                   flat modifiers
+ */
+
+export type RandomSource = () => number;
+
+export type RollMode = "normal" | "advantage" | "disadvantage";
+
+export interface DieRoll {
+  value: number;
+  /** False when dropped by keep/drop or replaced by a reroll. */
+  kept: boolean;
+  rerolled?: boolean;
+  exploded?: boolean;
+}
+
+export interface DiceTermResult {
+  notation: string;
+  sign: 1 | -1;
+  /** Empty for flat modifiers. */
+  rolls: DieRoll[];
+  total: number;
+}
+
+export interface RollResult {
+  expression: string;
+  terms: DiceTermResult[];
+  total: number;
+}
+
+interface DiceTerm {
+  notation: string;
+  sign: 1 | -1;
+  count: number;
+  sides: number;
+  keep?: { highest: boolean; count: number };
+  reroll?: { compare: "=" | "<" | ">"; value: number; once: boolean };
+  explode?: { min: number };
+}
+
+interface ConstantTerm {
+  notation: string;
+  sign: 1 | -1;
+  value: number;
+}
+
+const MAX_DICE = 100;
+const MAX_SIDES = 1000;
+/** Upper bound on extra dice from rerolls/explosions so `1d1!` can't loop forever. */
+const MAX_EXTRA_ROLLS = 100;
+
+const TERM_PATTERN = /^(\d*)d(\d+|%)((?:k[hl]?\d+|d[hl]\d+|ro?[<>]?\d+|![>]?\d*)*)$/;
+const MODIFIER_PATTERN = /k([hl]?)(\d+)|d([hl])(\d+)|r(o?)([<>]?)(\d+)|!(>?)(\d*)/g;
+
+/**
+ * Deterministic PRNG (mulberry32). Pass a seed to get reproducible rolls.
+ */
+export function createRandom(seed?: number): RandomSource {
+  if (seed === undefined) return Math.random;
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function rollDie(sides: number, random: RandomSource): number {
+  return Math.floor(random() * sides) + 1;
+}
+
+function parseTerm(raw: string, sign: 1 | -1): DiceTerm | ConstantTerm {
+  const notation = raw.toLowerCase();
+  if (/^\d+$/.test(notation)) return { notation, sign, value: Number(notation) };
+
+  const match = TERM_PATTERN.exec(notation);
+  if (!match) throw new Error(`Invalid dice term "${raw}".`);
+
+  const term: DiceTerm = {
+    notation,
+    sign,
+    count: match[1] ? Number(match[1]) : 1,
+    sides: match[2] === "%" ? 100 : Number(match[2]),
+  };
+  if (term.count < 1 || term.count > MAX_DICE) throw new Error(`"${raw}": roll between 1 and ${MAX_DICE} dice.`);
+  if (term.sides < 1 || term.sides > MAX_SIDES) throw new Error(`"${raw}": dice need between 1 and ${MAX_SIDES} sides.`);
+
+  for (const mod of match[3].matchAll(MODIFIER_PATTERN)) {
+    if (mod[2] !== undefined) {
+      term.keep = { highest: mod[1] !== "l", count: Number(mod[2]) };
+    } else if (mod[4] !== undefined) {
+      // Dropping the lowest N is keeping the highest count - N, and vice versa
+      term.keep = { highest: mod[3] === "l", count: term.count - Number(mod[4]) };
+    } else if (mod[7] !== undefined) {
+      term.reroll = { compare: (mod[6] || "=") as "=" | "<" | ">", value: Number(mod[7]), once: mod[5] === "o" };
+    } else {
+      term.explode = { min: mod[9] ? Number(mod[9]) : term.sides };
+    }
+  }
+
+  if (term.keep && (term.keep.count < 0 || term.keep.count > term.count)) {
+    throw new Error(`"${raw}": can't keep ${term.keep.count} of ${term.count} dice.`);
+  }
+  if (term.explode && term.explode.min <= 1) throw new Error(`"${raw}": exploding on every roll would never stop.`);
+  if (term.reroll && !term.reroll.once && rerollCovers(term.reroll, term.sides)) {
+    throw new Error(`"${raw}": every result would be rerolled.`);
+  }
+  return term;
+}
+
+function matchesReroll(reroll: NonNullable<DiceTerm["reroll"]>, value: number): boolean {
+  if (reroll.compare === "<") return value <= reroll.value;
+  if (reroll.compare === ">") return value >= reroll.value;
+  return value === reroll.value;
+}
+
+function rerollCovers(reroll: NonNullable<DiceTerm["reroll"]>, sides: number): boolean {
+  for (let v = 1; v <= sides; v++) {
+    if (!matchesReroll(reroll, v)) return false;
+  }
+  return true;
+}
+
+function rollTerm(term: DiceTerm, random: RandomSource): DiceTermResult {
+  const rolls: DieRoll[] = [];
+  let extra = 0;
+
+  for (let i = 0; i < term.count; i++) {
+    let value = rollDie(term.sides, random);
+
+    if (term.reroll) {
+      while (matchesReroll(term.reroll, value) && extra < MAX_EXTRA_ROLLS) {
+        rolls.push({ value, kept: false, rerolled: true });
+        value = rollDie(term.sides, random);
+        extra++;
+        if (term.reroll.once) break;
+      }
+    }
+    rolls.push({ value, kept: true });
+
+    if (term.explode) {
+      while (value >= term.explode.min && extra < MAX_EXTRA_ROLLS) {
+        value = rollDie(term.sides, random);
+        rolls.push({ value, kept: true, exploded: true });
+        extra++;
+      }
+    }
+  }
+
+  if (term.keep) {
+    const keep = term.keep;
+    const candidates = rolls.filter((r) => r.kept);
+    const ranked = [...candidates].sort((a, b) => (keep.highest ? b.value - a.value : a.value - b.value));
+    for (const dropped of ranked.slice(keep.count)) dropped.kept = false;
+  }
+
+  const total = rolls.filter((r) => r.kept).reduce((sum, r) => sum + r.value, 0);
+  return { notation: term.notation, sign: term.sign, rolls, total };
+}
+
+/**
+ * Turn the first d20 in an expression into 2d20kh1 (advantage) or 2d20kl1
+ * (disadvantage). Throws when the expression has no single d20 to modify.
+ */
+function applyRollMode(terms: Array<DiceTerm | ConstantTerm>, mode: RollMode): void {
+  if (mode === "normal") return;
+  const d20 = terms.find((t): t is DiceTerm => "sides" in t && t.sides === 20 && t.count === 1 && !t.keep);
+  if (!d20) throw new Error(`${mode === "advantage" ? "Advantage" : "Disadvantage"} needs a single d20 in the expression.`);
+  d20.count = 2;
+  d20.keep = { highest: mode === "advantage", count: 1 };
+  d20.notation = `2d20${mode === "advantage" ? "kh1" : "kl1"}`;
+}
+
+/**
+ * Parse and roll a dice expression such as "4d6kh3" or "1d20+5".
+ * Throws an Error with a readable message when the expression is invalid.
+ */
+export function rollDice(
+  expression: string,
+  options: { mode?: RollMode; random?: RandomSource } = {}
+): RollResult {
+  const compact = expression.replace(/\s+/g, "");
+  if (!compact) throw new Error("Dice expression is empty.");
+
+  const parts = compact.match(/[+-]?[^+-]+/g) ?? [];
+  if (parts.join("") !== compact) throw new Error(`Invalid dice expression "${expression}".`);
+
+  const terms = parts.map((part) => {
+    const sign = part.startsWith("-") ? -1 : 1;
+    return parseTerm(part.replace(/^[+-]/, ""), sign);
+  });
+  applyRollMode(terms, options.mode ?? "normal");
+
+  const random = options.random ?? Math.random;
+  const results = terms.map((term): DiceTermResult =>
+    "value" in term
+      ? { notation: term.notation, sign: term.sign, rolls: [], total: term.value }
+      : rollTerm(term, random)
+  );
+
+  return {
+    expression: compact,
+    terms: results,
+    total: results.reduce((sum, t) => sum + t.sign * t.total, 0),
+  };
+}
+
+function formatDie(roll: DieRoll): string {
+  const value = roll.exploded ? `${roll.value}!` : String(roll.value);
+  return roll.kept ? value : `~~${value}~~`;
+}
+
+/**
+ * Render a roll as "4d6kh3 [6, 5, 3, ~~1~~] = **14**".
+ */
+export function formatRoll(result: RollResult): string {
+  const parts = result.terms.map((term, i) => {
+    const op = term.sign === -1 ? "- " : i === 0 ? "" : "+ ";
+    const detail = term.rolls.length > 0 ? ` [${term.rolls.map(formatDie).join(", ")}]` : "";
+    return `${op}${term.notation}${detail}`;
+  });
+  return `${parts.join(" ")} = **${result.total}**`;
+}
+
+/** The kept face of the first d20 rolled, for spotting natural 1s and 20s. */
+export function naturalD20(result: RollResult): number | undefined {
+  const term = result.terms.find((t) => /^\d*d20(?![0-9])/.test(t.notation) && t.rolls.length > 0);
+  return term?.rolls.find((r) => r.kept)?.value;
+}
@@ -0,0 +1,164 @@
+/**
+ * Parser for the HTML blocks of a D&D Beyond monster stat block (traits,
+ * actions, bonus actions, reactions, legendary and mythic actions).
+ *
+ * Each paragraph that opens with a bold name becomes one action; paragraphs
+ * without one continue the previous action, or are skipped when they come
+ * first (e.g. "The dragon can take 3 legendary actions..."). Both the 2014
+ * wording ("Melee Weapon Attack: +4 to hit", "DC 12 Dexterity saving throw")
+ * and the 2024 wording ("Melee Attack Roll: +4", "Dexterity Saving Throw:
+ * DC 12") are understood.
+ */
+
+import type { DdbMonster } from "../types/reference.js";
+
+export type MonsterActionKind = "trait" | "action" | "bonus action" | "reaction" | "legendary" | "mythic";
+
+export interface MonsterDamage {
+  average: number;
+  /** Null for flat damage such as "1 piercing damage". */
+  dice: string | null;
+  type: string;
+}
+
+export interface MonsterAction {
+  kind: MonsterActionKind;
+  name: string;
+  /** e.g. "melee weapon", "ranged spell", or just "melee" in 2024 stat blocks. */
+  attackType: string | null;
+  toHit: number | null;
+  /** Feet. */
+  reach: number | null;
+  /** Feet; long is null when the range has a single value. */
+  range: { normal: number; long: number | null } | null;
+  damage: MonsterDamage[];
+  save: { dc: number; ability: string } | null;
+  /** "5-6", "6", or "short or long rest". */
+  recharge: string | null;
+  usesPerDay: number | null;
+  /** Legendary or mythic actions spent; 1 unless the name says otherwise. */
+  legendaryCost: number | null;
+  description: string;
+}
+
+const ABILITY = "(Strength|Dexterity|Constitution|Intelligence|Wisdom|Charisma)";
+
+function text(html: string): string {
+  return html
+    .replace(/<[^>]+>/g, "")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&amp;/g, "&")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/[−–]/g, "-")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/** "Constitution" → "CON". */
+function abilityAbbreviation(name: string): string {
+  return name.slice(0, 3).toUpperCase();
+}
+
+/** Splits "Fire Breath (Recharge 5-6)" into the name and what its parentheticals say. */
+function parseName(raw: string): Pick<MonsterAction, "name" | "recharge" | "usesPerDay" | "legendaryCost"> {
+  let name = raw.replace(/\.\s*$/, "").trim();
+  let recharge: string | null = null;
+  let usesPerDay: number | null = null;
+  let legendaryCost: number | null = null;
+
+  for (const [whole, inner] of name.matchAll(/\s*\(([^)]*)\)/g)) {
+    const rechargeRoll = /^Recharge (\d)(?:\s*-\s*(\d))?$/i.exec(inner);
+    const rechargeRest = /^Recharges? after an? (.+)$/i.exec(inner);
+    const perDay = /^(\d+)\/Day/i.exec(inner);
+    const cost = /^Costs (\d+) Actions$/i.exec(inner);
+    if (rechargeRoll) recharge = rechargeRoll[2] ? `${rechargeRoll[1]}-${rechargeRoll[2]}` : rechargeRoll[1];
+    else if (rechargeRest) recharge = rechargeRest[1].toLowerCase();
+    else if (perDay) usesPerDay = Number(perDay[1]);
+    else if (cost) legendaryCost = Number(cost[1]);
+    else continue;
+    name = name.replace(whole, "");
+  }
+  return { name: name.trim(), recharge, usesPerDay, legendaryCost };
+}
+
+function parseBody(body: string): Pick<MonsterAction, "attackType" | "toHit" | "reach" | "range" | "damage" | "save"> {
+  const attack = /\b(Melee or Ranged|Melee|Ranged)\s+(?:(Weapon|Spell)\s+)?Attack(?:\s+Roll)?:\s*([+-]\d+)/i.exec(body);
+  const reach = /\breach (\d+) ?ft/i.exec(body);
+  const range = /\brange (\d+)(?:\/(\d+))? ?ft/i.exec(body);
+  const save2014 = new RegExp(`\\bDC (\\d+) ${ABILITY} saving throw`, "i").exec(body);
+  const save2024 = new RegExp(`\\b${ABILITY} Saving Throw:\\s*DC (\\d+)`, "i").exec(body);
+
+  const damage: MonsterDamage[] = [];
+  for (const m of body.matchAll(/\b(\d+)(?:\s*\((\d+d\d+(?:\s*[+-]\s*\d+)?)\))?\s+([A-Za-z]+) damage\b/g)) {
+    damage.push({ average: Number(m[1]), dice: m[2]?.replace(/\s+/g, "") ?? null, type: m[3].toLowerCase() });
+  }
+
+  return {
+    attackType: attack ? [attack[1], attack[2]].filter(Boolean).join(" ").toLowerCase() : null,
+    toHit: attack ? Number(attack[3]) : null,
+    reach: reach ? Number(reach[1]) : null,
+    range: range ? { normal: Number(range[1]), long: range[2] ? Number(range[2]) : null } : null,
+    damage,
+    save: save2014
+      ? { dc: Number(save2014[1]), ability: abilityAbbreviation(save2014[2]) }
+      : save2024
+        ? { dc: Number(save2024[2]), ability: abilityAbbreviation(save2024[1]) }
+        : null,
+  };
+}
+
+/** Parses one HTML block, e.g. a monster's actionsDescription. */
+export function parseActionBlock(html: string | null | undefined, kind: MonsterActionKind): MonsterAction[] {
+  if (!html) return [];
+  const actions: MonsterAction[] = [];
+  let current: MonsterAction | null = null;
+
+  for (const paragraph of html.split(/<\/p>|<br\s*\/?>/i)) {
+    const strong = /<strong>([\s\S]*?)<\/strong>/i.exec(paragraph);
+    const opensWithName = strong && text(paragraph.slice(0, strong.index)) === "";
+
+    if (!opensWithName) {
+      const continuation = text(paragraph);
+      if (current && continuation) {
+        current.description += ` ${continuation}`;
+        Object.assign(current, parseBody(current.description));
+      }
+      continue;
+    }
+
+    const name = parseName(text(strong[1]));
+    const description = text(paragraph.slice(strong.index + strong[0].length)).replace(/^[.:]\s*/, "");
+    current = {
+      kind,
+      ...name,
+      ...parseBody(description),
+      legendaryCost: name.legendaryCost ?? (kind === "legendary" || kind === "mythic" ? 1 : null),
+      description,
+    };
+    actions.push(current);
+  }
+  return actions;
+}
+
+/** Every trait and action of a monster, in stat block order. */
+export function parseMonsterActions(
+  monster: Pick<
+    DdbMonster,
+    | "specialTraitsDescription"
+    | "actionsDescription"
+    | "bonusActionsDescription"
+    | "reactionsDescription"
+    | "legendaryActionsDescription"
+    | "mythicActionsDescription"
+  >
+): MonsterAction[] {
+  return [
+    ...parseActionBlock(monster.specialTraitsDescription, "trait"),
+    ...parseActionBlock(monster.actionsDescription, "action"),
+    ...parseActionBlock(monster.bonusActionsDescription, "bonus action"),
+    ...parseActionBlock(monster.reactionsDescription, "reaction"),
+    ...parseActionBlock(monster.legendaryActionsDescription, "legendary"),
+    ...parseActionBlock(monster.mythicActionsDescription, "mythic"),
+  ];
+}
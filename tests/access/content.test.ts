@@ -0,0 +1,75 @@
+import { describe, it, expect } from "vitest";
+import { ContentAccess, SourceAccess, accessFromType, accessTag, canOpen, freeSourceIds } from "../../src/access/content.js";
+import { SourceCatalog } from "../../src/sources/catalog.js";
+
+const CATALOG = SourceCatalog.fromConfig({
+  sources: [
+    { id: 1, name: "Basic Rules" },
+    { id: 5, name: "Monster Manual" },
+    { id: 7, name: "Volo's Guide to Monsters" },
+    { id: 8, name: "Explorer's Guide to Wildemount" },
+  ],
+});
+
+describe("accessFromType", () => {
+  it("should map the documented access codes and leave the rest unknown", () => {
+    expect([1, 4].map(accessFromType)).toEqual(["accessible", "locked"]);
+    expect([2, 3, 9, undefined, null].map(accessFromType)).toEqual(["unknown", "unknown", "unknown", "unknown", "unknown"]);
+    expect(accessTag("locked")).toBe(" [Locked]");
+    expect(accessTag("free")).toBe("");
+    expect(accessTag("unknown")).toBe("");
+  });
+
+  it("should only count accessible and free content as openable", () => {
+    expect(["accessible", "free", "locked", "unknown"].map((a) => canOpen(a as never))).toEqual([true, true, false, false]);
+  });
+});
+
+describe("SourceAccess", () => {
+  const free = freeSourceIds(CATALOG.books);
+  const sources = SourceAccess.fromEntries([
+    { sourceIds: [5], access: "locked" },
+    { sourceIds: [1, 5], access: "accessible" },
+    { sourceIds: [7], access: "accessible" },
+    { sourceIds: [7], access: "unknown" },
+    { sourceIds: [5, 8], access: "accessible" },
+    { sourceIds: [1], access: "unknown" },
+  ], free);
+
+  it("should find the free books by title", () => {
+    expect([...free]).toEqual([1]);
+    expect(sources.get(1)).toBe("free");
+  });
+
+  it("should ignore entries that are also in a free book", () => {
+    expect(sources.get(5)).toBe("locked");
+    expect(sources.get(7)).toBe("accessible");
+  });
+
+  it("should fall back to entries shared with other books", () => {
+    expect(sources.get(8)).toBe("accessible");
+    expect(sources.get(42)).toBeUndefined();
+    expect(sources.entries()).toHaveLength(4);
+  });
+});
+
+describe("ContentAccess", () => {
+  const rules = ContentAccess.fromCatalog(CATALOG, [
+    { sourceIds: [5], access: "locked" },
+    { sourceIds: [7], access: "accessible" },
+  ]);
+
+  it("should keep an entry's own code and make entries in free books free", () => {
+    expect(rules.resolve("locked", [1])).toBe("locked");
+    expect(rules.resolve("accessible", [1, 5])).toBe("free");
+    expect(rules.resolve("unknown", [1])).toBe("free");
+    expect(rules.resolve("accessible", [5])).toBe("accessible");
+  });
+
+  it("should fall back to the entry's books when it has no code", () => {
+    expect(rules.resolve("unknown", [5])).toBe("locked");
+    expect(rules.resolve("unknown", [5, 7])).toBe("accessible");
+    expect(rules.resolve("unknown", [8])).toBe("unknown");
+    expect(ContentAccess.fromCatalog(CATALOG).resolve("unknown", [7])).toBe("unknown");
+  });
+});
@@ -117,6 +117,62 @@ describe("DdbClient", () => {
     });
   });
 
+  describe("fetchRaw", () => {
+    it("shouldSkipTheCacheAndReturnRawJson", async () => {
+      const page = { accessType: {}, data: [{ id: 1 }] };
+      mockFetch.mockResolvedValue({ ok: true, json: vi.fn().mockResolvedValue(page) });
+
+      const result = await client.fetchRaw("https://monster-service.dndbeyond.com/v1/Monster?skip=0&take=20", "background");
+
+      expect(result).toEqual(page);
+      expect(mockCache.get).not.toHaveBeenCalled();
+      expect(mockCache.set).not.toHaveBeenCalled();
+      expect(mockRateLimiter.acquire).toHaveBeenCalledWith("background");
+    });
+  });
+
+  describe("getMany", () => {
+    it("shouldReturnResultsInRequestOrderWithFailuresSettled", async () => {
+      (mockCache.get as ReturnType<typeof vi.fn>).mockReturnValue(undefined);
+      mockFetch.mockImplementation(async (url: string) => {
+        if (url.endsWith("/2")) return { ok: false, status: 404, statusText: "Not Found" };
+        const id = Number(url.split("/").pop());
+        return { ok: true, json: vi.fn().mockResolvedValue({ success: true, data: { id } }) };
+      });
+
+      const base = "https://character-service.dndbeyond.com/character/v5/character";
+      const results = await client.getMany<{ id: number }>(
+        [1, 2, 3].map((id) => ({ url: `${base}/${id}`, cacheKey: `character:${id}`, ttl: 60_000 })),
+      );
+
+      expect(results.map((r) => r.status)).toEqual(["fulfilled", "rejected", "fulfilled"]);
+      expect(results[2]).toEqual({ status: "fulfilled", value: { id: 3 } });
+      expect(mockRateLimiter.acquire).toHaveBeenCalledTimes(3);
+    });
+
+    it("shouldRunAtMostBatchSizeRequestsAtOnce", async () => {
+      (mockCache.get as ReturnType<typeof vi.fn>).mockReturnValue(undefined);
+      let inFlight = 0;
+      let maxInFlight = 0;
+      mockFetch.mockImplementation(async () => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise((resolve) => setTimeout(resolve, 1));
+        inFlight--;
+        return { ok: true, json: vi.fn().mockResolvedValue({ success: true, data: {} }) };
+      });
+
+      const base = "https://character-service.dndbeyond.com/character/v5/character";
+      await client.getMany(
+        [1, 2, 3, 4, 5].map((id) => ({ url: `${base}/${id}`, cacheKey: `character:${id}` })),
+        2,
+      );
+
+      expect(mockFetch).toHaveBeenCalledTimes(5);
+      expect(maxInFlight).toBe(2);
+    });
+  });
+
   describe("put", () => {
     it("shouldSendRequestWithJsonBody", async () => {
       const requestBody = { name: "Updated Character", level: 5 };
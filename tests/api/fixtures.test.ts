@@ -0,0 +1,161 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdtemp, rm, readdir } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { DdbClient } from "../../src/api/client.js";
+import { FixtureStore } from "../../src/api/fixtures.js";
+import { TtlCache } from "../../src/cache/lru.js";
+import { CircuitBreaker, RateLimiter, HttpError } from "../../src/resilience/index.js";
+
+vi.mock("../../src/api/auth.js", () => ({
+  getCobaltToken: vi.fn().mockResolvedValue("fake-bearer-token"),
+  getAllCookies: vi.fn().mockResolvedValue([{ name: "CobaltSession", value: "fake-session" }]),
+  buildAuthHeadersFromCookies: vi.fn(),
+}));
+
+const CHARACTER_URL = "https://character-service.dndbeyond.com/character/v5/character/1?includeCustomItems=true";
+const MONSTER_URL = "https://monster-service.dndbeyond.com/v1/Monster/42";
+
+function createClient(fixtures: FixtureStore | null): DdbClient {
+  return new DdbClient(
+    new TtlCache<unknown>(60_000),
+    new CircuitBreaker(5, 30_000),
+    new RateLimiter(1000, 1),
+    fixtures,
+  );
+}
+
+describe("FixtureStore", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "ddb-fixtures-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("shouldReturnNullFromEnvWhenFixturesDisabled", () => {
+    expect(FixtureStore.fromEnv({})).toBeNull();
+  });
+
+  it("shouldReadModeAndDirectoryFromEnv", () => {
+    const store = FixtureStore.fromEnv({ DDB_FIXTURES: "replay", DDB_FIXTURES_DIR: dir });
+
+    expect(store?.mode).toBe("replay");
+    expect(store?.dir).toBe(dir);
+    expect(store?.isReplaying).toBe(true);
+  });
+
+  it("shouldRejectUnknownModes", () => {
+    expect(() => FixtureStore.fromEnv({ DDB_FIXTURES: "mock" })).toThrow("Invalid DDB_FIXTURES mode");
+  });
+
+  it("shouldKeyFixturesByMethodAndUrl", () => {
+    const store = new FixtureStore(dir, "record");
+
+    expect(store.fileFor("GET", CHARACTER_URL)).toBe(store.fileFor("get", CHARACTER_URL));
+    expect(store.fileFor("GET", CHARACTER_URL)).not.toBe(store.fileFor("PUT", CHARACTER_URL));
+    expect(store.fileFor("GET", MONSTER_URL)).toMatch(/monster-service-get-[0-9a-f]{16}\.json$/);
+  });
+
+  it("shouldKeyWritesByRequestBody", () => {
+    const store = new FixtureStore(dir, "record");
+
+    expect(store.fileFor("PUT", CHARACTER_URL, '{"characterId":1}')).not.toBe(store.fileFor("PUT", CHARACTER_URL, '{"characterId":2}'));
+    expect(store.fileFor("PUT", CHARACTER_URL, '{"characterId":1}')).not.toBe(store.fileFor("PUT", CHARACTER_URL));
+  });
+
+  it("shouldRoundTripSavedResponses", async () => {
+    const store = new FixtureStore(dir, "record");
+    await store.save("GET", MONSTER_URL, { accessType: 1, data: { id: 42 } });
+
+    expect(await store.replay("GET", MONSTER_URL)).toEqual({ accessType: 1, data: { id: 42 } });
+  });
+
+  it("shouldThrow404WhenFixtureMissing", async () => {
+    const store = new FixtureStore(dir, "replay");
+
+    await expect(store.replay("GET", MONSTER_URL)).rejects.toThrow(HttpError);
+    await expect(store.replay("GET", MONSTER_URL)).rejects.toThrow("No recorded fixture for GET");
+  });
+});
+
+describe("DdbClient with fixtures", () => {
+  let dir: string;
+  let mockFetch: ReturnType<typeof vi.fn>;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "ddb-fixtures-"));
+    mockFetch = vi.fn();
+    global.fetch = mockFetch;
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("shouldRecordRawResponsesInRecordMode", async () => {
+    mockFetch.mockResolvedValue({
+      ok: true,
+      json: vi.fn().mockResolvedValue({ success: true, data: { id: 1, name: "Recorded" } }),
+    });
+    const client = createClient(new FixtureStore(dir, "record"));
+
+    const result = await client.get(CHARACTER_URL, "character:1");
+
+    expect(result).toEqual({ id: 1, name: "Recorded" });
+    expect(await readdir(dir)).toHaveLength(1);
+    // The envelope is stored as received so replay unwraps it the same way
+    const stored = await new FixtureStore(dir, "replay").replay("GET", CHARACTER_URL);
+    expect(stored).toEqual({ success: true, data: { id: 1, name: "Recorded" } });
+  });
+
+  it("shouldReplayWithoutNetworkInReplayMode", async () => {
+    await new FixtureStore(dir, "record").save("GET", CHARACTER_URL, {
+      success: true,
+      data: { id: 1, name: "Replayed" },
+    });
+    await new FixtureStore(dir, "record").save("GET", MONSTER_URL, { accessType: 1, data: { id: 42 } });
+    const client = createClient(new FixtureStore(dir, "replay"));
+
+    expect(await client.get(CHARACTER_URL, "character:1")).toEqual({ id: 1, name: "Replayed" });
+    expect(await client.getRaw(MONSTER_URL, "monster:42")).toEqual({ accessType: 1, data: { id: 42 } });
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it("shouldReplayWritesKeyedByMethodAndBody", async () => {
+    const hpUrl = "https://character-service.dndbeyond.com/character/v5/life/hp/damage-taken";
+    const recorder = new FixtureStore(dir, "record");
+    await recorder.save("PUT", hpUrl, { success: true, data: { removedHitPoints: 5 } }, JSON.stringify({ characterId: 1, removedHitPoints: 5 }));
+    await recorder.save("PUT", hpUrl, { success: true, data: { removedHitPoints: 9 } }, JSON.stringify({ characterId: 2, removedHitPoints: 9 }));
+    const client = createClient(new FixtureStore(dir, "replay"));
+
+    expect(await client.put(hpUrl, { characterId: 1, removedHitPoints: 5 })).toEqual({ removedHitPoints: 5 });
+    expect(await client.put(hpUrl, { characterId: 2, removedHitPoints: 9 })).toEqual({ removedHitPoints: 9 });
+    await expect(client.put(hpUrl, { characterId: 3, removedHitPoints: 1 })).rejects.toThrow("No recorded fixture");
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it("shouldRecordWritesToTheSameUrlSeparately", async () => {
+    const hpUrl = "https://character-service.dndbeyond.com/character/v5/life/hp/damage-taken";
+    mockFetch.mockResolvedValue({
+      ok: true,
+      json: vi.fn().mockResolvedValue({ success: true, data: {} }),
+    });
+    const client = createClient(new FixtureStore(dir, "record"));
+
+    await client.put(hpUrl, { characterId: 1, removedHitPoints: 5 });
+    await client.put(hpUrl, { characterId: 2, removedHitPoints: 9 });
+
+    expect(await readdir(dir)).toHaveLength(2);
+  });
+
+  it("shouldFailFastWhenReplayFixtureMissing", async () => {
+    const client = createClient(new FixtureStore(dir, "replay"));
+
+    await expect(client.get(CHARACTER_URL, "character:1")).rejects.toThrow("No recorded fixture");
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+});
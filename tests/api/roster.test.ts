@@ -0,0 +1,137 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { loadCharacterRoster, matchCharacterName, findCharacterByName, formatMembership } from "../../src/api/roster.js";
+import { listCharacters } from "../../src/tools/character.js";
+import type { DdbClient } from "../../src/api/client.js";
+import * as auth from "../../src/api/auth.js";
+
+vi.mock("../../src/api/auth.js", () => ({
+  getUserId: vi.fn(),
+}));
+
+const CAMPAIGNS = [{ id: 999, name: "Lost Mines of Phandelver" }];
+const CAMPAIGN_CHARACTERS = [
+  { id: 1, name: "Thorin Ironforge", characterStatus: 1 },
+  { id: 2, name: "Elara Moonwhisper", characterStatus: 1 },
+];
+const USER_CHARACTERS = {
+  characters: [
+    { id: 1, name: "Thorin Ironforge", campaignId: 999, campaignName: "Lost Mines of Phandelver", characterStatus: 1 },
+    { id: 3, name: "Thorin's Backup", campaignId: null, campaignName: null, characterStatus: 1 },
+    { id: 4, name: "Grimjaw", campaignId: null, campaignName: null, characterStatus: 2 },
+  ],
+};
+
+function createMockClient(userList: unknown = USER_CHARACTERS): DdbClient {
+  return {
+    get: vi.fn(async (url: string) => {
+      if (url.includes("active-campaigns")) return CAMPAIGNS;
+      if (url.includes("active-short-characters")) return CAMPAIGN_CHARACTERS;
+      if (url.includes("characters/list")) {
+        if (userList instanceof Error) throw userList;
+        return userList;
+      }
+      const id = Number(/character\/(\d+)/.exec(url)?.[1]);
+      return {
+        id,
+        name: ["", "Thorin Ironforge", "Elara Moonwhisper", "Thorin's Backup", "Grimjaw"][id],
+        race: { fullName: "Human" },
+        classes: [{ definition: { name: "Fighter" }, subclassDefinition: null, level: 2, isStartingClass: true }],
+      };
+    }),
+    getRaw: vi.fn(),
+  } as unknown as DdbClient;
+}
+
+describe("loadCharacterRoster", () => {
+  beforeEach(() => {
+    vi.mocked(auth.getUserId).mockResolvedValue(106856761);
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  it("should merge the user's own characters with campaign rosters", async () => {
+    const client = createMockClient();
+    const roster = await loadCharacterRoster(client);
+
+    expect(roster.map((c) => c.id)).toEqual([1, 2, 3, 4]);
+    expect(roster[0]).toEqual({
+      id: 1,
+      name: "Thorin Ironforge",
+      status: 1,
+      campaigns: [{ id: 999, name: "Lost Mines of Phandelver" }],
+      owned: true,
+    });
+    expect(roster[1].owned).toBe(false);
+    expect(roster[2].campaigns).toEqual([]);
+    expect(client.get).toHaveBeenCalledWith(
+      expect.stringContaining("characters/list?userId=106856761"),
+      "characters:user:106856761",
+      300_000
+    );
+  });
+
+  it("should accept a bare array from the user character list", async () => {
+    const roster = await loadCharacterRoster(createMockClient(USER_CHARACTERS.characters));
+
+    expect(roster.map((c) => c.id)).toEqual([1, 2, 3, 4]);
+  });
+
+  it("should fall back to campaign rosters without a user ID or when the list fails", async () => {
+    vi.mocked(auth.getUserId).mockResolvedValue(null);
+    expect((await loadCharacterRoster(createMockClient())).map((c) => c.id)).toEqual([1, 2]);
+
+    vi.mocked(auth.getUserId).mockResolvedValue(106856761);
+    expect((await loadCharacterRoster(createMockClient(new Error("403")))).map((c) => c.id)).toEqual([1, 2]);
+  });
+});
+
+describe("matchCharacterName", () => {
+  const roster = [
+    { id: 1, name: "Thorin Ironforge", status: 1, campaigns: [], owned: true },
+    { id: 3, name: "Thorin's Backup", status: 1, campaigns: [], owned: true },
+    { id: 4, name: "Grimjaw", status: 2, campaigns: [], owned: true },
+  ];
+
+  it("should prefer exact matches over substring matches", () => {
+    expect(matchCharacterName(roster, "thorin ironforge")).toMatchObject({ id: 1 });
+  });
+
+  it("should report ambiguous substring matches", () => {
+    expect(matchCharacterName(roster, "Thorin")).toBe(
+      'Character name "Thorin" matches several characters: Thorin Ironforge (ID 1), Thorin\'s Backup (ID 3). Use characterId to pick one.'
+    );
+  });
+
+  it("should fall back to fuzzy matching", () => {
+    expect(matchCharacterName(roster, "Grimjow")).toMatchObject({ id: 4 });
+    expect(matchCharacterName(roster, "Gandalf")).toBe('Character "Gandalf" not found.');
+  });
+});
+
+describe("character discovery", () => {
+  beforeEach(() => {
+    vi.mocked(auth.getUserId).mockResolvedValue(106856761);
+  });
+
+  it("should find characters that are not in any campaign by name", async () => {
+    expect(await findCharacterByName(createMockClient(), "Grimjaw")).toBe(4);
+  });
+
+  it("should list IDs, campaign membership and status", async () => {
+    const result = await listCharacters(createMockClient());
+    const text = result.content[0].text;
+
+    expect(text).toContain("ID: 1 | Thorin Ironforge - Human Fighter 2 (Level 2) - Lost Mines of Phandelver - Active");
+    expect(text).toContain("ID: 3 | Thorin's Backup - Human Fighter 2 (Level 2) - No campaign - Active");
+    expect(text).toContain("ID: 4 | Grimjaw - Human Fighter 2 (Level 2) - No campaign - Status 2");
+  });
+
+  it("should format membership across several campaigns", () => {
+    expect(formatMembership({
+      id: 1,
+      name: "Thorin",
+      status: null,
+      campaigns: [{ id: 1, name: "A" }, { id: 2, name: "B" }],
+      owned: false,
+    })).toBe("A, B - Unknown");
+  });
+});
@@ -0,0 +1,145 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdtemp, rm, readdir, readFile, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { DiskCache, DISK_CACHE_VERSION } from "../../src/cache/disk.js";
+import { TtlCache } from "../../src/cache/lru.js";
+import { DdbClient } from "../../src/api/client.js";
+import { CircuitBreaker, RateLimiter } from "../../src/resilience/index.js";
+
+vi.mock("../../src/api/auth.js", () => ({
+  getCobaltToken: vi.fn().mockResolvedValue("fake-bearer-token"),
+  getAllCookies: vi.fn().mockResolvedValue([{ name: "CobaltSession", value: "fake-session" }]),
+  buildAuthHeadersFromCookies: vi.fn(),
+}));
+
+const DAY = 86_400_000;
+
+describe("DiskCache", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "ddb-disk-cache-"));
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("should store and retrieve values across instances", async () => {
+    await new DiskCache(dir).set("game-data:feats", [{ id: 1 }], DAY);
+
+    const hit = await new DiskCache(dir).get<Array<{ id: number }>>("game-data:feats");
+    expect(hit?.value).toEqual([{ id: 1 }]);
+  });
+
+  it("should only accept long-TTL keys", () => {
+    const cache = new DiskCache(dir, { minTtlMs: 3_600_000 });
+    expect(cache.accepts(DAY)).toBe(true);
+    expect(cache.accepts(60_000)).toBe(false);
+    expect(cache.accepts(undefined)).toBe(false);
+  });
+
+  it("should expire entries after TTL", async () => {
+    const cache = new DiskCache(dir);
+    await cache.set("game-config", { ok: true }, 1_000);
+
+    vi.useFakeTimers();
+    vi.setSystemTime(Date.now() + 1_001);
+    expect(await cache.get("game-config")).toBeUndefined();
+  });
+
+  it("should ignore entries written by another cache version", async () => {
+    const cache = new DiskCache(dir);
+    await cache.set("game-data:items", ["old"], DAY);
+    const [file] = await readdir(dir);
+    const entry = JSON.parse(await readFile(join(dir, file), "utf-8"));
+    await writeFile(join(dir, file), JSON.stringify({ ...entry, version: DISK_CACHE_VERSION - 1 }));
+
+    expect(await cache.get("game-data:items")).toBeUndefined();
+    expect(await readdir(dir)).toHaveLength(0);
+  });
+
+  it("should evict oldest entries when over the size limit", async () => {
+    const cache = new DiskCache(dir, { maxBytes: 300 });
+    await cache.set("first", "x".repeat(150), DAY);
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    await cache.set("second", "y".repeat(150), DAY);
+
+    expect(await cache.get("first")).toBeUndefined();
+    expect((await cache.get("second"))?.value).toBe("y".repeat(150));
+  });
+
+  it("should clear all entries", async () => {
+    const cache = new DiskCache(dir);
+    await cache.set("a", 1, DAY);
+    await cache.set("b", 2, DAY);
+    expect((await cache.stats()).entries).toBe(2);
+
+    await cache.clear();
+    expect(await cache.stats()).toEqual({ entries: 0, bytes: 0 });
+  });
+
+  it("should be disabled by DDB_DISK_CACHE=off", () => {
+    expect(DiskCache.fromEnv({ DDB_DISK_CACHE: "off" })).toBeNull();
+    expect(DiskCache.fromEnv({ DDB_CACHE_DIR: dir })?.dir).toBe(dir);
+  });
+});
+
+describe("DdbClient with DiskCache", () => {
+  let dir: string;
+  let mockFetch: ReturnType<typeof vi.fn>;
+
+  const createClient = () =>
+    new DdbClient(
+      new TtlCache<unknown>(60_000),
+      new CircuitBreaker(5, 30_000),
+      new RateLimiter(1000, 1),
+      null,
+      new DiskCache(dir),
+    );
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "ddb-disk-cache-"));
+    mockFetch = vi.fn().mockResolvedValue({
+      ok: true,
+      json: vi.fn().mockResolvedValue({ success: true, data: [{ id: 7, name: "Alert" }] }),
+    });
+    global.fetch = mockFetch;
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("should serve long-TTL keys from disk after a restart", async () => {
+    const url = "https://character-service.dndbeyond.com/character/v5/game-data/feats";
+    await createClient().get(url, "game-data:feats", DAY);
+
+    const restarted = createClient();
+    const feats = await restarted.get(url, "game-data:feats", DAY);
+
+    expect(feats).toEqual([{ id: 7, name: "Alert" }]);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("should not persist short-TTL keys", async () => {
+    const url = "https://character-service.dndbeyond.com/character/v5/character/1";
+    await createClient().get(url, "character:1", 60_000);
+
+    expect(await readdir(dir).catch(() => [])).toHaveLength(0);
+  });
+
+  it("should clear both tiers", async () => {
+    const url = "https://character-service.dndbeyond.com/character/v5/game-data/feats";
+    const client = createClient();
+    await client.get(url, "game-data:feats", DAY);
+
+    const removed = await client.clearCache();
+    await client.get(url, "game-data:feats", DAY);
+
+    expect(removed.entries).toBe(1);
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdtemp, mkdir, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { HomebrewStore, isLocalHomebrew } from "../../src/homebrew/store.js";
+
+describe("HomebrewStore", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "ddb-homebrew-"));
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("should load JSON and YAML files, including subdirectories", async () => {
+    await writeFile(join(dir, "monsters.json"), JSON.stringify({ monsters: [{ name: "Ashen Wight", armorClass: 15 }] }));
+    await mkdir(join(dir, "loot"));
+    await writeFile(join(dir, "loot", "items.yaml"), "items:\n  - name: Lantern of Embers\n    rarity: Uncommon\n");
+
+    const content = await new HomebrewStore(dir).load();
+
+    expect(content.monsters).toHaveLength(1);
+    expect(content.monsters[0]).toMatchObject({ name: "Ashen Wight", armorClass: 15, isHomebrew: true, stats: [] });
+    expect(content.items[0]).toMatchObject({ name: "Lantern of Embers", rarity: "Uncommon", requiresAttunement: false });
+    expect(isLocalHomebrew(content.monsters[0])).toBe(true);
+  });
+
+  it("should give entries without an id unique negative ids", async () => {
+    await writeFile(join(dir, "feats.yml"), "feats:\n  - name: Ashborn\n  - name: Cinderheart\n  - name: Kept\n    id: 77\n");
+
+    const { feats } = await new HomebrewStore(dir).load();
+
+    expect(feats.map((f) => f.id)).toEqual([-1, -2, 77]);
+  });
+
+  it("should fill in spell definition defaults", async () => {
+    await writeFile(
+      join(dir, "spells.yaml"),
+      "spells:\n  - classes: [Wizard]\n    definition:\n      name: Cinder Veil\n      level: 2\n      school: Evocation\n"
+    );
+
+    const { spells } = await new HomebrewStore(dir).load();
+
+    expect(spells[0].classes).toEqual(["Wizard"]);
+    expect(spells[0].definition).toMatchObject({ name: "Cinder Veil", level: 2, concentration: false, components: [] });
+  });
+
+  it("should skip unreadable files and nameless entries with warnings", async () => {
+    await writeFile(join(dir, "broken.json"), "{ not json");
+    await writeFile(join(dir, "partial.yaml"), "monsters:\n  - armorClass: 12\n  - name: Gloomling\nitems: nope\n");
+    await writeFile(join(dir, "notes.txt"), "monsters: []");
+
+    const store = new HomebrewStore(dir);
+    const content = await store.load();
+
+    expect(content.monsters.map((m) => m.name)).toEqual(["Gloomling"]);
+    expect(store.warnings).toHaveLength(3);
+    expect(store.warnings[0]).toMatch(/^broken\.json: /);
+    expect(store.warnings).toContain("partial.yaml: monsters[0] has no name");
+    expect(store.warnings).toContain('partial.yaml: "items" must be a list');
+  });
+
+  it("should return empty content when the directory does not exist", async () => {
+    const content = await new HomebrewStore(join(dir, "missing")).load();
+
+    expect(content).toEqual({ monsters: [], items: [], spells: [], feats: [] });
+  });
+
+  it("should memoize until reloaded", async () => {
+    const store = new HomebrewStore(dir);
+    expect((await store.load()).feats).toHaveLength(0);
+
+    await writeFile(join(dir, "feats.json"), JSON.stringify({ feats: [{ name: "Ashborn" }] }));
+    expect((await store.load()).feats).toHaveLength(0);
+
+    store.reload();
+    expect((await store.load()).feats).toHaveLength(1);
+  });
+
+  it("should read its directory from the environment", () => {
+    expect(HomebrewStore.fromEnv({ DDB_HOMEBREW_DIR: dir })?.dir).toBe(dir);
+    expect(HomebrewStore.fromEnv({ DDB_HOMEBREW: "off" })).toBeNull();
+  });
+});
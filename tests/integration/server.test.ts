@@ -16,6 +16,7 @@ import {
   updateHp,
 } from "../../src/tools/character.js";
 import { listCampaigns } from "../../src/tools/campaign.js";
+import { createServer } from "../../src/server.js";
 import * as auth from "../../src/api/auth.js";
 
 /**
@@ -300,3 +301,56 @@ describe("MCP Server Integration", () => {
     expect(messageText).toContain("TestCharacter");
   });
 });
+
+describe("Structured tool output", () => {
+  const items = [
+    {
+      id: 1, name: "Bag of Holding", type: "Wondrous Item", filterType: "Wondrous Item",
+      rarity: "Uncommon", requiresAttunement: false, attunementDescription: "",
+      description: "<p>A bag that holds more.</p>", snippet: "", weight: 15,
+      cost: null, armorClass: null, damage: null, properties: null,
+      isHomebrew: false, sources: [], canAttune: false, magic: true,
+    },
+  ];
+  let server: McpServer;
+  let client: Client;
+
+  beforeAll(async () => {
+    const ddbClient = { get: vi.fn().mockResolvedValue(items), getRaw: vi.fn() } as unknown as DdbClient;
+    server = createServer(ddbClient, { homebrew: null, snapshots: null, monsters: null });
+    const [serverTransport, clientTransport] = InMemoryTransport.createLinkedPair();
+    await server.connect(serverTransport);
+    client = new Client({ name: "test-client", version: "1.0.0" });
+    await client.connect(clientTransport);
+  });
+
+  afterAll(async () => {
+    await client.close();
+    await server.close();
+  });
+
+  it("should declare output schemas for data tools", async () => {
+    const { tools } = await client.listTools();
+    const withSchema = tools.filter((t) => t.outputSchema).map((t) => t.name);
+
+    expect(withSchema).toEqual(expect.arrayContaining([
+      "get_character", "search_spells", "get_spell", "search_monsters",
+      "get_monster", "search_items", "get_item", "search_feats",
+    ]));
+  });
+
+  it("should return schema-valid structured content next to the text", async () => {
+    const result = await client.callTool({ name: "get_item", arguments: { itemName: "bag of holding" } });
+
+    expect(result.isError).toBeFalsy();
+    expect(result.structuredContent).toMatchObject({ name: "Bag of Holding", weight: 15, description: "A bag that holds more." });
+    expect((result.content as Array<{ text: string }>)[0].text).toContain("# Bag of Holding");
+  });
+
+  it("should report lookups that find nothing as tool errors", async () => {
+    const result = await client.callTool({ name: "get_item", arguments: { itemName: "Deck of Many Things" } });
+
+    expect(result.isError).toBe(true);
+    expect(result.structuredContent).toBeUndefined();
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, it, expect } from "vitest";
+import { MutationJournal } from "../../src/journal/store.js";
+import type { WritePlan } from "../../src/tools/writes.js";
+
+function plan(characterId: number, used: number): WritePlan {
+  return {
+    characterId,
+    requests: [{ method: "PUT", url: "https://example.com/slots", body: { characterId, used } }],
+    changes: [{ field: "Slots used", before: used - 1, after: used }],
+  };
+}
+
+describe("MutationJournal", () => {
+  it("should record entries with their undo requests", () => {
+    const journal = new MutationJournal();
+
+    const entry = journal.record(plan(1, 2), new Date("2026-10-19T13:00:00Z"));
+
+    expect(entry).toMatchObject({ id: 1, characterId: 1, recordedAt: "2026-10-19T13:00:00.000Z", undo: null, notes: [] });
+    expect(journal.latest()).toBe(entry);
+  });
+
+  it("should find the latest entry per character", () => {
+    const journal = new MutationJournal();
+    const first = journal.record(plan(1, 1));
+    const second = journal.record(plan(2, 1));
+
+    expect(journal.latest()).toBe(second);
+    expect(journal.latest(1)).toBe(first);
+    expect(journal.latest(3)).toBeNull();
+
+    journal.remove(second.id);
+    expect(journal.latest()).toBe(first);
+  });
+
+  it("should drop the oldest entries past the limit", () => {
+    const journal = new MutationJournal({ maxEntries: 2 });
+    journal.record(plan(1, 1));
+    journal.record(plan(1, 2));
+    journal.record(plan(1, 3));
+
+    expect(journal.size).toBe(2);
+    expect(journal.latest()?.requests[0].body).toEqual({ characterId: 1, used: 3 });
+  });
+
+  it("should be disabled with DDB_JOURNAL=off", () => {
+    expect(MutationJournal.fromEnv({ DDB_JOURNAL: "off" })).toBeNull();
+    expect(MutationJournal.fromEnv({})).toBeInstanceOf(MutationJournal);
+  });
+});
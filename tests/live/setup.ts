@@ -2,7 +2,10 @@
  * Shared setup for live integration tests.
  *
  * Creates a real DdbClient that hits actual D&D Beyond endpoints.
- * Requires valid auth credentials in ~/.dndbeyond-mcp/config.json.
+ * Requires valid auth credentials in ~/.dndbeyond-mcp/config.json, unless
+ * DDB_FIXTURES=replay is set, in which case responses come from recorded
+ * fixtures (see src/api/fixtures.ts) and no network or cookie is needed.
+ * Run once with DDB_FIXTURES=record to capture them.
  *
  * Two setup functions:
  *   getLiveClient()        — just the client (for reference/campaign tests)
@@ -11,6 +14,7 @@
 import { TtlCache } from "../../src/cache/lru.js";
 import { CircuitBreaker, RateLimiter } from "../../src/resilience/index.js";
 import { DdbClient } from "../../src/api/client.js";
+import { FixtureStore } from "../../src/api/fixtures.js";
 import { isAuthenticated } from "../../src/api/auth.js";
 import { ENDPOINTS } from "../../src/api/endpoints.js";
 import type { DdbCampaign } from "../../src/types/api.js";
@@ -25,7 +29,8 @@ let resolvedCharacterId: number | null = null;
 export async function getLiveClient(): Promise<DdbClient> {
   if (sharedClient) return sharedClient;
 
-  const authed = await isAuthenticated();
+  const fixtures = FixtureStore.fromEnv();
+  const authed = fixtures?.isReplaying || (await isAuthenticated());
   if (!authed) {
     throw new Error(
       "Live tests require authentication. Run `npm run setup` first."
@@ -35,7 +40,7 @@ export async function getLiveClient(): Promise<DdbClient> {
   const cache = new TtlCache<unknown>(30_000);
   const circuitBreaker = new CircuitBreaker(5, 30_000);
   const rateLimiter = new RateLimiter(3, 1000);
-  sharedClient = new DdbClient(cache, circuitBreaker, rateLimiter);
+  sharedClient = new DdbClient(cache, circuitBreaker, rateLimiter, fixtures);
   return sharedClient;
 }
 
@@ -0,0 +1,132 @@
+import { describe, it, expect, vi } from "vitest";
+import { MonsterIndex, indexMonster } from "../../src/monsters/monster-index.js";
+import type { DdbClient } from "../../src/api/client.js";
+
+function monster(id: number, name: string, overrides: Record<string, unknown> = {}) {
+  return {
+    id,
+    name,
+    challengeRatingId: 5,
+    typeId: 11,
+    sizeId: 3,
+    alignmentId: 9,
+    armorClass: 12,
+    averageHitPoints: 10,
+    isHomebrew: false,
+    isLegendary: false,
+    isMythic: false,
+    environments: [],
+    damageAdjustments: [],
+    movements: [{ movementId: 1, speed: 30, notes: null }],
+    sources: [{ sourceId: 5 }],
+    specialTraitsDescription: "",
+    actionsDescription: "",
+    bonusActionsDescription: "",
+    reactionsDescription: "",
+    legendaryActionsDescription: "",
+    mythicActionsDescription: "",
+    ...overrides,
+  };
+}
+
+/** Serves `monsters` 20 to a page, like the monster service. */
+function createPagedClient(monsters: unknown[]): DdbClient {
+  return {
+    fetchRaw: vi.fn(async (url: string) => {
+      const skip = Number(new URL(url).searchParams.get("skip"));
+      return {
+        accessType: {},
+        pagination: { take: 20, skip, total: monsters.length },
+        data: monsters.slice(skip, skip + 20),
+      };
+    }),
+  } as unknown as DdbClient;
+}
+
+describe("indexMonster", () => {
+  it("should keep the fields search filters need", () => {
+    const entry = indexMonster(monster(1, "Drake", {
+      sources: [{ sourceId: 5 }, { sourceId: 27 }],
+      movements: [{ movementId: 1, speed: 30, notes: null }, { movementId: 4, speed: 60, notes: null }],
+      actionsDescription: "<p><strong>Breath.</strong> DC 13 Dexterity saving throw, taking 7 (2d6) fire damage.</p>",
+    }) as never);
+
+    expect(entry).toMatchObject({
+      sourceIds: [5, 27],
+      movementIds: [1, 4],
+      saves: [{ action: "Breath", dc: 13, ability: "DEX" }],
+      localHomebrew: false,
+    });
+  });
+});
+
+describe("MonsterIndex", () => {
+  it("should fetch every page and sort by name", async () => {
+    const monsters = Array.from({ length: 45 }, (_, i) => monster(i + 1, `Monster ${String(45 - i).padStart(2, "0")}`));
+    const client = createPagedClient(monsters);
+    const index = new MonsterIndex();
+
+    await index.build(client);
+
+    expect(client.fetchRaw).toHaveBeenCalledTimes(3);
+    expect(index.ready).toBe(true);
+    expect(index.monsters).toHaveLength(45);
+    expect(index.monsters[0].name).toBe("Monster 01");
+    expect(index.status).toMatchObject({ state: "ready", loaded: 45, total: 45 });
+  });
+
+  it("should share a running build and skip rebuilding while fresh", async () => {
+    const client = createPagedClient([monster(1, "Goblin")]);
+    const index = new MonsterIndex({ maxAgeMs: 60_000 });
+
+    index.start(client);
+    expect(index.status.state).toBe("building");
+    await index.build(client);
+    index.start(client);
+
+    expect(client.fetchRaw).toHaveBeenCalledTimes(1);
+  });
+
+  it("should report a failed build and keep serving nothing", async () => {
+    const client = { fetchRaw: vi.fn().mockRejectedValue(new Error("Service unavailable")) } as unknown as DdbClient;
+    const index = new MonsterIndex();
+
+    await expect(index.build(client)).rejects.toThrow("Service unavailable");
+
+    expect(index.ready).toBe(false);
+    expect(index.status).toMatchObject({ state: "failed", error: "Service unavailable" });
+  });
+
+  it("should back off before retrying a failed build, longer after each failure", async () => {
+    const client = { fetchRaw: vi.fn().mockRejectedValue(new Error("Service unavailable")) } as unknown as DdbClient;
+    const index = new MonsterIndex({ retryDelayMs: 1000 });
+    const failed = Date.now();
+
+    await expect(index.build(client)).rejects.toThrow();
+    index.start(client, failed + 500);
+    expect(client.fetchRaw).toHaveBeenCalledTimes(1);
+
+    await expect(index.build(client)).rejects.toThrow();
+    const retryAt = Date.parse(index.status.retryAt!);
+    expect(retryAt - failed).toBeGreaterThanOrEqual(2000);
+
+    index.start(client, retryAt - 1);
+    expect(client.fetchRaw).toHaveBeenCalledTimes(2);
+    index.start(client, retryAt);
+    await vi.waitFor(() => expect(index.status.state).toBe("failed"));
+    expect(client.fetchRaw).toHaveBeenCalledTimes(3);
+  });
+
+  it("should fetch pages at background priority", async () => {
+    const client = createPagedClient([monster(1, "Goblin")]);
+
+    await new MonsterIndex().build(client);
+
+    expect(client.fetchRaw).toHaveBeenCalledWith(expect.any(String), "background");
+  });
+
+  it("should be disabled by DDB_MONSTER_INDEX=off", () => {
+    expect(MonsterIndex.fromEnv({ DDB_MONSTER_INDEX: "off" })).toBeNull();
+    expect(MonsterIndex.fromEnv({})).toBeInstanceOf(MonsterIndex);
+  });
+});
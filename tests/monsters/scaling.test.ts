@@ -0,0 +1,96 @@
+import { describe, it, expect } from "vitest";
+import { scaleStatBlock } from "../../src/monsters/scaling.js";
+import type { DdbMonster, GameConfig } from "../../src/types/reference.js";
+
+const CONFIG = {
+  challengeRatings: [
+    { id: 3, value: 0.25, xp: 50, proficiencyBonus: 2 },
+    { id: 5, value: 1, xp: 200, proficiencyBonus: 2 },
+    { id: 8, value: 4, xp: 1100, proficiencyBonus: 2 },
+    { id: 9, value: 5, xp: 1800, proficiencyBonus: 3 },
+  ],
+  monsterTypes: [],
+  environments: [],
+  alignments: [],
+  damageTypes: [],
+  senses: [],
+} as unknown as GameConfig;
+
+const GOBLIN = {
+  id: 17100,
+  name: "Goblin",
+  challengeRatingId: 3,
+  armorClass: 15,
+  averageHitPoints: 7,
+  hitPointDice: { diceCount: 2, diceValue: 6, fixedValue: 0, diceString: "2d6" },
+  isLegendary: false,
+  stats: [{ statId: 3, value: 10 }],
+  savingThrows: [{ statId: 2, bonusModifier: 4 }],
+  skills: [{ skillId: 5, value: 6 }],
+  skillsHtml: "Stealth +6",
+  specialTraitsDescription: "",
+  actionsDescription:
+    "<p><em><strong>Scimitar.</strong></em> <em>Melee Weapon Attack:</em> +4 to hit, reach 5 ft., one target. <em>Hit:</em> 5 (1d6 + 2) slashing damage.</p>" +
+    "<p><strong>Poison Dart.</strong> The target must succeed on a DC 12 Constitution saving throw.</p>",
+  bonusActionsDescription: "",
+  reactionsDescription: "",
+  legendaryActionsDescription: "",
+  mythicActionsDescription: "",
+} as unknown as DdbMonster;
+
+describe("scaleStatBlock", () => {
+  it("should move hit points, AC, to-hit, DCs and damage to the target row", () => {
+    const { monster, xp, changes } = scaleStatBlock(GOBLIN, CONFIG, { targetCr: 5 });
+
+    expect(monster.name).toBe("Goblin (CR 5)");
+    expect(monster.challengeRatingId).toBe(9);
+    expect(monster.armorClass).toBe(17);
+    expect(monster.averageHitPoints).toBeGreaterThanOrEqual(131);
+    expect(monster.hitPointDice.diceString).toMatch(/^\d+d6$/);
+    expect(monster.actionsDescription).toContain("+7 to hit");
+    expect(monster.actionsDescription).toContain("DC 14 Constitution");
+    expect(monster.actionsDescription).toContain("40 (11d6 + 2) slashing damage");
+    expect(monster.savingThrows[0].bonusModifier).toBe(5);
+    expect(monster.skillsHtml).toBe("Stealth +7");
+    expect(xp).toBe(1800);
+    expect(changes).toContain("Challenge: 1/4 → 5");
+    expect(GOBLIN.armorClass).toBe(15);
+  });
+
+  it("should turn a monster into a minion worth a quarter of its XP", () => {
+    const { monster, xp } = scaleStatBlock(GOBLIN, CONFIG, { targetCr: 1, template: "minion" });
+
+    expect(monster.name).toBe("Goblin Minion (CR 1)");
+    expect(monster.averageHitPoints).toBe(1);
+    expect(monster.specialTraitsDescription).toContain("<strong>Minion.</strong>");
+    expect(xp).toBe(50);
+  });
+
+  it("should give a solo boss legendary resistance and extra legendary actions", () => {
+    const { monster } = scaleStatBlock(GOBLIN, CONFIG, { template: "solo-boss" });
+
+    expect(monster.name).toBe("Solo Goblin");
+    expect(monster.averageHitPoints).toBe(14);
+    expect(monster.isLegendary).toBe(true);
+    expect(monster.specialTraitsDescription).toContain("Legendary Resistance (3/Day)");
+    expect(monster.legendaryActionsDescription).toContain("can take 3 legendary actions");
+
+    const again = scaleStatBlock(monster, CONFIG, { template: "solo-boss" }).monster;
+    expect(again.legendaryActionsDescription).toContain("can take 5 legendary actions");
+  });
+
+  it("should make an elite tougher without changing its CR", () => {
+    const { monster, changes } = scaleStatBlock(GOBLIN, CONFIG, { template: "elite" });
+
+    expect(monster.name).toBe("Elite Goblin");
+    expect(monster.challengeRatingId).toBe(3);
+    expect(monster.armorClass).toBe(16);
+    expect(monster.actionsDescription).toContain("+5 to hit");
+    expect(monster.actionsDescription).toContain("DC 13");
+    expect(changes).toContain("Hit Points: 7 → 14");
+  });
+
+  it("should reject a CR that isn't on the table", () => {
+    expect(() => scaleStatBlock(GOBLIN, CONFIG, { targetCr: 3 })).toThrow("There is no CR 3");
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { PermissionProfile } from "../../src/permissions/profile.js";
+import { createServer } from "../../src/server.js";
+import type { DdbClient } from "../../src/api/client.js";
+import * as auth from "../../src/api/auth.js";
+
+vi.mock("../../src/api/auth.js", () => ({
+  getUserId: vi.fn(),
+}));
+
+const CAMPAIGNS = [{ id: 999, name: "Lost Mines of Phandelver" }];
+const CAMPAIGN_CHARACTERS = [
+  { id: 1, name: "Thorin Ironforge", characterStatus: 1 },
+  { id: 2, name: "Elara Moonwhisper", characterStatus: 1 },
+];
+const USER_CHARACTERS = [{ id: 1, name: "Thorin Ironforge", campaignId: 999, campaignName: "Lost Mines of Phandelver" }];
+
+function createMockClient(): DdbClient {
+  return {
+    get: vi.fn(async (url: string) => {
+      if (url.includes("active-campaigns")) return CAMPAIGNS;
+      if (url.includes("active-short-characters")) return CAMPAIGN_CHARACTERS;
+      if (url.includes("characters/list")) return USER_CHARACTERS;
+      const id = Number(/\/character\/(\d+)/.exec(url)?.[1] ?? 1);
+      return { id, name: id === 1 ? "Thorin Ironforge" : "Stranger", removedHitPoints: 0, temporaryHitPoints: 0 };
+    }),
+    getRaw: vi.fn(),
+    put: vi.fn().mockResolvedValue({}),
+    invalidateCache: vi.fn(),
+  } as unknown as DdbClient;
+}
+
+describe("PermissionProfile", () => {
+  beforeEach(() => {
+    vi.mocked(auth.getUserId).mockResolvedValue(106856761);
+  });
+
+  it("should read the profile from DDB_PROFILE and reject unknown names", () => {
+    expect(PermissionProfile.fromEnv({}).name).toBe("full");
+    expect(PermissionProfile.fromEnv({ DDB_PROFILE: "Player" }).name).toBe("player");
+    expect(() => PermissionProfile.fromEnv({ DDB_PROFILE: "admin" })).toThrow('Unknown DDB_PROFILE "admin"');
+  });
+
+  it("should allow each profile its own kinds of tools", () => {
+    const readonly = new PermissionProfile("readonly");
+    const player = new PermissionProfile("player");
+    const dm = new PermissionProfile("dm");
+
+    expect(readonly.allowsTool("get_character")).toBe(true);
+    expect(readonly.allowsTool("update_hp")).toBe(false);
+    expect(player.allowsTool("update_hp")).toBe(true);
+    expect(player.allowsTool("set_class_level")).toBe(false);
+    expect(dm.allowsTool("set_class_level")).toBe(true);
+    expect(dm.allowsTool("damage_combatant")).toBe(true);
+    expect(dm.allowsTool("delete_character")).toBe(false);
+    expect(new PermissionProfile().allowsTool("delete_character")).toBe(true);
+  });
+
+  it("should limit players to their own characters and DMs to their campaigns", async () => {
+    const client = createMockClient();
+    const player = new PermissionProfile("player");
+    const dm = new PermissionProfile("dm");
+
+    expect(await player.checkCharacter(client, 1)).toBeNull();
+    expect(await player.checkCharacter(client, 2)).toContain("only allows changes to your own characters");
+    expect(await dm.checkCharacter(client, 2)).toBeNull();
+    expect(await dm.checkCharacter(client, 77)).toContain("character 77 is in neither");
+  });
+});
+
+describe("createServer with a permission profile", () => {
+  let ddbClient: DdbClient;
+  let client: Client;
+
+  async function connect(profile: PermissionProfile): Promise<void> {
+    const server = createServer(ddbClient, { homebrew: null, snapshots: null, monsters: null }, profile);
+    const [serverTransport, clientTransport] = InMemoryTransport.createLinkedPair();
+    await server.connect(serverTransport);
+    client = new Client({ name: "test-client", version: "1.0.0" });
+    await client.connect(clientTransport);
+  }
+
+  beforeEach(() => {
+    vi.mocked(auth.getUserId).mockResolvedValue(106856761);
+    ddbClient = createMockClient();
+  });
+
+  afterEach(async () => {
+    await client.close();
+  });
+
+  it("should only register read tools when read-only", async () => {
+    await connect(new PermissionProfile("readonly"));
+    const names = (await client.listTools()).tools.map((t) => t.name);
+
+    expect(names).toContain("get_character");
+    expect(names).toContain("search_spells");
+    expect(names).not.toContain("update_hp");
+    expect(names).not.toContain("undo_last_change");
+    expect(names).not.toContain("setup_auth");
+  });
+
+  it("should refuse player writes to someone else's character without sending them", async () => {
+    await connect(new PermissionProfile("player"));
+
+    const denied = await client.callTool({ name: "update_hp", arguments: { characterId: 2, hpChange: -3 } });
+    const allowed = await client.callTool({ name: "update_hp", arguments: { characterId: 1, hpChange: -3 } });
+
+    expect(denied.isError).toBe(true);
+    expect((denied.content as Array<{ text: string }>)[0].text).toContain("not on your character list");
+    expect(allowed.isError).toBeFalsy();
+    expect(ddbClient.put).toHaveBeenCalledTimes(1);
+  });
+
+  it("shouldRefuseDmEncounterWritesToCharactersOutsideTheRoster", async () => {
+    await connect(new PermissionProfile("dm"));
+    await client.callTool({ name: "start_encounter", arguments: {} });
+    await client.callTool({ name: "add_combatant", arguments: { characterId: 77 } });
+
+    const damage = await client.callTool({ name: "damage_combatant", arguments: { combatant: "Stranger", hpChange: -3 } });
+    const condition = await client.callTool({ name: "set_combatant_condition", arguments: { combatant: "Stranger", conditionId: 11 } });
+
+    expect(damage.isError).toBe(true);
+    expect((damage.content as Array<{ text: string }>)[0].text).toContain("character 77 is in neither");
+    expect(condition.isError).toBe(true);
+    expect(ddbClient.put).not.toHaveBeenCalled();
+  });
+});
@@ -24,6 +24,37 @@ describe("RateLimiter", () => {
     expect(vi.getTimerCount()).toBe(0);
   });
 
+  it("should not hand out more tokens than refilled when callers wait together", async () => {
+    const limiter = new RateLimiter(1, 1000);
+    await limiter.acquire();
+
+    let done = 0;
+    const waiting = [limiter.acquire(), limiter.acquire()].map((p) => p.then(() => done++));
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(done).toBe(1);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    await Promise.all(waiting);
+    expect(done).toBe(2);
+  });
+
+  it("should let queued interactive callers go before background ones", async () => {
+    const limiter = new RateLimiter(1, 1000);
+    await limiter.acquire();
+
+    const order: string[] = [];
+    const background = limiter.acquire("background").then(() => order.push("background"));
+    const interactive = limiter.acquire().then(() => order.push("interactive"));
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(order).toEqual(["interactive"]);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    await Promise.all([background, interactive]);
+    expect(order).toEqual(["interactive", "background"]);
+  });
+
   it("should refill tokens over time", async () => {
     const limiter = new RateLimiter(2, 1000);
 
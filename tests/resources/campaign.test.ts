@@ -188,4 +188,49 @@ describe("Campaign Resources", () => {
     expect(result.contents[0].text).toContain("Error:");
     expect(result.contents[0].text).toContain("API error");
   });
+
+  it("should render the party dashboard", async () => {
+    const mockClient = createMockClient();
+    vi.mocked(mockClient.get).mockImplementation(async (_url: string, key: string) => {
+      if (key === "campaigns") return mockCampaigns;
+      return [mockCampaignCharacters[0]];
+    });
+    (mockClient as unknown as { getMany: unknown }).getMany = vi.fn(async () => [{
+      status: "fulfilled",
+      value: {
+        id: 12345,
+        name: "Thorin Ironforge",
+        race: { fullName: "Hill Dwarf" },
+        classes: [{ level: 3, definition: { name: "Fighter" } }],
+        stats: [],
+        bonusStats: [],
+        overrideStats: [],
+        modifiers: {},
+        inventory: [],
+        baseHitPoints: 28,
+        removedHitPoints: 8,
+        temporaryHitPoints: 0,
+      },
+    }]);
+
+    const { mockServer, handlers } = createMockServer();
+    registerCampaignResources(mockServer as any, mockClient);
+
+    const uri = { toString: () => "dndbeyond://campaign/999/dashboard" };
+    const result = await handlers["campaign-dashboard"](uri);
+
+    expect(result.contents[0].uri).toBe("dndbeyond://campaign/999/dashboard");
+    expect(result.contents[0].text).toContain("# Party Status — Lost Mines of Phandelver");
+    expect(result.contents[0].text).toContain("HP 20/28 | AC 10");
+  });
+
+  it("should reject a malformed dashboard URI", async () => {
+    const { mockServer, handlers } = createMockServer();
+    registerCampaignResources(mockServer as any, createMockClient());
+
+    const uri = { toString: () => "dndbeyond://campaign/abc/dashboard" };
+    const result = await handlers["campaign-dashboard"](uri);
+
+    expect(result.contents[0].text).toContain("Invalid campaign dashboard URI format");
+  });
 });
@@ -0,0 +1,227 @@
+import { describe, it, expect } from "vitest";
+import { deriveAttacks } from "../../src/rules/attacks.js";
+import type { DdbCharacter, DdbModifier } from "../../src/types/character.js";
+
+type Weapon = {
+  name: string;
+  dice: string;
+  damageType: string;
+  properties?: Array<{ name: string; notes?: string }>;
+  attackType?: number;
+  categoryId?: number;
+  range?: number;
+  longRange?: number;
+  magic?: number;
+  equipped?: boolean;
+};
+
+type Spell = {
+  name: string;
+  level: number;
+  dice: string;
+  damageType: string;
+  attack?: boolean;
+  saveAbility?: number;
+  steps?: Array<{ level: number; dice: string }>;
+  prepared?: boolean;
+};
+
+function makeCharacter(overrides: {
+  stats?: number[];
+  classes?: Array<{ name: string; level: number }>;
+  modifiers?: Partial<DdbModifier>[];
+  weapons?: Weapon[];
+  spells?: Spell[];
+  options?: string[];
+}): DdbCharacter {
+  const stats = overrides.stats ?? [10, 10, 10, 10, 10, 10];
+  return {
+    id: 7,
+    name: "Kestrel",
+    stats: stats.map((value, i) => ({ id: i + 1, value })),
+    bonusStats: [],
+    overrideStats: [],
+    classes: (overrides.classes ?? [{ name: "Fighter", level: 1 }]).map((c) => ({
+      level: c.level,
+      definition: { name: c.name },
+      subclassDefinition: null,
+    })),
+    modifiers: { class: overrides.modifiers ?? [] },
+    options: { class: (overrides.options ?? []).map((name) => ({ definition: { name } })) },
+    feats: [],
+    inventory: (overrides.weapons ?? []).map((w, i) => ({
+      id: i + 1,
+      equipped: w.equipped ?? true,
+      quantity: 1,
+      definition: {
+        name: w.name,
+        type: w.name,
+        filterType: "Weapon",
+        damage: { diceString: w.dice },
+        damageType: w.damageType,
+        attackType: w.attackType ?? 1,
+        categoryId: w.categoryId ?? 2,
+        range: w.range ?? 5,
+        longRange: w.longRange ?? null,
+        properties: w.properties ?? [],
+        grantedModifiers: w.magic ? [{ type: "bonus", subType: "magic", value: w.magic }] : [],
+      },
+    })),
+    spells: {
+      class: (overrides.spells ?? []).map((s) => ({
+        prepared: s.prepared ?? true,
+        alwaysPrepared: false,
+        definition: {
+          name: s.name,
+          level: s.level,
+          range: { origin: "Ranged", rangeValue: 120, aoeType: null, aoeValue: null },
+          requiresAttackRoll: s.attack ?? false,
+          requiresSavingThrow: s.saveAbility !== undefined,
+          saveDcAbilityId: s.saveAbility ?? null,
+          modifiers: [{
+            type: "damage",
+            subType: s.damageType,
+            die: { diceString: s.dice },
+            atHigherLevels: s.steps
+              ? { scaleType: "characterlevel", higherLevelDefinitions: s.steps.map((st) => ({ level: st.level, dice: { diceString: st.dice } })) }
+              : null,
+          }],
+        },
+      })),
+    },
+  } as unknown as DdbCharacter;
+}
+
+const martial = { type: "proficiency", subType: "martial-weapons" };
+
+describe("deriveAttacks — weapons", () => {
+  it("uses STR plus proficiency for a proficient melee weapon", () => {
+    const [attack] = deriveAttacks(makeCharacter({
+      stats: [16, 10, 10, 10, 10, 10],
+      modifiers: [martial],
+      weapons: [{ name: "Longsword", dice: "1d8", damageType: "Slashing", properties: [{ name: "Versatile", notes: "1d10" }] }],
+    }));
+
+    expect(attack.toHit?.value).toBe(5);
+    expect(attack.damage).toEqual([
+      { dice: "1d8", bonus: { value: 3, parts: [{ label: "STR", value: 3 }], notes: [] }, type: "Slashing" },
+    ]);
+    expect(attack.versatile?.dice).toBe("1d10");
+    expect(attack.range).toBe("5 ft");
+  });
+
+  it("uses the higher of STR and DEX for finesse weapons", () => {
+    const [attack] = deriveAttacks(makeCharacter({
+      stats: [10, 18, 10, 10, 10, 10],
+      modifiers: [martial],
+      weapons: [{ name: "Rapier", dice: "1d8", damageType: "Piercing", properties: [{ name: "Finesse" }] }],
+    }));
+
+    expect(attack.toHit?.parts[0]).toEqual({ label: "DEX", value: 4 });
+    expect(attack.toHit?.value).toBe(6);
+  });
+
+  it("adds a weapon's magic bonus to hit and damage", () => {
+    const [attack] = deriveAttacks(makeCharacter({
+      stats: [14, 10, 10, 10, 10, 10],
+      modifiers: [martial],
+      weapons: [{ name: "Longsword", dice: "1d8", damageType: "Slashing", magic: 1 }],
+    }));
+
+    expect(attack.toHit?.value).toBe(5); // 2 STR + 2 prof + 1
+    expect(attack.damage[0].bonus.value).toBe(3);
+  });
+
+  it("leaves out proficiency and says so when not proficient", () => {
+    const [attack] = deriveAttacks(makeCharacter({
+      weapons: [{ name: "Longsword", dice: "1d8", damageType: "Slashing" }],
+    }));
+
+    expect(attack.toHit?.value).toBe(0);
+    expect(attack.notes).toContain("Not proficient");
+  });
+
+  it("applies Dueling to one-handed damage but not the versatile grip", () => {
+    const [attack] = deriveAttacks(makeCharacter({
+      stats: [16, 10, 10, 10, 10, 10],
+      modifiers: [martial],
+      options: ["Dueling"],
+      weapons: [{ name: "Longsword", dice: "1d8", damageType: "Slashing", properties: [{ name: "Versatile", notes: "1d10" }] }],
+    }));
+
+    expect(attack.damage[0].bonus.value).toBe(5);
+    expect(attack.versatile?.bonus.value).toBe(3);
+  });
+
+  it("adds Archery to ranged attacks unless the sheet already grants the bonus", () => {
+    const longbow: Weapon = { name: "Longbow", dice: "1d8", damageType: "Piercing", attackType: 2, range: 150, longRange: 600 };
+    const [byName] = deriveAttacks(makeCharacter({
+      stats: [10, 16, 10, 10, 10, 10],
+      modifiers: [martial],
+      options: ["Archery"],
+      weapons: [longbow],
+    }));
+    const [byModifier] = deriveAttacks(makeCharacter({
+      stats: [10, 16, 10, 10, 10, 10],
+      modifiers: [martial, { type: "bonus", subType: "ranged-weapon-attacks", value: 2 }],
+      options: ["Archery"],
+      weapons: [longbow],
+    }));
+
+    expect(byName.toHit?.value).toBe(7);
+    expect(byModifier.toHit?.value).toBe(7);
+    expect(byName.range).toBe("150/600 ft");
+  });
+
+  it("skips unequipped weapons", () => {
+    const attacks = deriveAttacks(makeCharacter({
+      weapons: [{ name: "Dagger", dice: "1d4", damageType: "Piercing", equipped: false }],
+    }));
+    expect(attacks).toEqual([]);
+  });
+});
+
+describe("deriveAttacks — spells", () => {
+  it("scales cantrip dice from the listed character-level steps", () => {
+    const [attack] = deriveAttacks(makeCharacter({
+      stats: [10, 10, 10, 18, 10, 10],
+      classes: [{ name: "Wizard", level: 5 }],
+      spells: [{
+        name: "Fire Bolt", level: 0, dice: "1d10", damageType: "fire", attack: true,
+        steps: [{ level: 5, dice: "2d10" }, { level: 11, dice: "3d10" }],
+      }],
+    }));
+
+    expect(attack.toHit?.value).toBe(7); // 4 INT + 3 prof
+    expect(attack.damage[0].dice).toBe("2d10");
+    expect(attack.damage[0].type).toBe("Fire");
+  });
+
+  it("falls back to standard cantrip scaling without listed steps", () => {
+    const [attack] = deriveAttacks(makeCharacter({
+      classes: [{ name: "Cleric", level: 11 }],
+      spells: [{ name: "Sacred Flame", level: 0, dice: "1d8", damageType: "radiant", saveAbility: 2 }],
+    }));
+
+    expect(attack.damage[0].dice).toBe("3d8");
+  });
+
+  it("computes the save DC from the casting class", () => {
+    const [attack] = deriveAttacks(makeCharacter({
+      stats: [10, 10, 10, 10, 16, 10],
+      classes: [{ name: "Cleric", level: 1 }],
+      spells: [{ name: "Sacred Flame", level: 0, dice: "1d8", damageType: "radiant", saveAbility: 2 }],
+    }));
+
+    expect(attack.toHit).toBeNull();
+    expect(attack.save).toMatchObject({ ability: "DEX", dc: { value: 13 } });
+  });
+
+  it("leaves out unprepared class spells", () => {
+    const attacks = deriveAttacks(makeCharacter({
+      classes: [{ name: "Wizard", level: 3 }],
+      spells: [{ name: "Burning Hands", level: 1, dice: "3d6", damageType: "fire", saveAbility: 2, prepared: false }],
+    }));
+    expect(attacks).toEqual([]);
+  });
+});
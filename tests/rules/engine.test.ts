@@ -0,0 +1,261 @@
+import { describe, it, expect } from "vitest";
+import {
+  deriveAbilityScore,
+  deriveArmorClass,
+  deriveMaxHp,
+  deriveSkill,
+  derivePassive,
+  deriveInitiative,
+  deriveSavingThrow,
+  explainStat,
+  SKILL_DEFINITIONS,
+} from "../../src/rules/engine.js";
+import type { DdbCharacter, DdbModifier } from "../../src/types/character.js";
+
+const skill = (name: string) => SKILL_DEFINITIONS.find((s) => s.name === name)!;
+
+function makeCharacter(overrides: {
+  stats?: number[];
+  classes?: Array<{ name: string; level: number; subclass?: string }>;
+  modifiers?: Partial<Record<"race" | "class" | "background" | "item" | "feat" | "condition", Partial<DdbModifier>[]>>;
+  inventory?: Array<{ name: string; armorClass: number; armorTypeId: number; equipped?: boolean }>;
+  spells?: string[];
+  baseHitPoints?: number;
+  overrideStats?: Array<{ id: number; value: number | null }>;
+}): DdbCharacter {
+  const stats = overrides.stats ?? [10, 10, 10, 10, 10, 10];
+  return {
+    id: 1,
+    name: "Test",
+    stats: stats.map((value, i) => ({ id: i + 1, value })),
+    bonusStats: [],
+    overrideStats: overrides.overrideStats ?? [],
+    classes: (overrides.classes ?? [{ name: "Fighter", level: 1 }]).map((c) => ({
+      level: c.level,
+      definition: { name: c.name },
+      subclassDefinition: c.subclass ? { name: c.subclass } : null,
+    })),
+    modifiers: { race: [], class: [], background: [], item: [], feat: [], condition: [], ...overrides.modifiers },
+    inventory: (overrides.inventory ?? []).map((item, i) => ({
+      id: i + 1,
+      equipped: item.equipped ?? true,
+      quantity: 1,
+      definition: { name: item.name, armorClass: item.armorClass, armorTypeId: item.armorTypeId, type: null },
+    })),
+    spells: { class: (overrides.spells ?? []).map((name) => ({ definition: { name } })) },
+    baseHitPoints: overrides.baseHitPoints ?? 10,
+    bonusHitPoints: null,
+    overrideHitPoints: null,
+  } as unknown as DdbCharacter;
+}
+
+describe("deriveAbilityScore", () => {
+  it("adds bonus modifiers to the base score", () => {
+    const char = makeCharacter({
+      stats: [15, 10, 10, 10, 10, 10],
+      modifiers: { race: [{ type: "bonus", subType: "strength-score", value: 2 }] },
+    });
+    const stat = deriveAbilityScore(char, 1);
+    expect(stat.value).toBe(17);
+    expect(stat.parts).toEqual([
+      { label: "base", value: 15 },
+      { label: "Species bonus", value: 2 },
+    ]);
+  });
+
+  it("raises the score to a higher set modifier", () => {
+    const char = makeCharacter({
+      stats: [15, 10, 10, 10, 10, 10],
+      modifiers: { item: [{ type: "set", subType: "strength-score", value: 21 }] },
+    });
+    const stat = deriveAbilityScore(char, 1);
+    expect(stat.value).toBe(21);
+    expect(stat.notes).toEqual(["replaces 15 from base and bonuses"]);
+  });
+
+  it("ignores a set modifier lower than the computed score", () => {
+    const char = makeCharacter({
+      stats: [20, 10, 10, 10, 10, 10],
+      modifiers: { item: [{ type: "set", subType: "strength-score", value: 19 }] },
+    });
+    expect(deriveAbilityScore(char, 1).value).toBe(20);
+  });
+
+  it("lets a manual override beat set modifiers", () => {
+    const char = makeCharacter({
+      overrideStats: [{ id: 1, value: 12 }],
+      modifiers: { item: [{ type: "set", subType: "strength-score", value: 21 }] },
+    });
+    expect(deriveAbilityScore(char, 1).value).toBe(12);
+  });
+});
+
+describe("deriveArmorClass", () => {
+  it("uses Unarmored Defense from a statId modifier", () => {
+    const char = makeCharacter({
+      stats: [10, 14, 10, 10, 18, 10],
+      classes: [{ name: "Monk", level: 3 }],
+      modifiers: { class: [{ type: "set", subType: "unarmored-armor-class", statId: 5, value: null }] },
+    });
+    const ac = deriveArmorClass(char);
+    expect(ac.value).toBe(16);
+    expect(explainStat(ac)).toBe("16 = 10 base + 2 DEX + 4 WIS (Unarmored Defense)");
+  });
+
+  it("drops Monk Unarmored Defense when a shield is equipped", () => {
+    const char = makeCharacter({
+      stats: [10, 14, 10, 10, 18, 10],
+      classes: [{ name: "Monk", level: 3 }],
+      modifiers: { class: [{ type: "set", subType: "unarmored-armor-class", statId: 5, value: null }] },
+      inventory: [{ name: "Shield", armorClass: 2, armorTypeId: 4 }],
+    });
+    expect(deriveArmorClass(char).value).toBe(14); // 10 + 2 DEX + 2 shield
+  });
+
+  it("uses Draconic Resilience from a flat set value", () => {
+    const char = makeCharacter({
+      stats: [10, 14, 10, 10, 10, 16],
+      classes: [{ name: "Sorcerer", level: 1, subclass: "Draconic Bloodline" }],
+      modifiers: { class: [{ type: "set", subType: "unarmored-armor-class", value: 3 }] },
+    });
+    const ac = deriveArmorClass(char);
+    expect(ac.value).toBe(15);
+    expect(ac.notes).toContain("Draconic Resilience");
+  });
+
+  it("falls back to class names when the sheet has no unarmored modifiers", () => {
+    const char = makeCharacter({
+      stats: [10, 12, 16, 10, 10, 10],
+      classes: [{ name: "Barbarian", level: 1 }],
+    });
+    expect(explainStat(deriveArmorClass(char))).toBe("14 = 10 base + 1 DEX + 3 CON (Unarmored Defense)");
+  });
+
+  it("notes Mage Armor when it would beat the current base", () => {
+    const char = makeCharacter({ stats: [10, 16, 10, 10, 10, 10], spells: ["Mage Armor"] });
+    const ac = deriveArmorClass(char);
+    expect(ac.value).toBe(13);
+    expect(ac.notes).toEqual(["Mage Armor would make the base 16 (13 + DEX) while active"]);
+  });
+
+  it("applies armored-only and unarmored-only bonuses to the matching case", () => {
+    const modifiers = {
+      class: [
+        { type: "bonus", subType: "armored-armor-class", value: 1 },
+        { type: "bonus", subType: "unarmored-armor-class", value: 2 },
+      ],
+    };
+    const armored = makeCharacter({
+      stats: [10, 14, 10, 10, 10, 10],
+      modifiers,
+      inventory: [{ name: "Chain Shirt", armorClass: 13, armorTypeId: 2 }],
+    });
+    const unarmored = makeCharacter({ stats: [10, 14, 10, 10, 10, 10], modifiers });
+    expect(deriveArmorClass(armored).value).toBe(16); // 13 + 2 DEX + 1 defense
+    expect(deriveArmorClass(unarmored).value).toBe(14); // 10 + 2 DEX + 2 unarmored bonus
+  });
+
+  it("caps DEX for medium armor and ignores it for heavy", () => {
+    const medium = makeCharacter({
+      stats: [10, 18, 10, 10, 10, 10],
+      inventory: [{ name: "Breastplate", armorClass: 14, armorTypeId: 2 }],
+    });
+    const heavy = makeCharacter({
+      stats: [10, 18, 10, 10, 10, 10],
+      inventory: [{ name: "Plate", armorClass: 18, armorTypeId: 3 }],
+    });
+    expect(deriveArmorClass(medium).value).toBe(16);
+    expect(deriveArmorClass(heavy).value).toBe(18);
+  });
+});
+
+describe("deriveMaxHp", () => {
+  it("adds CON modifier and Tough for every level", () => {
+    const char = makeCharacter({
+      stats: [10, 10, 14, 10, 10, 10],
+      classes: [{ name: "Fighter", level: 4 }],
+      baseHitPoints: 28,
+      modifiers: { feat: [{ type: "bonus", subType: "hit-points-per-level", value: 2 }] },
+    });
+    const hp = deriveMaxHp(char);
+    expect(hp.value).toBe(44); // 28 + 2×4 + 2×4
+    expect(explainStat(hp)).toBe("44 = 28 hit dice + 8 CON × 4 levels + 8 Feat +2 × 4 levels");
+  });
+});
+
+describe("deriveSkill", () => {
+  it("applies Jack of All Trades to unproficient skills, rounded down", () => {
+    const char = makeCharacter({
+      classes: [{ name: "Bard", level: 2 }],
+      modifiers: { class: [{ type: "half-proficiency", subType: "ability-checks" }] },
+    });
+    const check = deriveSkill(char, skill("Arcana"));
+    expect(check.proficiency).toBe("half");
+    expect(check.value).toBe(1);
+  });
+
+  it("rounds Remarkable Athlete up for the matching ability", () => {
+    const char = makeCharacter({
+      classes: [{ name: "Fighter", level: 7 }],
+      modifiers: { class: [{ type: "half-proficiency-round-up", subType: "strength-ability-checks" }] },
+    });
+    expect(deriveSkill(char, skill("Athletics")).value).toBe(2); // ceil(3 / 2)
+    expect(deriveSkill(char, skill("Arcana")).value).toBe(0);
+  });
+
+  it("doubles proficiency for expertise", () => {
+    const char = makeCharacter({
+      stats: [10, 16, 10, 10, 10, 10],
+      classes: [{ name: "Rogue", level: 5 }],
+      modifiers: {
+        class: [
+          { type: "proficiency", subType: "stealth" },
+          { type: "expertise", subType: "stealth" },
+        ],
+      },
+    });
+    const check = deriveSkill(char, skill("Stealth"));
+    expect(check.proficiency).toBe("expertise");
+    expect(check.value).toBe(9); // 3 DEX + 6
+  });
+});
+
+describe("derivePassive", () => {
+  it("adds passive bonuses such as Observant", () => {
+    const char = makeCharacter({
+      stats: [10, 10, 10, 10, 14, 10],
+      modifiers: {
+        class: [{ type: "proficiency", subType: "perception" }],
+        feat: [{ type: "bonus", subType: "passive-perception", value: 5 }],
+      },
+    });
+    expect(derivePassive(char, skill("Perception")).value).toBe(19); // 10 + 2 WIS + 2 prof + 5
+  });
+});
+
+describe("deriveInitiative", () => {
+  it("includes Alert and Jack of All Trades", () => {
+    const char = makeCharacter({
+      stats: [10, 14, 10, 10, 10, 10],
+      classes: [{ name: "Bard", level: 5 }],
+      modifiers: {
+        class: [{ type: "half-proficiency", subType: "ability-checks" }],
+        feat: [{ type: "bonus", subType: "initiative", value: 5 }],
+      },
+    });
+    expect(explainStat(deriveInitiative(char))).toBe("8 = 2 DEX + 1 half proficiency + 5 Feat bonus");
+  });
+});
+
+describe("deriveSavingThrow", () => {
+  it("adds bonuses to all saving throws", () => {
+    const char = makeCharacter({
+      stats: [10, 10, 14, 10, 10, 10],
+      modifiers: {
+        class: [{ type: "proficiency", subType: "constitution-saving-throws" }],
+        item: [{ type: "bonus", subType: "saving-throws", value: 1 }],
+      },
+    });
+    expect(explainStat(deriveSavingThrow(char, 3))).toBe("5 = 2 CON + 2 proficiency + 1 Item bonus");
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { SnapshotStore } from "../../src/snapshots/store.js";
+import type { DdbCharacter } from "../../src/types/character.js";
+
+function character(hp: number): DdbCharacter {
+  return { id: 42, name: "Vex", removedHitPoints: hp } as unknown as DdbCharacter;
+}
+
+describe("SnapshotStore", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "ddb-snapshots-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("should save snapshots with sortable timestamp IDs", async () => {
+    const store = new SnapshotStore(dir);
+
+    const saved = await store.save(character(0), new Date("2026-10-19T13:36:32.123Z"));
+
+    expect(saved).toEqual({ id: "20261019T133632123Z", characterId: 42, name: "Vex", takenAt: "2026-10-19T13:36:32.123Z" });
+    const [snapshot] = await new SnapshotStore(dir).list(42);
+    expect(snapshot.character).toEqual(character(0));
+  });
+
+  it("should skip saving when nothing changed since the latest snapshot", async () => {
+    const store = new SnapshotStore(dir);
+
+    await store.save(character(0), new Date("2026-10-19T10:00:00Z"));
+    expect(await store.save(character(0), new Date("2026-10-19T11:00:00Z"))).toBeNull();
+    await store.save(character(5), new Date("2026-10-19T12:00:00Z"));
+    await store.save(character(0), new Date("2026-10-19T13:00:00Z"));
+
+    expect((await store.list(42)).map((s) => s.character.removedHitPoints)).toEqual([0, 5, 0]);
+  });
+
+  it("should keep saves from the same millisecond apart", async () => {
+    const store = new SnapshotStore(dir);
+    const now = new Date("2026-10-19T10:00:00Z");
+
+    await store.save(character(0), now);
+    const second = await store.save(character(1), now);
+
+    expect(second?.id).toBe("20261019T100000000Z-1");
+    expect(await store.list(42)).toHaveLength(2);
+  });
+
+  it("should prune the oldest snapshots past the limit", async () => {
+    const store = new SnapshotStore(dir, { maxPerCharacter: 2 });
+
+    for (let hp = 0; hp < 4; hp++) {
+      await store.save(character(hp), new Date(Date.UTC(2026, 9, 19, 10 + hp)));
+    }
+
+    expect((await store.list(42)).map((s) => s.character.removedHitPoints)).toEqual([2, 3]);
+  });
+
+  it("should return nothing for unknown characters and snapshots", async () => {
+    const store = new SnapshotStore(dir);
+
+    expect(await store.list(7)).toEqual([]);
+    expect(await store.load(42, "../../etc/passwd")).toBeNull();
+  });
+
+  it("should read its directory from the environment", () => {
+    expect(SnapshotStore.fromEnv({ DDB_SNAPSHOT_DIR: dir })?.dir).toBe(dir);
+    expect(SnapshotStore.fromEnv({ DDB_SNAPSHOTS: "off" })).toBeNull();
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect } from "vitest";
+import { inSource, SourceCatalog } from "../../src/sources/catalog.js";
+
+const CONFIG = {
+  sources: [
+    { id: 1, name: "BR", description: "Basic Rules (2014)" },
+    { id: 2, name: "PHB", description: "Player's Handbook (2014)" },
+    { id: 5, name: "MM", description: "Monster Manual (2014)" },
+    { id: 13, name: "VGtM", description: "Volo's Guide to Monsters" },
+    { id: 27, name: "XGtE", description: "Xanathar's Guide to Everything" },
+    { id: 67, name: "TCoE", description: "Tasha's Cauldron of Everything" },
+    { id: 85, name: "MotM", description: "Mordenkainen Presents: Monsters of the Multiverse" },
+    { id: 145, name: "PHB-2024", description: "Player's Handbook" },
+  ],
+};
+
+describe("SourceCatalog", () => {
+  const catalog = SourceCatalog.fromConfig(CONFIG);
+  const resolve = (query: string) => catalog.resolve(query)?.id;
+
+  it("should resolve abbreviations, whatever their case", () => {
+    expect(resolve("MM")).toBe(5);
+    expect(resolve("xgte")).toBe(27);
+    expect(resolve("XGE")).toBe(27);
+    expect(resolve("TCoE")).toBe(67);
+    expect(resolve("MotM")).toBe(85);
+    expect(resolve("MPMM")).toBe(85);
+  });
+
+  it("should resolve titles and the start of them without punctuation", () => {
+    expect(resolve("Xanathar's Guide to Everything")).toBe(27);
+    expect(resolve("volos guide")).toBe(13);
+    expect(resolve("Tasha")).toBe(67);
+    expect(resolve("Monsters of the Multiverse")).toBe(85);
+  });
+
+  it("should pick the edition a year names", () => {
+    expect(resolve("PHB'24")).toBe(145);
+    expect(resolve("PHB 2024")).toBe(145);
+    expect(resolve("Player's Handbook 2014")).toBe(2);
+    expect(resolve("PHB'14")).toBe(2);
+    expect(resolve("Player's Handbook")).toBe(145);
+  });
+
+  it("should return undefined for unknown books", () => {
+    expect(resolve("Tome of Beasts")).toBeUndefined();
+    expect(resolve("  ")).toBeUndefined();
+    expect(SourceCatalog.EMPTY.resolve("MM")).toBeUndefined();
+  });
+
+  it("should label entries with their books' titles", () => {
+    expect(catalog.label([{ sourceId: 1 }, { sourceId: 5 }, { sourceId: 999 }])).toBe("Basic Rules (2014), Monster Manual (2014)");
+    expect(catalog.label([])).toBeNull();
+    expect(catalog.label(undefined)).toBeNull();
+  });
+
+  it("should use the name as the title when config has no description", () => {
+    const plain = SourceCatalog.fromConfig({ sources: [{ id: 3, name: "Mordenkainen's Tome of Foes" }] });
+
+    expect(plain.get(3)).toEqual({ id: 3, title: "Mordenkainen's Tome of Foes", abbreviation: null });
+    expect(plain.resolve("MToF")?.id).toBe(3);
+  });
+});
+
+describe("inSource", () => {
+  it("should match entries listing the book", () => {
+    const book = { id: 27, title: "Xanathar's Guide to Everything", abbreviation: "XGtE" };
+
+    expect(inSource([{ sourceId: 1 }, { sourceId: 27 }], book)).toBe(true);
+    expect(inSource([{ sourceId: 1 }], book)).toBe(false);
+    expect(inSource(undefined, book)).toBe(false);
+  });
+});
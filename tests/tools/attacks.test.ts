@@ -0,0 +1,85 @@
+import { describe, it, expect, vi } from "vitest";
+import { getAttacks } from "../../src/tools/attacks.js";
+import type { DdbClient } from "../../src/api/client.js";
+import type { DdbCharacter } from "../../src/types/character.js";
+
+const character = {
+  id: 7,
+  name: "Kestrel",
+  stats: [
+    { id: 1, value: 16 },
+    { id: 2, value: 14 },
+    { id: 3, value: 12 },
+    { id: 4, value: 10 },
+    { id: 5, value: 10 },
+    { id: 6, value: 10 },
+  ],
+  bonusStats: [],
+  overrideStats: [],
+  classes: [{ level: 3, definition: { name: "Fighter" }, subclassDefinition: null }],
+  modifiers: { class: [{ type: "proficiency", subType: "martial-weapons" }] },
+  feats: [],
+  inventory: [{
+    id: 1,
+    equipped: true,
+    quantity: 1,
+    definition: {
+      name: "Greatsword",
+      filterType: "Weapon",
+      damage: { diceString: "2d6" },
+      damageType: "Slashing",
+      attackType: 1,
+      categoryId: 2,
+      properties: [{ name: "Heavy" }, { name: "Two-Handed" }],
+    },
+  }],
+  spells: { class: null, race: null, background: null, item: null, feat: null },
+} as unknown as DdbCharacter;
+
+describe("getAttacks", () => {
+  const mockClient = {
+    get: vi.fn(async () => character),
+    getRaw: vi.fn(),
+  } as unknown as DdbClient;
+
+  it("should list weapons with to-hit and damage breakdowns", async () => {
+    const result = await getAttacks(mockClient, { characterId: 7 });
+    const text = result.content[0].text;
+
+    expect(text).toContain("# Kestrel — Attacks");
+    expect(text).toContain("### Greatsword (Heavy, Two-Handed)");
+    expect(text).toContain("- To hit: +5 (3 STR + 2 proficiency)");
+    expect(text).toContain("- Damage: 2d6 + 3 slashing (3 STR)");
+  });
+
+  it("should return structured attacks", async () => {
+    const result = await getAttacks(mockClient, { characterId: 7 });
+
+    expect(result.structuredContent).toEqual({
+      characterId: 7,
+      name: "Kestrel",
+      attacks: [{
+        name: "Greatsword",
+        kind: "weapon",
+        attackBonus: 5,
+        saveDc: null,
+        saveAbility: null,
+        damage: [{ dice: "2d6", bonus: 3, type: "Slashing" }],
+        versatileDamage: null,
+        range: "5 ft",
+        properties: ["Heavy", "Two-Handed"],
+        notes: [],
+      }],
+    });
+  });
+
+  it("should say when there is nothing to attack with", async () => {
+    const unarmed = { ...character, inventory: [] } as unknown as DdbCharacter;
+    const client = { get: vi.fn(async () => unarmed), getRaw: vi.fn() } as unknown as DdbClient;
+
+    const result = await getAttacks(client, { characterId: 7 });
+
+    expect(result.content[0].text).toContain("No equipped weapons or damaging spells.");
+    expect(result.structuredContent?.attacks).toEqual([]);
+  });
+});
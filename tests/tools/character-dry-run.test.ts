@@ -0,0 +1,166 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import {
+  addCondition,
+  castSpell,
+  createCharacter,
+  deleteCharacter,
+  longRest,
+  resolveChoices,
+  setGold,
+  updateDescription,
+  updateHp,
+} from "../../src/tools/character.js";
+import type { DdbClient } from "../../src/api/client.js";
+import type { DdbCharacter } from "../../src/types/character.js";
+
+const mockCharacter = {
+  id: 123,
+  name: "Test Character",
+  race: { fullName: "Human", baseRaceName: "Human", isHomebrew: false },
+  classes: [{ id: 1, definition: { name: "Wizard" }, subclassDefinition: null, level: 5, isStartingClass: true }],
+  stats: [
+    { id: 1, value: 10 },
+    { id: 2, value: 14 },
+    { id: 3, value: 14 },
+    { id: 4, value: 16 },
+    { id: 5, value: 12 },
+    { id: 6, value: 8 },
+  ],
+  bonusStats: [],
+  overrideStats: [],
+  modifiers: { race: [], class: [], background: [], item: [], feat: [], condition: [] },
+  baseHitPoints: 20,
+  bonusHitPoints: 0,
+  overrideHitPoints: null,
+  removedHitPoints: 8,
+  temporaryHitPoints: 0,
+  currencies: { cp: 0, sp: 0, ep: 0, gp: 100, pp: 0 },
+  spells: {
+    race: [],
+    class: [{ definition: { name: "Magic Missile", level: 1 } }],
+    background: [],
+    item: [],
+    feat: [],
+  },
+  classSpells: [],
+  spellSlots: [{ level: 1, used: 1, available: 4 }],
+  conditions: [{ id: 10, level: null }],
+  actions: {
+    class: [{ id: 1, entityTypeId: 2, name: "Arcane Recovery", limitedUse: { maxUses: 1, numberUsed: 1, resetType: 1 } }],
+  },
+  deathSaves: { failCount: 0, successCount: 0, isStabilized: false },
+  traits: { personalityTraits: "Curious", ideals: null, bonds: null, flaws: null, appearance: null },
+  notes: { backstory: null, otherNotes: null, allies: null, organizations: null, personalPossessions: null },
+  inventory: [],
+  configuration: {},
+} as unknown as DdbCharacter;
+
+function createClient(character: unknown = mockCharacter): DdbClient {
+  return {
+    get: vi.fn().mockResolvedValue(character),
+    getRaw: vi.fn(),
+    put: vi.fn().mockResolvedValue({}),
+    post: vi.fn().mockResolvedValue(999),
+    delete: vi.fn().mockResolvedValue({}),
+    invalidateCache: vi.fn(),
+  } as unknown as DdbClient;
+}
+
+function expectNothingSent(client: DdbClient) {
+  expect(client.put).not.toHaveBeenCalled();
+  expect(client.post).not.toHaveBeenCalled();
+  expect(client.delete).not.toHaveBeenCalled();
+}
+
+describe("dry run", () => {
+  let client: DdbClient;
+
+  beforeEach(() => {
+    client = createClient();
+  });
+
+  it("should preview an HP change with the exact request body", async () => {
+    const result = await updateHp(client, { characterId: 123, hpChange: -5, tempHp: 3, dryRun: true });
+    const text = result.content[0].text;
+
+    expectNothingSent(client);
+    expect(text).toContain("Dry run — nothing was sent");
+    expect(text).toContain("Would: Damage Test Character for 5 HP");
+    // Max HP 20 + 2 CON × 5 levels
+    expect(text).toContain("- HP: 22/30 → 17/30");
+    expect(text).toContain("- Temporary HP: 0 → 3");
+    expect(text).toContain("- PUT ");
+    expect(text).toContain('{"characterId":123,"removedHitPoints":13,"temporaryHitPoints":3}');
+  });
+
+  it("should show the slot a spell would spend", async () => {
+    const result = await castSpell(client, { characterId: 123, spellName: "Magic Missile", dryRun: true });
+
+    expectNothingSent(client);
+    expect(result.content[0].text).toContain("- Level 1 slots used: 1/4 → 2/4");
+  });
+
+  it("should list conditions before and after", async () => {
+    const result = await addCondition(client, { characterId: 123, conditionId: 15, level: 2, dryRun: true });
+
+    expectNothingSent(client);
+    expect(result.content[0].text).toContain("- Conditions: Poisoned → Poisoned, Exhaustion 2");
+  });
+
+  it("should preview what a long rest resets without calling the rest endpoint", async () => {
+    const result = await longRest(client, { characterId: 123, dryRun: true });
+    const text = result.content[0].text;
+
+    expect(client.get).toHaveBeenCalledTimes(1);
+    expect(client.get).not.toHaveBeenCalledWith(expect.stringContaining("rest/long"), expect.anything(), 0);
+    expect(client.invalidateCache).not.toHaveBeenCalled();
+    expect(text).toContain("- HP: 22/30 → 30/30");
+    expect(text).toContain("- Level 1 slots used: 1 → 0");
+    expect(text).toContain("- Arcane Recovery uses: 1 → 0");
+    expect(text).toContain("- GET ");
+  });
+
+  it("should preview gold and description fields from the current sheet", async () => {
+    const gold = await setGold(client, { characterId: 123, amount: 50, dryRun: true });
+    const traits = await updateDescription(client, {
+      characterId: 123,
+      field: "personalityTraits",
+      value: "Reckless",
+      dryRun: true,
+    });
+
+    expectNothingSent(client);
+    expect(gold.content[0].text).toContain("- GP: 100 → 50");
+    expect(traits.content[0].text).toContain("- personalityTraits: Curious → Reckless");
+  });
+
+  it("should preview creation and deletion", async () => {
+    const created = await createCharacter(client, { method: "standard", dryRun: true });
+    const deleted = await deleteCharacter(client, { characterId: 123, dryRun: true });
+
+    expectNothingSent(client);
+    expect(created.content[0].text).toContain('{"showHelpText":false}');
+    expect(deleted.content[0].text).toContain("- Character: Test Character (level 5) → deleted");
+    expect(deleted.content[0].text).toContain("- DELETE ");
+  });
+
+  it("should preview the first pass of choice resolution", async () => {
+    client = createClient({
+      ...mockCharacter,
+      choices: {
+        background: [{ id: "bg-1", type: 2, label: "Skill", optionValue: null, optionIds: [77] }],
+        class: [],
+        choiceDefinitions: [],
+      },
+    });
+
+    const result = await resolveChoices(client, { characterId: 123, dryRun: true });
+    const text = result.content[0].text;
+
+    expectNothingSent(client);
+    expect(text).toContain("- Ability score method: (none) → Standard Array");
+    expect(text).toContain("- background: Skill: (none) → 77");
+    expect(text).toContain('{"characterId":123,"type":2,"choiceKey":"bg-1","choiceValue":77}');
+    expect(text).toContain("Note: Only the first pass is shown");
+  });
+});
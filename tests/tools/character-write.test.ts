@@ -1,5 +1,5 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
-import { updateHp, updateSpellSlots, updateDeathSaves, updateCurrency, useAbility } from "../../src/tools/character.js";
+import { updateHp, updateSpellSlots, updateDeathSaves, updateCurrency, useAbility, castSpell } from "../../src/tools/character.js";
 import type { DdbClient } from "../../src/api/client.js";
 import type { DdbCharacter } from "../../src/types/character.js";
 
@@ -133,7 +133,7 @@ describe("updateHp", () => {
 
     expect(mockClient.put).toHaveBeenCalledWith(
       expect.anything(),
-      { characterId: 123, removedHitPoints: 45 },
+      { characterId: 123, removedHitPoints: 55 }, // max HP 40 + 5 bonus + 2 CON × 5 levels
       expect.anything()
     );
   });
@@ -156,8 +156,8 @@ describe("updateSpellSlots", () => {
     });
 
     expect(mockClient.put).toHaveBeenCalledWith(
-      expect.stringContaining("/character/v5/character/123/spell/slots"),
-      { level: 3, used: 2 },
+      "https://character-service.dndbeyond.com/character/v5/spell/slots",
+      { characterId: 123, level: 3, used: 2 },
       ["character:123"]
     );
     expect(result.content[0].text).toContain("Updated level 3 spell slots to 2 used");
@@ -214,8 +214,8 @@ describe("updateDeathSaves", () => {
     });
 
     expect(mockClient.put).toHaveBeenCalledWith(
-      expect.stringContaining("/character/v5/character/123/life/death-saves"),
-      { successCount: 2 },
+      "https://character-service.dndbeyond.com/character/v5/life/death-saves",
+      { characterId: 123, successCount: 2 },
       ["character:123"]
     );
     expect(result.content[0].text).toContain("Updated death saves: 2 successes");
@@ -229,8 +229,8 @@ describe("updateDeathSaves", () => {
     });
 
     expect(mockClient.put).toHaveBeenCalledWith(
-      expect.stringContaining("/character/v5/character/123/life/death-saves"),
-      { failCount: 1 },
+      "https://character-service.dndbeyond.com/character/v5/life/death-saves",
+      { characterId: 123, failCount: 1 },
       ["character:123"]
     );
     expect(result.content[0].text).toContain("Updated death saves: 1 failure");
@@ -287,26 +287,32 @@ describe("updateCurrency", () => {
     });
 
     expect(mockClient.put).toHaveBeenCalledWith(
-      expect.stringContaining("/character/v5/character/123/inventory/currency"),
-      { gp: 150 },
+      "https://character-service.dndbeyond.com/character/v5/inventory/currency/gold",
+      { characterId: 123, amount: 150 },
       ["character:123"]
     );
     expect(result.content[0].text).toContain("Set GP to 150");
   });
 
   it("should update all currency types", async () => {
-    const currencies = ["cp", "sp", "ep", "gp", "pp"] as const;
-
-    for (const currency of currencies) {
+    const currencies = {
+      cp: "copper",
+      sp: "silver",
+      ep: "electrum",
+      gp: "gold",
+      pp: "platinum",
+    } as const;
+
+    for (const [currency, coin] of Object.entries(currencies)) {
       await updateCurrency(mockClient, {
         characterId: 123,
-        currency,
+        currency: currency as keyof typeof currencies,
         amount: 10,
       });
 
       expect(mockClient.put).toHaveBeenCalledWith(
-        expect.anything(),
-        { [currency]: 10 },
+        expect.stringMatching(new RegExp(`/inventory/currency/${coin}$`)),
+        { characterId: 123, amount: 10 },
         ["character:123"]
       );
     }
@@ -431,3 +437,91 @@ describe("updateHp with temporary HP", () => {
     expect(result.content[0].text).toContain("(0 temp HP)");
   });
 });
+
+describe("castSpell", () => {
+  const spell = (name: string, level: number) => ({ definition: { name, level }, prepared: true });
+  const caster = {
+    ...mockCharacter,
+    spells: { ...mockCharacter.spells, class: [spell("Fire Bolt", 0), spell("Shield", 1), spell("Fireball", 3)] },
+    spellSlots: [
+      { level: 1, used: 0, available: 4 },
+      { level: 2, used: 0, available: 3 },
+      { level: 3, used: 2, available: 2 },
+    ],
+  } as unknown as DdbCharacter;
+
+  const createClient = (character: DdbCharacter) =>
+    ({
+      get: vi.fn().mockResolvedValue(character),
+      put: vi.fn().mockResolvedValue({}),
+    }) as unknown as DdbClient;
+
+  it("should spend a spell slot through the body-addressed endpoint", async () => {
+    const client = createClient(caster);
+    const result = await castSpell(client, { characterId: 123, spellName: "shield" });
+
+    expect(client.put).toHaveBeenCalledWith(
+      "https://character-service.dndbeyond.com/character/v5/spell/slots",
+      { characterId: 123, level: 1, used: 1 },
+      ["character:123"]
+    );
+    expect(result.content[0].text).toBe("Cast Shield at level 1. Level 1 slots: 1/4 used.");
+  });
+
+  it("should upcast with a higher slot", async () => {
+    const client = createClient(caster);
+    await castSpell(client, { characterId: 123, spellName: "Shield", level: 2 });
+
+    expect(client.put).toHaveBeenCalledWith(
+      expect.any(String),
+      { characterId: 123, level: 2, used: 1 },
+      ["character:123"]
+    );
+  });
+
+  it("should refuse to cast below the spell's level", async () => {
+    const client = createClient(caster);
+    const result = await castSpell(client, { characterId: 123, spellName: "Fireball", level: 1 });
+
+    expect(client.put).not.toHaveBeenCalled();
+    expect(result.content[0].text).toContain("level 3 spell");
+  });
+
+  it("should report exhausted slots without writing", async () => {
+    const client = createClient(caster);
+    const result = await castSpell(client, { characterId: 123, spellName: "Fireball" });
+
+    expect(client.put).not.toHaveBeenCalled();
+    expect(result.content[0].text).toBe("No level 3 spell slots remaining (2/2 used).");
+  });
+
+  it("should not spend a slot on cantrips", async () => {
+    const client = createClient(caster);
+    const result = await castSpell(client, { characterId: 123, spellName: "Fire Bolt", level: 1 });
+
+    expect(client.put).not.toHaveBeenCalled();
+    expect(result.content[0].text).toContain("(cantrip)");
+  });
+
+  it("should spend pact slots first, then fall back to regular slots", async () => {
+    const warlock = { ...caster, pactMagic: { level: 2, used: 0, available: 2 } } as DdbCharacter;
+    const client = createClient(warlock);
+    await castSpell(client, { characterId: 123, spellName: "Shield" });
+
+    expect(client.put).toHaveBeenCalledWith(
+      "https://character-service.dndbeyond.com/character/v5/spell/pact-magic",
+      { characterId: 123, used: 1 },
+      ["character:123"]
+    );
+
+    const spent = { ...caster, pactMagic: { level: 2, used: 2, available: 2 } } as DdbCharacter;
+    const fallback = createClient(spent);
+    await castSpell(fallback, { characterId: 123, spellName: "Shield" });
+
+    expect(fallback.put).toHaveBeenCalledWith(
+      "https://character-service.dndbeyond.com/character/v5/spell/slots",
+      { characterId: 123, level: 1, used: 1 },
+      ["character:123"]
+    );
+  });
+});
@@ -3,6 +3,7 @@ import { getCharacter, listCharacters } from "../../src/tools/character.js";
 import type { DdbClient } from "../../src/api/client.js";
 import type { DdbCharacter } from "../../src/types/character.js";
 import type { DdbCampaign } from "../../src/types/api.js";
+import { characterSheetSchema } from "../../src/tools/output-schemas.js";
 
 // Extended mock character for testing detail levels
 function createDetailedMockCharacter(): DdbCharacter {
@@ -224,7 +225,7 @@ describe("getCharacter", () => {
     expect(text).toContain("Race: Mountain Dwarf");
     expect(text).toContain("Class: Fighter (Battle Master) 5");
     expect(text).toContain("Level: 5");
-    expect(text).toContain("HP: 32/42 (+5 temp)");
+    expect(text).toContain("HP: 42/52 (+5 temp)"); // 42 hit dice + 2 CON × 5 levels
     expect(text).toContain("Campaign: Lost Mines of Phandelver");
     expect(text).toContain("Equipped Items:");
     expect(text).toContain("Longsword");
@@ -263,6 +264,34 @@ describe("getCharacter", () => {
 
     expect(result.content).toHaveLength(1);
     expect(result.content[0].text).toBe("Either characterId or characterName must be provided.");
+    expect(result.isError).toBe(true);
+  });
+
+  it("should return the sheet as structured content at every detail level", async () => {
+    const client = createMockClient();
+    vi.mocked(client.get).mockResolvedValue(createDetailedMockCharacter());
+
+    const summary = await getCharacter(client, { characterId: 12345, detail: "summary" });
+    const sheet = characterSheetSchema.parse(summary.structuredContent);
+
+    expect(sheet).toMatchObject({
+      id: 12345,
+      name: "Thorin Ironforge",
+      race: "Mountain Dwarf",
+      level: 5,
+      proficiencyBonus: 3,
+      classes: [{ name: "Fighter", subclass: "Battle Master", level: 5 }],
+      hitPoints: { current: 42, max: 52, temp: 5 },
+      feats: ["Great Weapon Master"],
+      racialTraits: ["Darkvision"],
+      campaign: { name: "Lost Mines of Phandelver" },
+    });
+    expect(sheet.abilityScores).toHaveLength(6);
+    expect(sheet.skills.find((s) => s.name === "Athletics")?.ability).toBe("STR");
+    expect(sheet.inventory.some((i) => i.name === "Longsword" && i.equipped)).toBe(true);
+
+    const full = await getCharacter(client, { characterId: 12345, detail: "full" });
+    expect(full.structuredContent).toEqual(summary.structuredContent);
   });
 });
 
@@ -0,0 +1,114 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { ConfirmationGuard, confirmWrite } from "../../src/tools/confirmation.js";
+import { deleteCharacter, setClassLevel } from "../../src/tools/character.js";
+import type { DdbClient } from "../../src/api/client.js";
+
+const mockCharacter = {
+  id: 123,
+  name: "Test Character",
+  campaign: { id: 42, name: "Curse of Strahd" },
+  classes: [{ id: 7, definition: { name: "Wizard" }, subclassDefinition: null, level: 5, isStartingClass: true }],
+};
+
+function createClient(): DdbClient {
+  return {
+    get: vi.fn().mockResolvedValue(mockCharacter),
+    put: vi.fn().mockResolvedValue({}),
+    delete: vi.fn().mockResolvedValue({}),
+    invalidateCache: vi.fn(),
+  } as unknown as DdbClient;
+}
+
+function tokenFrom(text: string): string {
+  const match = text.match(/confirmationToken: "([0-9a-f]+)"/);
+  if (!match) throw new Error(`No token in: ${text}`);
+  return match[1];
+}
+
+describe("ConfirmationGuard", () => {
+  it("should always guard delete_character and read extra tools from the environment", () => {
+    const defaults = ConfirmationGuard.fromEnv({});
+    const extended = ConfirmationGuard.fromEnv({ DDB_CONFIRM_WRITES: "set_class_level, update_hp" });
+
+    expect(defaults.requires("delete_character")).toBe(true);
+    expect(defaults.requires("set_class_level")).toBe(false);
+    expect(extended.requires("delete_character")).toBe(true);
+    expect(extended.requires("set_class_level")).toBe(true);
+    expect(extended.requires("set_ability_score_type")).toBe(false);
+  });
+
+  it("should guard level_up whenever set_class_level is guarded", () => {
+    expect(new ConfirmationGuard({ tools: ["set_class_level"] }).requires("level_up")).toBe(true);
+    expect(new ConfirmationGuard({ tools: ["level_up"] }).requires("set_class_level")).toBe(false);
+    expect(new ConfirmationGuard().requires("level_up")).toBe(false);
+  });
+
+  it("should accept a token once, for the same call, before it expires", () => {
+    const guard = new ConfirmationGuard({ ttlMs: 1000 });
+    const args = { characterId: 123 };
+
+    const token = guard.issue("delete_character", args, 0);
+    expect(guard.redeem("delete_character", token, { characterId: 123, dryRun: false }, 500)).toBe("confirmed");
+    expect(guard.redeem("delete_character", token, args, 500)).toBe("unknown");
+
+    const other = guard.issue("delete_character", args, 0);
+    expect(guard.redeem("delete_character", other, { characterId: 456 }, 500)).toBe("mismatch");
+
+    const late = guard.issue("delete_character", args, 0);
+    expect(guard.redeem("delete_character", late, args, 1000)).toBe("expired");
+  });
+});
+
+describe("confirmWrite", () => {
+  let client: DdbClient;
+  let guard: ConfirmationGuard;
+
+  beforeEach(() => {
+    client = createClient();
+    guard = new ConfirmationGuard({ tools: ["set_class_level"] });
+  });
+
+  const remove = (params: { characterId: number; confirmationToken?: string; dryRun?: boolean }) =>
+    confirmWrite(guard, "delete_character", params, (dryRun) =>
+      deleteCharacter(client, { characterId: params.characterId, dryRun }));
+
+  it("should describe the target and only delete on the confirmed second call", async () => {
+    const first = await remove({ characterId: 123 });
+    const text = first.content[0].text;
+
+    expect(client.delete).not.toHaveBeenCalled();
+    expect(text).toContain("Confirmation required");
+    expect(text).toContain('Test Character (level 5, in the campaign "Curse of Strahd")');
+
+    const second = await remove({ characterId: 123, confirmationToken: tokenFrom(text) });
+
+    expect(second.content[0].text).toBe("Deleted character 123.");
+    expect(client.delete).toHaveBeenCalledWith(expect.any(String), { characterId: 123 }, ["character:123"]);
+  });
+
+  it("should refuse a token issued for another character", async () => {
+    const first = await remove({ characterId: 123 });
+    const result = await remove({ characterId: 456, confirmationToken: tokenFrom(first.content[0].text) });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain("issued for a different call");
+    expect(client.delete).not.toHaveBeenCalled();
+  });
+
+  it("should pass validation errors through without issuing a token", async () => {
+    const params = { characterId: 123, classId: 1, classMappingId: 7, level: 25 };
+    const result = await confirmWrite(guard, "set_class_level", params, (dryRun) =>
+      setClassLevel(client, { ...params, dryRun }));
+
+    expect(result.content[0].text).toBe("Level must be between 1 and 20.");
+    expect(result.isError).toBe(true);
+  });
+
+  it("should run tools that aren't guarded straight away", async () => {
+    const run = vi.fn().mockResolvedValue({ content: [{ type: "text", text: "done" }] });
+    const result = await confirmWrite(guard, "set_ability_score_type", { characterId: 123 }, run);
+
+    expect(run).toHaveBeenCalledWith(false);
+    expect(result.content[0].text).toBe("done");
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { roll, rollCheck } from "../../src/tools/dice.js";
+import type { DdbClient } from "../../src/api/client.js";
+import type { DdbCharacter } from "../../src/types/character.js";
+
+const mockCharacter = {
+  id: 123,
+  name: "Vex",
+  classes: [{ id: 1, definition: { name: "Rogue" }, subclassDefinition: null, level: 5, isStartingClass: true }],
+  stats: [
+    { id: 1, value: 8 },
+    { id: 2, value: 18 },
+    { id: 3, value: 12 },
+    { id: 4, value: 13 },
+    { id: 5, value: 10 },
+    { id: 6, value: 14 },
+  ],
+  bonusStats: [],
+  overrideStats: [],
+  modifiers: {
+    race: [],
+    class: [
+      { type: "proficiency", subType: "dexterity-saving-throws" },
+      { type: "expertise", subType: "stealth" },
+      { type: "proficiency", subType: "stealth" },
+    ],
+    background: [],
+    item: [],
+    feat: [],
+    condition: [],
+  },
+} as unknown as DdbCharacter;
+
+describe("roll", () => {
+  it("should return the same result for the same seed", () => {
+    const first = roll({ expression: "4d6kh3", seed: 7 });
+    const second = roll({ expression: "4d6kh3", seed: 7 });
+
+    expect(first.content[0].text).toBe(second.content[0].text);
+  });
+
+  it("should prefix the label", () => {
+    const result = roll({ expression: "8d6", label: "Fireball", seed: 1 });
+
+    expect(result.content[0].text).toMatch(/^\*\*Fireball:\*\* 8d6 \[/);
+  });
+
+  it("should report invalid expressions", () => {
+    expect(roll({ expression: "banana" }).content[0].text).toBe('Invalid dice term "banana".');
+  });
+});
+
+describe("rollCheck", () => {
+  let mockClient: DdbClient;
+
+  beforeEach(() => {
+    mockClient = {
+      get: vi.fn().mockResolvedValue(mockCharacter),
+      getRaw: vi.fn(),
+    } as unknown as DdbClient;
+  });
+
+  it("should use the skill bonus from the character sheet", async () => {
+    const result = await rollCheck(mockClient, { characterId: 123, skill: "stealth", seed: 3 });
+
+    // DEX +4, expertise doubles proficiency (+3) → +10
+    expect(result.content[0].text).toContain("**Vex** — Stealth check (+10)");
+    expect(result.content[0].text).toMatch(/1d20 \[\d+\] \+ 10 = \*\*\d+\*\*/);
+  });
+
+  it("should use the saving throw bonus", async () => {
+    const result = await rollCheck(mockClient, { characterId: 123, save: "DEX", seed: 3 });
+
+    expect(result.content[0].text).toContain("Dexterity saving throw (+7)");
+  });
+
+  it("should roll raw ability checks without proficiency", async () => {
+    const result = await rollCheck(mockClient, { characterId: 123, ability: "strength", seed: 3 });
+
+    expect(result.content[0].text).toContain("Strength check (-1)");
+  });
+
+  it("should roll with advantage", async () => {
+    const result = await rollCheck(mockClient, { characterId: 123, skill: "Stealth", mode: "advantage", seed: 3 });
+
+    expect(result.content[0].text).toContain("with advantage");
+    expect(result.content[0].text).toContain("2d20kh1 [");
+  });
+
+  it("should require exactly one check type", async () => {
+    const result = await rollCheck(mockClient, { characterId: 123, skill: "Stealth", save: "DEX" });
+
+    expect(result.content[0].text).toBe("Provide exactly one of skill, save, or ability.");
+    expect(mockClient.get).not.toHaveBeenCalled();
+  });
+
+  it("should list skills when the skill is unknown", async () => {
+    const result = await rollCheck(mockClient, { characterId: 123, skill: "Hacking" });
+
+    expect(result.content[0].text).toContain('Unknown skill "Hacking"');
+    expect(result.content[0].text).toContain("Sleight of Hand");
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import {
+  evaluateEncounter,
+  evaluate2014,
+  evaluate2024,
+  parseChallengeRating,
+  formatChallengeRating,
+} from "../../src/tools/encounter-difficulty.js";
+import type { DdbClient } from "../../src/api/client.js";
+
+const MOCK_CONFIG = {
+  challengeRatings: [
+    { id: 3, value: 0.25, xp: 50, proficiencyBonus: 2 },
+    { id: 5, value: 1, xp: 200, proficiencyBonus: 2 },
+    { id: 7, value: 3, xp: 700, proficiencyBonus: 2 },
+  ],
+  monsterTypes: [],
+  environments: [],
+  alignments: [],
+  damageTypes: [],
+  senses: [],
+};
+
+const MOCK_BUGBEAR = { id: 16815, name: "Bugbear", challengeRatingId: 5 };
+
+describe("evaluate2014", () => {
+  it("should apply the group multiplier for the monster count", () => {
+    const report = evaluate2014([{ name: "Goblin", cr: 0.25, xp: 50, count: 4 }], [3, 3, 3, 3]);
+
+    // 200 XP × 2 for 3-6 monsters
+    expect(report.multiplier).toBe(2);
+    expect(report.adjustedXp).toBe(400);
+    expect(report.thresholds).toEqual({ Easy: 300, Medium: 600, Hard: 900, Deadly: 1600 });
+    expect(report.rating).toBe("Easy");
+  });
+
+  it("should shift the multiplier up for small parties and down for large ones", () => {
+    const monsters = [{ name: "Ogre", cr: 2, xp: 450, count: 1 }];
+
+    expect(evaluate2014(monsters, [5, 5]).multiplier).toBe(1.5);
+    expect(evaluate2014(monsters, [5, 5, 5, 5, 5, 5]).multiplier).toBe(0.5);
+  });
+
+  it("should rate encounters below the easy threshold as trivial", () => {
+    expect(evaluate2014([{ name: "Goblin", cr: 0.25, xp: 50, count: 1 }], [10, 10, 10, 10]).rating).toBe("Trivial");
+  });
+});
+
+describe("evaluate2024", () => {
+  it("should compare raw XP against per-character budgets", () => {
+    const report = evaluate2024([{ name: "Bugbear", cr: 1, xp: 200, count: 3 }], [3, 3, 3, 3]);
+
+    expect(report.budgets).toEqual({ Low: 600, Moderate: 900, High: 1600 });
+    expect(report.rating).toBe("Low");
+  });
+
+  it("should flag encounters over the high budget", () => {
+    expect(evaluate2024([{ name: "Troll", cr: 5, xp: 1800, count: 1 }], [1]).rating).toBe("Beyond High");
+  });
+});
+
+describe("parseChallengeRating", () => {
+  it("should accept fractions and numbers", () => {
+    expect(parseChallengeRating("1/4")).toBe(0.25);
+    expect(parseChallengeRating("3")).toBe(3);
+    expect(parseChallengeRating(0.5)).toBe(0.5);
+    expect(parseChallengeRating("tough")).toBeNull();
+    expect(formatChallengeRating(0.125)).toBe("1/8");
+  });
+});
+
+describe("evaluateEncounter", () => {
+  let mockClient: DdbClient;
+
+  beforeEach(() => {
+    mockClient = {
+      get: vi.fn().mockImplementation(async (url: string) => {
+        if (url.includes("active-short-characters")) return [{ id: 1 }, { id: 2 }];
+        return { id: 1, name: "PC", classes: [{ level: 3 }] };
+      }),
+      getRaw: vi.fn().mockImplementation(async (url: string) => {
+        if (url.includes("config")) return MOCK_CONFIG;
+        if (url.includes("search=")) return { data: [MOCK_BUGBEAR] };
+        return { accessType: 1, data: MOCK_BUGBEAR };
+      }),
+    } as unknown as DdbClient;
+  });
+
+  it("should combine monsters by name and CR", async () => {
+    const result = await evaluateEncounter(mockClient, {
+      monsters: [{ name: "Bugbear" }, { name: "Goblin", cr: "1/4", count: 4 }],
+      partyLevels: [3, 3, 3, 3],
+    });
+    const text = result.content[0].text;
+
+    expect(text).toContain("- 1× Bugbear (CR 1, 200 XP)");
+    expect(text).toContain("- 4× Goblin (CR 1/4, 50 XP each = 200 XP)");
+    expect(text).toContain("**Total XP:** 400");
+    expect(text).toContain("**Multiplier:** ×2 → **Adjusted XP:** 800");
+    expect(text).toContain("## 2024 DMG");
+  });
+
+  it("should read party levels from a campaign", async () => {
+    const result = await evaluateEncounter(mockClient, {
+      monsters: [{ cr: 3 }],
+      campaignId: 42,
+      rules: "2014",
+    });
+    const text = result.content[0].text;
+
+    expect(text).toContain("**Party:** 2 characters (levels 3, 3)");
+    // 700 XP × 1.5 for a party of two
+    expect(text).toContain("**Adjusted XP:** 1,050");
+    expect(text).toContain("**Difficulty:** Deadly");
+    expect(text).not.toContain("## 2024 DMG");
+  });
+
+  it("should require a party", async () => {
+    const result = await evaluateEncounter(mockClient, { monsters: [{ cr: 1 }] });
+
+    expect(result.content[0].text).toContain("Provide party levels or a campaign ID");
+  });
+
+  it("should reject unknown challenge ratings", async () => {
+    const result = await evaluateEncounter(mockClient, { monsters: [{ cr: "99" }], partyLevels: [5] });
+
+    expect(result.content[0].text).toBe('Unknown challenge rating "99".');
+  });
+});
@@ -0,0 +1,280 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import {
+  startEncounter,
+  addCombatant,
+  rollInitiative,
+  nextTurn,
+  getEncounter,
+  damageCombatant,
+  setCombatantCondition,
+  endEncounter,
+  EncounterTracker,
+} from "../../src/tools/encounter.js";
+import type { DdbClient } from "../../src/api/client.js";
+import type { DdbCharacter } from "../../src/types/character.js";
+
+const mockCharacter = {
+  id: 123,
+  name: "Thorin",
+  classes: [{ id: 1, definition: { name: "Fighter" }, subclassDefinition: null, level: 5, isStartingClass: true }],
+  stats: [
+    { id: 1, value: 16 },
+    { id: 2, value: 14 },
+    { id: 3, value: 15 },
+    { id: 4, value: 10 },
+    { id: 5, value: 12 },
+    { id: 6, value: 8 },
+  ],
+  bonusStats: [],
+  overrideStats: [],
+  modifiers: { race: [], class: [], background: [], item: [], feat: [], condition: [] },
+  baseHitPoints: 40,
+  bonusHitPoints: 5,
+  overrideHitPoints: null,
+  removedHitPoints: 10,
+  temporaryHitPoints: 0,
+  inventory: [],
+} as unknown as DdbCharacter;
+
+const mockGoblin = {
+  id: 17100,
+  name: "Goblin",
+  armorClass: 15,
+  averageHitPoints: 7,
+  stats: [{ statId: 2, value: 14 }],
+};
+
+// Always rolls 11 on a d20
+const fixedRandom = () => 0.5;
+
+/** HP writes update the character the client serves unless `applyWrites` is false. */
+function createClient(overrides: Partial<DdbCharacter> = {}, applyWrites = true): DdbClient {
+  const character = { ...mockCharacter, ...overrides };
+  const get = vi.fn().mockImplementation(async (url: string) => {
+    if (url.includes("active-short-characters")) return [{ id: 123, name: "Thorin" }];
+    return character;
+  });
+  return {
+    get,
+    getMany: vi.fn(async (requests: Array<{ url: string }>) => Promise.allSettled(requests.map((r) => get(r.url)))),
+    getRaw: vi.fn().mockImplementation(async (url: string) => {
+      if (url.includes("search=")) return { data: [mockGoblin] };
+      return { accessType: 1, data: mockGoblin };
+    }),
+    put: vi.fn().mockImplementation(async (url: string, body: Partial<DdbCharacter>) => {
+      if (applyWrites && url.includes("/life/hp/")) {
+        character.removedHitPoints = body.removedHitPoints ?? character.removedHitPoints;
+        character.temporaryHitPoints = body.temporaryHitPoints ?? character.temporaryHitPoints;
+      }
+      return {};
+    }),
+    delete: vi.fn().mockResolvedValue({}),
+  } as unknown as DdbClient;
+}
+
+describe("encounter tracker", () => {
+  let client: DdbClient;
+  let tracker: EncounterTracker;
+
+  beforeEach(() => {
+    client = createClient();
+    tracker = new EncounterTracker();
+  });
+
+  it("shouldRequireAnEncounterBeforeOtherCommands", async () => {
+    expect(getEncounter(tracker).content[0].text).toContain("No encounter in progress");
+    expect(nextTurn(tracker).content[0].text).toContain("No encounter in progress");
+    const result = await addCombatant(client, tracker, { monsterName: "Goblin" });
+    expect(result.content[0].text).toContain("No encounter in progress");
+  });
+
+  it("shouldSeedThePartyFromACampaign", async () => {
+    const result = await startEncounter(client, tracker, { name: "Goblin Ambush", campaignId: 42 });
+
+    expect(client.get).toHaveBeenCalledWith(
+      expect.stringContaining("active-short-characters/42"),
+      "campaign:42:characters",
+      300_000
+    );
+    // Max HP 40 + 5 bonus + 2 CON × 5 levels
+    expect(result.content[0].text).toContain("Thorin (AC 12, HP 45/55)");
+  });
+
+  it("shouldStartWithoutPartyMembersWhoseSheetsFail", async () => {
+    vi.mocked(client.get).mockImplementation(async (url: string) => {
+      if (url.includes("active-short-characters")) return [{ id: 123, name: "Thorin" }, { id: 456, name: "Gimli" }];
+      if (url.includes("/character/456")) throw new Error("Character is private");
+      return mockCharacter;
+    });
+
+    const result = await startEncounter(client, tracker, { campaignId: 42 });
+    const text = result.content[0].text;
+
+    expect(client.getMany).toHaveBeenCalledTimes(1);
+    expect(text).toContain("Thorin (AC 12");
+    expect(text).toContain("- Gimli (character 456): Character is private");
+    expect(tracker.encounter?.combatants).toHaveLength(1);
+  });
+
+  it("shouldRefuseToStartASecondEncounter", async () => {
+    await startEncounter(client, tracker, { name: "First" });
+    const result = await startEncounter(client, tracker, { name: "Second" });
+
+    expect(result.content[0].text).toContain('"First" is still running');
+  });
+
+  it("shouldNumberMultipleCopiesOfTheSameMonster", async () => {
+    await startEncounter(client, tracker, {});
+    await addCombatant(client, tracker, { monsterName: "Goblin" });
+    await addCombatant(client, tracker, { monsterName: "Goblin", count: 2 });
+
+    expect(tracker.encounter?.combatants.map((c) => c.name)).toEqual(["Goblin 1", "Goblin 2", "Goblin 3"]);
+  });
+
+  it("shouldNotCountDifferentlyNamedMonstersAsCopies", async () => {
+    await startEncounter(client, tracker, {});
+    await addCombatant(client, tracker, { monsterName: "Goblin", name: "Goblin Boss" });
+    await addCombatant(client, tracker, { monsterName: "Goblin", count: 2 });
+
+    expect(tracker.encounter?.combatants.map((c) => c.name)).toEqual(["Goblin Boss", "Goblin 1", "Goblin 2"]);
+  });
+
+  it("shouldSortInitiativeAndHonourTableRolls", async () => {
+    await startEncounter(client, tracker, { campaignId: 42 });
+    await addCombatant(client, tracker, { monsterName: "Goblin", count: 2 });
+
+    const result = rollInitiative(tracker, { overrides: [{ combatant: "Thorin", initiative: 20 }] }, fixedRandom);
+
+    expect(result.content[0].text).toContain("Goblin 1: 11 +2 = 13");
+    expect(tracker.encounter?.combatants.map((c) => [c.name, c.initiative])).toEqual([
+      ["Thorin", 20],
+      ["Goblin 1", 13],
+      ["Goblin 2", 13],
+    ]);
+    expect(result.content[0].text).toContain("▶ 20  Thorin");
+  });
+
+  it("shouldKeepPartialNameOverridesWhenRerolling", async () => {
+    await startEncounter(client, tracker, { campaignId: 42 });
+    await addCombatant(client, tracker, { monsterName: "Goblin" });
+    rollInitiative(tracker, {}, fixedRandom);
+
+    rollInitiative(tracker, { overrides: [{ combatant: "thor", initiative: 18 }], reroll: true }, () => 0);
+
+    expect(tracker.encounter?.combatants.map((c) => [c.name, c.initiative])).toEqual([
+      ["Thorin", 18],
+      ["Goblin", 3],
+    ]);
+  });
+
+  it("shouldAdvanceTurnsSkipDefeatedMonstersAndWrapRounds", async () => {
+    await startEncounter(client, tracker, { campaignId: 42 });
+    await addCombatant(client, tracker, { monsterName: "Goblin", count: 2 });
+    rollInitiative(tracker, { overrides: [{ combatant: "Thorin", initiative: 20 }] }, fixedRandom);
+
+    await damageCombatant(client, tracker, { combatant: "Goblin 1", hpChange: -10 });
+    expect(nextTurn(tracker).content[0].text).toContain("**Goblin 2's turn** (round 1)");
+    expect(nextTurn(tracker).content[0].text).toContain("**Thorin's turn** (round 2)");
+  });
+
+  it("shouldTrackMonsterHpLocally", async () => {
+    await startEncounter(client, tracker, {});
+    await addCombatant(client, tracker, { monsterName: "Goblin" });
+
+    const result = await damageCombatant(client, tracker, { combatant: "goblin", hpChange: -7 });
+
+    expect(result.content[0].text).toContain("Current HP: 0/7. Goblin is defeated.");
+    expect(client.put).not.toHaveBeenCalled();
+  });
+
+  it("shouldWriteCharacterHpAndConditionsThroughToDdb", async () => {
+    await startEncounter(client, tracker, { campaignId: 42 });
+
+    await damageCombatant(client, tracker, { combatant: "Thorin", hpChange: -5 });
+    await setCombatantCondition(client, tracker, { combatant: "Thorin", conditionId: 11 });
+
+    expect(client.put).toHaveBeenCalledWith(
+      expect.stringContaining("/life/hp/damage-taken"),
+      { characterId: 123, removedHitPoints: 15 },
+      ["character:123"]
+    );
+    expect(client.put).toHaveBeenCalledWith(
+      expect.stringContaining("/condition"),
+      { characterId: 123, id: 11, level: null, totalHp: 55 },
+      ["character:123"]
+    );
+    expect(getEncounter(tracker).content[0].text).toContain("Thorin (AC 12, HP 40/55) [Prone]");
+  });
+
+  it("shouldTakeDamageOffTemporaryHpFirst", async () => {
+    client = createClient({ temporaryHitPoints: 5 });
+    await startEncounter(client, tracker, { campaignId: 42 });
+    expect(getEncounter(tracker).content[0].text).toContain("Thorin (AC 12, HP 45/55 +5 temp)");
+
+    await damageCombatant(client, tracker, { combatant: "Thorin", hpChange: -8 });
+
+    expect(client.put).toHaveBeenCalledWith(
+      expect.stringContaining("/life/hp/damage-taken"),
+      { characterId: 123, removedHitPoints: 13, temporaryHitPoints: 0 },
+      ["character:123"]
+    );
+    expect(getEncounter(tracker).content[0].text).toContain("Thorin (AC 12, HP 42/55)");
+  });
+
+  it("shouldShowTheHpDdbHasAfterAWrite", async () => {
+    client = createClient({}, false);
+    await startEncounter(client, tracker, { campaignId: 42 });
+
+    await damageCombatant(client, tracker, { combatant: "Thorin", hpChange: -5 });
+
+    expect(getEncounter(tracker).content[0].text).toContain("Thorin (AC 12, HP 45/55)");
+  });
+
+  it("shouldLeaveDdbAndTheEncounterUntouchedOnADryRun", async () => {
+    await startEncounter(client, tracker, { campaignId: 42 });
+    await addCombatant(client, tracker, { monsterName: "Goblin" });
+
+    const character = await damageCombatant(client, tracker, { combatant: "Thorin", hpChange: -5, dryRun: true });
+    const monster = await damageCombatant(client, tracker, { combatant: "Goblin", hpChange: -3, dryRun: true });
+    await setCombatantCondition(client, tracker, { combatant: "Thorin", conditionId: 11, dryRun: true });
+
+    expect(client.put).not.toHaveBeenCalled();
+    expect(character.content[0].text).toContain("- HP: 45/55 → 40/55");
+    expect(monster.content[0].text).toContain("Would set Goblin's HP: 7/7 → 4/7");
+    expect(getEncounter(tracker).content[0].text).toContain("Thorin (AC 12, HP 45/55)");
+    expect(getEncounter(tracker).content[0].text).not.toContain("[Prone]");
+  });
+
+  it("shouldRollInitiativeForLateJoinersAndKeepTheCurrentTurn", async () => {
+    await startEncounter(client, tracker, { campaignId: 42 });
+    rollInitiative(tracker, { overrides: [{ combatant: "Thorin", initiative: 5 }] }, fixedRandom);
+
+    await addCombatant(client, tracker, { monsterName: "Goblin" }, null, fixedRandom);
+
+    const encounter = tracker.encounter;
+    expect(encounter?.combatants.map((c) => c.name)).toEqual(["Goblin", "Thorin"]);
+    expect(encounter?.combatants[encounter.turnIndex].name).toBe("Thorin");
+  });
+
+  it("shouldKeepEachTrackersEncounterSeparate", async () => {
+    const other = new EncounterTracker();
+    await startEncounter(client, tracker, { name: "Goblin Ambush" });
+    await addCombatant(client, tracker, { monsterName: "Goblin" });
+
+    expect(getEncounter(other).content[0].text).toContain("No encounter in progress");
+    expect((await startEncounter(client, other, { name: "Bandit Raid" })).content[0].text).toContain("Started Bandit Raid");
+    expect(tracker.encounter?.name).toBe("Goblin Ambush");
+  });
+
+  it("shouldSummarizeAndClearStateOnEnd", async () => {
+    await startEncounter(client, tracker, { name: "Goblin Ambush" });
+    await addCombatant(client, tracker, { monsterName: "Goblin", count: 2 });
+    await damageCombatant(client, tracker, { combatant: "Goblin 1", hpChange: -7 });
+
+    const result = endEncounter(tracker);
+
+    expect(result.content[0].text).toContain("**Defeated:** Goblin 1");
+    expect(result.content[0].text).toContain("**Still standing:** Goblin 2 (7/7 HP)");
+    expect(tracker.encounter).toBeNull();
+  });
+});
@@ -0,0 +1,175 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { addCondition, longRest, resolveChoices, updateHp, useAbility } from "../../src/tools/character.js";
+import { undoLastChange } from "../../src/tools/journal.js";
+import { MutationJournal } from "../../src/journal/store.js";
+import type { DdbClient } from "../../src/api/client.js";
+import type { DdbCharacter } from "../../src/types/character.js";
+
+const mockCharacter = {
+  id: 123,
+  name: "Test Character",
+  classes: [{ id: 1, definition: { id: 9, name: "Fighter" }, subclassDefinition: null, level: 5, isStartingClass: true }],
+  stats: [
+    { id: 1, value: 16 },
+    { id: 2, value: 14 },
+    { id: 3, value: 14 },
+    { id: 4, value: 10 },
+    { id: 5, value: 12 },
+    { id: 6, value: 8 },
+  ],
+  bonusStats: [],
+  overrideStats: [],
+  modifiers: { race: [], class: [], background: [], item: [], feat: [], condition: [] },
+  baseHitPoints: 40,
+  bonusHitPoints: 0,
+  overrideHitPoints: null,
+  removedHitPoints: 10,
+  temporaryHitPoints: 0,
+  conditions: [],
+  actions: {
+    class: [{ id: 100, entityTypeId: 200, name: "Action Surge", limitedUse: { maxUses: 1, numberUsed: 0, resetType: 2 } }],
+  },
+  inventory: [],
+  configuration: { abilityScoreType: 1, startingEquipmentType: 1 },
+} as unknown as DdbCharacter;
+
+function createClient(character: unknown = mockCharacter): DdbClient {
+  return {
+    get: vi.fn().mockResolvedValue(character),
+    getRaw: vi.fn(),
+    put: vi.fn().mockResolvedValue({}),
+    delete: vi.fn().mockResolvedValue({}),
+    invalidateCache: vi.fn(),
+  } as unknown as DdbClient;
+}
+
+describe("undoLastChange", () => {
+  let client: DdbClient;
+  let journal: MutationJournal;
+
+  beforeEach(() => {
+    client = createClient();
+    journal = new MutationJournal();
+  });
+
+  it("should restore HP to the value read before the write", async () => {
+    await updateHp(client, { characterId: 123, hpChange: -5 }, journal);
+    vi.mocked(client.put).mockClear();
+
+    const result = await undoLastChange(client, {}, journal);
+
+    expect(client.put).toHaveBeenCalledWith(
+      expect.stringContaining("/life/hp/damage-taken"),
+      { characterId: 123, removedHitPoints: 10 },
+      ["character:123"]
+    );
+    // Max HP 40 + 2 CON × 5 levels
+    expect(result.content[0].text).toContain("- HP: 35/50 → 40/50");
+    expect(journal.size).toBe(0);
+  });
+
+  it("should undo the newest change first", async () => {
+    await updateHp(client, { characterId: 123, hpChange: -5 }, journal);
+    await useAbility(client, { characterId: 123, abilityName: "Action Surge" }, journal);
+    vi.mocked(client.put).mockClear();
+
+    await undoLastChange(client, { characterId: 123 }, journal);
+
+    expect(client.put).toHaveBeenCalledTimes(1);
+    expect(client.put).toHaveBeenCalledWith(
+      expect.stringContaining("/action/limited-use"),
+      { characterId: 123, id: "100", entityTypeId: "200", uses: 0 },
+      ["character:123"]
+    );
+    expect(journal.size).toBe(1);
+  });
+
+  it("should remove a condition that wasn't on the sheet before", async () => {
+    await addCondition(client, { characterId: 123, conditionId: 11 }, journal);
+
+    await undoLastChange(client, {}, journal);
+
+    expect(client.delete).toHaveBeenCalledWith(
+      expect.stringContaining("/condition"),
+      { characterId: 123, id: 11 },
+      ["character:123"]
+    );
+  });
+
+  it("should clear every choice a resolve_choices run made in one undo", async () => {
+    const pending = {
+      ...mockCharacter,
+      choices: {
+        background: [{ id: "bg-1", type: 2, label: "Skill", optionValue: null, optionIds: [77] }],
+        race: [{ id: "race-1", type: 2, componentId: 5, label: "Language", optionValue: null, optionIds: [88] }],
+        choiceDefinitions: [],
+      },
+    };
+    client = createClient(pending);
+    vi.mocked(client.put).mockImplementation(async () => {
+      // Choices resolve once written
+      vi.mocked(client.get).mockResolvedValue({ ...mockCharacter, choices: {} });
+      return {};
+    });
+
+    await resolveChoices(client, { characterId: 123 }, journal);
+    expect(journal.size).toBe(1);
+    vi.mocked(client.put).mockClear();
+
+    const result = await undoLastChange(client, {}, journal);
+
+    expect(client.put).toHaveBeenCalledTimes(2);
+    expect(client.put).toHaveBeenNthCalledWith(
+      1,
+      expect.stringContaining("/race/trait/choice"),
+      expect.objectContaining({ choiceKey: "race-1", choiceValue: null }),
+      ["character:123"]
+    );
+    expect(client.put).toHaveBeenNthCalledWith(
+      2,
+      expect.stringContaining("/background/choice"),
+      expect.objectContaining({ choiceKey: "bg-1", choiceValue: null }),
+      ["character:123"]
+    );
+    expect(result.content[0].text).toContain("- background: Skill: 77 → (none)");
+  });
+
+  it("should report and drop changes it can't reverse", async () => {
+    await updateHp(client, { characterId: 123, hpChange: -5 }, journal);
+    await longRest(client, { characterId: 123 }, journal);
+    vi.mocked(client.put).mockClear();
+
+    const result = await undoLastChange(client, {}, journal);
+
+    expect(client.put).not.toHaveBeenCalled();
+    expect(result.content[0].text).toContain("can't be undone automatically");
+    expect(journal.latest()?.changes[0].field).toBe("HP");
+  });
+
+  it("should preview the undo requests without sending them on a dry run", async () => {
+    await updateHp(client, { characterId: 123, hpChange: -5 }, journal);
+    vi.mocked(client.put).mockClear();
+
+    const result = await undoLastChange(client, { dryRun: true }, journal);
+
+    expect(client.put).not.toHaveBeenCalled();
+    expect(result.content[0].text).toContain("Dry run");
+    expect(result.content[0].text).toContain("- HP: 35/50 → 40/50");
+    expect(result.content[0].text).toContain('{"characterId":123,"removedHitPoints":10}');
+    expect(journal.size).toBe(1);
+  });
+
+  it("should keep changes it can't reverse on a dry run", async () => {
+    await longRest(client, { characterId: 123 }, journal);
+
+    const result = await undoLastChange(client, { dryRun: true }, journal);
+
+    expect(result.content[0].text).toContain("can't be undone automatically");
+    expect(journal.size).toBe(1);
+  });
+
+  it("should say when there is nothing to undo", async () => {
+    expect((await undoLastChange(client, {}, journal)).content[0].text).toContain("No changes recorded");
+    expect((await undoLastChange(client, {}, null)).content[0].text).toContain("DDB_JOURNAL=off");
+  });
+});
@@ -0,0 +1,155 @@
+import { describe, it, expect, vi } from "vitest";
+import { levelUp } from "../../src/tools/level-up.js";
+import { ConfirmationGuard, confirmWrite } from "../../src/tools/confirmation.js";
+import type { DdbClient } from "../../src/api/client.js";
+
+const FIGHTER = { id: 2190879, name: "Fighter", spellRules: null };
+const WIZARD = {
+  id: 2190886,
+  name: "Wizard",
+  spellRules: { levelCantripsKnownMaxes: [0, 3, 3, 3, 4, 4], levelSpellKnownMaxes: [] },
+};
+
+const beforeLevel = {
+  id: 123,
+  name: "Thorin",
+  classes: [{ id: 7, definition: FIGHTER, subclassDefinition: null, level: 3, isStartingClass: true, classFeatures: [] }],
+  choices: { class: [], feat: [], choiceDefinitions: [] },
+};
+
+const afterLevel = {
+  ...beforeLevel,
+  classes: [{ ...beforeLevel.classes[0], level: 4 }],
+  choices: {
+    class: [{ id: "asi-1", type: 2, componentId: 501, componentTypeId: 12168134, label: null, optionValue: null, optionIds: [] }],
+    feat: [],
+    choiceDefinitions: [
+      { id: "12168134-2", options: [{ id: 1, label: "Ability Score Improvement" }, { id: 2, label: "Feat" }] },
+    ],
+  },
+};
+
+const FEATURES = [
+  { id: 501, name: "Ability Score Improvement", snippet: "Increase your scores.", description: "", requiredLevel: 4, classId: 2190879 },
+  { id: 502, name: "Extra Attack", snippet: "", description: "", requiredLevel: 5, classId: 2190879 },
+  { id: 601, name: "Spellcasting", snippet: "You can cast wizard spells.", description: "", requiredLevel: 1, classId: 2190886 },
+  { id: 503, name: "Martial Archetype", snippet: "Choose an archetype, such as the Champion.", description: "", requiredLevel: 3, classId: 2190879 },
+  { id: 901, name: "Improved Critical", snippet: "", description: "", requiredLevel: 3, classId: 9001 },
+];
+
+function createClient(sheets: unknown[], classes: unknown[] = [WIZARD]): DdbClient {
+  let reads = 0;
+  return {
+    get: vi.fn(async (url: string) => {
+      if (url.includes("class-feature/collection")) return FEATURES;
+      if (url.includes("game-data/classes")) return classes;
+      return sheets[Math.min(reads++, sheets.length - 1)];
+    }),
+    put: vi.fn().mockResolvedValue({}),
+    post: vi.fn().mockResolvedValue({}),
+    invalidateCache: vi.fn(),
+  } as unknown as DdbClient;
+}
+
+describe("levelUp", () => {
+  it("should raise an existing class and list the choices it opens", async () => {
+    const client = createClient([beforeLevel, afterLevel]);
+
+    const result = await levelUp(client, { characterId: 123 });
+    const text = result.content[0].text;
+
+    expect(client.put).toHaveBeenCalledWith(
+      expect.stringContaining("/class/level"),
+      { characterId: 123, classId: 2190879, classMappingId: 7, level: 4 },
+      ["character:123"]
+    );
+    expect(text).toContain("Fighter 3 → 4 (character level 4)");
+    expect(text).toContain("- **Ability Score Improvement** (ASI or feat) — Increase your scores.");
+    expect(text).not.toContain("Extra Attack");
+    expect(text).toContain("Options: 1 = Ability Score Improvement, 2 = Feat");
+    expect(text).toContain(
+      'Resolve with set_class_feature_choice: {"classId":2190879,"classMappingId":7,"classFeatureId":501,"type":2,"choiceKey":"asi-1"} plus choiceValue'
+    );
+  });
+
+  it("should find the subclass choice from the level the class's subclasses start at", async () => {
+    const levelTwo = { ...beforeLevel, classes: [{ ...beforeLevel.classes[0], level: 2 }] };
+    const levelThree = { ...beforeLevel, choices: { class: [], feat: [], choiceDefinitions: [] } };
+    const fighter = { ...FIGHTER, subclasses: [{ id: 9001, name: "Champion", description: "" }] };
+    const client = createClient([levelTwo, levelThree], [fighter]);
+
+    const text = (await levelUp(client, { characterId: 123 })).content[0].text;
+
+    expect(text).toContain("- **Martial Archetype** (subclass) — Choose an archetype, such as the Champion.");
+    expect(text).not.toContain("Improved Critical");
+    expect(text).toContain("- **Subclass**: Fighter has no subclass yet; choose one on D&D Beyond.");
+  });
+
+  it("should multiclass into a new class with addClass", async () => {
+    const multiclassed = {
+      ...beforeLevel,
+      classes: [
+        ...beforeLevel.classes,
+        { id: 8, definition: WIZARD, subclassDefinition: null, level: 1, isStartingClass: false, classFeatures: [] },
+      ],
+    };
+    const client = createClient([beforeLevel, multiclassed]);
+
+    const result = await levelUp(client, { characterId: 123, className: "wizard" });
+    const text = result.content[0].text;
+
+    expect(client.post).toHaveBeenCalledWith(
+      expect.stringContaining("/class"),
+      { characterId: 123, classId: 2190886, level: 1 },
+      ["character:123"]
+    );
+    expect(text).toContain("added Wizard 1 (character level 4)");
+    expect(text).toContain("- **Spellcasting** (spells) — You can cast wizard spells.");
+    expect(text).toContain("- **Cantrips known** (spells): 0 → 3");
+  });
+
+  it("should ask for a classId when several classes share the name", async () => {
+    const client = createClient([beforeLevel], [WIZARD, { ...WIZARD, id: 8 }]);
+
+    const result = await levelUp(client, { characterId: 123, className: "Wizard" });
+
+    expect(result.content[0].text).toContain("- Wizard (classId 8)");
+    expect(client.post).not.toHaveBeenCalled();
+  });
+
+  it("should preview the level and its features on a dry run", async () => {
+    const client = createClient([beforeLevel]);
+
+    const result = await levelUp(client, { characterId: 123, className: "Fighter", dryRun: true });
+    const text = result.content[0].text;
+
+    expect(client.put).not.toHaveBeenCalled();
+    expect(text).toContain("- Fighter level: 3 → 4");
+    expect(text).toContain("## Fighter Level 4 Features");
+    expect(text).toContain("listed once it has been applied");
+  });
+
+  it("should only level up on the confirmed call when set_class_level is guarded", async () => {
+    const client = createClient([beforeLevel]);
+    // The sheet only changes once the level is written
+    vi.mocked(client.put).mockImplementation(async () => {
+      vi.mocked(client.get).mockImplementation(async (url: string) =>
+        url.includes("class-feature/collection") ? FEATURES : afterLevel);
+      return {};
+    });
+    const guard = new ConfirmationGuard({ tools: ["set_class_level"] });
+    const run = (params: { characterId: number; confirmationToken?: string }) =>
+      confirmWrite(guard, "level_up", params, (dryRun) => levelUp(client, { characterId: params.characterId, dryRun }));
+
+    const first = await run({ characterId: 123 });
+    const token = /confirmationToken: "([0-9a-f]+)"/.exec(first.content[0].text)?.[1];
+
+    expect(first.content[0].text).toContain("Confirmation required");
+    expect(client.put).not.toHaveBeenCalled();
+
+    const second = await run({ characterId: 123, confirmationToken: token });
+
+    expect(client.put).toHaveBeenCalledTimes(1);
+    expect(second.content[0].text).toContain("Fighter 3 → 4");
+  });
+});
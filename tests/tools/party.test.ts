@@ -0,0 +1,105 @@
+import { describe, it, expect, vi } from "vitest";
+import { getPartyStatus } from "../../src/tools/party.js";
+import type { DdbClient } from "../../src/api/client.js";
+import type { DdbCharacter } from "../../src/types/character.js";
+import { HttpError } from "../../src/resilience/index.js";
+
+const campaigns = [{ id: 999, name: "Lost Mines of Phandelver", dmId: 1, dmUsername: "dm_user", playerCount: 2 }];
+
+const members = [
+  { id: 101, name: "Vex", userId: 2, userName: "player1", avatarUrl: "", characterStatus: 1, isAssigned: true },
+  { id: 102, name: "Brom", userId: 3, userName: "player2", avatarUrl: "", characterStatus: 1, isAssigned: true },
+];
+
+const vex = {
+  id: 101,
+  name: "Vex",
+  race: { fullName: "Half-Elf" },
+  classes: [{ level: 5, definition: { name: "Wizard" } }],
+  stats: [
+    { id: 1, value: 8 },
+    { id: 2, value: 14 },
+    { id: 3, value: 12 },
+    { id: 4, value: 18 },
+    { id: 5, value: 12 },
+    { id: 6, value: 10 },
+  ],
+  bonusStats: [],
+  overrideStats: [],
+  modifiers: { class: [{ type: "proficiency", subType: "investigation" }] },
+  inventory: [],
+  baseHitPoints: 22,
+  removedHitPoints: 10,
+  temporaryHitPoints: 3,
+  spellSlots: [
+    { level: 1, used: 1, available: 4 },
+    { level: 2, used: 0, available: 3 },
+    { level: 3, used: 2, available: 2 },
+  ],
+  actions: {
+    class: [{ name: "Arcane Recovery", limitedUse: { maxUses: 1, numberUsed: 0, resetType: 1, resetTypeDescription: "Long Rest" } }],
+  },
+  conditions: [{ id: 10, level: null }, { id: 15, level: 2 }],
+  inspiration: true,
+} as unknown as DdbCharacter;
+
+function mockClient(sheets: PromiseSettledResult<DdbCharacter>[]): DdbClient {
+  return {
+    get: vi.fn(async (_url: string, key: string) => (key === "campaigns" ? campaigns : members)),
+    getRaw: vi.fn(),
+    getMany: vi.fn(async () => sheets),
+  } as unknown as DdbClient;
+}
+
+describe("getPartyStatus", () => {
+  it("should show each character's combat state", async () => {
+    const client = mockClient([
+      { status: "fulfilled", value: vex },
+      { status: "fulfilled", value: { ...vex, id: 102, name: "Brom", conditions: [], inspiration: false, spellSlots: [], actions: {} } as DdbCharacter },
+    ]);
+
+    const result = await getPartyStatus(client, { campaignId: 999 });
+    const text = result.content[0].text;
+
+    expect(text).toContain("# Party Status — Lost Mines of Phandelver");
+    expect(text).toContain("## Vex — Half-Elf Wizard 5 (Level 5, player1)");
+    expect(text).toContain("HP 17/27 (+3 temp) | AC 12");
+    expect(text).toContain("Passive Perception 11 | Insight 11 | Investigation 17");
+    expect(text).toContain("Spell slots: 1st 3/4, 2nd 3/3, 3rd 0/2");
+    expect(text).toContain("Resources: Arcane Recovery 1/1 (Long Rest)");
+    expect(text).toContain("Conditions: Poisoned | Exhaustion: 2 | Inspiration: Yes");
+    expect(text).toContain("Conditions: None | Exhaustion: 0 | Inspiration: No");
+  });
+
+  it("should fetch every sheet in one batch through the client", async () => {
+    const client = mockClient([
+      { status: "fulfilled", value: vex },
+      { status: "fulfilled", value: vex },
+    ]);
+
+    await getPartyStatus(client, { campaignId: 999 });
+
+    expect(client.getMany).toHaveBeenCalledTimes(1);
+    expect(vi.mocked(client.getMany).mock.calls[0][0]).toEqual([
+      { url: expect.stringContaining("/101"), cacheKey: "character:101", ttl: 60_000 },
+      { url: expect.stringContaining("/102"), cacheKey: "character:102", ttl: 60_000 },
+    ]);
+  });
+
+  it("should keep going when one sheet fails to load", async () => {
+    const client = mockClient([
+      { status: "fulfilled", value: vex },
+      { status: "rejected", reason: new HttpError("D&D Beyond API error: 403 Forbidden", 403) },
+    ]);
+
+    const text = (await getPartyStatus(client, { campaignId: 999 })).content[0].text;
+
+    expect(text).toContain("## Vex");
+    expect(text).toContain("Could not load character 102: D&D Beyond API error: 403 Forbidden");
+  });
+
+  it("should report an unknown campaign", async () => {
+    const result = await getPartyStatus(mockClient([]), { campaignId: 1 });
+    expect(result.content[0].text).toBe("Campaign 1 not found.");
+  });
+});
@@ -0,0 +1,144 @@
+import { describe, it, expect, vi } from "vitest";
+import { listOwnedSources, searchBackgrounds, searchItems, searchMonsters } from "../../src/tools/reference.js";
+import { DdbClient } from "../../src/api/client.js";
+import { MonsterIndex } from "../../src/monsters/monster-index.js";
+import { backgroundSearchSchema, itemSearchSchema, monsterSearchSchema } from "../../src/tools/output-schemas.js";
+
+const CONFIG = {
+  challengeRatings: [{ id: 5, value: 1, xp: 200, proficiencyBonus: 2 }],
+  monsterTypes: [{ id: 11, name: "Humanoid" }],
+  environments: [],
+  alignments: [],
+  damageTypes: [],
+  senses: [],
+  sources: [
+    { id: 1, name: "Basic Rules" },
+    { id: 5, name: "Monster Manual" },
+    { id: 27, name: "Mordenkainen's Tome of Foes" },
+    { id: 40, name: "Tasha's Cauldron of Everything" },
+  ],
+};
+
+function monster(id: number, name: string, ...sourceIds: number[]) {
+  return {
+    id, name, alignmentId: 1, sizeId: 4, typeId: 11, armorClass: 12, averageHitPoints: 11,
+    challengeRatingId: 5, isHomebrew: false, isLegendary: false, isMythic: false,
+    environments: [], damageAdjustments: [], movements: [], sources: sourceIds.map((sourceId) => ({ sourceId })),
+    specialTraitsDescription: "", actionsDescription: "", bonusActionsDescription: "",
+    reactionsDescription: "", legendaryActionsDescription: "", mythicActionsDescription: "",
+  };
+}
+
+// The Goblin is free through the Basic Rules, which says nothing about the Monster Manual
+const MONSTERS = {
+  accessType: { "1": 1, "2": 4, "3": 1, "4": 1 },
+  pagination: { take: 20, skip: 0, total: 4 },
+  data: [monster(1, "Bandit", 1), monster(2, "Orc", 5), monster(3, "Duergar Mind Master", 27), monster(4, "Goblin", 1, 5)],
+};
+
+const ITEMS = [
+  { id: 10, name: "Cloak of Elvenkind", rarity: "Uncommon", type: "Wondrous Item", sources: [{ sourceId: 5 }], accessType: 4 },
+  { id: 11, name: "Cloak of the Duergar", rarity: "Rare", type: "Wondrous Item", sources: [{ sourceId: 27 }] },
+  { id: 12, name: "Cloak of Tasha", rarity: "Rare", type: "Wondrous Item", sources: [{ sourceId: 40 }] },
+  { id: 13, name: "Cloak of Protection", rarity: "Uncommon", type: "Wondrous Item", sources: [{ sourceId: 1 }] },
+];
+
+const BACKGROUNDS = [
+  { id: 20, name: "Acolyte", description: "", isHomebrew: false, sources: [{ sourceId: 1 }] },
+  { id: 21, name: "Far Traveler", description: "", isHomebrew: false, sources: [{ sourceId: 27 }] },
+  { id: 22, name: "Haunted One", description: "", isHomebrew: false, sources: [{ sourceId: 40 }] },
+];
+
+function createClient(): DdbClient {
+  return {
+    get: vi.fn(async (url: string) =>
+      url.includes("game-data/items") ? ITEMS : url.includes("game-data/backgrounds") ? BACKGROUNDS : []
+    ),
+    getRaw: vi.fn(async (url: string) => (url.includes("config/json") ? CONFIG : MONSTERS)),
+    fetchRaw: vi.fn(async () => MONSTERS),
+  } as unknown as DdbClient;
+}
+
+async function builtIndex(client: DdbClient): Promise<MonsterIndex> {
+  const index = new MonsterIndex();
+  await index.build(client);
+  return index;
+}
+
+describe("content access", () => {
+  it("shouldTagMonstersAndDropLockedOnesWhenOwnedOnly", async () => {
+    const client = createClient();
+    const index = await builtIndex(client);
+
+    const all = await searchMonsters(client, {}, null, index);
+    expect(monsterSearchSchema.parse(all.structuredContent).results.map((m) => [m.name, m.access])).toEqual([
+      ["Bandit", "free"],
+      ["Duergar Mind Master", "accessible"],
+      ["Goblin", "free"],
+      ["Orc", "locked"],
+    ]);
+    expect(all.content[0].text).toContain("**Orc** [Locked]");
+
+    const owned = await searchMonsters(client, { ownedOnly: true }, null, index);
+    expect(monsterSearchSchema.parse(owned.structuredContent).results.map((m) => m.name)).toEqual(["Bandit", "Duergar Mind Master", "Goblin"]);
+  });
+
+  it("shouldGiveItemsTheirOwnAccessWithoutTheMonsterIndex", async () => {
+    const client = createClient();
+
+    const all = await searchItems(client, { name: "cloak" });
+    const owned = await searchItems(client, { name: "cloak", ownedOnly: true });
+
+    expect(itemSearchSchema.parse(all.structuredContent).results.map((i) => [i.name, i.access])).toEqual([
+      ["Cloak of Elvenkind", "locked"],
+      ["Cloak of Protection", "free"],
+      ["Cloak of Tasha", "unknown"],
+      ["Cloak of the Duergar", "unknown"],
+    ]);
+    expect(itemSearchSchema.parse(owned.structuredContent).results.map((i) => i.name)).toEqual(["Cloak of Protection"]);
+    expect(client.getRaw).not.toHaveBeenCalled();
+  });
+
+  it("shouldFallBackToTheBookAccessForItemsWithoutACode", async () => {
+    const client = createClient();
+    const index = await builtIndex(client);
+
+    const owned = await searchItems(client, { name: "cloak", ownedOnly: true }, null, index);
+
+    expect(itemSearchSchema.parse(owned.structuredContent).results.map((i) => [i.name, i.access])).toEqual([
+      ["Cloak of Protection", "free"],
+      ["Cloak of the Duergar", "accessible"],
+    ]);
+  });
+
+  it("shouldGiveCharacterOptionsTheirBookAccess", async () => {
+    const client = createClient();
+    const index = await builtIndex(client);
+
+    const result = await searchBackgrounds(client, {}, index);
+
+    expect(backgroundSearchSchema.parse(result.structuredContent).results.map((b) => [b.name, b.access])).toEqual([
+      ["Acolyte", "free"],
+      ["Far Traveler", "accessible"],
+      ["Haunted One", "unknown"],
+    ]);
+  });
+
+  it("shouldListSourcebooksByAccess", async () => {
+    const client = createClient();
+    const index = await builtIndex(client);
+
+    const text = (await listOwnedSources(client, index)).content[0].text;
+
+    expect(text).toContain("## Owned or Shared via Campaign (1)\n- Mordenkainen's Tome of Foes");
+    expect(text).toContain("## Free (Basic Rules / SRD) (1)\n- Basic Rules");
+    expect(text).toContain("## Locked (1)\n- Monster Manual");
+    expect(text).toContain("## Access Unknown (1)\n- Tasha's Cauldron of Everything");
+  });
+
+  it("shouldWaitForTheMonsterIndex", async () => {
+    const result = await listOwnedSources(createClient(), new MonsterIndex());
+
+    expect(result.content[0].text).toContain("still being built");
+  });
+});
@@ -0,0 +1,154 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from "vitest";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  searchMonsters,
+  getMonster,
+  searchItems,
+  getItem,
+  searchSpells,
+  getSpell,
+  searchFeats,
+} from "../../src/tools/reference.js";
+import { addCombatant, EncounterTracker, startEncounter } from "../../src/tools/encounter.js";
+import { evaluateEncounter } from "../../src/tools/encounter-difficulty.js";
+import { HomebrewStore } from "../../src/homebrew/store.js";
+import { DdbClient } from "../../src/api/client.js";
+
+const MOCK_CONFIG = {
+  challengeRatings: [{ id: 5, value: 1, xp: 200, proficiencyBonus: 2 }],
+  monsterTypes: [{ id: 16, name: "Undead" }],
+  environments: [],
+  alignments: [],
+  damageTypes: [],
+  senses: [],
+  sources: [{ id: 5, name: "MM", description: "Monster Manual (2014)" }],
+};
+
+const HOMEBREW = {
+  monsters: [
+    {
+      name: "Ashen Wight",
+      typeId: 16,
+      challengeRatingId: 5,
+      armorClass: 15,
+      averageHitPoints: 45,
+      actionsDescription: "<p><strong>Ashen Claw.</strong> Melee Weapon Attack</p>",
+    },
+  ],
+  items: [{ name: "Lantern of Embers", rarity: "Uncommon", type: "Wondrous Item" }],
+  spells: [
+    { classes: ["Wizard"], definition: { name: "Cinder Veil", level: 2, school: "Evocation", description: "Ash." } },
+    { classes: ["Cleric"], definition: { name: "Fire Bolt", level: 0, school: "Evocation", description: "House rule." } },
+  ],
+  feats: [{ name: "Ashborn", description: "Fire doesn't bother you." }],
+};
+
+const API_FIRE_BOLT = {
+  id: 1, prepared: false, alwaysPrepared: false, usesSpellSlot: false,
+  definition: { name: "Fire Bolt", level: 0, school: "Evocation", description: "Official.", concentration: false, ritual: false },
+};
+
+function createMockClient() {
+  return {
+    get: vi.fn(async (url: string) => {
+      if (url.includes("always-known-spells") && url.includes("classId=8")) return [API_FIRE_BOLT];
+      if (url.includes("feats")) return [{ id: 3, name: "Alert", description: "Alert.", snippet: "", prerequisite: null }];
+      return [];
+    }),
+    getRaw: vi.fn(async (url: string) => {
+      if (url.includes("config/json")) return MOCK_CONFIG;
+      return { pagination: { total: 0 }, data: [] };
+    }),
+  } as unknown as DdbClient;
+}
+
+describe("local homebrew overlay", () => {
+  let dir: string;
+  let homebrew: HomebrewStore;
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), "ddb-homebrew-ref-"));
+    await writeFile(join(dir, "campaign.json"), JSON.stringify(HOMEBREW));
+    homebrew = new HomebrewStore(dir);
+  });
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("should list matching local monsters with the CR and type filters applied", async () => {
+    const result = await searchMonsters(createMockClient(), { name: "wight", type: "undead" }, homebrew);
+
+    expect(result.content[0].text).toContain("- **Ashen Wight** [Local Homebrew] — CR 1, Medium Undead, AC 15, 45 HP");
+  });
+
+  it("should leave local monsters out of source-filtered searches", async () => {
+    const result = await searchMonsters(createMockClient(), { name: "wight", source: "Monster Manual" }, homebrew);
+
+    expect(result.content[0].text).toContain("No monsters found");
+  });
+
+  it("should render a local monster's stat block without calling the monster service", async () => {
+    const client = createMockClient();
+    const result = await getMonster(client, { monsterName: "ashen wight" }, homebrew);
+
+    expect(result.content[0].text).toContain("# Ashen Wight [Local Homebrew]");
+    expect(result.content[0].text).toContain("Ashen Claw. Melee Weapon Attack");
+    expect(client.getRaw).not.toHaveBeenCalledWith(expect.stringContaining("search="), expect.anything(), expect.anything());
+  });
+
+  it("should fall back to a partial local match when D&D Beyond has none", async () => {
+    const result = await getMonster(createMockClient(), { monsterName: "wight" }, homebrew);
+
+    expect(result.content[0].text).toContain("# Ashen Wight [Local Homebrew]");
+  });
+
+  it("should merge local items into search and lookup", async () => {
+    const search = await searchItems(createMockClient(), { rarity: "uncommon" }, homebrew);
+    const item = await getItem(createMockClient(), { itemName: "lantern" }, homebrew);
+
+    expect(search.content[0].text).toContain("- **Lantern of Embers** [Local Homebrew] — Uncommon Wondrous Item");
+    expect(item.content[0].text).toContain("# Lantern of Embers [Local Homebrew]");
+  });
+
+  it("should filter local spells by their class list", async () => {
+    const result = await searchSpells(createMockClient(), { class: "wizard" }, undefined, homebrew);
+    const text = result.content[0].text;
+
+    expect(text).toContain("- **Cinder Veil** [Local Homebrew] — Level 2, Evocation [Wizard]");
+    expect(text).not.toContain("Fire Bolt");
+  });
+
+  it("should let a local spell override the D&D Beyond spell of the same name", async () => {
+    const result = await getSpell(createMockClient(), { spellName: "Fire Bolt" }, undefined, homebrew);
+
+    expect(result.content[0].text).toContain("# Fire Bolt [Local Homebrew]");
+    expect(result.content[0].text).toContain("House rule.");
+  });
+
+  it("should merge local feats", async () => {
+    const result = await searchFeats(createMockClient(), {}, homebrew);
+
+    expect(result.content[0].text).toContain("- **Alert** — Alert.");
+    expect(result.content[0].text).toContain("- **Ashborn** [Local Homebrew] — Fire doesn't bother you.");
+  });
+
+  it("should find local monsters for the encounter tools", async () => {
+    const tracker = new EncounterTracker();
+    await startEncounter(createMockClient(), tracker, {});
+
+    const added = await addCombatant(createMockClient(), tracker, { monsterName: "ashen wight" }, homebrew);
+    const rated = await evaluateEncounter(createMockClient(), { monsters: [{ name: "ashen wight" }], partyLevels: [3] }, homebrew);
+
+    expect(added.content[0].text).toContain("Ashen Wight (AC 15, HP 45/45)");
+    expect(rated.content[0].text).toContain("- 1× Ashen Wight (CR 1, 200 XP)");
+  });
+
+  it("should behave as before without a homebrew store", async () => {
+    const result = await searchItems(createMockClient(), { name: "lantern" });
+
+    expect(result.content[0].text).toContain("No items found");
+  });
+});
@@ -8,6 +8,7 @@ import {
 } from "../../src/tools/reference.js";
 import { DdbClient } from "../../src/api/client.js";
 import { ItemSearchParams, FeatSearchParams } from "../../src/types/reference.js";
+import { itemDetailSchema, itemSearchSchema, featSearchSchema, classSearchSchema } from "../../src/tools/output-schemas.js";
 
 const MOCK_ITEMS = [
   {
@@ -74,6 +75,31 @@ describe("searchItems", () => {
     expect(result).toHaveProperty("content");
     expect(result.content[0].text).toContain("Item Search Results");
   });
+
+  it("shouldReturnStructuredSearchHits", async () => {
+    const result = await searchItems(mockClient, { name: "bag" });
+    const hits = itemSearchSchema.parse(result.structuredContent);
+
+    expect(hits).toEqual({
+      total: 1,
+      results: [{
+        id: 2,
+        name: "Bag of Holding",
+        rarity: "Uncommon",
+        type: "Wondrous Item",
+        requiresAttunement: false,
+        source: null,
+        access: "unknown",
+        localHomebrew: false,
+      }],
+    });
+  });
+
+  it("shouldReturnEmptyStructuredResultsWhenNothingMatches", async () => {
+    const result = await searchItems(mockClient, { name: "nonexistent" });
+
+    expect(result.structuredContent).toEqual({ total: 0, results: [] });
+  });
 });
 
 describe("getItem", () => {
@@ -104,6 +130,29 @@ describe("getItem", () => {
     const result = await getItem(mockClient, { itemName: "bag of holding" });
     expect(result.content[0].text).toContain("Bag of Holding");
   });
+
+  it("shouldReturnStructuredItemDetails", async () => {
+    const result = await getItem(mockClient, { itemName: "Flame Tongue Longsword" });
+    const item = itemDetailSchema.parse(result.structuredContent);
+
+    expect(item).toMatchObject({
+      id: 1,
+      type: "Weapon",
+      rarity: "Rare",
+      requiresAttunement: true,
+      attunementDescription: null,
+      weight: 3,
+      damage: "1d8",
+      properties: ["Versatile"],
+      description: "A fiery blade.",
+    });
+  });
+
+  it("shouldFlagNotFoundAsError", async () => {
+    const result = await getItem(mockClient, { itemName: "Nonexistent Item" });
+
+    expect(result.isError).toBe(true);
+  });
 });
 
 describe("searchFeats", () => {
@@ -142,6 +191,22 @@ describe("searchFeats", () => {
     expect(result).toHaveProperty("content");
     expect(result.content[0].text).toContain("Feat Search Results");
   });
+
+  it("shouldReturnStructuredSearchHits", async () => {
+    const result = await searchFeats(mockClient, {});
+    const hits = featSearchSchema.parse(result.structuredContent);
+
+    expect(hits.total).toBe(2);
+    expect(hits.results[1]).toEqual({
+      id: 2,
+      name: "Grappler",
+      prerequisite: "Strength 13 or higher",
+      snippet: "Better at grappling.",
+      source: null,
+      access: "unknown",
+      localHomebrew: false,
+    });
+  });
 });
 
 describe("getCondition", () => {
@@ -214,4 +279,22 @@ describe("searchClasses", () => {
     expect(result.content[0].text).toContain("Fighter");
     expect(result.content[0].text).toContain("Wizard");
   });
+
+  it("shouldReturnStructuredClasses", async () => {
+    const result = await searchClasses(mockClient, { className: "wizard" });
+
+    expect(classSearchSchema.parse(result.structuredContent)).toEqual({
+      total: 1,
+      results: [{
+        id: 8,
+        name: "Wizard",
+        hitDie: 6,
+        spellcastingAbility: "INT",
+        subclasses: [],
+        description: "A scholarly magic-user.",
+        source: null,
+        access: "unknown",
+      }],
+    });
+  });
 });
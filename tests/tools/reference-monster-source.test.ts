@@ -79,12 +79,12 @@ describe("search_monsters with source filter", () => {
     expect(monsterUrl).not.toContain("sources=");
   });
 
-  it("should handle unknown source names gracefully", async () => {
+  it("should reject unknown source names instead of searching without the filter", async () => {
     const client = createRoutingMockClient([MOCK_RESPONSE]);
     const result = await searchMonsters(client, { source: "Unknown Book" });
 
-    // Should not throw error, just proceed without source filter
-    const text = result.content[0].text;
-    expect(text).toBeTruthy();
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('Unknown sourcebook "Unknown Book"');
+    expect(client.getRaw).not.toHaveBeenCalledWith(expect.stringContaining("monster"), expect.anything(), expect.anything());
   });
 });
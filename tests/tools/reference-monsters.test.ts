@@ -1,7 +1,9 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
-import { searchMonsters, getMonster } from "../../src/tools/reference.js";
+import { searchMonsters, getMonster, scaleMonster } from "../../src/tools/reference.js";
 import { DdbClient } from "../../src/api/client.js";
 import { MonsterSearchParams } from "../../src/types/reference.js";
+import { monsterSearchSchema, monsterStatBlockSchema } from "../../src/tools/output-schemas.js";
+import { MonsterIndex } from "../../src/monsters/monster-index.js";
 
 const MOCK_CONFIG = {
   challengeRatings: [
@@ -16,6 +18,7 @@ const MOCK_CONFIG = {
   alignments: [{ id: 9, name: "Chaotic Evil" }],
   damageTypes: [{ id: 1, name: "Fire" }],
   senses: [{ id: 2, name: "Darkvision" }],
+  damageAdjustments: [{ id: 1, name: "Fire", type: 2 }],
 };
 
 const MOCK_MONSTER = {
@@ -77,6 +80,7 @@ function createRoutingMockClient(monsterResponses: unknown[]) {
   return {
     get: vi.fn(),
     getRaw: getRawFn,
+    fetchRaw: getRawFn,
   } as unknown as DdbClient;
 }
 
@@ -251,4 +255,205 @@ describe("getMonster", () => {
     const result = await getMonster(mockClient, { monsterName: "goblin" });
     expect(result.content[0].text).toContain("Goblin");
   });
+
+  it("shouldReturnStructuredStatBlock", async () => {
+    const mockClient = createRoutingMockClient([
+      {
+        accessType: { "17100": 1 },
+        pagination: { take: 5, skip: 0, currentPage: 1, pages: 1, total: 1 },
+        data: [MOCK_MONSTER],
+      },
+      { accessType: 1, data: MOCK_MONSTER },
+    ]);
+
+    const result = await getMonster(mockClient, { monsterName: "Goblin" });
+    const block = monsterStatBlockSchema.parse(result.structuredContent);
+
+    expect(block).toMatchObject({
+      name: "Goblin",
+      size: "Small",
+      type: "Humanoid",
+      alignment: "Chaotic Evil",
+      armorClass: 15,
+      armorClassDescription: "(leather armor, shield)",
+      hitPoints: 7,
+      hitDice: "2d6",
+      speeds: [{ mode: "walk", feet: 30 }],
+      senses: ["Darkvision 60 ft."],
+      challengeRating: 1,
+      xp: 200,
+      reactions: null,
+    });
+    expect(block.abilityScores[1]).toEqual({ ability: "DEX", score: 14, modifier: 2 });
+    expect(block.traits).toContain("Nimble Escape.");
+    expect(block.parsedActions.map((a) => [a.kind, a.name])).toEqual([["trait", "Nimble Escape"], ["action", "Scimitar"]]);
+  });
+
+  it("shouldFlagNotFoundAsError", async () => {
+    const mockClient = createRoutingMockClient([
+      {
+        accessType: {},
+        pagination: { take: 5, skip: 0, currentPage: 1, pages: 0, total: 0 },
+        data: [],
+      },
+    ]);
+
+    const result = await getMonster(mockClient, { monsterName: "Nonexistent Monster" });
+
+    expect(result.isError).toBe(true);
+    expect(result.structuredContent).toBeUndefined();
+  });
+});
+
+describe("scaleMonster", () => {
+  const goblinResponses = () => [
+    {
+      accessType: { "17100": 1 },
+      pagination: { take: 5, skip: 0, currentPage: 1, pages: 1, total: 1 },
+      data: [MOCK_MONSTER],
+    },
+    { accessType: 1, data: MOCK_MONSTER },
+  ];
+
+  it("shouldReturnTheScaledStatBlockInGetMonsterFormat", async () => {
+    const result = await scaleMonster(createRoutingMockClient(goblinResponses()), { monsterName: "Goblin", targetCr: 10 });
+    const data = monsterStatBlockSchema.parse(result.structuredContent);
+
+    expect(data.name).toBe("Goblin (CR 10)");
+    expect(data.challengeRating).toBe(10);
+    expect(data.xp).toBe(5900);
+    expect(data.hitPoints).toBeGreaterThanOrEqual(206);
+    expect(result.content[0].text).toContain("**Challenge** 10 (5,900 XP)");
+    expect(result.content[0].text).toContain("## Scaling");
+    expect(result.content[0].text).toContain("- Challenge: 1 → 10");
+  });
+
+  it("shouldRequireATargetCrOrTemplate", async () => {
+    const result = await scaleMonster(createRoutingMockClient([]), { monsterName: "Goblin" });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain("targetCr");
+  });
+
+  it("shouldReportAnUnknownTargetCr", async () => {
+    const result = await scaleMonster(createRoutingMockClient(goblinResponses()), { monsterName: "Goblin", targetCr: 4 });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain("There is no CR 4");
+  });
+});
+
+describe("searchMonsters save filters", () => {
+  const breather = {
+    ...MOCK_MONSTER,
+    id: 17200,
+    name: "Poison Drake",
+    actionsDescription: "<p><strong>Poison Breath (Recharge 6).</strong> Each creature in a 15-foot cone must make a DC 15 Constitution saving throw, taking 10 (3d6) poison damage on a failed save.</p>",
+  };
+
+  it("shouldKeepOnlyMonstersWhoseActionsCallForTheSave", async () => {
+    const mockClient = createRoutingMockClient([
+      {
+        accessType: {},
+        pagination: { take: 20, skip: 0, currentPage: 1, pages: 1, total: 2 },
+        data: [MOCK_MONSTER, breather],
+      },
+    ]);
+
+    const result = await searchMonsters(mockClient, { name: "d", saveAbility: "con", saveDc: 15 });
+
+    expect(monsterSearchSchema.parse(result.structuredContent).results.map((r) => r.name)).toEqual(["Poison Drake"]);
+    expect(result.content[0].text).toContain("Saves: Poison Breath (DC 15 CON)");
+  });
+});
+
+describe("searchMonsters with the monster index", () => {
+  const mountainDragon = {
+    ...MOCK_MONSTER,
+    id: 17300,
+    name: "Red Dragon",
+    typeId: 6,
+    challengeRatingId: 14,
+    isLegendary: true,
+    environments: [7],
+    damageAdjustments: [1],
+    movements: [{ movementId: 1, speed: 40, notes: null }, { movementId: 4, speed: 80, notes: null }],
+  };
+
+  async function builtIndex(monsters: unknown[]) {
+    const index = new MonsterIndex();
+    const pages = [];
+    for (let skip = 0; skip < monsters.length; skip += 20) {
+      pages.push({ accessType: {}, pagination: { take: 20, skip, total: monsters.length }, data: monsters.slice(skip, skip + 20) });
+    }
+    await index.build(createRoutingMockClient(pages));
+    return index;
+  }
+
+  it("shouldFilterTheWholeCatalogueByEnvironmentAndCrRange", async () => {
+    const index = await builtIndex([MOCK_MONSTER, mountainDragon]);
+    const mockClient = createRoutingMockClient([]);
+
+    const result = await searchMonsters(mockClient, { environment: "mountain", crMin: 5 }, null, index);
+
+    expect(monsterSearchSchema.parse(result.structuredContent).results.map((r) => r.name)).toEqual(["Red Dragon"]);
+    expect(result.content[0].text).toContain("searched all 2 indexed monsters, page 1 of 1");
+    expect(mockClient.getRaw).not.toHaveBeenCalledWith(expect.stringContaining("/v1/Monster"), expect.anything(), expect.anything());
+  });
+
+  it("shouldFilterByLegendaryImmunityAndMovement", async () => {
+    const index = await builtIndex([MOCK_MONSTER, mountainDragon]);
+    const search = (params: MonsterSearchParams) =>
+      searchMonsters(createRoutingMockClient([]), params, null, index).then((r) =>
+        monsterSearchSchema.parse(r.structuredContent).results.map((m) => m.name)
+      );
+
+    expect(await search({ legendary: false })).toEqual(["Goblin"]);
+    expect(await search({ damageImmunity: "fire" })).toEqual(["Red Dragon"]);
+    expect(await search({ movement: "fly" })).toEqual(["Red Dragon"]);
+    expect(await search({ alignment: "evil" })).toEqual(["Goblin", "Red Dragon"]);
+  });
+
+  it("shouldPageResultsInNameOrder", async () => {
+    const goblins = Array.from({ length: 25 }, (_, i) => ({ ...MOCK_MONSTER, id: i + 1, name: `Goblin ${String(i + 1).padStart(2, "0")}` }));
+    const index = await builtIndex(goblins);
+
+    const result = await searchMonsters(createRoutingMockClient([]), { type: "humanoid", page: 2 }, null, index);
+    const hits = monsterSearchSchema.parse(result.structuredContent);
+
+    expect(hits.total).toBe(25);
+    expect(hits.results.map((r) => r.name)).toEqual(["Goblin 21", "Goblin 22", "Goblin 23", "Goblin 24", "Goblin 25"]);
+    expect(result.content[0].text).toContain("page 2 of 2");
+  });
+});
+
+describe("searchMonsters structured output", () => {
+  it("shouldReturnSearchHits", async () => {
+    const mockClient = createRoutingMockClient([
+      {
+        accessType: { "17100": 1 },
+        pagination: { take: 20, skip: 0, currentPage: 1, pages: 1, total: 1 },
+        data: [MOCK_MONSTER],
+      },
+    ]);
+
+    const result = await searchMonsters(mockClient, { name: "goblin" });
+    const hits = monsterSearchSchema.parse(result.structuredContent);
+
+    expect(hits.total).toBe(1);
+    expect(hits.results[0]).toEqual({
+      id: 17100,
+      name: "Goblin",
+      challengeRating: 1,
+      size: "Small",
+      type: "Humanoid",
+      armorClass: 15,
+      hitPoints: 7,
+      legendary: false,
+      source: null,
+      access: "accessible",
+      homebrew: false,
+      localHomebrew: false,
+    });
+  });
 });
@@ -0,0 +1,140 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  searchBackgrounds,
+  searchClassFeatures,
+  searchFeats,
+  searchItems,
+  searchRaces,
+  searchRacialTraits,
+} from "../../src/tools/reference.js";
+import { DdbClient } from "../../src/api/client.js";
+import {
+  backgroundSearchSchema,
+  classFeatureSearchSchema,
+  featSearchSchema,
+  itemSearchSchema,
+  raceSearchSchema,
+  racialTraitSearchSchema,
+} from "../../src/tools/output-schemas.js";
+
+const CONFIG = {
+  challengeRatings: [],
+  monsterTypes: [],
+  environments: [],
+  alignments: [],
+  damageTypes: [],
+  senses: [],
+  sources: [
+    { id: 2, name: "PHB", description: "Player's Handbook (2014)" },
+    { id: 27, name: "XGtE", description: "Xanathar's Guide to Everything" },
+    { id: 67, name: "TCoE", description: "Tasha's Cauldron of Everything" },
+    { id: 145, name: "PHB-2024", description: "Player's Handbook" },
+  ],
+};
+
+const GAME_DATA: Record<string, unknown[]> = {
+  items: [
+    { id: 1, name: "Bag of Holding", rarity: "Uncommon", type: "Wondrous Item", sources: [{ sourceId: 2 }] },
+    { id: 2, name: "Cauldron of Plenty", rarity: "Rare", type: "Wondrous Item", sources: [{ sourceId: 27 }] },
+  ],
+  feats: [
+    { id: 1, name: "Alert", description: "Always on the lookout.", sources: [{ sourceId: 145 }] },
+    { id: 2, name: "Fey Touched", description: "Touched by the Feywild.", sources: [{ sourceId: 67 }] },
+  ],
+  races: [
+    { entityRaceId: 1, fullName: "Elf", baseName: "Elf", description: "Graceful.", isLegacy: true, isSubRace: false, sources: [{ sourceId: 2 }] },
+    { entityRaceId: 2, fullName: "Elf", baseName: "Elf", description: "Graceful.", isLegacy: false, isSubRace: false, sources: [{ sourceId: 145 }] },
+  ],
+  backgrounds: [
+    { id: 1, name: "Acolyte", description: "Temple service.", sources: [{ sourceId: 145 }] },
+    { id: 2, name: "Feylost", description: "Lost in the Feywild.", sources: [{ sourceId: 67 }] },
+  ],
+  "racial-trait": [
+    { id: 1, name: "Darkvision", raceName: "Elf", snippet: "<p>See in the dark.</p>", description: "", sources: [{ sourceId: 145 }] },
+  ],
+  "class-feature": [
+    { id: 1, name: "Font of Magic", className: "Sorcerer", requiredLevel: 2, description: "", sources: [{ sourceId: 2 }] },
+    { id: 2, name: "Magical Guidance", className: "Sorcerer", requiredLevel: 5, description: "", sources: [{ sourceId: 67 }] },
+  ],
+};
+
+function createClient(): DdbClient {
+  return {
+    get: vi.fn(async (url: string) => {
+      const key = Object.keys(GAME_DATA).find((k) => url.includes(k));
+      return key ? GAME_DATA[key] : [];
+    }),
+    getRaw: vi.fn(async () => CONFIG),
+  } as unknown as DdbClient;
+}
+
+describe("sourcebooks on reference results", () => {
+  it("shouldShowEachEntrysBook", async () => {
+    const result = await searchItems(createClient(), {});
+
+    expect(result.content[0].text).toContain("**Bag of Holding** — Uncommon Wondrous Item · Player's Handbook (2014)");
+    expect(itemSearchSchema.parse(result.structuredContent).results.map((i) => i.source)).toEqual([
+      "Player's Handbook (2014)",
+      "Xanathar's Guide to Everything",
+    ]);
+  });
+
+  it("shouldFilterItemsAndFeatsByAbbreviation", async () => {
+    const client = createClient();
+
+    const items = await searchItems(client, { source: "xgte" });
+    expect(itemSearchSchema.parse(items.structuredContent).results.map((i) => i.name)).toEqual(["Cauldron of Plenty"]);
+
+    const feats = await searchFeats(client, { source: "PHB'24" });
+    expect(featSearchSchema.parse(feats.structuredContent).results.map((f) => f.name)).toEqual(["Alert"]);
+  });
+
+  it("shouldFilterRacesBackgroundsAndClassFeaturesByBook", async () => {
+    const client = createClient();
+
+    const races = await searchRaces(client, { source: "PHB 2014" });
+    expect(races.content[0].text).toContain("# Race Search Results (1 found)");
+    expect(races.content[0].text).toContain("**Elf** *(Legacy)* · Player's Handbook (2014) — Graceful.");
+
+    const backgrounds = await searchBackgrounds(client, { source: "Tasha's Cauldron" });
+    expect(backgrounds.content[0].text).toContain("**Feylost** · Tasha's Cauldron of Everything");
+    expect(backgrounds.content[0].text).not.toContain("Acolyte");
+
+    const features = await searchClassFeatures(client, { className: "Sorcerer", source: "TCoE" });
+    expect(features.content[0].text).toContain("**Magical Guidance** — Sorcerer level 5 · Tasha's Cauldron of Everything");
+    expect(features.content[0].text).not.toContain("Font of Magic");
+  });
+
+  it("shouldReturnStructuredRacesBackgroundsFeaturesAndTraits", async () => {
+    const client = createClient();
+
+    const races = raceSearchSchema.parse((await searchRaces(client, { source: "PHB'24" })).structuredContent);
+    expect(races.results).toEqual([{
+      id: 2, name: "Elf", baseName: "Elf", legacy: false, subrace: false, description: "Graceful.", source: "Player's Handbook", access: "unknown",
+    }]);
+
+    const backgrounds = backgroundSearchSchema.parse((await searchBackgrounds(client, { name: "feylost" })).structuredContent);
+    expect(backgrounds.results).toEqual([
+      { id: 2, name: "Feylost", description: "Lost in the Feywild.", source: "Tasha's Cauldron of Everything", access: "unknown" },
+    ]);
+
+    const features = classFeatureSearchSchema.parse((await searchClassFeatures(client, { className: "Sorcerer" })).structuredContent);
+    expect(features.results.map((f) => [f.name, f.className, f.level])).toEqual([
+      ["Font of Magic", "Sorcerer", 2],
+      ["Magical Guidance", "Sorcerer", 5],
+    ]);
+
+    const traits = racialTraitSearchSchema.parse((await searchRacialTraits(client, { raceName: "elf" })).structuredContent);
+    expect(traits).toEqual({
+      total: 1,
+      results: [{ id: 1, name: "Darkvision", raceName: "Elf", snippet: "See in the dark.", source: "Player's Handbook", access: "unknown" }],
+    });
+  });
+
+  it("shouldRejectUnknownBooks", async () => {
+    const result = await searchBackgrounds(createClient(), { source: "Tome of Beasts" });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('Unknown sourcebook "Tome of Beasts"');
+  });
+});
@@ -2,6 +2,7 @@ import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 import { searchSpells, getSpell } from "../../src/tools/reference.js";
 import { DdbClient } from "../../src/api/client.js";
 import { DdbSpell } from "../../src/types/character.js";
+import { spellDetailSchema, spellSearchSchema } from "../../src/tools/output-schemas.js";
 
 const createMockSpell = (
   name: string,
@@ -220,4 +221,131 @@ describe("getSpell", () => {
 
     expect(result.content[0].text).toContain("# Fireball");
   });
+
+  it("should return structured spell details", async () => {
+    const result = await getSpell(mockClient, { spellName: "Detect Magic" });
+    const spell = spellDetailSchema.parse(result.structuredContent);
+
+    expect(spell).toMatchObject({
+      name: "Detect Magic",
+      level: 1,
+      school: "Divination",
+      range: "Self",
+      components: ["V", "S"],
+      concentration: true,
+      ritual: true,
+      description: "Description of Detect Magic",
+      localHomebrew: false,
+    });
+  });
+
+  it("should flag a missing spell as an error", async () => {
+    const result = await getSpell(mockClient, { spellName: "Nonexistent Spell" });
+
+    expect(result.isError).toBe(true);
+    expect(result.structuredContent).toBeUndefined();
+  });
+
+  it("should return structured search hits", async () => {
+    const result = await searchSpells(mockClient, { school: "abjuration" });
+    const hits = spellSearchSchema.parse(result.structuredContent);
+
+    expect(hits.total).toBe(1);
+    expect(hits.results[0]).toMatchObject({ name: "Shield", level: 1, concentration: false, expandedList: null });
+  });
+});
+
+describe("searchSpells class filter", () => {
+  // classId query param -> spells on that class's list
+  const CLASS_LISTS: Record<string, DdbSpell[]> = {
+    "3": [createMockSpell("Entangle", 1, "Conjuration", true), createMockSpell("Call Lightning", 3, "Conjuration", true)],
+    "8": [createMockSpell("Fireball", 3, "Evocation"), createMockSpell("Magic Missile", 1, "Evocation")],
+    "6": [createMockSpell("Fireball", 3, "Evocation")],
+  };
+  const PREPARED_LISTS: Record<string, DdbSpell[]> = {
+    "2": [createMockSpell("Fireball", 3, "Evocation")], // e.g. Light Domain spell
+  };
+
+  let mockClient: DdbClient;
+
+  beforeEach(() => {
+    mockClient = {
+      get: vi.fn().mockImplementation((url: string) => {
+        if (url.includes("game-data/classes")) {
+          return Promise.resolve([
+            {
+              id: 2,
+              name: "Cleric",
+              subclasses: [{ id: 500, name: "Tempest Domain", description: "", spellListIds: [77] }],
+            },
+          ]);
+        }
+        const classId = new URL(url).searchParams.get("classId") ?? "";
+        if (url.includes("spellListIds")) {
+          if (url.includes("classLevel=1&")) return Promise.resolve([createMockSpell("Thunderclap", 0, "Evocation")]);
+          return Promise.resolve([createMockSpell("Thunderwave", 1, "Evocation"), createMockSpell("Call Lightning", 3, "Conjuration", true)]);
+        }
+        if (url.includes("always-prepared-spells")) return Promise.resolve(PREPARED_LISTS[classId] ?? []);
+        return Promise.resolve(CLASS_LISTS[classId] ?? []);
+      }),
+      getRaw: vi.fn(),
+    } as unknown as DdbClient;
+  });
+
+  it("should only return spells on the class list", async () => {
+    const result = await searchSpells(mockClient, { class: "druid", level: 3 });
+    const text = result.content[0].text;
+
+    expect(text).toContain("Call Lightning");
+    expect(text).not.toContain("Entangle");
+    expect(text).not.toContain("Fireball");
+  });
+
+  it("should list every class a spell belongs to", async () => {
+    const result = await searchSpells(mockClient, { name: "Fireball" });
+
+    expect(result.content[0].text).toContain("[Sorcerer, Wizard]");
+  });
+
+  it("should leave out spells a class only gets through subclass always-prepared lists", async () => {
+    const result = await searchSpells(mockClient, { class: "cleric" });
+
+    expect(result.content[0].text).not.toContain("Fireball");
+  });
+
+  it("should add subclass expanded spells to the class list", async () => {
+    const result = await searchSpells(mockClient, { subclass: "tempest" });
+    const text = result.content[0].text;
+
+    expect(text).toContain("*Cleric spell list plus the Tempest Domain expanded list*");
+    expect(text).toContain("Thunderwave");
+    expect(text).toContain("Tempest Domain expanded list");
+    expect(text).toContain("Call Lightning");
+    expect(text).toContain("Thunderclap");
+    expect(text).not.toContain("Fireball");
+  });
+
+  it("should reject a subclass that doesn't belong to the class", async () => {
+    const result = await searchSpells(mockClient, { class: "wizard", subclass: "tempest" });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toBe("Tempest Domain is a Cleric subclass, not wizard.");
+  });
+
+  it("should report unknown classes and subclasses", async () => {
+    expect((await searchSpells(mockClient, { class: "jester" })).content[0].text).toContain(
+      'Unknown spellcasting class "jester"'
+    );
+    expect((await searchSpells(mockClient, { subclass: "nonexistent" })).content[0].text).toContain(
+      'Subclass "nonexistent" not found.'
+    );
+  });
+
+  it("should show classes in spell details", async () => {
+    const result = await getSpell(mockClient, { spellName: "Fireball" });
+    const text = result.content[0].text;
+
+    expect(text).toContain("**Classes:** Sorcerer, Wizard");
+    expect(text).toContain("**Subclass Lists:** Cleric");
+  });
 });
@@ -0,0 +1,116 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { diffCharacter, characterHistory } from "../../src/tools/snapshots.js";
+import { getCharacter } from "../../src/tools/character.js";
+import { SnapshotStore } from "../../src/snapshots/store.js";
+import type { DdbClient } from "../../src/api/client.js";
+import type { DdbCharacter } from "../../src/types/character.js";
+
+function makeCharacter(removedHitPoints: number, gp: number): DdbCharacter {
+  return {
+    id: 42,
+    name: "Vex",
+    race: { fullName: "Half-Elf" },
+    stats: [],
+    bonusStats: [],
+    overrideStats: [],
+    modifiers: {},
+    campaign: null,
+    classes: [{ definition: { name: "Rogue" }, level: 3 }],
+    baseHitPoints: 20,
+    bonusHitPoints: null,
+    overrideHitPoints: null,
+    removedHitPoints,
+    temporaryHitPoints: 0,
+    currentXp: 900,
+    currencies: { cp: 0, sp: 0, ep: 0, gp, pp: 0 },
+    inventory: [],
+    spells: { class: null, race: null, background: null, item: null, feat: null },
+    feats: [],
+  } as unknown as DdbCharacter;
+}
+
+describe("snapshot tools", () => {
+  let dir: string;
+  let snapshots: SnapshotStore;
+  let live: DdbCharacter;
+  let mockClient: DdbClient;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "ddb-snapshot-tools-"));
+    snapshots = new SnapshotStore(dir);
+    live = makeCharacter(0, 50);
+    mockClient = {
+      get: vi.fn(async () => live),
+      getRaw: vi.fn(),
+    } as unknown as DdbClient;
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("should snapshot the sheet when get_character reads it", async () => {
+    await getCharacter(mockClient, { characterId: 42, detail: "summary" }, snapshots);
+
+    expect(await snapshots.list(42)).toHaveLength(1);
+  });
+
+  it("should diff the live sheet against the last different snapshot", async () => {
+    await snapshots.save(makeCharacter(0, 50), new Date("2026-10-12T19:00:00Z"));
+    live = makeCharacter(8, 35);
+    // The live read was already snapshotted by get_character; diff should still look further back
+    await snapshots.save(live, new Date("2026-10-19T19:30:00Z"));
+
+    const result = await diffCharacter(mockClient, { characterId: 42 }, snapshots);
+    const text = result.content[0].text;
+
+    expect(text).toContain("# Changes to Vex");
+    expect(text).toContain("*2026-10-12 19:00 UTC (20261012T190000000Z) → live*");
+    expect(text).toContain("## Hit Points\n- HP 20/20 → 12/20 (-8)");
+    expect(text).toContain("## Currency\n- gp 50 → 35 (-15)");
+  });
+
+  it("should diff two named snapshots", async () => {
+    const first = await snapshots.save(makeCharacter(0, 50), new Date("2026-10-12T19:00:00Z"));
+    const second = await snapshots.save(makeCharacter(0, 80), new Date("2026-10-19T19:00:00Z"));
+
+    const result = await diffCharacter(mockClient, { characterId: 42, from: first!.id, to: second!.id }, snapshots);
+
+    expect(result.content[0].text).toContain("- gp 50 → 80 (+30)");
+    expect(mockClient.get).not.toHaveBeenCalled();
+  });
+
+  it("should explain when there is nothing to compare", async () => {
+    const result = await diffCharacter(mockClient, { characterId: 42 }, snapshots);
+
+    expect(result.content[0].text).toContain("No earlier snapshot of Vex");
+  });
+
+  it("should report unknown snapshot IDs", async () => {
+    const result = await diffCharacter(mockClient, { characterId: 42, to: "nope" }, snapshots);
+
+    expect(result.content[0].text).toBe('Snapshot "nope" not found. Use character_history to list snapshots.');
+  });
+
+  it("should list history newest first with per-snapshot changes", async () => {
+    await snapshots.save(makeCharacter(0, 50), new Date("2026-10-12T19:00:00Z"));
+    await snapshots.save(makeCharacter(8, 50), new Date("2026-10-19T19:00:00Z"));
+
+    const result = await characterHistory(mockClient, { characterId: 42 }, snapshots);
+    const text = result.content[0].text;
+
+    expect(text).toContain("# Vex — Snapshot History (2 of 2)");
+    expect(text.indexOf("2026-10-19 19:00")).toBeLessThan(text.indexOf("2026-10-12 19:00"));
+    expect(text).toContain("Level 3, HP 12/20, 900 XP, 50 gp\n- Hit Points: HP 20/20 → 12/20 (-8)");
+    expect(text).toContain("- First snapshot");
+  });
+
+  it("should say when snapshots are disabled", async () => {
+    const result = await characterHistory(mockClient, { characterId: 42 }, null);
+
+    expect(result.content[0].text).toBe("Character snapshots are disabled (DDB_SNAPSHOTS=off).");
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { startHttpServer, type RunningHttpServer } from "../../src/transport/http.js";
+
+const TOKEN = "table-secret";
+
+function createTestServer(counter: { calls: number }): McpServer {
+  const server = new McpServer({ name: "dndbeyond-mcp", version: "0.1.0" });
+  server.tool("ping", "Count calls across sessions", {}, async () => ({
+    content: [{ type: "text", text: `pong ${++counter.calls}` }],
+  }));
+  return server;
+}
+
+async function connect(url: string, token = TOKEN): Promise<Client> {
+  const client = new Client({ name: "test-client", version: "1.0.0" });
+  await client.connect(
+    new StreamableHTTPClientTransport(new URL(url), {
+      requestInit: { headers: { Authorization: `Bearer ${token}` } },
+    })
+  );
+  return client;
+}
+
+describe("startHttpServer", () => {
+  let running: RunningHttpServer | undefined;
+  const clients: Client[] = [];
+
+  afterEach(async () => {
+    for (const client of clients.splice(0)) await client.close();
+    await running?.close();
+    running = undefined;
+  });
+
+  it("should serve several sessions from one shared backend", async () => {
+    const counter = { calls: 0 };
+    running = await startHttpServer(() => createTestServer(counter), { port: 0, token: TOKEN });
+
+    const first = await connect(running.url);
+    const second = await connect(running.url);
+    clients.push(first, second);
+
+    const a = await first.callTool({ name: "ping", arguments: {} });
+    const b = await second.callTool({ name: "ping", arguments: {} });
+
+    expect(a.content).toEqual([{ type: "text", text: "pong 1" }]);
+    expect(b.content).toEqual([{ type: "text", text: "pong 2" }]);
+    expect(running.sessionCount).toBe(2);
+  });
+
+  it("should reject requests without the bearer token", async () => {
+    running = await startHttpServer(() => createTestServer({ calls: 0 }), { port: 0, token: TOKEN });
+
+    const missing = await fetch(running.url, { method: "POST", body: "{}" });
+    const wrong = await fetch(running.url, {
+      method: "POST",
+      headers: { Authorization: "Bearer nope" },
+      body: "{}",
+    });
+
+    expect(missing.status).toBe(401);
+    expect(missing.headers.get("www-authenticate")).toContain("Bearer");
+    expect(wrong.status).toBe(401);
+    await expect(connect(running.url, "nope")).rejects.toThrow();
+  });
+
+  it("should reject non-initialize requests without a session and unknown paths", async () => {
+    running = await startHttpServer(() => createTestServer({ calls: 0 }), { port: 0, token: TOKEN });
+    const headers = { Authorization: `Bearer ${TOKEN}`, "Content-Type": "application/json" };
+
+    const noSession = await fetch(running.url, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "tools/list" }),
+    });
+    const unknownSession = await fetch(running.url, {
+      method: "POST",
+      headers: { ...headers, "Mcp-Session-Id": "missing" },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "tools/list" }),
+    });
+    const wrongPath = await fetch(running.url.replace("/mcp", "/other"), { headers });
+
+    expect(noSession.status).toBe(400);
+    expect(unknownSession.status).toBe(404);
+    expect(wrongPath.status).toBe(404);
+  });
+
+  it("should close sessions that have gone idle", async () => {
+    running = await startHttpServer(() => createTestServer({ calls: 0 }), { port: 0, token: TOKEN, sessionIdleMs: 50 });
+    const headers = {
+      Authorization: `Bearer ${TOKEN}`,
+      "Content-Type": "application/json",
+      Accept: "application/json, text/event-stream",
+    };
+
+    const init = await fetch(running.url, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({
+        jsonrpc: "2.0",
+        id: 1,
+        method: "initialize",
+        params: { protocolVersion: "2025-03-26", capabilities: {}, clientInfo: { name: "gone", version: "1.0.0" } },
+      }),
+    });
+    await init.text();
+    const sessionId = init.headers.get("mcp-session-id")!;
+    expect(running.sessionCount).toBe(1);
+
+    await new Promise((resolve) => setTimeout(resolve, 200));
+    const after = await fetch(running.url, {
+      method: "POST",
+      headers: { ...headers, "Mcp-Session-Id": sessionId },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 2, method: "tools/list" }),
+    });
+
+    expect(running.sessionCount).toBe(0);
+    expect(after.status).toBe(404);
+  });
+});
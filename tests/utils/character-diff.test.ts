@@ -0,0 +1,83 @@
+import { describe, it, expect } from "vitest";
+import { diffCharacters } from "../../src/utils/character-diff.js";
+import type { DdbCharacter } from "../../src/types/character.js";
+
+function makeCharacter(overrides: Partial<DdbCharacter> = {}): DdbCharacter {
+  return {
+    id: 1,
+    name: "Vex",
+    classes: [{ definition: { name: "Rogue" }, level: 3 }],
+    baseHitPoints: 20,
+    bonusHitPoints: null,
+    overrideHitPoints: null,
+    removedHitPoints: 0,
+    temporaryHitPoints: 0,
+    currentXp: 900,
+    currencies: { cp: 0, sp: 5, ep: 0, gp: 50, pp: 0 },
+    inventory: [
+      { id: 1, definition: { name: "Dagger" }, equipped: true, quantity: 2 },
+      { id: 2, definition: { name: "Rope, Hempen (50 feet)" }, equipped: false, quantity: 1 },
+    ],
+    spells: { class: [], race: [], background: null, item: null, feat: null },
+    feats: [],
+    ...overrides,
+  } as unknown as DdbCharacter;
+}
+
+describe("diffCharacters", () => {
+  it("should report nothing for identical characters", () => {
+    expect(diffCharacters(makeCharacter(), makeCharacter())).toEqual([]);
+  });
+
+  it("should report HP, XP and level changes", () => {
+    const after = makeCharacter({
+      removedHitPoints: 7,
+      temporaryHitPoints: 5,
+      currentXp: 2700,
+      classes: [
+        { definition: { name: "Rogue" }, level: 4 },
+        { definition: { name: "Wizard" }, level: 1 },
+      ] as DdbCharacter["classes"],
+    });
+
+    expect(diffCharacters(makeCharacter(), after)).toEqual([
+      { section: "Hit Points", changes: ["HP 20/20 → 13/20 (-7)", "Temporary HP 0 → 5"] },
+      { section: "Experience", changes: ["XP 900 → 2,700 (+1,800)"] },
+      { section: "Level", changes: ["Level 3 → 5", "Rogue 3 → 4", "Added class Wizard 1"] },
+    ]);
+  });
+
+  it("should group inventory by item name", () => {
+    const after = makeCharacter({
+      inventory: [
+        { id: 1, definition: { name: "Dagger" }, equipped: false, quantity: 1 },
+        { id: 9, definition: { name: "Potion of Healing" }, equipped: false, quantity: 3 },
+      ] as DdbCharacter["inventory"],
+    });
+
+    expect(diffCharacters(makeCharacter(), after)).toEqual([
+      {
+        section: "Inventory",
+        changes: ["Dagger ×2 → ×1", "Unequipped Dagger", "Added Potion of Healing ×3", "Removed Rope, Hempen (50 feet)"],
+      },
+    ]);
+  });
+
+  it("should report spells, feats and currency", () => {
+    const spell = (name: string, prepared: boolean) => ({ definition: { name }, prepared, alwaysPrepared: false });
+    const before = makeCharacter({
+      spells: { class: [spell("Shield", false), spell("Sleep", true)], race: null, background: null, item: null, feat: null },
+    } as Partial<DdbCharacter>);
+    const after = makeCharacter({
+      spells: { class: [spell("Shield", true), spell("Misty Step", false)], race: null, background: null, item: null, feat: null },
+      feats: [{ definition: { name: "Alert" } }],
+      currencies: { cp: 0, sp: 0, ep: 0, gp: 35, pp: 1 },
+    } as Partial<DdbCharacter>);
+
+    expect(diffCharacters(before, after)).toEqual([
+      { section: "Spells", changes: ["Learned Misty Step", "Prepared Shield", "Lost Sleep"] },
+      { section: "Feats", changes: ["Gained Alert"] },
+      { section: "Currency", changes: ["pp 0 → 1 (+1)", "gp 50 → 35 (-15)", "sp 5 → 0 (-5)"] },
+    ]);
+  });
+});
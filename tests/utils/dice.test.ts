@@ -0,0 +1,96 @@
+import { describe, it, expect } from "vitest";
+import { createRandom, formatRoll, naturalD20, rollDice } from "../../src/utils/dice.js";
+
+/** Random source that yields the given die faces in order for dice of `sides` sides. */
+function faces(sides: number, ...values: number[]) {
+  let i = 0;
+  return () => (values[i++ % values.length] - 1) / sides;
+}
+
+describe("rollDice", () => {
+  it("should roll plain dice with flat modifiers", () => {
+    const result = rollDice("2d6 + 3", { random: faces(6, 4, 5) });
+
+    expect(result.total).toBe(12);
+    expect(formatRoll(result)).toBe("2d6 [4, 5] + 3 = **12**");
+  });
+
+  it("should subtract negative terms", () => {
+    expect(rollDice("1d8-1d4-2", { random: faces(8, 8, 2) }).total).toBe(8 - 1 - 2);
+  });
+
+  it("should keep the highest dice", () => {
+    const result = rollDice("4d6kh3", { random: faces(6, 1, 6, 3, 5) });
+
+    expect(result.total).toBe(14);
+    expect(formatRoll(result)).toBe("4d6kh3 [~~1~~, 6, 3, 5] = **14**");
+  });
+
+  it("should keep the lowest dice", () => {
+    expect(rollDice("2d20kl1+5", { random: faces(20, 17, 4) }).total).toBe(9);
+  });
+
+  it("should drop the lowest dice", () => {
+    expect(rollDice("4d6dl1", { random: faces(6, 2, 6, 3, 5) }).total).toBe(14);
+  });
+
+  it("should reroll once with ro", () => {
+    const result = rollDice("2d6ro<2", { random: faces(6, 1, 1, 5) });
+
+    // First die: 1 rerolled to 1 (kept); second die: 5
+    expect(result.total).toBe(6);
+    expect(result.terms[0].rolls.filter((r) => r.rerolled)).toHaveLength(1);
+  });
+
+  it("should keep rerolling with r until the die stops matching", () => {
+    expect(rollDice("1d6r1", { random: faces(6, 1, 1, 4) }).total).toBe(4);
+  });
+
+  it("should explode on the maximum face", () => {
+    const result = rollDice("1d6!", { random: faces(6, 6, 6, 2) });
+
+    expect(result.total).toBe(14);
+    expect(formatRoll(result)).toBe("1d6! [6, 6!, 2!] = **14**");
+  });
+
+  it("should treat d% as d100", () => {
+    expect(rollDice("d%", { random: faces(100, 73) }).total).toBe(73);
+  });
+
+  it("should apply advantage and disadvantage to the d20", () => {
+    const advantage = rollDice("1d20+5", { mode: "advantage", random: faces(20, 3, 18) });
+    const disadvantage = rollDice("1d20+5", { mode: "disadvantage", random: faces(20, 3, 18) });
+
+    expect(advantage.total).toBe(23);
+    expect(disadvantage.total).toBe(8);
+    expect(naturalD20(advantage)).toBe(18);
+    expect(formatRoll(advantage)).toBe("2d20kh1 [~~3~~, 18] + 5 = **23**");
+  });
+
+  it("should reject advantage without a d20", () => {
+    expect(() => rollDice("8d6", { mode: "advantage" })).toThrow("needs a single d20");
+  });
+
+  it("should be reproducible with a seed", () => {
+    const first = rollDice("10d20", { random: createRandom(1234) });
+    const second = rollDice("10d20", { random: createRandom(1234) });
+
+    expect(first.terms[0].rolls).toEqual(second.terms[0].rolls);
+    for (const roll of first.terms[0].rolls) {
+      expect(roll.value).toBeGreaterThanOrEqual(1);
+      expect(roll.value).toBeLessThanOrEqual(20);
+    }
+  });
+
+  it.each([
+    ["", "empty"],
+    ["abc", "Invalid dice term"],
+    ["1d20++5", "Invalid dice expression"],
+    ["0d6", "between 1 and 100 dice"],
+    ["4d6kh5", "can't keep 5 of 4 dice"],
+    ["1d1!", "never stop"],
+    ["2d6r<6", "every result would be rerolled"],
+  ])("should reject %j", (expression, message) => {
+    expect(() => rollDice(expression)).toThrow(message);
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect } from "vitest";
+import { parseActionBlock, parseMonsterActions } from "../../src/utils/monster-actions.js";
+
+describe("parseActionBlock", () => {
+  it("should parse 2014 weapon attacks with reach, range and extra damage", () => {
+    const actions = parseActionBlock(
+      "<p><em><strong>Scimitar.</strong></em> <em>Melee Weapon Attack:</em> +4 to hit, reach 5 ft., one target. <em>Hit:</em> 5 (1d6 + 2) slashing damage.</p>" +
+      "<p><em><strong>Shortbow.</strong></em> <em>Ranged Weapon Attack:</em> +4 to hit, range 80/320 ft., one target. <em>Hit:</em> 5 (1d6 + 2) piercing damage plus 7 (2d6) poison damage.</p>",
+      "action"
+    );
+
+    expect(actions).toHaveLength(2);
+    expect(actions[0]).toMatchObject({
+      kind: "action",
+      name: "Scimitar",
+      attackType: "melee weapon",
+      toHit: 4,
+      reach: 5,
+      range: null,
+      damage: [{ average: 5, dice: "1d6+2", type: "slashing" }],
+      save: null,
+      legendaryCost: null,
+    });
+    expect(actions[1].range).toEqual({ normal: 80, long: 320 });
+    expect(actions[1].damage).toEqual([
+      { average: 5, dice: "1d6+2", type: "piercing" },
+      { average: 7, dice: "2d6", type: "poison" },
+    ]);
+  });
+
+  it("should parse 2024 attack rolls and saving throws", () => {
+    const actions = parseActionBlock(
+      "<p><em><strong>Rend.</strong></em> <em>Melee Attack Roll:</em> +14, reach 15 ft. <em>Hit:</em> 17 (2d8 + 8) Slashing damage plus 4 (1d8) Fire damage.</p>" +
+      "<p><em><strong>Fire Breath (Recharge 5–6).</strong></em> <em>Dexterity Saving Throw:</em> DC 21, each creature in a 60-foot Cone. <em>Failure:</em> 59 (17d6) Fire damage. <em>Success:</em> Half damage.</p>",
+      "action"
+    );
+
+    expect(actions[0]).toMatchObject({ attackType: "melee", toHit: 14, reach: 15 });
+    expect(actions[0].damage.map((d) => d.type)).toEqual(["slashing", "fire"]);
+    expect(actions[1]).toMatchObject({
+      name: "Fire Breath",
+      attackType: null,
+      recharge: "5-6",
+      save: { dc: 21, ability: "DEX" },
+      damage: [{ average: 59, dice: "17d6", type: "fire" }],
+    });
+  });
+
+  it("should read limits from the name and fold unnamed paragraphs into the previous action", () => {
+    const actions = parseActionBlock(
+      "<p>The dragon can take 3 legendary actions, choosing from the options below.</p>" +
+      "<p><strong>Detect.</strong> The dragon makes a Wisdom (Perception) check.</p>" +
+      "<p><strong>Wing Attack (Costs 2 Actions).</strong> The dragon beats its wings.</p>" +
+      "<p>Each creature within 10 feet must succeed on a DC 19 Dexterity saving throw or take 13 (2d6 + 6) bludgeoning damage.</p>",
+      "legendary"
+    );
+
+    expect(actions.map((a) => [a.name, a.legendaryCost])).toEqual([["Detect", 1], ["Wing Attack", 2]]);
+    expect(actions[1].save).toEqual({ dc: 19, ability: "DEX" });
+    expect(actions[1].damage).toEqual([{ average: 13, dice: "2d6+6", type: "bludgeoning" }]);
+  });
+
+  it("should parse uses per day, rest recharges and flat damage", () => {
+    const actions = parseActionBlock(
+      "<p><strong>Teleport (2/Day).</strong> The mage teleports.</p>" +
+      "<p><strong>Shapechange (Recharges after a Short or Long Rest).</strong> It changes form.</p>" +
+      "<p><strong>Claws.</strong> <em>Melee Weapon Attack:</em> +4 to hit, reach 5 ft., one target. <em>Hit:</em> 1 slashing damage.</p>",
+      "bonus action"
+    );
+
+    expect(actions[0]).toMatchObject({ name: "Teleport", usesPerDay: 2, recharge: null });
+    expect(actions[1]).toMatchObject({ name: "Shapechange", recharge: "short or long rest" });
+    expect(actions[2].damage).toEqual([{ average: 1, dice: null, type: "slashing" }]);
+  });
+});
+
+describe("parseMonsterActions", () => {
+  it("should combine every section in stat block order", () => {
+    const actions = parseMonsterActions({
+      specialTraitsDescription: "<p><strong>Nimble Escape.</strong> Disengage or Hide as a bonus action.</p>",
+      actionsDescription: "<p><strong>Bite.</strong> <em>Melee Weapon Attack:</em> +3 to hit, reach 5 ft.</p>",
+      bonusActionsDescription: "",
+      reactionsDescription: "<p><strong>Parry.</strong> Adds 2 to its AC.</p>",
+      legendaryActionsDescription: "",
+      mythicActionsDescription: "",
+    });
+
+    expect(actions.map((a) => [a.kind, a.name])).toEqual([
+      ["trait", "Nimble Escape"],
+      ["action", "Bite"],
+      ["reaction", "Parry"],
+    ]);
+  });
+});